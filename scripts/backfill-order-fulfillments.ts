@@ -0,0 +1,56 @@
+import { NestFactory } from '@nestjs/core';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AppModule } from '../src/app.module';
+import {
+  buildOrderFulfillments,
+  FulfillmentStatus,
+  Order,
+} from '../src/schemas/order.schema';
+
+/**
+ * Give orders placed before per-seller fulfilment groups existed one group
+ * per seller. Every group inherits the order's status, tracking number and
+ * seller notes, so the derived order status stays the same.
+ */
+async function backfillOrderFulfillments() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const orderModel = app.get<Model<Order>>(getModelToken(Order.name));
+
+  const cursor = orderModel
+    .find({
+      $or: [
+        { fulfillments: { $exists: false } },
+        { fulfillments: { $size: 0 } },
+      ],
+    })
+    .lean()
+    .cursor();
+
+  let updated = 0;
+  for await (const order of cursor) {
+    const fulfillments = buildOrderFulfillments(
+      order.items,
+      order.status as unknown as FulfillmentStatus,
+    ).map((fulfillment) => ({
+      ...fulfillment,
+      trackingNumber: order.trackingNumber,
+      sellerNotes: (order as any).sellerNotes,
+    }));
+
+    await orderModel.updateOne(
+      { _id: order._id },
+      { $set: { fulfillments } },
+      { timestamps: false },
+    );
+    updated++;
+  }
+
+  console.log(` Backfilled fulfilment groups for ${updated} orders`);
+  await app.close();
+}
+
+backfillOrderFulfillments().catch((error) => {
+  console.error(' Order fulfilment backfill failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import { NestFactory } from '@nestjs/core';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AppModule } from '../src/app.module';
+import { Product } from '../src/schemas/product.schema';
+import { ReviewsService } from '../src/reviews/reviews.service';
+
+/**
+ * Recompute the rating aggregates of every product from its approved
+ * reviews. Review changes keep them up to date afterwards; rerunning is
+ * harmless.
+ */
+async function backfillProductRatings() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const productModel = app.get<Model<Product>>(getModelToken(Product.name));
+  const reviewsService = app.get(ReviewsService);
+
+  await productModel.createIndexes();
+
+  const cursor = productModel.find().select('_id').lean().cursor();
+
+  let updated = 0;
+  for await (const product of cursor) {
+    await reviewsService.refreshProductRating(product._id);
+    updated++;
+  }
+
+  console.log(` Backfilled rating aggregates for ${updated} products`);
+  await app.close();
+}
+
+backfillProductRatings().catch((error) => {
+  console.error(' Product rating backfill failed:', error);
+  process.exit(1);
+});
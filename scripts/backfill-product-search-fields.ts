@@ -0,0 +1,44 @@
+import { NestFactory } from '@nestjs/core';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { AppModule } from '../src/app.module';
+import {
+  buildProductSearchFields,
+  Product,
+} from '../src/schemas/product.schema';
+
+/**
+ * Fill the normalized search fields of every product and make sure the
+ * search indexes exist. Products saved after the fields were introduced
+ * keep them up to date on their own; rerunning is harmless.
+ */
+async function backfillProductSearchFields() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const productModel = app.get<Model<Product>>(getModelToken(Product.name));
+
+  await productModel.createIndexes();
+
+  const cursor = productModel
+    .find()
+    .select('name description tags')
+    .lean()
+    .cursor();
+
+  let updated = 0;
+  for await (const product of cursor) {
+    await productModel.updateOne(
+      { _id: product._id },
+      { $set: { search: buildProductSearchFields(product) } },
+      { timestamps: false },
+    );
+    updated++;
+  }
+
+  console.log(` Backfilled search fields for ${updated} products`);
+  await app.close();
+}
+
+backfillProductSearchFields().catch((error) => {
+  console.error(' Product search backfill failed:', error);
+  process.exit(1);
+});
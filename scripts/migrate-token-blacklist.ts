@@ -0,0 +1,51 @@
+import { NestFactory } from '@nestjs/core';
+import { getModelToken } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import { AppModule } from '../src/app.module';
+import { BlacklistedToken } from '../src/schemas/blacklisted-token.schema';
+
+/**
+ * Replace raw JWTs in the token blacklist with their SHA-256 hashes, drop
+ * the old index on the raw token and create the TTL index. Rerunning is
+ * harmless.
+ */
+async function migrateTokenBlacklist() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const blacklistedTokenModel = app.get<Model<BlacklistedToken>>(
+    getModelToken(BlacklistedToken.name),
+  );
+  const collection = blacklistedTokenModel.collection;
+
+  const cursor = collection.find<{ _id: Types.ObjectId; token: string }>({
+    token: { $type: 'string' },
+  });
+
+  let migrated = 0;
+  for await (const entry of cursor) {
+    await collection.updateOne(
+      { _id: entry._id },
+      {
+        $set: {
+          tokenHash: createHash('sha256').update(entry.token).digest('hex'),
+        },
+        $unset: { token: '' },
+      },
+    );
+    migrated++;
+  }
+
+  const indexes = await collection.indexes();
+  if (indexes.some((index) => index.name === 'token_1')) {
+    await collection.dropIndex('token_1');
+  }
+  await blacklistedTokenModel.syncIndexes();
+
+  console.log(` Hashed ${migrated} blacklisted tokens`);
+  await app.close();
+}
+
+migrateTokenBlacklist().catch((error) => {
+  console.error(' Token blacklist migration failed:', error);
+  process.exit(1);
+});
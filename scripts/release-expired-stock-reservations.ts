@@ -0,0 +1,23 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../src/app.module';
+import { StockReservationService } from '../src/orders/stock-reservation.service';
+
+/**
+ * Hand back the stock of checkouts abandoned before an order was placed.
+ * Checkouts already do this on the fly; run it periodically (e.g. from
+ * cron) so stock also returns while nobody is checking out.
+ */
+async function releaseExpiredStockReservations() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const stockReservationService = app.get(StockReservationService);
+
+  const released = await stockReservationService.releaseExpired();
+
+  console.log(` Released ${released} expired stock reservations`);
+  await app.close();
+}
+
+releaseExpiredStockReservations().catch((error) => {
+  console.error(' Releasing expired stock reservations failed:', error);
+  process.exit(1);
+});
@@ -32,8 +32,12 @@ import { CampaignWithDetails, CampaignStats } from './admin-campaigns.service';
 import {
   CreatePlatformCampaignDto,
   UpdatePlatformCampaignDto,
+  GenerateCampaignCodesDto,
+  FindCampaignCodesDto,
   createPlatformCampaignSchema,
   updatePlatformCampaignSchema,
+  generateCampaignCodesSchema,
+  findCampaignCodesSchema,
 } from './dto';
 import { CampaignErrorMessages } from './enums/campaign-error.enum';
 import { CampaignType, DiscountType } from '../../schemas/campaign.schema';
@@ -70,6 +74,8 @@ export class AdminCampaignsController {
         startDate: { type: 'string', format: 'date-time' },
         endDate: { type: 'string', format: 'date-time' },
         isActive: { type: 'boolean' },
+        code: { type: 'string' },
+        requiresCode: { type: 'boolean' },
         products: {
           type: 'array',
           items: {
@@ -114,6 +120,10 @@ export class AdminCampaignsController {
     status: 400,
     description: CampaignErrorMessages.INVALID_CATEGORIES,
   })
+  @ApiResponse({
+    status: 400,
+    description: CampaignErrorMessages.CODE_ALREADY_EXISTS,
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   async createPlatformCampaign(
@@ -263,6 +273,8 @@ export class AdminCampaignsController {
         startDate: { type: 'string', format: 'date-time' },
         endDate: { type: 'string', format: 'date-time' },
         isActive: { type: 'boolean' },
+        code: { type: 'string' },
+        requiresCode: { type: 'boolean' },
         products: {
           type: 'array',
           items: {
@@ -329,6 +341,8 @@ export class AdminCampaignsController {
         startDate: { type: 'string', format: 'date-time' },
         endDate: { type: 'string', format: 'date-time' },
         isActive: { type: 'boolean' },
+        code: { type: 'string' },
+        requiresCode: { type: 'boolean' },
         products: {
           type: 'array',
           items: {
@@ -377,6 +391,10 @@ export class AdminCampaignsController {
     status: 400,
     description: CampaignErrorMessages.INVALID_CATEGORIES,
   })
+  @ApiResponse({
+    status: 400,
+    description: CampaignErrorMessages.CODE_ALREADY_EXISTS,
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   async updateCampaign(
@@ -441,6 +459,8 @@ export class AdminCampaignsController {
         startDate: { type: 'string', format: 'date-time' },
         endDate: { type: 'string', format: 'date-time' },
         isActive: { type: 'boolean' },
+        code: { type: 'string' },
+        requiresCode: { type: 'boolean' },
         products: {
           type: 'array',
           items: {
@@ -559,6 +579,99 @@ export class AdminCampaignsController {
     return this.adminCampaignsService.deleteCampaignImage(campaignId);
   }
 
+  @Post(':id/codes')
+  @ApiOperation({
+    summary: 'Generate single-use coupon codes',
+    description:
+      'Bulk-generate single-use coupon codes for a campaign. The campaign then only applies through a code',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Coupon codes generated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        campaignId: { type: 'string' },
+        count: { type: 'number', example: 500 },
+        codes: {
+          type: 'array',
+          items: { type: 'string', example: 'SPRINGK7MX2QRT' },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: CampaignErrorMessages.CAMPAIGN_NOT_FOUND,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async generateCampaignCodes(
+    @Param('id') id: string,
+    @Body(new ZodValidationPipe(generateCampaignCodesSchema))
+    generateDto: GenerateCampaignCodesDto,
+  ) {
+    return this.adminCampaignsService.generateCampaignCodes(id, generateDto);
+  }
+
+  @Get(':id/codes')
+  @ApiOperation({
+    summary: 'Get generated coupon codes',
+    description: 'List single-use coupon codes of a campaign with usage',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Campaign ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, type: Number, example: 50 })
+  @ApiResponse({
+    status: 200,
+    description: 'Coupon codes retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              code: { type: 'string' },
+              isUsed: { type: 'boolean' },
+              usedAt: { type: 'string', format: 'date-time' },
+              usedBy: { type: 'string' },
+              orderId: { type: 'string' },
+            },
+          },
+        },
+        total: { type: 'number' },
+        used: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: CampaignErrorMessages.CAMPAIGN_NOT_FOUND,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  async findCampaignCodes(
+    @Param('id') id: string,
+    @Query(new ZodValidationPipe(findCampaignCodesSchema))
+    query: FindCampaignCodesDto,
+  ) {
+    return this.adminCampaignsService.findCampaignCodes(id, query);
+  }
+
   @Get('stats/overview')
   @ApiOperation({
     summary: 'Get campaign statistics',
@@ -578,6 +691,16 @@ export class AdminCampaignsController {
         current: { type: 'number', example: 25 },
         upcoming: { type: 'number', example: 10 },
         expired: { type: 'number', example: 15 },
+        exhausted: { type: 'number', example: 2 },
+        redemptions: {
+          type: 'object',
+          properties: {
+            total: { type: 'number', example: 420 },
+            platform: { type: 'number', example: 300 },
+            seller: { type: 'number', example: 120 },
+            totalDiscountGiven: { type: 'number', example: 15230.5 },
+          },
+        },
       },
     },
   })
@@ -5,7 +5,12 @@ import { AdminCampaignsService } from './admin-campaigns.service';
 import { Campaign, CampaignSchema } from '../../schemas/campaign.schema';
 import { Product, ProductSchema } from '../../schemas/product.schema';
 import { Category, CategorySchema } from '../../schemas/category.schema';
+import {
+  CampaignRedemption,
+  CampaignRedemptionSchema,
+} from '../../schemas/campaign-redemption.schema';
 import { MinioService } from '../../minio/minio.service';
+import { CampaignsModule } from '../../campaigns/campaigns.module';
 
 @Module({
   imports: [
@@ -13,7 +18,9 @@ import { MinioService } from '../../minio/minio.service';
       { name: Campaign.name, schema: CampaignSchema },
       { name: Product.name, schema: ProductSchema },
       { name: Category.name, schema: CategorySchema },
+      { name: CampaignRedemption.name, schema: CampaignRedemptionSchema },
     ]),
+    CampaignsModule,
   ],
   controllers: [AdminCampaignsController],
   providers: [AdminCampaignsService, MinioService],
@@ -15,11 +15,22 @@ import {
 } from '../../schemas/campaign.schema';
 import { Product, ProductDocument } from '../../schemas/product.schema';
 import { Category, CategoryDocument } from '../../schemas/category.schema';
+import {
+  CampaignRedemption,
+  CampaignRedemptionDocument,
+  RedemptionStatus,
+} from '../../schemas/campaign-redemption.schema';
 import {
   CampaignError,
   CampaignErrorMessages,
 } from './enums/campaign-error.enum';
-import { CreatePlatformCampaignDto, UpdatePlatformCampaignDto } from './dto';
+import {
+  CreatePlatformCampaignDto,
+  UpdatePlatformCampaignDto,
+  GenerateCampaignCodesDto,
+  FindCampaignCodesDto,
+} from './dto';
+import { CouponCodeService } from '../../campaigns/services/coupon-code.service';
 
 export interface FindAllCampaignsOptions {
   page: number;
@@ -47,6 +58,12 @@ export interface CampaignWithDetails {
   startDate: Date;
   endDate: Date;
   isActive: boolean;
+  maxUsage?: number;
+  maxUsagePerCustomer?: number;
+  minOrderAmount?: number;
+  usageCount: number;
+  code?: string;
+  requiresCode: boolean;
   products: {
     _id: string;
     name: string;
@@ -71,6 +88,13 @@ export interface CampaignStats {
   current: number;
   upcoming: number;
   expired: number;
+  exhausted: number;
+  redemptions: {
+    total: number;
+    platform: number;
+    seller: number;
+    totalDiscountGiven: number;
+  };
 }
 
 @Injectable()
@@ -79,8 +103,11 @@ export class AdminCampaignsService {
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(CampaignRedemption.name)
+    private redemptionModel: Model<CampaignRedemptionDocument>,
     private minioService: MinioService,
     private readonly configService: ConfigService,
+    private readonly couponCodeService: CouponCodeService,
   ) {}
 
   async createPlatformCampaign(
@@ -126,11 +153,25 @@ export class AdminCampaignsService {
       }
     }
 
+    // Coupon codes must be unique across all campaigns
+    if (
+      createDto.code &&
+      (await this.couponCodeService.isCodeTaken(createDto.code))
+    ) {
+      throw new BadRequestException(
+        CampaignErrorMessages[CampaignError.CODE_ALREADY_EXISTS],
+      );
+    }
+
     const campaign = new this.campaignModel({
       ...createDto,
       type: CampaignType.PLATFORM,
       productIds: createDto.productIds || [],
       categoryIds: createDto.categoryIds || [],
+      code: createDto.code
+        ? this.couponCodeService.normalizeCode(createDto.code)
+        : undefined,
+      requiresCode: !!createDto.code || !!createDto.requiresCode,
     });
 
     const savedCampaign = await campaign.save();
@@ -191,6 +232,12 @@ export class AdminCampaignsService {
           startDate: campaign.startDate,
           endDate: campaign.endDate,
           isActive: campaign.isActive,
+          maxUsage: campaign.maxUsage,
+          maxUsagePerCustomer: campaign.maxUsagePerCustomer,
+          minOrderAmount: campaign.minOrderAmount,
+          usageCount: campaign.usageCount || 0,
+          code: campaign.code,
+          requiresCode: campaign.requiresCode || false,
           products: products.map((product) => ({
             _id: (product._id as any).toString(),
             name: product.name,
@@ -247,6 +294,12 @@ export class AdminCampaignsService {
       startDate: campaign.startDate,
       endDate: campaign.endDate,
       isActive: campaign.isActive,
+      maxUsage: campaign.maxUsage,
+      maxUsagePerCustomer: campaign.maxUsagePerCustomer,
+      minOrderAmount: campaign.minOrderAmount,
+      usageCount: campaign.usageCount || 0,
+      code: campaign.code,
+      requiresCode: campaign.requiresCode || false,
       products: products.map((product) => ({
         _id: (product._id as any).toString(),
         name: product.name,
@@ -322,6 +375,16 @@ export class AdminCampaignsService {
       }
     }
 
+    // Validate coupon code uniqueness if provided
+    if (
+      updateDto.code &&
+      (await this.couponCodeService.isCodeTaken(updateDto.code, id))
+    ) {
+      throw new BadRequestException(
+        CampaignErrorMessages[CampaignError.CODE_ALREADY_EXISTS],
+      );
+    }
+
     // Update campaign
     const updatedCampaign = await this.campaignModel
       .findByIdAndUpdate(
@@ -330,6 +393,10 @@ export class AdminCampaignsService {
           ...updateDto,
           productIds: updateDto.productIds || campaign.productIds,
           categoryIds: updateDto.categoryIds || campaign.categoryIds,
+          ...(updateDto.code && {
+            code: this.couponCodeService.normalizeCode(updateDto.code),
+            requiresCode: true,
+          }),
         },
         { new: true },
       )
@@ -353,6 +420,7 @@ export class AdminCampaignsService {
     }
 
     await this.campaignModel.findByIdAndDelete(id).exec();
+    await this.couponCodeService.deleteCodes(id);
 
     return {
       message: CampaignErrorMessages[CampaignError.CAMPAIGN_DELETED_SUCCESS],
@@ -374,6 +442,39 @@ export class AdminCampaignsService {
     return this.findCampaignById(id);
   }
 
+  async generateCampaignCodes(
+    id: string,
+    generateDto: GenerateCampaignCodesDto,
+  ): Promise<{ campaignId: string; count: number; codes: string[] }> {
+    const campaign = await this.campaignModel.findById(id).exec();
+
+    if (!campaign) {
+      throw new NotFoundException(
+        CampaignErrorMessages[CampaignError.CAMPAIGN_NOT_FOUND],
+      );
+    }
+
+    const codes = await this.couponCodeService.generateCodes(
+      id,
+      generateDto.count,
+      generateDto.prefix,
+    );
+
+    return { campaignId: id, count: codes.length, codes };
+  }
+
+  async findCampaignCodes(id: string, options: FindCampaignCodesDto) {
+    const campaign = await this.campaignModel.findById(id).exec();
+
+    if (!campaign) {
+      throw new NotFoundException(
+        CampaignErrorMessages[CampaignError.CAMPAIGN_NOT_FOUND],
+      );
+    }
+
+    return this.couponCodeService.findCodes(id, options.page, options.limit);
+  }
+
   async getCampaignStats(): Promise<CampaignStats> {
     const now = new Date();
 
@@ -384,18 +485,54 @@ export class AdminCampaignsService {
       this.campaignModel.countDocuments({ type: CampaignType.SELLER }),
     ]);
 
-    const [current, upcoming, expired] = await Promise.all([
-      this.campaignModel.countDocuments({
-        startDate: { $lte: now },
-        endDate: { $gte: now },
-      }),
-      this.campaignModel.countDocuments({
-        startDate: { $gt: now },
-      }),
-      this.campaignModel.countDocuments({
-        endDate: { $lt: now },
-      }),
-    ]);
+    const [current, upcoming, expired, exhausted, redemptionStats] =
+      await Promise.all([
+        this.campaignModel.countDocuments({
+          startDate: { $lte: now },
+          endDate: { $gte: now },
+        }),
+        this.campaignModel.countDocuments({
+          startDate: { $gt: now },
+        }),
+        this.campaignModel.countDocuments({
+          endDate: { $lt: now },
+        }),
+        this.campaignModel.countDocuments({
+          maxUsage: { $gt: 0 },
+          $expr: { $gte: ['$usageCount', '$maxUsage'] },
+        }),
+        this.redemptionModel.aggregate([
+          { $match: { status: RedemptionStatus.REDEEMED } },
+          {
+            $lookup: {
+              from: 'campaigns',
+              localField: 'campaignId',
+              foreignField: '_id',
+              as: 'campaign',
+            },
+          },
+          { $unwind: '$campaign' },
+          {
+            $group: {
+              _id: '$campaign.type',
+              count: { $sum: 1 },
+              discount: { $sum: '$discountAmount' },
+            },
+          },
+        ]),
+      ]);
+
+    const redemptionsByType = redemptionStats.reduce(
+      (acc, item) => {
+        acc[item._id] = item;
+        return acc;
+      },
+      {} as Record<string, { count: number; discount: number }>,
+    );
+    const platformRedemptions =
+      redemptionsByType[CampaignType.PLATFORM]?.count || 0;
+    const sellerRedemptions =
+      redemptionsByType[CampaignType.SELLER]?.count || 0;
 
     return {
       total,
@@ -406,6 +543,15 @@ export class AdminCampaignsService {
       current,
       upcoming,
       expired,
+      exhausted,
+      redemptions: {
+        total: platformRedemptions + sellerRedemptions,
+        platform: platformRedemptions,
+        seller: sellerRedemptions,
+        totalDiscountGiven:
+          (redemptionsByType[CampaignType.PLATFORM]?.discount || 0) +
+          (redemptionsByType[CampaignType.SELLER]?.discount || 0),
+      },
     };
   }
 
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const generateCampaignCodesSchema = z.object({
+  count: z.number().int().min(1).max(1000),
+  prefix: z
+    .string()
+    .trim()
+    .max(10)
+    .regex(/^[A-Za-z0-9]*$/)
+    .optional(),
+});
+
+export const findCampaignCodesSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type GenerateCampaignCodesDto = z.infer<
+  typeof generateCampaignCodesSchema
+>;
+export type FindCampaignCodesDto = z.infer<typeof findCampaignCodesSchema>;
@@ -1,2 +1,3 @@
 export * from './create-platform-campaign.dto';
 export * from './update-platform-campaign.dto';
+export * from './generate-campaign-codes.dto';
@@ -12,6 +12,17 @@ export const updatePlatformCampaignSchema = z.object({
   categoryIds: z.array(z.string()).optional(),
   isActive: z.boolean().optional(),
   imageUrl: z.string().optional(),
+  maxUsage: z.number().int().min(1).optional(),
+  maxUsagePerCustomer: z.number().int().min(1).optional(),
+  minOrderAmount: z.number().min(0).optional(),
+  code: z
+    .string()
+    .trim()
+    .min(3)
+    .max(30)
+    .regex(/^[A-Za-z0-9_-]+$/)
+    .optional(),
+  requiresCode: z.boolean().optional(),
 });
 
 export type UpdatePlatformCampaignDto = z.infer<
@@ -5,6 +5,7 @@ export enum CampaignError {
   INVALID_DISCOUNT_VALUE = 'INVALID_DISCOUNT_VALUE',
   INVALID_PRODUCTS = 'INVALID_PRODUCTS',
   INVALID_CATEGORIES = 'INVALID_CATEGORIES',
+  CODE_ALREADY_EXISTS = 'CODE_ALREADY_EXISTS',
   CAMPAIGN_DELETED_SUCCESS = 'CAMPAIGN_DELETED_SUCCESS',
   CAMPAIGN_CREATED_SUCCESS = 'CAMPAIGN_CREATED_SUCCESS',
   CAMPAIGN_UPDATED_SUCCESS = 'CAMPAIGN_UPDATED_SUCCESS',
@@ -17,6 +18,7 @@ export const CampaignErrorMessages: Record<CampaignError, string> = {
     'Percentage discount cannot exceed 100%',
   [CampaignError.INVALID_PRODUCTS]: 'One or more products not found',
   [CampaignError.INVALID_CATEGORIES]: 'One or more categories not found',
+  [CampaignError.CODE_ALREADY_EXISTS]: 'This coupon code is already in use',
   [CampaignError.CAMPAIGN_DELETED_SUCCESS]: 'Campaign deleted successfully',
   [CampaignError.CAMPAIGN_CREATED_SUCCESS]: 'Campaign created successfully',
   [CampaignError.CAMPAIGN_UPDATED_SUCCESS]: 'Campaign updated successfully',
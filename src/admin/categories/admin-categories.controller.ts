@@ -138,16 +138,30 @@ export class AdminCategoriesController {
 
   @Delete(':id')
   @ApiOperation({ summary: 'Delete category' })
+  @ApiQuery({
+    name: 'reparentChildren',
+    required: false,
+    type: Boolean,
+    description:
+      "Move subcategories up to the deleted category's parent instead of refusing the deletion",
+  })
   @ApiResponse({
     status: 200,
     description: 'Category deleted successfully',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Category has subcategories',
+  })
   @ApiResponse({
     status: 404,
     description: 'Category not found',
   })
-  async remove(@Param('id') id: string) {
-    return this.adminCategoriesService.remove(id);
+  async remove(
+    @Param('id') id: string,
+    @Query('reparentChildren') reparentChildren?: string,
+  ) {
+    return this.adminCategoriesService.remove(id, reparentChildren === 'true');
   }
 
   @Put(':id/toggle-status')
@@ -4,7 +4,7 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { ConfigService } from '@nestjs/config';
 import { Category, CategoryDocument } from '../../schemas/category.schema';
 import { CreateCategoryDto, UpdateCategoryDto } from './dto';
@@ -35,9 +35,14 @@ export class AdminCategoriesService {
   ) {}
 
   async create(createCategoryDto: CreateCategoryDto): Promise<Category> {
-    // Check if category with same name exists
+    const { parentId, ancestors } = await this.resolveParent(
+      createCategoryDto.parentId,
+    );
+
+    // Check if a sibling category with same name exists
     const existingCategory = await this.categoryModel.findOne({
       name: { $regex: new RegExp(`^${createCategoryDto.name}$`, 'i') },
+      parentId,
     });
 
     if (existingCategory) {
@@ -48,6 +53,8 @@ export class AdminCategoriesService {
 
     const category = new this.categoryModel({
       ...createCategoryDto,
+      parentId,
+      ancestors,
       isActive: createCategoryDto.isActive ?? true,
     });
     return category.save();
@@ -111,13 +118,34 @@ export class AdminCategoriesService {
       throw new NotFoundException('Category not found');
     }
 
-    // Check if name is being changed and if it conflicts with existing category
+    const { parentId: newParentId, ...fields } = updateCategoryDto;
+    const isMoving =
+      newParentId !== undefined &&
+      (newParentId || null) !== (existingCategory.parentId?.toString() || null);
+    const { parentId, ancestors } = isMoving
+      ? await this.resolveParent(
+          newParentId,
+          existingCategory._id as Types.ObjectId,
+        )
+      : {
+          parentId: existingCategory.parentId || null,
+          ancestors: existingCategory.ancestors || [],
+        };
+
+    // Check if name or parent is being changed and if it conflicts with a sibling
     if (
-      updateCategoryDto.name &&
-      updateCategoryDto.name !== existingCategory.name
+      (updateCategoryDto.name &&
+        updateCategoryDto.name !== existingCategory.name) ||
+      isMoving
     ) {
       const duplicateCategory = await this.categoryModel.findOne({
-        name: { $regex: new RegExp(`^${updateCategoryDto.name}$`, 'i') },
+        name: {
+          $regex: new RegExp(
+            `^${updateCategoryDto.name || existingCategory.name}$`,
+            'i',
+          ),
+        },
+        parentId,
         _id: { $ne: id },
       });
 
@@ -129,7 +157,11 @@ export class AdminCategoriesService {
     }
 
     const updatedCategory = await this.categoryModel
-      .findByIdAndUpdate(id, updateCategoryDto, { new: true })
+      .findByIdAndUpdate(
+        id,
+        isMoving ? { ...fields, parentId, ancestors } : fields,
+        { new: true },
+      )
       .exec();
 
     if (!updatedCategory) {
@@ -138,10 +170,23 @@ export class AdminCategoriesService {
       );
     }
 
+    if (isMoving) {
+      await this.rebaseDescendants(updatedCategory);
+    }
+
     return updatedCategory;
   }
 
-  async remove(id: string): Promise<{ message: string }> {
+  /**
+   * Delete a category
+   *
+   * Categories with subcategories are only deleted with reparentChildren,
+   * which moves the children up to the deleted category's parent.
+   */
+  async remove(
+    id: string,
+    reparentChildren = false,
+  ): Promise<{ message: string }> {
     const category = await this.categoryModel.findById(id);
     if (!category) {
       throw new NotFoundException(
@@ -149,6 +194,25 @@ export class AdminCategoriesService {
       );
     }
 
+    const hasChildren = await this.categoryModel.exists({
+      parentId: category._id,
+    });
+    if (hasChildren && !reparentChildren) {
+      throw new BadRequestException(
+        CategoryErrorMessages[CategoryError.CATEGORY_HAS_CHILDREN],
+      );
+    }
+    if (hasChildren) {
+      await this.categoryModel.updateMany(
+        { parentId: category._id },
+        { $set: { parentId: category.parentId || null } },
+      );
+      await this.categoryModel.updateMany(
+        { ancestors: category._id },
+        { $pull: { ancestors: category._id } },
+      );
+    }
+
     // Check if category has associated products (can be implemented in the future)
     // const productsCount = await this.productModel.countDocuments({ categoryId: id });
     // if (productsCount > 0) {
@@ -161,6 +225,78 @@ export class AdminCategoriesService {
     };
   }
 
+  /**
+   * Resolve a parent category and the ancestors of its children
+   *
+   * @param parentId - Parent category ID; empty for a root category
+   * @param categoryId - Category being moved, which cannot become its own
+   * descendant
+   */
+  private async resolveParent(
+    parentId?: string | null,
+    categoryId?: Types.ObjectId,
+  ): Promise<{
+    parentId: Types.ObjectId | null;
+    ancestors: Types.ObjectId[];
+  }> {
+    if (!parentId) {
+      return { parentId: null, ancestors: [] };
+    }
+
+    const parent = await this.categoryModel.findById(parentId);
+    if (!parent) {
+      throw new NotFoundException(
+        CategoryErrorMessages[CategoryError.PARENT_CATEGORY_NOT_FOUND],
+      );
+    }
+
+    const ancestors = [
+      ...(parent.ancestors || []),
+      parent._id as Types.ObjectId,
+    ];
+    if (categoryId && ancestors.some((id) => id.equals(categoryId))) {
+      throw new BadRequestException(
+        CategoryErrorMessages[CategoryError.INVALID_PARENT_CATEGORY],
+      );
+    }
+
+    return { parentId: parent._id as Types.ObjectId, ancestors };
+  }
+
+  /**
+   * Rewrite the ancestors of every descendant after a category moved
+   *
+   * @param category - Moved category with its new ancestors
+   */
+  private async rebaseDescendants(category: CategoryDocument): Promise<void> {
+    const descendants = await this.categoryModel
+      .find({ ancestors: category._id })
+      .select('ancestors')
+      .lean();
+    if (descendants.length === 0) return;
+
+    await this.categoryModel.bulkWrite(
+      descendants.map((descendant) => {
+        const index = descendant.ancestors.findIndex((id) =>
+          id.equals(category._id as Types.ObjectId),
+        );
+        return {
+          updateOne: {
+            filter: { _id: descendant._id },
+            update: {
+              $set: {
+                ancestors: [
+                  ...category.ancestors,
+                  ...descendant.ancestors.slice(index),
+                ],
+              },
+            },
+          },
+        };
+      }),
+    );
+  }
+
   async toggleStatus(id: string): Promise<Category> {
     const category = await this.categoryModel.findById(id);
     if (!category) {
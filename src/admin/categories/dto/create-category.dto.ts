@@ -1,8 +1,42 @@
 import { z } from 'zod';
+import { AttributeType } from '../../../schemas/category.schema';
+
+export const categoryAttributeSchema = z
+  .object({
+    key: z
+      .string()
+      .regex(
+        /^[a-z0-9_]+$/,
+        'Attribute key may only contain lowercase letters, digits and underscores',
+      )
+      .max(50),
+    label: z.string().min(1).max(50),
+    type: z.nativeEnum(AttributeType),
+    options: z.array(z.string().min(1).max(50)).optional().default([]),
+    unit: z.string().max(20).optional(),
+    required: z.boolean().optional().default(false),
+    filterable: z.boolean().optional().default(true),
+  })
+  .refine(
+    (attribute) =>
+      attribute.type !== AttributeType.ENUM || attribute.options.length > 0,
+    'Enum attributes need at least one option',
+  );
+
+export const categoryAttributesSchema = z
+  .array(categoryAttributeSchema)
+  .refine(
+    (attributes) =>
+      new Set(attributes.map((attribute) => attribute.key)).size ===
+      attributes.length,
+    'Attribute keys must be unique',
+  );
 
 export const createCategorySchema = z.object({
   name: z.string().min(2).max(50),
   description: z.string().max(500).optional(),
+  parentId: z.string().min(1).optional(),
+  attributes: categoryAttributesSchema.optional(),
   isActive: z.boolean().optional().default(true),
 });
 
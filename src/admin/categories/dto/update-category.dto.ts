@@ -1,9 +1,13 @@
 import { z } from 'zod';
+import { categoryAttributesSchema } from './create-category.dto';
 
 export const updateCategorySchema = z.object({
   name: z.string().min(2).max(50).optional(),
   description: z.string().max(500).optional(),
   image: z.string().optional(),
+  // null moves the category to the root
+  parentId: z.string().min(1).nullable().optional(),
+  attributes: categoryAttributesSchema.optional(),
   isActive: z.boolean().optional(),
 });
 
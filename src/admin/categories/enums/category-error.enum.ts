@@ -4,9 +4,14 @@ export enum CategoryError {
 
   // Category not found errors
   CATEGORY_NOT_FOUND = 'CATEGORY_NOT_FOUND',
+  PARENT_CATEGORY_NOT_FOUND = 'PARENT_CATEGORY_NOT_FOUND',
+
+  // Category hierarchy errors
+  INVALID_PARENT_CATEGORY = 'INVALID_PARENT_CATEGORY',
 
   // Category deletion errors
   CATEGORY_HAS_PRODUCTS = 'CATEGORY_HAS_PRODUCTS',
+  CATEGORY_HAS_CHILDREN = 'CATEGORY_HAS_CHILDREN',
 
   // Success messages
   CATEGORY_CREATED_SUCCESS = 'CATEGORY_CREATED_SUCCESS',
@@ -19,8 +24,13 @@ export const CategoryErrorMessages: Record<CategoryError, string> = {
   [CategoryError.CATEGORY_ALREADY_EXISTS]:
     'Category with this name already exists',
   [CategoryError.CATEGORY_NOT_FOUND]: 'Category not found',
+  [CategoryError.PARENT_CATEGORY_NOT_FOUND]: 'Parent category not found',
+  [CategoryError.INVALID_PARENT_CATEGORY]:
+    'A category cannot be moved under itself or one of its subcategories',
   [CategoryError.CATEGORY_HAS_PRODUCTS]:
     'Cannot delete category with associated products',
+  [CategoryError.CATEGORY_HAS_CHILDREN]:
+    'Cannot delete category with subcategories. Move them first or delete with reparentChildren=true',
   [CategoryError.CATEGORY_CREATED_SUCCESS]: 'Category created successfully',
   [CategoryError.CATEGORY_UPDATED_SUCCESS]: 'Category updated successfully',
   [CategoryError.CATEGORY_DELETED_SUCCESS]: 'Category deleted successfully',
@@ -11,6 +11,8 @@ import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../../common/guards/roles.guard';
 import { Roles } from '../../common/decorators/roles.decorator';
 import { UserRole } from '../../schemas/user.schema';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { searchAnalyticsSchema } from './dto/search-analytics.dto';
 
 /**
  * Admin Dashboard Controller
@@ -21,6 +23,7 @@ import { UserRole } from '../../schemas/user.schema';
  * - Chart data for data visualization
  * - System health monitoring
  * - Performance analytics
+ * - Search analytics
  *
  * All endpoints require admin authentication and permissions.
  */
@@ -247,6 +250,46 @@ export class AdminDashboardController {
             },
           },
         },
+        returns: {
+          type: 'object',
+          properties: {
+            total: {
+              type: 'number',
+              description: 'Total return requests',
+              example: 84,
+            },
+            requested: {
+              type: 'number',
+              description: 'Return requests awaiting a seller decision',
+              example: 12,
+            },
+            approved: {
+              type: 'number',
+              description: 'Approved returns awaiting refund',
+              example: 7,
+            },
+            rejected: {
+              type: 'number',
+              description: 'Rejected returns',
+              example: 9,
+            },
+            refunded: {
+              type: 'number',
+              description: 'Refunded returns',
+              example: 56,
+            },
+            refundedAmount: {
+              type: 'number',
+              description: 'Total amount refunded for returns',
+              example: 18450.5,
+            },
+            returnRate: {
+              type: 'number',
+              description: 'Percentage of orders with a return request',
+              example: 2.35,
+            },
+          },
+        },
         systemHealth: {
           type: 'object',
           properties: {
@@ -484,6 +527,104 @@ export class AdminDashboardController {
     return this.adminDashboardService.getChartData(validatedDays);
   }
 
+  /**
+   * Get search analytics
+   *
+   * Reports what customers search for: top queries, queries that returned
+   * nothing and how often searches lead to a click on a result.
+   *
+   * @returns Search analytics for the date range
+   */
+  @Get('search-analytics')
+  @ApiOperation({
+    summary: 'Get search analytics',
+    description:
+      'Top search queries, zero-result queries and click-through rate over a date range',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
+    type: String,
+    description: 'Range start (ISO date, default: 30 days before endDate)',
+    example: '2024-01-01',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
+    type: String,
+    description: 'Range end (ISO date, default: now)',
+    example: '2024-01-31',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Number of queries per list (default: 20, max: 100)',
+    example: 20,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Search analytics retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        period: {
+          type: 'object',
+          properties: {
+            startDate: { type: 'string', format: 'date-time' },
+            endDate: { type: 'string', format: 'date-time' },
+          },
+        },
+        summary: {
+          type: 'object',
+          properties: {
+            totalSearches: { type: 'number', example: 1520 },
+            uniqueQueries: { type: 'number', example: 640 },
+            zeroResultSearches: { type: 'number', example: 85 },
+            zeroResultRate: { type: 'number', example: 5.59 },
+            clickedSearches: { type: 'number', example: 910 },
+            clickThroughRate: { type: 'number', example: 59.87 },
+          },
+        },
+        topQueries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              query: { type: 'string', example: 'kirmizi elbise' },
+              searches: { type: 'number', example: 42 },
+              averageResults: { type: 'number', example: 18.5 },
+              clicks: { type: 'number', example: 30 },
+              clickThroughRate: { type: 'number', example: 71.43 },
+            },
+          },
+        },
+        zeroResultQueries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              query: { type: 'string', example: 'kablosuz sarj' },
+              searches: { type: 'number', example: 12 },
+              lastSearchedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async getSearchAnalytics(
+    @Query(new ZodValidationPipe(searchAnalyticsSchema)) query: any,
+  ) {
+    return this.adminDashboardService.getSearchAnalytics(query);
+  }
+
   /**
    * Get system health overview
    *
@@ -8,6 +8,14 @@ import { Order, OrderSchema } from '../../schemas/order.schema';
 import { Campaign, CampaignSchema } from '../../schemas/campaign.schema';
 import { Category, CategorySchema } from '../../schemas/category.schema';
 import { Review, ReviewSchema } from '../../schemas/review.schema';
+import {
+  ReturnRequest,
+  ReturnRequestSchema,
+} from '../../schemas/return-request.schema';
+import {
+  SearchQueryLog,
+  SearchQueryLogSchema,
+} from '../../schemas/search-query-log.schema';
 
 /**
  * Admin Dashboard Module
@@ -18,6 +26,7 @@ import { Review, ReviewSchema } from '../../schemas/review.schema';
  * - Chart data for visualizations
  * - System health monitoring
  * - Performance metrics
+ * - Search analytics
  */
 @Module({
   imports: [
@@ -28,6 +37,8 @@ import { Review, ReviewSchema } from '../../schemas/review.schema';
       { name: Campaign.name, schema: CampaignSchema },
       { name: Category.name, schema: CategorySchema },
       { name: Review.name, schema: ReviewSchema },
+      { name: ReturnRequest.name, schema: ReturnRequestSchema },
+      { name: SearchQueryLog.name, schema: SearchQueryLogSchema },
     ]),
   ],
   controllers: [AdminDashboardController],
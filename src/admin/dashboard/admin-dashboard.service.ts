@@ -3,14 +3,33 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model } from 'mongoose';
 import { User, UserDocument, UserRole } from '../../schemas/user.schema';
 import { Product, ProductDocument } from '../../schemas/product.schema';
-import { Order, OrderDocument, OrderStatus } from '../../schemas/order.schema';
+import {
+  Order,
+  OrderDocument,
+  OrderStatus,
+  ORDER_ITEM_NET_TOTAL,
+} from '../../schemas/order.schema';
 import {
   Campaign,
   CampaignDocument,
   CampaignType,
 } from '../../schemas/campaign.schema';
 import { Category, CategoryDocument } from '../../schemas/category.schema';
-import { Review, ReviewDocument } from '../../schemas/review.schema';
+import {
+  PENDING_REVIEW_FILTER,
+  Review,
+  ReviewDocument,
+} from '../../schemas/review.schema';
+import {
+  ReturnRequest,
+  ReturnRequestDocument,
+  ReturnStatus,
+} from '../../schemas/return-request.schema';
+import {
+  SearchQueryLog,
+  SearchQueryLogDocument,
+} from '../../schemas/search-query-log.schema';
+import { SearchAnalyticsDto } from './dto/search-analytics.dto';
 
 export interface DashboardStats {
   users: {
@@ -61,6 +80,15 @@ export interface DashboardStats {
     approved: number;
     averageRating: number;
   };
+  returns: {
+    total: number;
+    requested: number;
+    approved: number;
+    rejected: number;
+    refunded: number;
+    refundedAmount: number;
+    returnRate: number;
+  };
   systemHealth: {
     pendingSellerApprovals: number;
     lowStockProducts: number;
@@ -132,6 +160,30 @@ export interface ChartData {
   }>;
 }
 
+export interface SearchAnalytics {
+  period: { startDate: Date; endDate: Date };
+  summary: {
+    totalSearches: number;
+    uniqueQueries: number;
+    zeroResultSearches: number;
+    zeroResultRate: number;
+    clickedSearches: number;
+    clickThroughRate: number;
+  };
+  topQueries: Array<{
+    query: string;
+    searches: number;
+    averageResults: number;
+    clicks: number;
+    clickThroughRate: number;
+  }>;
+  zeroResultQueries: Array<{
+    query: string;
+    searches: number;
+    lastSearchedAt: Date;
+  }>;
+}
+
 /**
  * Admin Dashboard Service
  *
@@ -151,6 +203,10 @@ export class AdminDashboardService {
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
     @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
     @InjectModel(Review.name) private reviewModel: Model<ReviewDocument>,
+    @InjectModel(ReturnRequest.name)
+    private returnRequestModel: Model<ReturnRequestDocument>,
+    @InjectModel(SearchQueryLog.name)
+    private searchQueryLogModel: Model<SearchQueryLogDocument>,
   ) {}
 
   /**
@@ -175,6 +231,7 @@ export class AdminDashboardService {
       campaignStats,
       categoryStats,
       reviewStats,
+      returnStats,
       systemHealthStats,
     ] = await Promise.all([
       this.getUserStats(startOfMonth, startOfToday),
@@ -183,6 +240,7 @@ export class AdminDashboardService {
       this.getCampaignStats(),
       this.getCategoryStats(),
       this.getReviewStats(),
+      this.getReturnStats(),
       this.getSystemHealthStats(),
     ]);
 
@@ -193,6 +251,7 @@ export class AdminDashboardService {
       campaigns: campaignStats,
       categories: categoryStats,
       reviews: reviewStats,
+      returns: returnStats,
       systemHealth: systemHealthStats,
     };
   }
@@ -325,7 +384,9 @@ export class AdminDashboardService {
       {
         $match: {
           createdAt: { $gte: new Date(new Date().getFullYear() - 1, 0, 1) },
-          status: { $in: ['delivered', 'processing', 'shipped'] },
+          status: {
+            $in: ['delivered', 'processing', 'partially_shipped', 'shipped'],
+          },
         },
       },
       {
@@ -411,6 +472,105 @@ export class AdminDashboardService {
     };
   }
 
+  /**
+   * Get search analytics for a date range
+   *
+   * Queries are grouped by their normalized form, so "Kırmızı Elbise" and
+   * "kirmizi elbise" count as the same query.
+   *
+   * @param options - Date range (default: last 30 days) and list size
+   * @returns Search volume, top queries, zero-result queries and CTR
+   */
+  async getSearchAnalytics(
+    options: SearchAnalyticsDto,
+  ): Promise<SearchAnalytics> {
+    const endDate = options.endDate ?? new Date();
+    const startDate =
+      options.startDate ??
+      new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const limit = options.limit ?? 20;
+    const rate = (part: number, total: number) =>
+      total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
+
+    const [result] = await this.searchQueryLogModel.aggregate([
+      { $match: { createdAt: { $gte: startDate, $lte: endDate } } },
+      {
+        $facet: {
+          summary: [
+            {
+              $group: {
+                _id: null,
+                totalSearches: { $sum: 1 },
+                zeroResultSearches: {
+                  $sum: { $cond: [{ $eq: ['$resultCount', 0] }, 1, 0] },
+                },
+                clickedSearches: { $sum: { $cond: ['$clicked', 1, 0] } },
+              },
+            },
+          ],
+          uniqueQueries: [
+            { $group: { _id: '$normalizedQuery' } },
+            { $count: 'count' },
+          ],
+          topQueries: [
+            {
+              $group: {
+                _id: '$normalizedQuery',
+                searches: { $sum: 1 },
+                averageResults: { $avg: '$resultCount' },
+                clicks: { $sum: { $cond: ['$clicked', 1, 0] } },
+              },
+            },
+            { $sort: { searches: -1, _id: 1 } },
+            { $limit: limit },
+          ],
+          zeroResultQueries: [
+            { $match: { resultCount: 0 } },
+            {
+              $group: {
+                _id: '$normalizedQuery',
+                searches: { $sum: 1 },
+                lastSearchedAt: { $max: '$createdAt' },
+              },
+            },
+            { $sort: { searches: -1, lastSearchedAt: -1 } },
+            { $limit: limit },
+          ],
+        },
+      },
+    ]);
+
+    const summary = result.summary[0] || {
+      totalSearches: 0,
+      zeroResultSearches: 0,
+      clickedSearches: 0,
+    };
+
+    return {
+      period: { startDate, endDate },
+      summary: {
+        totalSearches: summary.totalSearches,
+        uniqueQueries: result.uniqueQueries[0]?.count ?? 0,
+        zeroResultSearches: summary.zeroResultSearches,
+        zeroResultRate: rate(summary.zeroResultSearches, summary.totalSearches),
+        clickedSearches: summary.clickedSearches,
+        clickThroughRate: rate(summary.clickedSearches, summary.totalSearches),
+      },
+      topQueries: result.topQueries.map((item) => ({
+        query: item._id,
+        searches: item.searches,
+        averageResults: Math.round(item.averageResults * 10) / 10,
+        clicks: item.clicks,
+        clickThroughRate: rate(item.clicks, item.searches),
+      })),
+      zeroResultQueries: result.zeroResultQueries.map((item) => ({
+        query: item._id,
+        searches: item.searches,
+        lastSearchedAt: item.lastSearchedAt,
+      })),
+    };
+  }
+
   /**
    * Get user statistics
    *
@@ -598,7 +758,7 @@ export class AdminDashboardService {
   private async getReviewStats() {
     const [total, pending, approved, ratingData] = await Promise.all([
       this.reviewModel.countDocuments(),
-      this.reviewModel.countDocuments({ isApproved: false }),
+      this.reviewModel.countDocuments(PENDING_REVIEW_FILTER),
       this.reviewModel.countDocuments({ isApproved: true }),
       this.reviewModel.aggregate([
         { $group: { _id: null, averageRating: { $avg: '$rating' } } },
@@ -613,6 +773,50 @@ export class AdminDashboardService {
     };
   }
 
+  /**
+   * Get return request statistics
+   *
+   * @private
+   */
+  private async getReturnStats() {
+    const [statusCounts, returnedOrderIds, totalOrders] = await Promise.all([
+      this.returnRequestModel.aggregate([
+        {
+          $group: {
+            _id: '$status',
+            count: { $sum: 1 },
+            refundedAmount: { $sum: '$refundAmount' },
+          },
+        },
+      ]),
+      this.returnRequestModel.distinct('orderId', {
+        status: { $ne: ReturnStatus.REJECTED },
+      }),
+      this.orderModel.countDocuments(),
+    ]);
+
+    const statusCountMap = statusCounts.reduce((acc, item) => {
+      acc[item._id] = item;
+      return acc;
+    }, {});
+    const countOf = (status: ReturnStatus) =>
+      statusCountMap[status]?.count || 0;
+
+    return {
+      total: statusCounts.reduce((sum, item) => sum + item.count, 0),
+      requested: countOf(ReturnStatus.REQUESTED),
+      approved: countOf(ReturnStatus.APPROVED),
+      rejected: countOf(ReturnStatus.REJECTED),
+      refunded: countOf(ReturnStatus.REFUNDED),
+      refundedAmount:
+        statusCountMap[ReturnStatus.REFUNDED]?.refundedAmount || 0,
+      returnRate:
+        totalOrders > 0
+          ? Math.round((returnedOrderIds.length / totalOrders) * 10000) / 100
+          : 0,
+    };
+  }
+
   /**
    * Get system health statistics
    *
@@ -909,7 +1113,7 @@ export class AdminDashboardService {
       {
         $group: {
           _id: '$productInfo.category',
-          revenue: { $sum: { $multiply: ['$items.quantity', '$items.price'] } },
+          revenue: { $sum: ORDER_ITEM_NET_TOTAL },
         },
       },
     ]);
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const searchAnalyticsSchema = z
+  .object({
+    startDate: z.string().pipe(z.coerce.date()).optional(),
+    endDate: z.string().pipe(z.coerce.date()).optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be 1 or greater')
+      .max(100, 'Limit cannot exceed 100')
+      .default(20),
+  })
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    { message: 'Start date must be before end date', path: ['endDate'] },
+  );
+
+export type SearchAnalyticsDto = z.infer<typeof searchAnalyticsSchema>;
@@ -0,0 +1,238 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiBody,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../schemas/user.schema';
+import { SearchRedirectTarget } from '../../schemas/search-redirect.schema';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { ParseMongoIdPipe } from '../../common/pipes/mongo-id.pipe';
+import { AdminSearchService } from './admin-search.service';
+import {
+  CreateRedirectDto,
+  CreateSynonymDto,
+  UpdateRedirectDto,
+  UpdateSynonymDto,
+  createRedirectSchema,
+  createSynonymSchema,
+  updateRedirectSchema,
+  updateSynonymSchema,
+} from './dto';
+
+const SYNONYM_BODY = {
+  type: 'object',
+  properties: {
+    terms: {
+      type: 'array',
+      items: { type: 'string' },
+      example: ['tshirt', 't-shirt', 'tişört'],
+      description: 'Terms searched interchangeably (2-20)',
+    },
+    isActive: { type: 'boolean' },
+  },
+};
+
+const REDIRECT_BODY = {
+  type: 'object',
+  properties: {
+    query: { type: 'string', example: 'black friday' },
+    targetType: { type: 'string', enum: Object.values(SearchRedirectTarget) },
+    targetId: {
+      type: 'string',
+      description: 'Product, category, seller or campaign ID',
+    },
+    url: {
+      type: 'string',
+      description: 'Site path or http(s) URL, for url targets',
+    },
+    isActive: { type: 'boolean' },
+  },
+};
+
+/**
+ * Admin Search Controller
+ *
+ * Manages search synonyms and query redirects. Queries are matched
+ * ignoring case, Turkish letters, accents and punctuation.
+ */
+@ApiTags('Admin - Search')
+@Controller('admin/search')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminSearchController {
+  constructor(private readonly adminSearchService: AdminSearchService) {}
+
+  @Get('synonyms')
+  @ApiOperation({ summary: 'List synonym groups' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Part of a term',
+  })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiResponse({
+    status: 200,
+    description: 'Synonym groups retrieved successfully',
+  })
+  async findSynonyms(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('search') search?: string,
+    @Query('isActive') isActive?: string,
+  ) {
+    return this.adminSearchService.findSynonyms({
+      page: Number(page) || 1,
+      limit: Number(limit) || 10,
+      search,
+      isActive: isActive === undefined ? undefined : isActive === 'true',
+    });
+  }
+
+  @Get('synonyms/:id')
+  @ApiOperation({ summary: 'Get synonym group' })
+  @ApiResponse({ status: 200, description: 'Synonym group retrieved' })
+  @ApiResponse({ status: 404, description: 'Synonym group not found' })
+  async findSynonym(@Param('id', ParseMongoIdPipe) id: string) {
+    return this.adminSearchService.findSynonym(id);
+  }
+
+  @Post('synonyms')
+  @ApiOperation({ summary: 'Create synonym group' })
+  @ApiBody({ schema: { ...SYNONYM_BODY, required: ['terms'] } })
+  @ApiResponse({ status: 201, description: 'Synonym group created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data or a term is in another group',
+  })
+  async createSynonym(
+    @Body(new ZodValidationPipe(createSynonymSchema))
+    createSynonymDto: CreateSynonymDto,
+  ) {
+    return this.adminSearchService.createSynonym(createSynonymDto);
+  }
+
+  @Put('synonyms/:id')
+  @ApiOperation({ summary: 'Update synonym group' })
+  @ApiBody({ schema: SYNONYM_BODY })
+  @ApiResponse({ status: 200, description: 'Synonym group updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data or a term is in another group',
+  })
+  @ApiResponse({ status: 404, description: 'Synonym group not found' })
+  async updateSynonym(
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body(new ZodValidationPipe(updateSynonymSchema))
+    updateSynonymDto: UpdateSynonymDto,
+  ) {
+    return this.adminSearchService.updateSynonym(id, updateSynonymDto);
+  }
+
+  @Delete('synonyms/:id')
+  @ApiOperation({ summary: 'Delete synonym group' })
+  @ApiResponse({ status: 200, description: 'Synonym group deleted' })
+  @ApiResponse({ status: 404, description: 'Synonym group not found' })
+  async removeSynonym(@Param('id', ParseMongoIdPipe) id: string) {
+    return this.adminSearchService.removeSynonym(id);
+  }
+
+  @Get('redirects')
+  @ApiOperation({ summary: 'List query redirects' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Part of a query',
+  })
+  @ApiQuery({ name: 'isActive', required: false, type: Boolean })
+  @ApiResponse({
+    status: 200,
+    description: 'Redirects retrieved successfully',
+  })
+  async findRedirects(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+    @Query('search') search?: string,
+    @Query('isActive') isActive?: string,
+  ) {
+    return this.adminSearchService.findRedirects({
+      page: Number(page) || 1,
+      limit: Number(limit) || 10,
+      search,
+      isActive: isActive === undefined ? undefined : isActive === 'true',
+    });
+  }
+
+  @Get('redirects/:id')
+  @ApiOperation({ summary: 'Get query redirect' })
+  @ApiResponse({ status: 200, description: 'Redirect retrieved' })
+  @ApiResponse({ status: 404, description: 'Redirect not found' })
+  async findRedirect(@Param('id', ParseMongoIdPipe) id: string) {
+    return this.adminSearchService.findRedirect(id);
+  }
+
+  @Post('redirects')
+  @ApiOperation({ summary: 'Create query redirect' })
+  @ApiBody({ schema: { ...REDIRECT_BODY, required: ['query', 'targetType'] } })
+  @ApiResponse({ status: 201, description: 'Redirect created' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid data, unknown target or a redirect for the query exists',
+  })
+  async createRedirect(
+    @Body(new ZodValidationPipe(createRedirectSchema))
+    createRedirectDto: CreateRedirectDto,
+  ) {
+    return this.adminSearchService.createRedirect(createRedirectDto);
+  }
+
+  @Put('redirects/:id')
+  @ApiOperation({ summary: 'Update query redirect' })
+  @ApiBody({ schema: REDIRECT_BODY })
+  @ApiResponse({ status: 200, description: 'Redirect updated' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid data, unknown target or a redirect for the query exists',
+  })
+  @ApiResponse({ status: 404, description: 'Redirect not found' })
+  async updateRedirect(
+    @Param('id', ParseMongoIdPipe) id: string,
+    @Body(new ZodValidationPipe(updateRedirectSchema))
+    updateRedirectDto: UpdateRedirectDto,
+  ) {
+    return this.adminSearchService.updateRedirect(id, updateRedirectDto);
+  }
+
+  @Delete('redirects/:id')
+  @ApiOperation({ summary: 'Delete query redirect' })
+  @ApiResponse({ status: 200, description: 'Redirect deleted' })
+  @ApiResponse({ status: 404, description: 'Redirect not found' })
+  async removeRedirect(@Param('id', ParseMongoIdPipe) id: string) {
+    return this.adminSearchService.removeRedirect(id);
+  }
+}
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import {
+  SearchSynonym,
+  SearchSynonymSchema,
+} from '../../schemas/search-synonym.schema';
+import {
+  SearchRedirect,
+  SearchRedirectSchema,
+} from '../../schemas/search-redirect.schema';
+import { Product, ProductSchema } from '../../schemas/product.schema';
+import { Category, CategorySchema } from '../../schemas/category.schema';
+import { User, UserSchema } from '../../schemas/user.schema';
+import { Campaign, CampaignSchema } from '../../schemas/campaign.schema';
+import { AdminSearchController } from './admin-search.controller';
+import { AdminSearchService } from './admin-search.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: SearchSynonym.name, schema: SearchSynonymSchema },
+      { name: SearchRedirect.name, schema: SearchRedirectSchema },
+      { name: Product.name, schema: ProductSchema },
+      { name: Category.name, schema: CategorySchema },
+      { name: User.name, schema: UserSchema },
+      { name: Campaign.name, schema: CampaignSchema },
+    ]),
+  ],
+  controllers: [AdminSearchController],
+  providers: [AdminSearchService],
+})
+export class AdminSearchModule {}
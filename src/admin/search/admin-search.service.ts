@@ -0,0 +1,367 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SearchSynonym,
+  SearchSynonymDocument,
+} from '../../schemas/search-synonym.schema';
+import {
+  SearchRedirect,
+  SearchRedirectDocument,
+  SearchRedirectTarget,
+} from '../../schemas/search-redirect.schema';
+import { Product, ProductDocument } from '../../schemas/product.schema';
+import { Category, CategoryDocument } from '../../schemas/category.schema';
+import { User, UserDocument, UserRole } from '../../schemas/user.schema';
+import { Campaign, CampaignDocument } from '../../schemas/campaign.schema';
+import {
+  escapeRegExp,
+  normalizeSearchQuery,
+} from '../../search/search-query.util';
+import {
+  CreateRedirectDto,
+  CreateSynonymDto,
+  UpdateRedirectDto,
+  UpdateSynonymDto,
+} from './dto';
+import { SearchRuleError, SearchRuleErrorMessages } from './enums';
+
+export interface FindSearchRulesOptions {
+  page: number;
+  limit: number;
+  search?: string;
+  isActive?: boolean;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * Admin Search Service
+ *
+ * Manages the rules applied to customer searches:
+ * - Synonym groups; a term may belong to one group only, so expansion
+ *   stays predictable
+ * - Query redirects to a product, category, seller, campaign or URL; one
+ *   redirect per normalized query
+ */
+@Injectable()
+export class AdminSearchService {
+  constructor(
+    @InjectModel(SearchSynonym.name)
+    private synonymModel: Model<SearchSynonymDocument>,
+    @InjectModel(SearchRedirect.name)
+    private redirectModel: Model<SearchRedirectDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
+  ) {}
+
+  async findSynonyms(
+    options: FindSearchRulesOptions,
+  ): Promise<PaginatedResponse<SearchSynonym>> {
+    const { page, limit, search, isActive } = options;
+    const filter: Record<string, unknown> = {};
+
+    if (search) {
+      filter.normalizedTerms = {
+        $regex: escapeRegExp(normalizeSearchQuery(search)),
+      };
+    }
+    if (isActive !== undefined) {
+      filter.isActive = isActive;
+    }
+
+    const [data, total] = await Promise.all([
+      this.synonymModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.synonymModel.countDocuments(filter),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findSynonym(id: string): Promise<SearchSynonym> {
+    const synonym = await this.synonymModel.findById(id).exec();
+    if (!synonym) {
+      throw new NotFoundException(
+        SearchRuleErrorMessages[SearchRuleError.SYNONYM_NOT_FOUND],
+      );
+    }
+    return synonym;
+  }
+
+  async createSynonym(
+    createSynonymDto: CreateSynonymDto,
+  ): Promise<SearchSynonym> {
+    const normalizedTerms = createSynonymDto.terms.map((term) =>
+      normalizeSearchQuery(term),
+    );
+    await this.checkTermsUnused(normalizedTerms);
+
+    return this.synonymModel.create({ ...createSynonymDto, normalizedTerms });
+  }
+
+  async updateSynonym(
+    id: string,
+    updateSynonymDto: UpdateSynonymDto,
+  ): Promise<SearchSynonym> {
+    const update: Partial<SearchSynonym> = { ...updateSynonymDto };
+    if (updateSynonymDto.terms) {
+      update.normalizedTerms = updateSynonymDto.terms.map((term) =>
+        normalizeSearchQuery(term),
+      );
+      await this.checkTermsUnused(update.normalizedTerms, id);
+    }
+
+    const synonym = await this.synonymModel
+      .findByIdAndUpdate(id, update, { new: true })
+      .exec();
+    if (!synonym) {
+      throw new NotFoundException(
+        SearchRuleErrorMessages[SearchRuleError.SYNONYM_NOT_FOUND],
+      );
+    }
+    return synonym;
+  }
+
+  async removeSynonym(id: string): Promise<{ message: string }> {
+    const synonym = await this.synonymModel.findByIdAndDelete(id).exec();
+    if (!synonym) {
+      throw new NotFoundException(
+        SearchRuleErrorMessages[SearchRuleError.SYNONYM_NOT_FOUND],
+      );
+    }
+    return {
+      message: SearchRuleErrorMessages[SearchRuleError.SYNONYM_DELETED_SUCCESS],
+    };
+  }
+
+  async findRedirects(
+    options: FindSearchRulesOptions,
+  ): Promise<PaginatedResponse<SearchRedirect>> {
+    const { page, limit, search, isActive } = options;
+    const filter: Record<string, unknown> = {};
+
+    if (search) {
+      filter.normalizedQuery = {
+        $regex: escapeRegExp(normalizeSearchQuery(search)),
+      };
+    }
+    if (isActive !== undefined) {
+      filter.isActive = isActive;
+    }
+
+    const [data, total] = await Promise.all([
+      this.redirectModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.redirectModel.countDocuments(filter),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findRedirect(id: string): Promise<SearchRedirect> {
+    const redirect = await this.redirectModel.findById(id).exec();
+    if (!redirect) {
+      throw new NotFoundException(
+        SearchRuleErrorMessages[SearchRuleError.REDIRECT_NOT_FOUND],
+      );
+    }
+    return redirect;
+  }
+
+  async createRedirect(
+    createRedirectDto: CreateRedirectDto,
+  ): Promise<SearchRedirect> {
+    const { query, targetType, targetId, url, isActive } = createRedirectDto;
+    const normalizedQuery = normalizeSearchQuery(query);
+    await this.checkQueryUnused(normalizedQuery);
+
+    return this.redirectModel.create({
+      query,
+      normalizedQuery,
+      targetType,
+      ...(await this.resolveTarget(targetType, targetId, url)),
+      isActive,
+    });
+  }
+
+  /**
+   * Update a redirect
+   *
+   * Changing the target type requires the matching targetId or url;
+   * otherwise the current target is kept.
+   */
+  async updateRedirect(
+    id: string,
+    updateRedirectDto: UpdateRedirectDto,
+  ): Promise<SearchRedirect> {
+    const redirect = await this.redirectModel.findById(id);
+    if (!redirect) {
+      throw new NotFoundException(
+        SearchRuleErrorMessages[SearchRuleError.REDIRECT_NOT_FOUND],
+      );
+    }
+
+    const { query, targetType, targetId, url, isActive } = updateRedirectDto;
+    if (query !== undefined) {
+      redirect.query = query;
+      redirect.normalizedQuery = normalizeSearchQuery(query);
+      await this.checkQueryUnused(redirect.normalizedQuery, id);
+    }
+
+    if (
+      targetType !== undefined ||
+      targetId !== undefined ||
+      url !== undefined
+    ) {
+      const type = targetType ?? redirect.targetType;
+      const isSameType = type === redirect.targetType;
+      const target = await this.resolveTarget(
+        type,
+        targetId ?? (isSameType ? redirect.targetId?.toString() : undefined),
+        url ?? (isSameType ? redirect.url : undefined),
+      );
+      redirect.targetType = type;
+      redirect.targetId = target.targetId;
+      redirect.url = target.url;
+    }
+
+    if (isActive !== undefined) {
+      redirect.isActive = isActive;
+    }
+
+    return redirect.save();
+  }
+
+  async removeRedirect(id: string): Promise<{ message: string }> {
+    const redirect = await this.redirectModel.findByIdAndDelete(id).exec();
+    if (!redirect) {
+      throw new NotFoundException(
+        SearchRuleErrorMessages[SearchRuleError.REDIRECT_NOT_FOUND],
+      );
+    }
+    return {
+      message:
+        SearchRuleErrorMessages[SearchRuleError.REDIRECT_DELETED_SUCCESS],
+    };
+  }
+
+  /**
+   * Reject terms that already belong to another synonym group
+   *
+   * @private
+   */
+  private async checkTermsUnused(
+    normalizedTerms: string[],
+    excludeId?: string,
+  ): Promise<void> {
+    const conflict = await this.synonymModel.findOne({
+      normalizedTerms: { $in: normalizedTerms },
+      ...(excludeId && { _id: { $ne: excludeId } }),
+    });
+
+    if (conflict) {
+      const terms = normalizedTerms.filter((term) =>
+        conflict.normalizedTerms.includes(term),
+      );
+      throw new BadRequestException(
+        `${SearchRuleErrorMessages[SearchRuleError.SYNONYM_TERM_IN_USE]}: ${terms.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Reject a query that already has a redirect
+   *
+   * @private
+   */
+  private async checkQueryUnused(
+    normalizedQuery: string,
+    excludeId?: string,
+  ): Promise<void> {
+    const exists = await this.redirectModel.exists({
+      normalizedQuery,
+      ...(excludeId && { _id: { $ne: excludeId } }),
+    });
+
+    if (exists) {
+      throw new BadRequestException(
+        SearchRuleErrorMessages[SearchRuleError.REDIRECT_ALREADY_EXISTS],
+      );
+    }
+  }
+
+  /**
+   * Check a redirect target and keep only the field its type uses
+   *
+   * @private
+   */
+  private async resolveTarget(
+    targetType: SearchRedirectTarget,
+    targetId?: string,
+    url?: string,
+  ): Promise<{ targetId?: Types.ObjectId; url?: string }> {
+    if (targetType === SearchRedirectTarget.URL) {
+      if (!url) {
+        throw new BadRequestException(
+          SearchRuleErrorMessages[SearchRuleError.INVALID_REDIRECT_TARGET],
+        );
+      }
+      return { targetId: undefined, url };
+    }
+
+    if (!targetId) {
+      throw new BadRequestException(
+        SearchRuleErrorMessages[SearchRuleError.INVALID_REDIRECT_TARGET],
+      );
+    }
+
+    const _id = new Types.ObjectId(targetId);
+    const exists = await {
+      [SearchRedirectTarget.PRODUCT]: () => this.productModel.exists({ _id }),
+      [SearchRedirectTarget.CATEGORY]: () => this.categoryModel.exists({ _id }),
+      [SearchRedirectTarget.SELLER]: () =>
+        this.userModel.exists({ _id, role: UserRole.SELLER }),
+      [SearchRedirectTarget.CAMPAIGN]: () => this.campaignModel.exists({ _id }),
+    }[targetType]();
+
+    if (!exists) {
+      throw new BadRequestException(
+        SearchRuleErrorMessages[SearchRuleError.REDIRECT_TARGET_NOT_FOUND],
+      );
+    }
+    return { targetId: _id, url: undefined };
+  }
+}
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { Types } from 'mongoose';
+import { SearchRedirectTarget } from '../../../schemas/search-redirect.schema';
+import { normalizeSearchQuery } from '../../../search/search-query.util';
+
+export const redirectQuerySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .refine(
+    (query) => normalizeSearchQuery(query) !== '',
+    'Query must contain a letter or digit',
+  );
+
+export const redirectTargetIdSchema = z
+  .string()
+  .refine((value) => Types.ObjectId.isValid(value), 'Invalid target ID');
+
+// Site paths ("/kampanya/black-friday") or absolute http(s) URLs
+export const redirectUrlSchema = z
+  .string()
+  .trim()
+  .max(500)
+  .regex(/^(\/|https?:\/\/)\S*$/, 'URL must be a site path or an http(s) URL');
+
+export const createRedirectSchema = z
+  .object({
+    query: redirectQuerySchema,
+    targetType: z.nativeEnum(SearchRedirectTarget),
+    targetId: redirectTargetIdSchema.optional(),
+    url: redirectUrlSchema.optional(),
+    isActive: z.boolean().optional().default(true),
+  })
+  .refine(
+    (redirect) =>
+      redirect.targetType === SearchRedirectTarget.URL
+        ? !!redirect.url
+        : !!redirect.targetId,
+    'URL redirects need a url, other redirects a targetId',
+  );
+
+export type CreateRedirectDto = z.infer<typeof createRedirectSchema>;
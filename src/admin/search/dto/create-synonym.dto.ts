@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { normalizeSearchQuery } from '../../../search/search-query.util';
+
+export const synonymTermsSchema = z
+  .array(z.string().trim().min(1).max(100))
+  .min(2)
+  .max(20)
+  .refine(
+    (terms) => terms.every((term) => normalizeSearchQuery(term) !== ''),
+    'Every term must contain a letter or digit',
+  )
+  .refine(
+    (terms) =>
+      new Set(terms.map((term) => normalizeSearchQuery(term))).size ===
+      terms.length,
+    'Terms must differ from each other beyond case, accents and punctuation',
+  );
+
+export const createSynonymSchema = z.object({
+  terms: synonymTermsSchema,
+  isActive: z.boolean().optional().default(true),
+});
+
+export type CreateSynonymDto = z.infer<typeof createSynonymSchema>;
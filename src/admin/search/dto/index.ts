@@ -0,0 +1,4 @@
+export * from './create-synonym.dto';
+export * from './update-synonym.dto';
+export * from './create-redirect.dto';
+export * from './update-redirect.dto';
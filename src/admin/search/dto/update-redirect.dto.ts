@@ -0,0 +1,17 @@
+import { z } from 'zod';
+import { SearchRedirectTarget } from '../../../schemas/search-redirect.schema';
+import {
+  redirectQuerySchema,
+  redirectTargetIdSchema,
+  redirectUrlSchema,
+} from './create-redirect.dto';
+
+export const updateRedirectSchema = z.object({
+  query: redirectQuerySchema.optional(),
+  targetType: z.nativeEnum(SearchRedirectTarget).optional(),
+  targetId: redirectTargetIdSchema.optional(),
+  url: redirectUrlSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateRedirectDto = z.infer<typeof updateRedirectSchema>;
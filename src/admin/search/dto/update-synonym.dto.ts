@@ -0,0 +1,9 @@
+import { z } from 'zod';
+import { synonymTermsSchema } from './create-synonym.dto';
+
+export const updateSynonymSchema = z.object({
+  terms: synonymTermsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateSynonymDto = z.infer<typeof updateSynonymSchema>;
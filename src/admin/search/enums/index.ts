@@ -0,0 +1 @@
+export * from './search-rule-error.enum';
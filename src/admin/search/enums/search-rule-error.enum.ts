@@ -0,0 +1,30 @@
+export enum SearchRuleError {
+  // Synonym errors
+  SYNONYM_NOT_FOUND = 'SYNONYM_NOT_FOUND',
+  SYNONYM_TERM_IN_USE = 'SYNONYM_TERM_IN_USE',
+
+  // Redirect errors
+  REDIRECT_NOT_FOUND = 'REDIRECT_NOT_FOUND',
+  REDIRECT_ALREADY_EXISTS = 'REDIRECT_ALREADY_EXISTS',
+  INVALID_REDIRECT_TARGET = 'INVALID_REDIRECT_TARGET',
+  REDIRECT_TARGET_NOT_FOUND = 'REDIRECT_TARGET_NOT_FOUND',
+
+  // Success messages
+  SYNONYM_DELETED_SUCCESS = 'SYNONYM_DELETED_SUCCESS',
+  REDIRECT_DELETED_SUCCESS = 'REDIRECT_DELETED_SUCCESS',
+}
+
+export const SearchRuleErrorMessages: Record<SearchRuleError, string> = {
+  [SearchRuleError.SYNONYM_NOT_FOUND]: 'Synonym group not found',
+  [SearchRuleError.SYNONYM_TERM_IN_USE]:
+    'A term already belongs to another synonym group',
+  [SearchRuleError.REDIRECT_NOT_FOUND]: 'Redirect not found',
+  [SearchRuleError.REDIRECT_ALREADY_EXISTS]:
+    'A redirect for this query already exists',
+  [SearchRuleError.INVALID_REDIRECT_TARGET]:
+    'URL redirects need a url, other redirects a targetId',
+  [SearchRuleError.REDIRECT_TARGET_NOT_FOUND]: 'Redirect target not found',
+  [SearchRuleError.SYNONYM_DELETED_SUCCESS]:
+    'Synonym group deleted successfully',
+  [SearchRuleError.REDIRECT_DELETED_SUCCESS]: 'Redirect deleted successfully',
+};
@@ -0,0 +1,245 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { UserRole } from '../../schemas/user.schema';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { ParseMongoIdPipe } from '../../common/pipes/mongo-id.pipe';
+import { SecurityEventType } from '../../schemas/security-event.schema';
+import { AdminSecurityService } from './admin-security.service';
+import {
+  FindLockedAccountsDto,
+  FindSecurityEventsDto,
+  UpdateSecuritySettingsDto,
+  findLockedAccountsSchema,
+  findSecurityEventsSchema,
+  updateSecuritySettingsSchema,
+} from './dto';
+import { AdminSecurityError, AdminSecurityErrorMessages } from './enums';
+
+const SECURITY_SETTINGS_SCHEMA = {
+  type: 'object',
+  properties: {
+    requireTwoFactor: {
+      type: 'boolean',
+      description:
+        'Require two-factor authentication for admin and seller logins',
+    },
+  },
+};
+
+/**
+ * Admin Security Controller
+ *
+ * Manages the platform-wide authentication policy, accounts locked after
+ * failed logins and the security log.
+ */
+@ApiTags('Admin - Security')
+@Controller('admin/security')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class AdminSecurityController {
+  constructor(private readonly adminSecurityService: AdminSecurityService) {}
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Get security settings' })
+  @ApiResponse({
+    status: 200,
+    description: 'Security settings retrieved',
+    schema: SECURITY_SETTINGS_SCHEMA,
+  })
+  async getSettings() {
+    return this.adminSecurityService.getSettings();
+  }
+
+  @Put('settings')
+  @ApiOperation({
+    summary: 'Update security settings',
+    description:
+      'When two-factor authentication is required, admins and sellers without it must enroll on their next login before receiving tokens.',
+  })
+  @ApiBody({ schema: SECURITY_SETTINGS_SCHEMA })
+  @ApiResponse({
+    status: 200,
+    description: 'Security settings updated',
+    schema: SECURITY_SETTINGS_SCHEMA,
+  })
+  async updateSettings(
+    @Body(new ZodValidationPipe(updateSecuritySettingsSchema))
+    updateSecuritySettingsDto: UpdateSecuritySettingsDto,
+  ) {
+    return this.adminSecurityService.updateSettings(updateSecuritySettingsDto);
+  }
+
+  @Get('locked-accounts')
+  @ApiOperation({
+    summary: 'List locked accounts',
+    description:
+      'Accounts locked after too many failed login attempts whose lockout has not run out yet, latest first.',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Part of the email, first name or last name',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Locked accounts retrieved',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string' },
+              email: { type: 'string' },
+              firstName: { type: 'string' },
+              lastName: { type: 'string' },
+              role: { type: 'string' },
+              isActive: { type: 'boolean' },
+              lockedUntil: { type: 'string', format: 'date-time' },
+              lastFailedLoginAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+      },
+    },
+  })
+  async findLockedAccounts(
+    @Query(new ZodValidationPipe(findLockedAccountsSchema))
+    query: FindLockedAccountsDto,
+  ) {
+    return this.adminSecurityService.findLockedAccounts(query);
+  }
+
+  @Post('locked-accounts/:id/unlock')
+  @ApiOperation({
+    summary: 'Unlock account',
+    description:
+      'Lifts the lockout and clears the failed attempt count so the user can log in right away.',
+  })
+  @ApiResponse({
+    status: 201,
+    description:
+      AdminSecurityErrorMessages[AdminSecurityError.ACCOUNT_UNLOCKED_SUCCESS],
+  })
+  @ApiResponse({
+    status: 404,
+    description:
+      AdminSecurityErrorMessages[AdminSecurityError.ACCOUNT_NOT_LOCKED],
+  })
+  async unlockAccount(
+    @Param('id', ParseMongoIdPipe) id: string,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.adminSecurityService.unlockAccount(id, adminId);
+  }
+
+  @Get('events')
+  @ApiOperation({
+    summary: 'List security events',
+    description:
+      'Authentication events such as logins, failed attempts, lockouts, token refreshes, password resets and 2FA changes, newest first. Entries are kept for SECURITY_LOG_RETENTION_DAYS days.',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'userId', required: false, type: String })
+  @ApiQuery({
+    name: 'email',
+    required: false,
+    type: String,
+    description: 'Email tried in failed logins of unknown accounts',
+  })
+  @ApiQuery({
+    name: 'type',
+    required: false,
+    enum: SecurityEventType,
+  })
+  @ApiQuery({ name: 'ipAddress', required: false, type: String })
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
+    type: String,
+    example: '2024-01-01',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
+    type: String,
+    example: '2024-01-31',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Security events retrieved',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string' },
+              type: { type: 'string', enum: Object.values(SecurityEventType) },
+              userId: {
+                type: 'object',
+                description: 'User, with email, name and role',
+              },
+              email: { type: 'string' },
+              platform: { type: 'string' },
+              ipAddress: { type: 'string' },
+              userAgent: { type: 'string' },
+              deviceName: { type: 'string', example: 'Chrome on Windows' },
+              reason: { type: 'string', example: 'invalid_password' },
+              newDevice: { type: 'boolean' },
+              actorId: {
+                type: 'object',
+                description: 'Admin who performed the action',
+              },
+              createdAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filters' })
+  async findSecurityEvents(
+    @Query(new ZodValidationPipe(findSecurityEventsSchema))
+    query: FindSecurityEventsDto,
+  ) {
+    return this.adminSecurityService.findSecurityEvents(query);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { AuthModule } from '../../auth/auth.module';
+import { User, UserSchema } from '../../schemas/user.schema';
+import {
+  SecurityEvent,
+  SecurityEventSchema,
+} from '../../schemas/security-event.schema';
+import { AdminSecurityController } from './admin-security.controller';
+import { AdminSecurityService } from './admin-security.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: SecurityEvent.name, schema: SecurityEventSchema },
+    ]),
+    AuthModule,
+  ],
+  controllers: [AdminSecurityController],
+  providers: [AdminSecurityService],
+})
+export class AdminSecurityModule {}
@@ -0,0 +1,176 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { SecuritySettingsService } from '../../auth/services/security-settings.service';
+import { LoginAttemptService } from '../../auth/services/login-attempt.service';
+import { SecurityLogService } from '../../auth/services/security-log.service';
+import { SecuritySettings } from '../../schemas/security-settings.schema';
+import { User, UserDocument } from '../../schemas/user.schema';
+import {
+  SecurityEvent,
+  SecurityEventDocument,
+  SecurityEventType,
+} from '../../schemas/security-event.schema';
+import { escapeRegExp } from '../../search/search-query.util';
+import {
+  FindLockedAccountsDto,
+  FindSecurityEventsDto,
+  UpdateSecuritySettingsDto,
+} from './dto';
+import { AdminSecurityError, AdminSecurityErrorMessages } from './enums';
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * Admin Security Service
+ *
+ * Manages the platform-wide authentication policy, e.g. whether admin and
+ * seller accounts must use two-factor authentication, accounts locked after
+ * failed logins, and the security log.
+ */
+@Injectable()
+export class AdminSecurityService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(SecurityEvent.name)
+    private securityEventModel: Model<SecurityEventDocument>,
+    private readonly securitySettingsService: SecuritySettingsService,
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly securityLogService: SecurityLogService,
+  ) {}
+
+  async getSettings(): Promise<SecuritySettings> {
+    return this.securitySettingsService.getSettings();
+  }
+
+  /**
+   * Update the policy; enforcing two-factor authentication takes effect on
+   * the next admin or seller login, which then has to enroll first
+   */
+  async updateSettings(
+    updateSecuritySettingsDto: UpdateSecuritySettingsDto,
+  ): Promise<SecuritySettings> {
+    return this.securitySettingsService.updateSettings(
+      updateSecuritySettingsDto,
+    );
+  }
+
+  /**
+   * Accounts whose lockout has not run out yet, latest lockout first
+   */
+  async findLockedAccounts(
+    options: FindLockedAccountsDto,
+  ): Promise<PaginatedResponse<User>> {
+    const { page, limit, search } = options;
+
+    const filter: Record<string, unknown> = {
+      lockedUntil: { $gt: new Date() },
+    };
+    if (search) {
+      const pattern = new RegExp(escapeRegExp(search), 'i');
+      filter.$or = [
+        { email: pattern },
+        { firstName: pattern },
+        { lastName: pattern },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      this.userModel
+        .find(filter)
+        .select(
+          'email firstName lastName role isActive lockedUntil lastFailedLoginAt',
+        )
+        .sort({ lockedUntil: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<User[]>(),
+      this.userModel.countDocuments(filter),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Lift a lockout before it runs out
+   *
+   * @param id - Locked user ID
+   * @param adminId - Admin unlocking the account
+   */
+  async unlockAccount(
+    id: string,
+    adminId: string,
+  ): Promise<{ message: string }> {
+    const unlocked = await this.loginAttemptService.unlock(id);
+    if (!unlocked) {
+      throw new NotFoundException(
+        AdminSecurityErrorMessages[AdminSecurityError.ACCOUNT_NOT_LOCKED],
+      );
+    }
+
+    await this.securityLogService.record(SecurityEventType.ACCOUNT_UNLOCKED, {
+      userId: id,
+      actorId: adminId,
+    });
+
+    return {
+      message:
+        AdminSecurityErrorMessages[AdminSecurityError.ACCOUNT_UNLOCKED_SUCCESS],
+    };
+  }
+
+  /**
+   * Security log entries, newest first
+   */
+  async findSecurityEvents(
+    options: FindSecurityEventsDto,
+  ): Promise<PaginatedResponse<SecurityEvent>> {
+    const { page, limit, userId, email, type, ipAddress, startDate, endDate } =
+      options;
+
+    const filter: Record<string, unknown> = {};
+    if (userId) filter.userId = new Types.ObjectId(userId);
+    if (email) filter.email = email;
+    if (type) filter.type = type;
+    if (ipAddress) filter.ipAddress = ipAddress;
+    if (startDate || endDate) {
+      filter.createdAt = {
+        ...(startDate && { $gte: startDate }),
+        ...(endDate && { $lte: endDate }),
+      };
+    }
+
+    const [data, total] = await Promise.all([
+      this.securityEventModel
+        .find(filter)
+        .select('-expiresAt')
+        .populate('userId', 'email firstName lastName role')
+        .populate('actorId', 'email firstName lastName')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean<SecurityEvent[]>(),
+      this.securityEventModel.countDocuments(filter),
+    ]);
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+}
@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const findLockedAccountsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  search: z.string().trim().min(1).optional(),
+});
+
+export type FindLockedAccountsDto = z.infer<typeof findLockedAccountsSchema>;
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { Types } from 'mongoose';
+import { SecurityEventType } from '../../../schemas/security-event.schema';
+
+export const findSecurityEventsSchema = z
+  .object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    userId: z
+      .string()
+      .refine((value) => Types.ObjectId.isValid(value), 'Invalid user ID')
+      .optional(),
+    email: z.string().trim().toLowerCase().optional(),
+    type: z.nativeEnum(SecurityEventType).optional(),
+    ipAddress: z.string().trim().optional(),
+    startDate: z.string().pipe(z.coerce.date()).optional(),
+    endDate: z.string().pipe(z.coerce.date()).optional(),
+  })
+  .refine(
+    (data) =>
+      !data.startDate || !data.endDate || data.startDate <= data.endDate,
+    { message: 'Start date must be before end date', path: ['endDate'] },
+  );
+
+export type FindSecurityEventsDto = z.infer<typeof findSecurityEventsSchema>;
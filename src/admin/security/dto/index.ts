@@ -0,0 +1,3 @@
+export * from './update-security-settings.dto';
+export * from './find-locked-accounts.dto';
+export * from './find-security-events.dto';
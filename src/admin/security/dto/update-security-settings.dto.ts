@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const updateSecuritySettingsSchema = z.object({
+  requireTwoFactor: z.boolean().optional(),
+});
+
+export type UpdateSecuritySettingsDto = z.infer<
+  typeof updateSecuritySettingsSchema
+>;
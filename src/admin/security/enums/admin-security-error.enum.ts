@@ -0,0 +1,12 @@
+export enum AdminSecurityError {
+  ACCOUNT_NOT_LOCKED = 'ACCOUNT_NOT_LOCKED',
+
+  // Success messages
+  ACCOUNT_UNLOCKED_SUCCESS = 'ACCOUNT_UNLOCKED_SUCCESS',
+}
+
+export const AdminSecurityErrorMessages: Record<AdminSecurityError, string> = {
+  [AdminSecurityError.ACCOUNT_NOT_LOCKED]: 'No locked account with this ID',
+  [AdminSecurityError.ACCOUNT_UNLOCKED_SUCCESS]:
+    'Account unlocked successfully',
+};
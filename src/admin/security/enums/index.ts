@@ -0,0 +1 @@
+export * from './admin-security-error.enum';
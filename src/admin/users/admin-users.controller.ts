@@ -22,6 +22,8 @@ import { Roles } from '../../common/decorators/roles.decorator';
 import { UserRole } from '../../schemas/user.schema';
 import { UserError, UserErrorMessages } from './enums/user-error.enum';
 import { FindAllCustomersDto } from './dto';
+import { ParseMongoIdPipe } from '../../common/pipes/mongo-id.pipe';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 
 /**
  * Admin Users Controller
@@ -34,6 +36,7 @@ import { FindAllCustomersDto } from './dto';
  * - View customer details and order history
  * - Delete customers (only if they have no orders)
  * - Toggle customer active status
+ * - View and revoke customer login sessions
  * - Get customer statistics
  *
  * @security All endpoints require ADMIN role authentication
@@ -281,6 +284,9 @@ export class AdminUsersController {
         properties: {
           orderId: { type: 'string', description: 'Order ID' },
           totalAmount: { type: 'number', description: 'Total order amount' },
+          subtotal: { type: 'number', description: 'Undiscounted subtotal' },
+          totalDiscount: { type: 'number', description: 'Total discount' },
+          shippingCost: { type: 'number', description: 'Shipping cost' },
           status: { type: 'string', description: 'Order status' },
           paymentStatus: { type: 'string', description: 'Payment status' },
           createdAt: {
@@ -295,8 +301,34 @@ export class AdminUsersController {
               properties: {
                 productId: { type: 'string', description: 'Product ID' },
                 productName: { type: 'string', description: 'Product name' },
-                price: { type: 'number', description: 'Product price' },
+                price: {
+                  type: 'number',
+                  description: 'Unit price at time of order',
+                },
                 quantity: { type: 'number', description: 'Quantity ordered' },
+                discount: { type: 'number', description: 'Line discount' },
+              },
+            },
+          },
+          statusHistory: {
+            type: 'array',
+            description: 'Audit trail of status transitions, oldest first',
+            items: {
+              type: 'object',
+              properties: {
+                actor: {
+                  type: 'string',
+                  enum: ['customer', 'seller', 'admin', 'system'],
+                },
+                actorId: { type: 'string' },
+                sellerId: {
+                  type: 'string',
+                  description: "Set for a seller's fulfilment group change",
+                },
+                previousStatus: { type: 'string' },
+                status: { type: 'string' },
+                note: { type: 'string' },
+                changedAt: { type: 'string', format: 'date-time' },
               },
             },
           },
@@ -320,6 +352,138 @@ export class AdminUsersController {
     return this.adminUsersService.getCustomerOrders(id);
   }
 
+  /**
+   * Get customer sessions
+   *
+   * Lists the devices a customer is logged in on.
+   *
+   * @param id - Customer ID
+   * @returns Active sessions, most recently used first
+   *
+   * @example
+   * ```bash
+   * GET /api/admin/customers/507f1f77bcf86cd799439011/sessions
+   * ```
+   */
+  @Get(':id/sessions')
+  @ApiOperation({
+    summary: 'Get customer sessions',
+    description:
+      'Lists the devices a customer is logged in on, most recently used first.',
+    tags: ['Admin - Customer Management'],
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Customer ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer sessions retrieved successfully',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Session ID' },
+          platform: { type: 'string', description: 'Login platform' },
+          deviceName: { type: 'string', description: 'Device name' },
+          ipAddress: { type: 'string', description: 'Last IP address' },
+          userAgent: { type: 'string', description: 'Last user agent' },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Login date',
+          },
+          lastSeenAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Last login or token refresh',
+          },
+          expiresAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Session expiry unless refreshed',
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: UserErrorMessages[UserError.CUSTOMER_NOT_FOUND],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async getCustomerSessions(@Param('id', ParseMongoIdPipe) id: string) {
+    return this.adminUsersService.getCustomerSessions(id);
+  }
+
+  /**
+   * Revoke all customer sessions
+   *
+   * Signs the customer out on every device. Their refresh tokens stop
+   * working at once; access tokens remain valid until they expire.
+   *
+   * @param id - Customer ID
+   * @returns Number of revoked sessions
+   *
+   * @example
+   * ```bash
+   * DELETE /api/admin/customers/507f1f77bcf86cd799439011/sessions
+   * ```
+   */
+  @Delete(':id/sessions')
+  @ApiOperation({
+    summary: 'Revoke all customer sessions',
+    description:
+      'Signs the customer out on every device. Refresh tokens stop working at once; access tokens remain valid until they expire.',
+    tags: ['Admin - Customer Management'],
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Customer ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Customer sessions revoked successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: { type: 'string', description: 'Success message' },
+        revoked: {
+          type: 'number',
+          description: 'Number of revoked sessions',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 404,
+    description: UserErrorMessages[UserError.CUSTOMER_NOT_FOUND],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async revokeCustomerSessions(
+    @Param('id', ParseMongoIdPipe) id: string,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.adminUsersService.revokeCustomerSessions(id, adminId);
+  }
+
   /**
    * Delete customer
    *
@@ -394,7 +558,7 @@ export class AdminUsersController {
   @ApiOperation({
     summary: 'Toggle customer active status',
     description:
-      'Activates or deactivates a customer account. Deactivated customers cannot login to the system.',
+      'Activates or deactivates a customer account. Deactivated customers cannot login to the system and are signed out on every device.',
     tags: ['Admin - Customer Management'],
   })
   @ApiParam({
@@ -443,8 +607,11 @@ export class AdminUsersController {
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
-  async toggleCustomerStatus(@Param('id') id: string) {
-    return this.adminUsersService.toggleCustomerStatus(id);
+  async toggleCustomerStatus(
+    @Param('id') id: string,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.adminUsersService.toggleCustomerStatus(id, adminId);
   }
 
   /**
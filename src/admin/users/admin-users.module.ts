@@ -4,6 +4,7 @@ import { AdminUsersController } from './admin-users.controller';
 import { AdminUsersService } from './admin-users.service';
 import { User, UserSchema } from '../../schemas/user.schema';
 import { Order, OrderSchema } from '../../schemas/order.schema';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
   imports: [
@@ -11,6 +12,7 @@ import { Order, OrderSchema } from '../../schemas/order.schema';
       { name: User.name, schema: UserSchema },
       { name: Order.name, schema: OrderSchema },
     ]),
+    AuthModule,
   ],
   controllers: [AdminUsersController],
   providers: [AdminUsersService],
@@ -9,6 +9,13 @@ import { User, UserDocument, UserRole } from '../../schemas/user.schema';
 import { Order, OrderDocument } from '../../schemas/order.schema';
 import { UserError, UserErrorMessages } from './enums/user-error.enum';
 import { FindAllCustomersDto } from './dto';
+import {
+  SessionService,
+  SessionSummary,
+} from '../../auth/services/session.service';
+import { AuthSessionRevokeReason } from '../../schemas/auth-session.schema';
+import { SecurityLogService } from '../../auth/services/security-log.service';
+import { SecurityEventType } from '../../schemas/security-event.schema';
 
 export interface PaginatedResponse<T> {
   data: T[];
@@ -21,6 +28,9 @@ export interface PaginatedResponse<T> {
 export interface CustomerOrderSummary {
   orderId: string;
   totalAmount: number;
+  subtotal: number;
+  totalDiscount: number;
+  shippingCost: number;
   status: string;
   paymentStatus: string;
   createdAt: Date;
@@ -29,6 +39,16 @@ export interface CustomerOrderSummary {
     productName: string;
     price: number;
     quantity: number;
+    discount: number;
+  }[];
+  statusHistory: {
+    actor: string;
+    actorId?: string;
+    sellerId?: string;
+    previousStatus?: string;
+    status: string;
+    note?: string;
+    changedAt: Date;
   }[];
 }
 
@@ -37,6 +57,8 @@ export class AdminUsersService {
   constructor(
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    private readonly sessionService: SessionService,
+    private readonly securityLogService: SecurityLogService,
   ) {}
 
   async findAllCustomers(
@@ -124,14 +146,27 @@ export class AdminUsersService {
     return orders.map((order) => ({
       orderId: (order._id as any).toString(),
       totalAmount: order.totalPrice,
+      subtotal: order.subtotal,
+      totalDiscount: order.totalDiscount,
+      shippingCost: order.shippingCost,
       status: order.status,
       paymentStatus: order.paymentStatus,
       createdAt: (order as any).createdAt,
       items: order.items.map((item) => ({
         productId: item.productId._id.toString(),
         productName: (item.productId as any).name,
-        price: (item.productId as any).price,
+        price: item.price,
         quantity: item.quantity,
+        discount: item.discount || 0,
+      })),
+      statusHistory: (order.statusHistory || []).map((change) => ({
+        actor: change.actor,
+        actorId: change.actorId?.toString(),
+        sellerId: change.sellerId?.toString(),
+        previousStatus: change.previousStatus,
+        status: change.status,
+        note: change.note,
+        changedAt: change.changedAt,
       })),
     }));
   }
@@ -162,7 +197,7 @@ export class AdminUsersService {
     };
   }
 
-  async toggleCustomerStatus(id: string): Promise<User> {
+  async toggleCustomerStatus(id: string, adminId?: string): Promise<User> {
     const customer = await this.userModel.findOne({
       _id: id,
       role: UserRole.CUSTOMER,
@@ -175,7 +210,48 @@ export class AdminUsersService {
     }
 
     customer.isActive = !customer.isActive;
-    return customer.save();
+    const saved = await customer.save();
+
+    // A deactivated customer must not keep refreshing tokens
+    if (!saved.isActive) {
+      await this.sessionService.revokeAllSessions(
+        id,
+        AuthSessionRevokeReason.ACCOUNT_DEACTIVATED,
+      );
+      await this.securityLogService.record(SecurityEventType.SESSION_REVOKED, {
+        userId: id,
+        reason: AuthSessionRevokeReason.ACCOUNT_DEACTIVATED,
+        actorId: adminId,
+      });
+    }
+
+    return saved;
+  }
+
+  async getCustomerSessions(id: string): Promise<SessionSummary[]> {
+    await this.ensureCustomerExists(id);
+    return this.sessionService.listSessions(id);
+  }
+
+  async revokeCustomerSessions(
+    id: string,
+    adminId?: string,
+  ): Promise<{ message: string; revoked: number }> {
+    await this.ensureCustomerExists(id);
+    const revoked = await this.sessionService.revokeAllSessions(
+      id,
+      AuthSessionRevokeReason.ADMIN,
+    );
+    await this.securityLogService.record(SecurityEventType.SESSION_REVOKED, {
+      userId: id,
+      reason: AuthSessionRevokeReason.ADMIN,
+      actorId: adminId,
+    });
+
+    return {
+      message: UserErrorMessages[UserError.CUSTOMER_SESSIONS_REVOKED],
+      revoked,
+    };
   }
 
   async getCustomerStats(): Promise<{
@@ -197,4 +273,17 @@ export class AdminUsersService {
       inactive: total - active,
     };
   }
+
+  private async ensureCustomerExists(id: string): Promise<void> {
+    const customer = await this.userModel.exists({
+      _id: id,
+      role: UserRole.CUSTOMER,
+    });
+
+    if (!customer) {
+      throw new NotFoundException(
+        UserErrorMessages[UserError.CUSTOMER_NOT_FOUND],
+      );
+    }
+  }
 }
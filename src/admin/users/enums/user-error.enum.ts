@@ -3,6 +3,7 @@ export enum UserError {
   CUSTOMER_NOT_FOUND = 'CUSTOMER_NOT_FOUND',
   CUSTOMER_HAS_ORDERS = 'CUSTOMER_HAS_ORDERS',
   CUSTOMER_DELETED_SUCCESS = 'CUSTOMER_DELETED_SUCCESS',
+  CUSTOMER_SESSIONS_REVOKED = 'CUSTOMER_SESSIONS_REVOKED',
 }
 
 export const UserErrorMessages: Record<UserError, string> = {
@@ -10,4 +11,6 @@ export const UserErrorMessages: Record<UserError, string> = {
   [UserError.CUSTOMER_HAS_ORDERS]:
     'Cannot delete customer with existing orders',
   [UserError.CUSTOMER_DELETED_SUCCESS]: 'Customer deleted successfully',
+  [UserError.CUSTOMER_SESSIONS_REVOKED]:
+    'All sessions of the customer were revoked',
 };
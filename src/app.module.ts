@@ -15,14 +15,18 @@ import { AdminSellersModule } from './admin/sellers/admin-sellers.module';
 import { AdminCampaignsModule } from './admin/campaigns/admin-campaigns.module';
 import { AdminProductsModule } from './admin/products/admin-products.module';
 import { AdminDashboardModule } from './admin/dashboard/admin-dashboard.module';
+import { AdminSearchModule } from './admin/search/admin-search.module';
+import { AdminSecurityModule } from './admin/security/admin-security.module';
 import { SellerProductsModule } from './sellers/seller-products/seller-products.module';
 import { SellerOrdersModule } from './sellers/seller-orders/seller-orders.module';
 import { SellerProfileModule } from './sellers/seller-profile/seller-profile.module';
 import { SellerCampaignsModule } from './sellers/seller-campaigns/seller-campaigns.module';
 import { SellerDashboardModule } from './sellers/seller-dashboard/seller-dashboard.module';
 import { SellerPublicModule } from './sellers/seller-public/seller-public.module';
+import { SellerReviewsModule } from './sellers/seller-reviews/seller-reviews.module';
 import { CartModule } from './cart/cart.module';
 import { OrdersModule } from './orders/orders.module';
+import { PaymentsModule } from './payments/payments.module';
 import { CampaignsModule } from './campaigns/campaigns.module';
 import { ReviewsModule } from './reviews/reviews.module';
 import { RecommendationsModule } from './recommendations/recommendations.module';
@@ -67,14 +71,18 @@ import configuration from './config/configuration';
     AdminCampaignsModule,
     AdminProductsModule,
     AdminDashboardModule,
+    AdminSearchModule,
+    AdminSecurityModule,
     SellerProductsModule,
     SellerOrdersModule,
     SellerProfileModule,
     SellerCampaignsModule,
     SellerDashboardModule,
     SellerPublicModule,
+    SellerReviewsModule,
     CartModule,
     OrdersModule,
+    PaymentsModule,
     CampaignsModule,
     ReviewsModule,
     RecommendationsModule,
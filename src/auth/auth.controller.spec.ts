@@ -81,10 +81,17 @@ describe('AuthController', () => {
 
       mockAuthService.login.mockResolvedValue(expectedResult);
 
-      const result = await controller.login(loginDto);
+      const result = await controller.login(
+        loginDto,
+        '127.0.0.1',
+        'Mozilla/5.0',
+      );
 
       expect(result).toEqual(expectedResult);
-      expect(mockAuthService.login).toHaveBeenCalledWith(loginDto);
+      expect(mockAuthService.login).toHaveBeenCalledWith(loginDto, {
+        ipAddress: '127.0.0.1',
+        userAgent: 'Mozilla/5.0',
+      });
     });
   });
 
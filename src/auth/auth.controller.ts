@@ -6,7 +6,10 @@ import {
   Get,
   Query,
   UseGuards,
-  Request,
+  Delete,
+  Param,
+  Ip,
+  Headers,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -15,6 +18,7 @@ import {
   ApiBody,
   ApiQuery,
   ApiBearerAuth,
+  ApiParam,
 } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
 import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
@@ -30,11 +34,20 @@ import {
   RefreshTokenDto,
   ForgotPasswordDto,
   ResetPasswordDto,
+  twoFactorLoginSchema,
+  twoFactorChallengeSchema,
+  twoFactorCodeBodySchema,
+  disableTwoFactorSchema,
+  TwoFactorLoginDto,
+  TwoFactorChallengeDto,
+  TwoFactorCodeDto,
+  DisableTwoFactorDto,
 } from './dto/auth.dto';
 
 import { AuthError, AuthErrorMessages } from './enums';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { ParseMongoIdPipe } from '../common/pipes/mongo-id.pipe';
 
 /**
  * Authentication Controller
@@ -47,7 +60,9 @@ import { CurrentUser } from '../common/decorators/current-user.decorator';
  * - Secure login with JWT token generation
  * - Password reset functionality
  * - Email verification system
- * - Token refresh mechanism
+ * - Token refresh mechanism with rotating refresh tokens
+ * - Two-factor authentication (TOTP) with recovery codes
+ * - Device session management
  *
  * @security All endpoints are protected with rate limiting to prevent brute force attacks
  * @security Passwords are hashed using bcrypt with 12 salt rounds
@@ -196,7 +211,7 @@ export class AuthController {
   @ApiOperation({
     summary: 'Login user account',
     description:
-      'Authenticates user with email and password. Requires platform specification (admin, seller, customer). User must have appropriate permissions for the specified platform.',
+      'Authenticates user with email and password. Requires platform specification (admin, seller, customer). User must have appropriate permissions for the specified platform. When two-factor authentication is enabled, or required by policy for admin and seller accounts (on any platform), returns a challenge token for POST /auth/login/2fa instead of tokens. Repeated failed attempts make the account wait between attempts and finally lock it temporarily; logins from a new device or IP address trigger a notification email.',
     tags: ['Authentication'],
   })
   @ApiBody({
@@ -222,6 +237,12 @@ export class AuthController {
           description: 'Platform to access (admin, seller, customer)',
           example: 'customer',
         },
+        deviceName: {
+          type: 'string',
+          description:
+            'Name shown in the session list; derived from the user agent if omitted',
+          example: 'iPhone 15',
+        },
       },
     },
   })
@@ -253,6 +274,20 @@ export class AuthController {
           type: 'string',
           description: 'JWT refresh token (7 days)',
         },
+        twoFactorRequired: {
+          type: 'boolean',
+          description:
+            'Set instead of user and tokens: send a code with the challenge token',
+        },
+        twoFactorSetupRequired: {
+          type: 'boolean',
+          description:
+            'Set instead of user and tokens: 2FA is required but not set up; enroll with the challenge token',
+        },
+        challengeToken: {
+          type: 'string',
+          description: 'Two-factor login challenge (5 minutes)',
+        },
       },
     },
   })
@@ -264,13 +299,126 @@ export class AuthController {
     status: 401,
     description: AuthErrorMessages[AuthError.INSUFFICIENT_PERMISSIONS],
   })
+  @ApiResponse({
+    status: 403,
+    description: AuthErrorMessages[AuthError.ACCOUNT_LOCKED],
+  })
   @ApiResponse({ status: 400, description: 'Invalid input data' })
   @ApiResponse({
     status: 429,
-    description: 'Too many requests - rate limit exceeded',
+    description: `Too many requests - rate limit exceeded, or ${AuthErrorMessages[AuthError.LOGIN_RETRY_TOO_SOON]}`,
+  })
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.login(loginDto, { ipAddress, userAgent });
+  }
+
+  /**
+   * Complete a two-factor login
+   *
+   * Exchanges the challenge token from login and an authenticator code (or a
+   * recovery code) for tokens. For a setup challenge the code confirms
+   * enrollment and the response also carries recovery codes.
+   *
+   * @param twoFactorLoginDto - Challenge token and code
+   * @returns User information with JWT access and refresh tokens
+   */
+  @Post('login/2fa')
+  @UsePipes(new ZodValidationPipe(twoFactorLoginSchema))
+  @ApiOperation({
+    summary: 'Complete two-factor login',
+    description:
+      'Exchanges the challenge token returned by login and a 6-digit authenticator code, or a recovery code, for tokens. For a setup challenge the code confirms enrollment and recovery codes are returned once.',
+    tags: ['Authentication'],
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['challengeToken'],
+      properties: {
+        challengeToken: { type: 'string' },
+        code: { type: 'string', example: '123456' },
+        recoveryCode: { type: 'string', example: 'a1b2c-3d4e5' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Login successful; same response as login',
+  })
+  @ApiResponse({
+    status: 401,
+    description: AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+  })
+  @ApiResponse({
+    status: 401,
+    description: AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CHALLENGE],
+  })
+  @ApiResponse({
+    status: 403,
+    description: AuthErrorMessages[AuthError.ACCOUNT_LOCKED],
+  })
+  @ApiResponse({
+    status: 429,
+    description: `Too many requests - rate limit exceeded, or ${AuthErrorMessages[AuthError.LOGIN_RETRY_TOO_SOON]}`,
   })
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async loginWithTwoFactor(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.loginWithTwoFactor(twoFactorLoginDto, {
+      ipAddress,
+      userAgent,
+    });
+  }
+
+  /**
+   * Start the two-factor setup a login requires
+   *
+   * @param twoFactorChallengeDto - Setup challenge token from login
+   * @returns Secret and otpauth:// URI to show as a QR code
+   */
+  @Post('login/2fa/setup')
+  @UsePipes(new ZodValidationPipe(twoFactorChallengeSchema))
+  @ApiOperation({
+    summary: 'Set up two-factor authentication during login',
+    description:
+      'For logins that returned twoFactorSetupRequired: returns a TOTP secret and an otpauth:// URI to show as a QR code. Confirm with a code at POST /auth/login/2fa.',
+    tags: ['Authentication'],
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['challengeToken'],
+      properties: { challengeToken: { type: 'string' } },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Setup started',
+    schema: {
+      type: 'object',
+      properties: {
+        secret: { type: 'string', description: 'Base32 TOTP secret' },
+        otpauthUrl: {
+          type: 'string',
+          example: 'otpauth://totp/E-Commerce:user%40example.com?secret=...',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CHALLENGE],
+  })
+  async beginTwoFactorSetupForLogin(
+    @Body() twoFactorChallengeDto: TwoFactorChallengeDto,
+  ) {
+    return this.authService.beginTwoFactorSetupForLogin(twoFactorChallengeDto);
   }
 
   /**
@@ -278,6 +426,7 @@ export class AuthController {
    *
    * Generates a new access token using a valid refresh token.
    * This endpoint should be called when the access token expires.
+   * Each refresh token can be used once; reusing one signs the session out.
    *
    * @param refreshTokenDto - Refresh token data
    * @returns New JWT access and refresh tokens
@@ -294,7 +443,7 @@ export class AuthController {
   @ApiOperation({
     summary: 'Refresh access token',
     description:
-      'Generates new access and refresh tokens using a valid refresh token. Call this when access token expires.',
+      'Generates new access and refresh tokens using a valid refresh token. Call this when access token expires. The old refresh token stops working; presenting it again revokes the whole session.',
     tags: ['Authentication'],
   })
   @ApiBody({
@@ -337,8 +486,15 @@ export class AuthController {
     status: 429,
     description: 'Too many requests - rate limit exceeded',
   })
-  async refreshToken(@Body() refreshTokenDto: RefreshTokenDto) {
-    return this.authService.refreshToken(refreshTokenDto);
+  async refreshToken(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.refreshToken(refreshTokenDto, {
+      ipAddress,
+      userAgent,
+    });
   }
 
   /**
@@ -600,11 +756,10 @@ export class AuthController {
   /**
    * Logout user
    *
-   * Logs out the current user by invalidating their session.
-   * In a JWT-based system, this primarily involves client-side token removal,
-   * but the server can also implement additional security measures.
+   * Logs out the current user by revoking their session, so its refresh
+   * tokens stop working, and blacklisting the presented tokens.
    *
-   * @param req - Request object containing user information
+   * @param user - Current user from JWT token
    * @returns Success message
    *
    * @security This endpoint requires a valid JWT token
@@ -635,14 +790,302 @@ export class AuthController {
     description: 'Unauthorized - Invalid or missing token',
   })
   async logout(
-    @Request()
-    req: { user: { sub: string }; headers: { authorization?: string } },
+    @CurrentUser() user: { id: string; sessionId?: string },
+    @Headers('authorization') authorization?: string,
     @Body() body?: { accessToken?: string; refreshToken?: string },
   ) {
-    const accessToken = req.headers.authorization?.replace('Bearer ', '');
+    const accessToken = authorization?.replace('Bearer ', '');
     const refreshToken = body?.refreshToken;
 
-    return this.authService.logout(req.user.sub, accessToken, refreshToken);
+    return this.authService.logout(
+      user.id,
+      user.sessionId,
+      accessToken,
+      refreshToken,
+    );
+  }
+
+  /**
+   * List active sessions
+   *
+   * Returns the devices the current user is logged in on.
+   *
+   * @param user - Current user from JWT token
+   * @returns Active sessions, most recently used first
+   *
+   * @security This endpoint requires a valid JWT token
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'List active sessions',
+    description:
+      'Returns the devices the current user is logged in on, most recently used first. The session of the calling token is flagged as current.',
+    tags: ['Authentication'],
+  })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 200,
+    description: 'Sessions retrieved successfully',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', description: 'Session ID' },
+          platform: { type: 'string', enum: ['admin', 'seller', 'customer'] },
+          deviceName: { type: 'string', example: 'Chrome on Windows' },
+          ipAddress: { type: 'string' },
+          userAgent: { type: 'string' },
+          createdAt: { type: 'string', format: 'date-time' },
+          lastSeenAt: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Last login or token refresh',
+          },
+          expiresAt: { type: 'string', format: 'date-time' },
+          current: { type: 'boolean' },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  async getSessions(@CurrentUser() user: { id: string; sessionId?: string }) {
+    return this.authService.getSessions(user.id, user.sessionId);
+  }
+
+  /**
+   * Revoke a session
+   *
+   * Signs one of the current user's devices out; its refresh token stops
+   * working and its access token expires shortly after.
+   *
+   * @param id - Session ID
+   * @returns Success message
+   *
+   * @security This endpoint requires a valid JWT token
+   */
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Revoke session',
+    description:
+      "Signs one of the current user's devices out. Its refresh token stops working; its access token remains valid until it expires.",
+    tags: ['Authentication'],
+  })
+  @ApiBearerAuth()
+  @ApiParam({ name: 'id', description: 'Session ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Session revoked successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        message: {
+          type: 'string',
+          example: AuthErrorMessages[AuthError.SESSION_REVOKED_SUCCESS],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  @ApiResponse({
+    status: 404,
+    description: AuthErrorMessages[AuthError.SESSION_NOT_FOUND],
+  })
+  async revokeSession(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseMongoIdPipe) sessionId: string,
+  ) {
+    return this.authService.revokeSession(userId, sessionId);
+  }
+
+  /**
+   * Start two-factor setup
+   *
+   * @param userId - Current user ID
+   * @returns Secret and otpauth:// URI to show as a QR code
+   *
+   * @security This endpoint requires a valid JWT token
+   */
+  @Post('2fa/setup')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Start two-factor setup',
+    description:
+      'Returns a new TOTP secret and an otpauth:// URI to show as a QR code. The secret takes effect once confirmed at POST /auth/2fa/enable.',
+    tags: ['Authentication'],
+  })
+  @ApiBearerAuth()
+  @ApiResponse({
+    status: 201,
+    description: 'Setup started',
+    schema: {
+      type: 'object',
+      properties: {
+        secret: { type: 'string', description: 'Base32 TOTP secret' },
+        otpauthUrl: { type: 'string' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: AuthErrorMessages[AuthError.TWO_FACTOR_ALREADY_ENABLED],
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing token',
+  })
+  async setupTwoFactor(@CurrentUser('id') userId: string) {
+    return this.authService.setupTwoFactor(userId);
+  }
+
+  /**
+   * Enable two-factor authentication
+   *
+   * @param userId - Current user ID
+   * @returns Recovery codes, shown only once
+   *
+   * @security This endpoint requires a valid JWT token
+   */
+  @Post('2fa/enable')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Enable two-factor authentication',
+    description:
+      'Confirms setup with a code from the authenticator and returns single-use recovery codes, shown only once.',
+    tags: ['Authentication'],
+  })
+  @ApiBearerAuth()
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['code'],
+      properties: { code: { type: 'string', example: '123456' } },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Two-factor authentication enabled',
+    schema: {
+      type: 'object',
+      properties: {
+        recoveryCodes: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: AuthErrorMessages[AuthError.TWO_FACTOR_SETUP_NOT_STARTED],
+  })
+  @ApiResponse({
+    status: 401,
+    description: AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+  })
+  async enableTwoFactor(
+    @CurrentUser('id') userId: string,
+    @Body(new ZodValidationPipe(twoFactorCodeBodySchema))
+    body: TwoFactorCodeDto,
+  ) {
+    return this.authService.enableTwoFactor(userId, body.code);
+  }
+
+  /**
+   * Disable two-factor authentication
+   *
+   * @param userId - Current user ID
+   * @returns Success message
+   *
+   * @security This endpoint requires a valid JWT token
+   */
+  @Post('2fa/disable')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Disable two-factor authentication',
+    description:
+      'Turns two-factor authentication off after checking a code or recovery code. Not allowed while the 2FA policy covers the account.',
+    tags: ['Authentication'],
+  })
+  @ApiBearerAuth()
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', example: '123456' },
+        recoveryCode: { type: 'string', example: 'a1b2c-3d4e5' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: AuthErrorMessages[AuthError.TWO_FACTOR_DISABLED],
+  })
+  @ApiResponse({
+    status: 401,
+    description: AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+  })
+  @ApiResponse({
+    status: 403,
+    description: AuthErrorMessages[AuthError.TWO_FACTOR_REQUIRED_BY_POLICY],
+  })
+  async disableTwoFactor(
+    @CurrentUser('id') userId: string,
+    @Body(new ZodValidationPipe(disableTwoFactorSchema))
+    body: DisableTwoFactorDto,
+  ) {
+    return this.authService.disableTwoFactor(userId, body);
+  }
+
+  /**
+   * Regenerate recovery codes
+   *
+   * @param userId - Current user ID
+   * @returns New recovery codes; the old ones stop working
+   *
+   * @security This endpoint requires a valid JWT token
+   */
+  @Post('2fa/recovery-codes')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({
+    summary: 'Regenerate recovery codes',
+    description:
+      'Replaces all recovery codes after checking an authenticator code. The old codes stop working.',
+    tags: ['Authentication'],
+  })
+  @ApiBearerAuth()
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['code'],
+      properties: { code: { type: 'string', example: '123456' } },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Recovery codes regenerated',
+    schema: {
+      type: 'object',
+      properties: {
+        recoveryCodes: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+  })
+  async regenerateRecoveryCodes(
+    @CurrentUser('id') userId: string,
+    @Body(new ZodValidationPipe(twoFactorCodeBodySchema))
+    body: TwoFactorCodeDto,
+  ) {
+    return this.authService.regenerateRecoveryCodes(userId, body.code);
   }
 
   /**
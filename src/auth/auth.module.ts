@@ -2,23 +2,53 @@ import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { MongooseModule } from '@nestjs/mongoose';
+import { CacheModule } from '@nestjs/cache-manager';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import * as redisStore from 'cache-manager-redis-store';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
 import { User, UserSchema } from '../schemas/user.schema';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { TokenBlacklistService } from './services/token-blacklist.service';
+import { SessionService } from './services/session.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { SecuritySettingsService } from './services/security-settings.service';
+import { LoginAttemptService } from './services/login-attempt.service';
+import { SecurityLogService } from './services/security-log.service';
+import { EmailService } from '../common/services/email.service';
 import {
   BlacklistedToken,
   BlacklistedTokenSchema,
 } from '../schemas/blacklisted-token.schema';
+import { AuthSession, AuthSessionSchema } from '../schemas/auth-session.schema';
+import {
+  SecuritySettings,
+  SecuritySettingsSchema,
+} from '../schemas/security-settings.schema';
+import {
+  SecurityEvent,
+  SecurityEventSchema,
+} from '../schemas/security-event.schema';
 
 @Module({
   imports: [
     PassportModule,
+    CacheModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        store: redisStore,
+        host: configService.get('REDIS_HOST', 'localhost'),
+        port: configService.get('REDIS_PORT', 6379),
+        password: configService.get('REDIS_PASSWORD'),
+      }),
+      inject: [ConfigService],
+    }),
     MongooseModule.forFeature([
       { name: User.name, schema: UserSchema },
       { name: BlacklistedToken.name, schema: BlacklistedTokenSchema },
+      { name: AuthSession.name, schema: AuthSessionSchema },
+      { name: SecuritySettings.name, schema: SecuritySettingsSchema },
+      { name: SecurityEvent.name, schema: SecurityEventSchema },
     ]),
     JwtModule.registerAsync({
       imports: [ConfigModule],
@@ -32,7 +62,23 @@ import {
     }),
   ],
   controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, TokenBlacklistService],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    TokenBlacklistService,
+    SessionService,
+    TwoFactorService,
+    SecuritySettingsService,
+    LoginAttemptService,
+    SecurityLogService,
+    EmailService,
+  ],
+  exports: [
+    AuthService,
+    SessionService,
+    SecuritySettingsService,
+    LoginAttemptService,
+    SecurityLogService,
+  ],
 })
 export class AuthModule {}
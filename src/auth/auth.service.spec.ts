@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import * as bcrypt from 'bcrypt';
+import { AuthService } from './auth.service';
+import { Platform } from './dto/auth.dto';
+import { User, UserRole } from '../schemas/user.schema';
+import { TokenBlacklistService } from './services/token-blacklist.service';
+import { SessionService } from './services/session.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { LoginAttemptService } from './services/login-attempt.service';
+import { SecurityLogService } from './services/security-log.service';
+import { EmailService } from '../common/services/email.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+  let user: Record<string, any>;
+
+  const password = 'Secret123!';
+  const requireTwoFactor = jest.fn();
+
+  const mockJwtService = {
+    signAsync: jest.fn().mockResolvedValue('signed-token'),
+    decode: jest.fn().mockReturnValue({ exp: Date.now() / 1000 + 60 }),
+  };
+  const mockSessionService = { createSession: jest.fn() };
+
+  beforeAll(async () => {
+    user = {
+      _id: new Types.ObjectId(),
+      email: 'admin@example.com',
+      password: await bcrypt.hash(password, 4),
+      firstName: 'Ada',
+      lastName: 'Admin',
+      role: UserRole.ADMIN,
+      twoFactorEnabled: false,
+      failedLoginAttempts: 0,
+    };
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        {
+          provide: getModelToken(User.name),
+          useValue: { findOne: jest.fn().mockResolvedValue(user) },
+        },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: TokenBlacklistService, useValue: {} },
+        { provide: SessionService, useValue: mockSessionService },
+        {
+          provide: TwoFactorService,
+          useValue: {
+            // Same rule as the real service: only admins and sellers are
+            // covered by the policy
+            isRequiredForRole: (role: UserRole) =>
+              role !== UserRole.CUSTOMER && requireTwoFactor(),
+          },
+        },
+        {
+          provide: LoginAttemptService,
+          useValue: {
+            claimAttempt: jest
+              .fn()
+              .mockResolvedValue({ attempt: { startedAt: new Date() } }),
+            release: jest.fn(),
+            reset: jest.fn(),
+          },
+        },
+        {
+          provide: SecurityLogService,
+          useValue: { record: jest.fn(), isNewDevice: () => false },
+        },
+        { provide: EmailService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('login', () => {
+    it('requires 2FA setup when an admin logs in on the customer platform', async () => {
+      requireTwoFactor.mockReturnValue(true);
+
+      const result = await service.login({
+        email: user.email,
+        password,
+        platform: Platform.CUSTOMER,
+      });
+
+      expect(result).toEqual({
+        twoFactorSetupRequired: true,
+        challengeToken: 'signed-token',
+      });
+      expect(result).not.toHaveProperty('accessToken');
+      expect(mockSessionService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('issues tokens on the customer platform when 2FA is not required', async () => {
+      requireTwoFactor.mockReturnValue(false);
+
+      const result = await service.login({
+        email: user.email,
+        password,
+        platform: Platform.CUSTOMER,
+      });
+
+      expect(result).toHaveProperty('accessToken', 'signed-token');
+      expect(mockSessionService.createSession).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -3,9 +3,14 @@ import {
   UnauthorizedException,
   BadRequestException,
   ConflictException,
+  NotFoundException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
+import { randomUUID } from 'crypto';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import * as bcrypt from 'bcrypt';
@@ -17,18 +22,55 @@ import {
   VerifyEmailDto,
   ForgotPasswordDto,
   ResetPasswordDto,
+  TwoFactorLoginDto,
+  TwoFactorChallengeDto,
+  DisableTwoFactorDto,
   Platform,
 } from './dto/auth.dto';
 import { AuthError, AuthErrorMessages } from './enums';
 import { TokenBlacklistService } from './services/token-blacklist.service';
+import {
+  SessionContext,
+  SessionService,
+  describeDevice,
+} from './services/session.service';
+import { AuthSessionRevokeReason } from '../schemas/auth-session.schema';
+import { TwoFactorService } from './services/two-factor.service';
+import {
+  LoginAttempt,
+  LoginAttemptService,
+} from './services/login-attempt.service';
+import { SecurityLogService } from './services/security-log.service';
+import {
+  LoginFailureReason,
+  SecurityEventType,
+} from '../schemas/security-event.schema';
+import { EmailService } from '../common/services/email.service';
 
 interface JwtPayload {
   sub: string;
   email: string;
   role: string;
   exp: number;
+  /** Session the token belongs to */
+  sid?: string;
+  /** Refresh token ID, rotated on every refresh */
+  jti?: string;
+}
+
+/**
+ * Issued after the password check when a second factor is needed
+ */
+interface TwoFactorChallengePayload {
+  sub: string;
+  platform: Platform;
+  deviceName?: string;
+  /** verify: enter a code; setup: enroll first, as the 2FA policy requires */
+  purpose: 'verify' | 'setup';
 }
 
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = '5m';
+
 @Injectable()
 export class AuthService {
   constructor(
@@ -36,6 +78,11 @@ export class AuthService {
     private jwtService: JwtService,
     private configService: ConfigService,
     private tokenBlacklistService: TokenBlacklistService,
+    private sessionService: SessionService,
+    private twoFactorService: TwoFactorService,
+    private loginAttemptService: LoginAttemptService,
+    private securityLogService: SecurityLogService,
+    private emailService: EmailService,
   ) {}
 
   async register(registerDto: RegisterDto) {
@@ -74,52 +121,203 @@ export class AuthService {
 
     // Send verification email
 
+    await this.securityLogService.record(SecurityEventType.REGISTERED, {
+      userId: user._id as Types.ObjectId,
+      email,
+    });
+
     return { message: AuthErrorMessages[AuthError.REGISTRATION_SUCCESS] };
   }
 
-  async login(loginDto: LoginDto) {
-    const { email, password, platform } = loginDto;
+  async login(loginDto: LoginDto, context: SessionContext = {}) {
+    const { email, password, platform, deviceName } = loginDto;
 
     // Find user
     const user = await this.userModel.findOne({ email });
     if (!user) {
+      await this.securityLogService.record(SecurityEventType.LOGIN_FAILED, {
+        ...context,
+        email,
+        platform,
+        reason: LoginFailureReason.UNKNOWN_EMAIL,
+      });
       throw new UnauthorizedException(
         AuthErrorMessages[AuthError.INVALID_CREDENTIALS],
       );
     }
 
+    // Per-account limit, on top of the per-IP rate limit
+    const attempt = await this.assertLoginAllowed(user, platform, context);
+
     // Check password
     const isPasswordValid = await bcrypt.compare(password, user.password);
     if (!isPasswordValid) {
+      await this.recordFailedLogin(
+        user,
+        platform,
+        context,
+        LoginFailureReason.INVALID_PASSWORD,
+      );
       throw new UnauthorizedException(
         AuthErrorMessages[AuthError.INVALID_CREDENTIALS],
       );
     }
+    // Only wrong passwords stay counted
+    await this.loginAttemptService.release(user._id as Types.ObjectId, attempt);
 
     // Check platform access
     if (!this.hasPlatformAccess(user.role, platform)) {
+      await this.securityLogService.record(SecurityEventType.LOGIN_FAILED, {
+        ...context,
+        userId: user._id as Types.ObjectId,
+        platform,
+        reason: LoginFailureReason.INSUFFICIENT_PERMISSIONS,
+      });
       throw new UnauthorizedException(
         AuthErrorMessages[AuthError.INSUFFICIENT_PERMISSIONS],
       );
     }
 
-    // Generate tokens
-    const tokens = await this.generateTokens(user);
+    // Enrolled users, and admins and sellers under the 2FA policy, need a
+    // second step. The policy follows the role, not the platform: an admin
+    // logging in on the customer platform still gets an admin token.
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await this.createTwoFactorChallenge(
+          user,
+          platform,
+          deviceName,
+          'verify',
+        ),
+      };
+    }
+    if (await this.twoFactorService.isRequiredForRole(user.role)) {
+      return {
+        twoFactorSetupRequired: true,
+        challengeToken: await this.createTwoFactorChallenge(
+          user,
+          platform,
+          deviceName,
+          'setup',
+        ),
+      };
+    }
 
-    return {
-      user: {
-        id: user._id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        isEmailVerified: user.isEmailVerified,
-      },
-      ...tokens,
-    };
+    return this.completeLogin(user, platform, { ...context, deviceName });
   }
 
-  async refreshToken(refreshTokenDto: RefreshTokenDto) {
+  /**
+   * Second login step: exchange a challenge token and a code for tokens
+   *
+   * For a setup challenge the code confirms enrollment, and the new
+   * recovery codes are returned with the tokens.
+   */
+  async loginWithTwoFactor(
+    twoFactorLoginDto: TwoFactorLoginDto,
+    context: SessionContext = {},
+  ) {
+    const { challengeToken, code, recoveryCode } = twoFactorLoginDto;
+    const challenge = this.verifyTwoFactorChallenge(challengeToken);
+
+    // The account may have been deactivated since the password step
+    const user = await this.userModel.findById(challenge.sub);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CHALLENGE],
+      );
+    }
+
+    // Wrong codes count towards the lockout like wrong passwords
+    const attempt = await this.assertLoginAllowed(
+      user,
+      challenge.platform,
+      context,
+    );
+
+    let recoveryCodes: string[] | undefined;
+    if (challenge.purpose === 'setup') {
+      if (!code) {
+        throw new BadRequestException(
+          AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+        );
+      }
+      try {
+        ({ recoveryCodes } = await this.twoFactorService.enable(
+          challenge.sub,
+          code,
+        ));
+      } catch (error) {
+        if (error instanceof UnauthorizedException) {
+          await this.recordFailedLogin(
+            user,
+            challenge.platform,
+            context,
+            LoginFailureReason.INVALID_TWO_FACTOR_CODE,
+          );
+        } else {
+          await this.loginAttemptService.release(
+            user._id as Types.ObjectId,
+            attempt,
+          );
+        }
+        throw error;
+      }
+      await this.securityLogService.record(
+        SecurityEventType.TWO_FACTOR_ENABLED,
+        { ...context, userId: challenge.sub, platform: challenge.platform },
+      );
+    } else if (
+      !(await this.twoFactorService.verify(challenge.sub, {
+        code,
+        recoveryCode,
+      }))
+    ) {
+      await this.recordFailedLogin(
+        user,
+        challenge.platform,
+        context,
+        LoginFailureReason.INVALID_TWO_FACTOR_CODE,
+      );
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+      );
+    }
+
+    const result = await this.completeLogin(user, challenge.platform, {
+      ...context,
+      deviceName: challenge.deviceName,
+    });
+    return recoveryCodes ? { ...result, recoveryCodes } : result;
+  }
+
+  /**
+   * Start the enrollment a setup challenge asks for
+   */
+  async beginTwoFactorSetupForLogin(
+    twoFactorChallengeDto: TwoFactorChallengeDto,
+  ) {
+    const challenge = this.verifyTwoFactorChallenge(
+      twoFactorChallengeDto.challengeToken,
+    );
+    if (challenge.purpose !== 'setup') {
+      throw new BadRequestException(
+        AuthErrorMessages[AuthError.TWO_FACTOR_ALREADY_ENABLED],
+      );
+    }
+
+    return this.twoFactorService.beginSetup(challenge.sub);
+  }
+
+  /**
+   * Exchange a refresh token for new tokens of the same session
+   *
+   * Each refresh token works once; reusing one revokes its session.
+   */
+  async refreshToken(
+    refreshTokenDto: RefreshTokenDto,
+    context: SessionContext = {},
+  ) {
     try {
       const payload = this.jwtService.verify<JwtPayload>(
         refreshTokenDto.refreshToken,
@@ -128,6 +326,13 @@ export class AuthService {
         },
       );
 
+      // Tokens issued before sessions existed cannot be rotated
+      if (!payload.sid || !payload.jti) {
+        throw new UnauthorizedException(
+          AuthErrorMessages[AuthError.INVALID_REFRESH_TOKEN],
+        );
+      }
+
       const user = await this.userModel.findById(payload.sub);
       if (!user) {
         throw new UnauthorizedException(
@@ -135,7 +340,30 @@ export class AuthService {
         );
       }
 
-      const tokens = await this.generateTokens(user);
+      const nextTokenId = randomUUID();
+      const tokens = await this.generateTokens(user, payload.sid, nextTokenId);
+
+      const rotated = await this.sessionService.rotate(
+        payload.sid,
+        payload.jti,
+        nextTokenId,
+        this.getTokenExpiry(tokens.refreshToken),
+        context,
+      );
+      if (!rotated) {
+        await this.securityLogService.record(
+          SecurityEventType.TOKEN_REUSE_DETECTED,
+          { ...context, userId: payload.sub },
+        );
+        throw new UnauthorizedException(
+          AuthErrorMessages[AuthError.INVALID_REFRESH_TOKEN],
+        );
+      }
+
+      await this.securityLogService.record(SecurityEventType.TOKEN_REFRESHED, {
+        ...context,
+        userId: payload.sub,
+      });
 
       return tokens;
     } catch {
@@ -172,6 +400,10 @@ export class AuthService {
     user.emailVerificationTokenExpires = undefined;
     await user.save();
 
+    await this.securityLogService.record(SecurityEventType.EMAIL_VERIFIED, {
+      userId: user._id as Types.ObjectId,
+    });
+
     return { message: AuthErrorMessages[AuthError.EMAIL_VERIFICATION_SUCCESS] };
   }
 
@@ -192,6 +424,11 @@ export class AuthService {
     user.passwordResetTokenExpires = new Date(Date.now() + 60 * 60 * 1000); // 1 hour
     await user.save();
 
+    await this.securityLogService.record(
+      SecurityEventType.PASSWORD_RESET_REQUESTED,
+      { userId: user._id as Types.ObjectId },
+    );
+
     return {
       message: AuthErrorMessages[AuthError.PASSWORD_RESET_EMAIL_SENT],
     };
@@ -228,6 +465,19 @@ export class AuthService {
     user.passwordResetTokenExpires = undefined;
     await user.save();
 
+    // Sign out everywhere, the old password may have leaked
+    await this.sessionService.revokeAllSessions(
+      (user._id as Types.ObjectId).toString(),
+      AuthSessionRevokeReason.PASSWORD_RESET,
+    );
+
+    // Proving ownership of the email lifts a lockout
+    await this.loginAttemptService.reset(user._id as Types.ObjectId);
+
+    await this.securityLogService.record(SecurityEventType.PASSWORD_RESET, {
+      userId: user._id as Types.ObjectId,
+    });
+
     return { message: AuthErrorMessages[AuthError.PASSWORD_RESET_SUCCESS] };
   }
 
@@ -257,11 +507,71 @@ export class AuthService {
     return { message: AuthErrorMessages[AuthError.VERIFICATION_EMAIL_SENT] };
   }
 
-  private async generateTokens(user: UserDocument) {
+  /**
+   * Start a session and return it with the user
+   *
+   * @private
+   */
+  private async completeLogin(
+    user: UserDocument,
+    platform: Platform,
+    context: SessionContext,
+  ) {
+    const sessionId = new Types.ObjectId();
+    const tokenId = randomUUID();
+    const tokens = await this.generateTokens(
+      user,
+      sessionId.toString(),
+      tokenId,
+    );
+    await this.sessionService.createSession(
+      sessionId,
+      user._id as Types.ObjectId,
+      platform,
+      tokenId,
+      this.getTokenExpiry(tokens.refreshToken),
+      context,
+    );
+
+    await this.loginAttemptService.reset(user._id as Types.ObjectId);
+
+    const newDevice = await this.securityLogService.isNewDevice(
+      user._id as Types.ObjectId,
+      context,
+    );
+    await this.securityLogService.record(SecurityEventType.LOGIN_SUCCEEDED, {
+      ...context,
+      userId: user._id as Types.ObjectId,
+      platform,
+      newDevice,
+    });
+    if (newDevice) {
+      this.notifyNewDeviceLogin(user, context);
+    }
+
+    return {
+      user: {
+        id: user._id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        role: user.role,
+        isEmailVerified: user.isEmailVerified,
+      },
+      ...tokens,
+    };
+  }
+
+  private async generateTokens(
+    user: UserDocument,
+    sessionId: string,
+    tokenId: string,
+  ) {
     const payload = {
       sub: user._id,
       email: user.email,
       role: user.role,
+      sid: sessionId,
     };
 
     const [accessToken, refreshToken] = await Promise.all([
@@ -272,6 +582,7 @@ export class AuthService {
       this.jwtService.signAsync(payload, {
         secret: process.env.JWT_REFRESH_SECRET,
         expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+        jwtid: tokenId,
       }),
     ]);
 
@@ -281,6 +592,129 @@ export class AuthService {
     };
   }
 
+  /**
+   * Count the attempt, or refuse it while the account is locked or must wait
+   *
+   * @private
+   */
+  private async assertLoginAllowed(
+    user: UserDocument,
+    platform: Platform,
+    context: SessionContext,
+  ): Promise<LoginAttempt> {
+    const claim = await this.loginAttemptService.claimAttempt(
+      user._id as Types.ObjectId,
+    );
+    if ('attempt' in claim) return claim.attempt;
+    const { block } = claim;
+
+    await this.securityLogService.record(SecurityEventType.LOGIN_BLOCKED, {
+      ...context,
+      userId: user._id as Types.ObjectId,
+      platform,
+      reason: block.reason,
+    });
+
+    if (block.reason === LoginFailureReason.ACCOUNT_LOCKED) {
+      throw new ForbiddenException(AuthErrorMessages[AuthError.ACCOUNT_LOCKED]);
+    }
+    throw new HttpException(
+      AuthErrorMessages[AuthError.LOGIN_RETRY_TOO_SOON],
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Count a wrong password or code; throws once the account gets locked
+   *
+   * @private
+   */
+  private async recordFailedLogin(
+    user: UserDocument,
+    platform: Platform,
+    context: SessionContext,
+    reason: LoginFailureReason,
+  ): Promise<void> {
+    const userId = user._id as Types.ObjectId;
+    const locked = await this.loginAttemptService.recordFailure(userId);
+
+    await this.securityLogService.record(SecurityEventType.LOGIN_FAILED, {
+      ...context,
+      userId,
+      platform,
+      reason,
+    });
+
+    if (locked) {
+      await this.securityLogService.record(SecurityEventType.ACCOUNT_LOCKED, {
+        ...context,
+        userId,
+        platform,
+        reason,
+      });
+      throw new ForbiddenException(AuthErrorMessages[AuthError.ACCOUNT_LOCKED]);
+    }
+  }
+
+  /**
+   * Tell the user about a login from a new device or IP, without holding up
+   * the login
+   *
+   * @private
+   */
+  private notifyNewDeviceLogin(
+    user: UserDocument,
+    context: SessionContext,
+  ): void {
+    if (!this.configService.get<boolean>('app.loginSecurity.notifyNewDevice')) {
+      return;
+    }
+
+    this.emailService
+      .sendNewLoginEmail(user.email, user.firstName, {
+        deviceName: context.deviceName || describeDevice(context.userAgent),
+        ipAddress: context.ipAddress,
+        loggedInAt: new Date(),
+      })
+      .catch(() => undefined);
+  }
+
+  private async createTwoFactorChallenge(
+    user: UserDocument,
+    platform: Platform,
+    deviceName: string | undefined,
+    purpose: TwoFactorChallengePayload['purpose'],
+  ): Promise<string> {
+    const payload: TwoFactorChallengePayload = {
+      sub: (user._id as Types.ObjectId).toString(),
+      platform,
+      deviceName,
+      purpose,
+    };
+
+    return this.jwtService.signAsync(payload, {
+      secret: this.configService.get<string>('app.jwt.twoFactorSecret'),
+      expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN,
+    });
+  }
+
+  private verifyTwoFactorChallenge(token: string): TwoFactorChallengePayload {
+    try {
+      return this.jwtService.verify<TwoFactorChallengePayload>(token, {
+        secret: this.configService.get<string>('app.jwt.twoFactorSecret'),
+      });
+    } catch {
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CHALLENGE],
+      );
+    }
+  }
+
+  private getTokenExpiry(token: string): Date {
+    const { exp } = this.jwtService.decode<JwtPayload>(token);
+    return new Date(exp * 1000);
+  }
+
   /**
    * Send email verification to user
    *
@@ -313,12 +747,30 @@ export class AuthService {
    * @todo Implement proper email service integration
    */
 
-  async logout(userId: string, accessToken?: string, refreshToken?: string) {
+  async logout(
+    userId: string,
+    sessionId?: string,
+    accessToken?: string,
+    refreshToken?: string,
+  ) {
     // In a JWT-based system, logout is primarily handled on the client side
     // by removing tokens from storage. However, we can implement additional
     // security measures like token blacklisting or refresh token invalidation.
 
     try {
+      await this.securityLogService.record(SecurityEventType.LOGOUT, {
+        userId,
+      });
+
+      // Ending the session invalidates its refresh tokens
+      if (sessionId) {
+        await this.sessionService.revokeSession(
+          userId,
+          sessionId,
+          AuthSessionRevokeReason.LOGOUT,
+        );
+      }
+
       // If tokens are provided, add them to blacklist
       if (accessToken) {
         const accessTokenPayload = this.jwtService.verify<JwtPayload>(
@@ -363,6 +815,75 @@ export class AuthService {
     }
   }
 
+  /**
+   * Active sessions of the user, the caller's own flagged as current
+   */
+  async getSessions(userId: string, currentSessionId?: string) {
+    return this.sessionService.listSessions(userId, currentSessionId);
+  }
+
+  /**
+   * Sign one of the user's devices out
+   */
+  async revokeSession(userId: string, sessionId: string) {
+    const revoked = await this.sessionService.revokeSession(
+      userId,
+      sessionId,
+      AuthSessionRevokeReason.USER,
+    );
+    if (!revoked) {
+      throw new NotFoundException(
+        AuthErrorMessages[AuthError.SESSION_NOT_FOUND],
+      );
+    }
+
+    await this.securityLogService.record(SecurityEventType.SESSION_REVOKED, {
+      userId,
+      reason: AuthSessionRevokeReason.USER,
+    });
+
+    return { message: AuthErrorMessages[AuthError.SESSION_REVOKED_SUCCESS] };
+  }
+
+  async setupTwoFactor(userId: string) {
+    return this.twoFactorService.beginSetup(userId);
+  }
+
+  async enableTwoFactor(userId: string, code: string) {
+    const result = await this.twoFactorService.enable(userId, code);
+    await this.securityLogService.record(SecurityEventType.TWO_FACTOR_ENABLED, {
+      userId,
+    });
+    return result;
+  }
+
+  async disableTwoFactor(
+    userId: string,
+    disableTwoFactorDto: DisableTwoFactorDto,
+  ) {
+    const result = await this.twoFactorService.disable(
+      userId,
+      disableTwoFactorDto,
+    );
+    await this.securityLogService.record(
+      SecurityEventType.TWO_FACTOR_DISABLED,
+      { userId },
+    );
+    return result;
+  }
+
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    const result = await this.twoFactorService.regenerateRecoveryCodes(
+      userId,
+      code,
+    );
+    await this.securityLogService.record(
+      SecurityEventType.RECOVERY_CODES_REGENERATED,
+      { userId },
+    );
+    return result;
+  }
+
   private hasPlatformAccess(userRole: UserRole, platform: Platform): boolean {
     switch (platform) {
       case Platform.ADMIN:
@@ -400,6 +921,7 @@ export class AuthService {
       preferences: user.preferences || {},
       isEmailVerified: user.isEmailVerified,
       isActive: user.isActive,
+      twoFactorEnabled: user.twoFactorEnabled ?? false,
       lastLogoutAt: user.lastLogoutAt,
       createdAt: (user as any).createdAt,
       updatedAt: (user as any).updatedAt,
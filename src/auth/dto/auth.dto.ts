@@ -20,6 +20,8 @@ export const loginSchema = z.object({
   email: z.string().email(),
   password: z.string(),
   platform: z.nativeEnum(Platform),
+  /** Shown in the session list; derived from the user agent if omitted */
+  deviceName: z.string().trim().min(1).max(100).optional(),
 });
 
 export const refreshTokenSchema = z.object({
@@ -41,9 +43,47 @@ export const verifyEmailSchema = z.object({
   email: z.string().email(),
 });
 
+const twoFactorCodeSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, 'Code must be 6 digits');
+
+export const twoFactorLoginSchema = z
+  .object({
+    challengeToken: z.string(),
+    code: twoFactorCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: 'Provide either a code or a recovery code',
+    path: ['code'],
+  });
+
+export const twoFactorChallengeSchema = z.object({
+  challengeToken: z.string(),
+});
+
+export const twoFactorCodeBodySchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+export const disableTwoFactorSchema = z
+  .object({
+    code: twoFactorCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((data) => !!data.code !== !!data.recoveryCode, {
+    message: 'Provide either a code or a recovery code',
+    path: ['code'],
+  });
+
 export type RegisterDto = z.infer<typeof registerSchema>;
 export type LoginDto = z.infer<typeof loginSchema>;
 export type RefreshTokenDto = z.infer<typeof refreshTokenSchema>;
 export type ForgotPasswordDto = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordDto = z.infer<typeof resetPasswordSchema>;
 export type VerifyEmailDto = z.infer<typeof verifyEmailSchema>;
+export type TwoFactorLoginDto = z.infer<typeof twoFactorLoginSchema>;
+export type TwoFactorChallengeDto = z.infer<typeof twoFactorChallengeSchema>;
+export type TwoFactorCodeDto = z.infer<typeof twoFactorCodeBodySchema>;
+export type DisableTwoFactorDto = z.infer<typeof disableTwoFactorSchema>;
@@ -34,6 +34,7 @@ export const userInfoResponseSchema = z.object({
   preferences: userPreferencesSchema,
   isEmailVerified: z.boolean(),
   isActive: z.boolean(),
+  twoFactorEnabled: z.boolean(),
   lastLogoutAt: z.date().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
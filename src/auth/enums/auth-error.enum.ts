@@ -6,12 +6,26 @@ export enum AuthError {
   // Login errors
   INVALID_CREDENTIALS = 'INVALID_CREDENTIALS',
   INSUFFICIENT_PERMISSIONS = 'INSUFFICIENT_PERMISSIONS',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  LOGIN_RETRY_TOO_SOON = 'LOGIN_RETRY_TOO_SOON',
 
   // Token errors
   INVALID_REFRESH_TOKEN = 'INVALID_REFRESH_TOKEN',
   INVALID_OR_EXPIRED_VERIFICATION_TOKEN = 'INVALID_OR_EXPIRED_VERIFICATION_TOKEN',
   INVALID_OR_EXPIRED_RESET_TOKEN = 'INVALID_OR_EXPIRED_RESET_TOKEN',
 
+  TOKEN_REVOKED = 'TOKEN_REVOKED',
+
+  // Session errors
+  SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
+
+  // Two-factor errors
+  INVALID_TWO_FACTOR_CODE = 'INVALID_TWO_FACTOR_CODE',
+  INVALID_TWO_FACTOR_CHALLENGE = 'INVALID_TWO_FACTOR_CHALLENGE',
+  TWO_FACTOR_ALREADY_ENABLED = 'TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_SETUP_NOT_STARTED = 'TWO_FACTOR_SETUP_NOT_STARTED',
+  TWO_FACTOR_REQUIRED_BY_POLICY = 'TWO_FACTOR_REQUIRED_BY_POLICY',
+
   // Email verification errors
   EMAIL_ALREADY_VERIFIED = 'EMAIL_ALREADY_VERIFIED',
   USER_NOT_FOUND = 'USER_NOT_FOUND',
@@ -22,6 +36,8 @@ export enum AuthError {
   VERIFICATION_EMAIL_SENT = 'VERIFICATION_EMAIL_SENT',
   PASSWORD_RESET_EMAIL_SENT = 'PASSWORD_RESET_EMAIL_SENT',
   LOGOUT_SUCCESS = 'LOGOUT_SUCCESS',
+  SESSION_REVOKED_SUCCESS = 'SESSION_REVOKED_SUCCESS',
+  TWO_FACTOR_DISABLED = 'TWO_FACTOR_DISABLED',
 }
 
 export const AuthErrorMessages: Record<AuthError, string> = {
@@ -29,10 +45,25 @@ export const AuthErrorMessages: Record<AuthError, string> = {
   [AuthError.REGISTRATION_SUCCESS]: 'Registration successful',
   [AuthError.INVALID_CREDENTIALS]: 'Invalid credentials',
   [AuthError.INSUFFICIENT_PERMISSIONS]: 'Insufficient permissions',
+  [AuthError.ACCOUNT_LOCKED]:
+    'Account temporarily locked after too many failed login attempts',
+  [AuthError.LOGIN_RETRY_TOO_SOON]:
+    'Too many failed login attempts, please wait before trying again',
   [AuthError.INVALID_REFRESH_TOKEN]: 'Invalid refresh token',
   [AuthError.INVALID_OR_EXPIRED_VERIFICATION_TOKEN]:
     'Invalid or expired verification token',
   [AuthError.INVALID_OR_EXPIRED_RESET_TOKEN]: 'Invalid or expired reset token',
+  [AuthError.TOKEN_REVOKED]: 'Token has been revoked',
+  [AuthError.SESSION_NOT_FOUND]: 'Session not found',
+  [AuthError.INVALID_TWO_FACTOR_CODE]: 'Invalid two-factor authentication code',
+  [AuthError.INVALID_TWO_FACTOR_CHALLENGE]:
+    'Invalid or expired two-factor login challenge',
+  [AuthError.TWO_FACTOR_ALREADY_ENABLED]:
+    'Two-factor authentication is already enabled',
+  [AuthError.TWO_FACTOR_SETUP_NOT_STARTED]:
+    'Start two-factor authentication setup first',
+  [AuthError.TWO_FACTOR_REQUIRED_BY_POLICY]:
+    'Two-factor authentication is required for your account',
   [AuthError.EMAIL_ALREADY_VERIFIED]: 'Email is already verified',
   [AuthError.USER_NOT_FOUND]: 'User not found',
   [AuthError.PASSWORD_RESET_SUCCESS]: 'Password reset successfully',
@@ -41,4 +72,6 @@ export const AuthErrorMessages: Record<AuthError, string> = {
   [AuthError.PASSWORD_RESET_EMAIL_SENT]:
     'If an account with this email exists, a password reset link has been sent',
   [AuthError.LOGOUT_SUCCESS]: 'Logged out successfully',
+  [AuthError.SESSION_REVOKED_SUCCESS]: 'Session revoked successfully',
+  [AuthError.TWO_FACTOR_DISABLED]: 'Two-factor authentication disabled',
 };
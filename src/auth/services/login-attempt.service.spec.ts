@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { LoginAttemptService } from './login-attempt.service';
+import { User } from '../../schemas/user.schema';
+import { LoginFailureReason } from '../../schemas/security-event.schema';
+
+/**
+ * In-memory stand-in for the users collection
+ *
+ * Only the filters and updates the service sends are understood. Every
+ * call yields to the event loop first, so concurrent calls interleave, and
+ * then matches and applies its update in one synchronous step, like
+ * MongoDB's single-document atomic updates.
+ */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+function createUserModel(user: any) {
+  const evaluate = (expression: any): any => {
+    if (expression === '$$REMOVE') return undefined;
+    if (typeof expression === 'string' && expression.startsWith('$')) {
+      return user[expression.slice(1)];
+    }
+    if (expression?.$subtract) {
+      const [a, b] = expression.$subtract.map(evaluate);
+      return a - b;
+    }
+    if (expression?.$eq) {
+      const [a, b] = expression.$eq.map(evaluate);
+      return a?.getTime() === b?.getTime();
+    }
+    if (expression?.$cond) {
+      const [condition, then, otherwise] = expression.$cond;
+      return evaluate(condition) ? evaluate(then) : evaluate(otherwise);
+    }
+    return expression;
+  };
+
+  const matches = (filter: any) => {
+    const count = filter.failedLoginAttempts;
+    return (
+      filter._id.toString() === user._id.toString() &&
+      (count?.$gt === undefined || user.failedLoginAttempts > count.$gt) &&
+      (count?.$gte === undefined || user.failedLoginAttempts >= count.$gte)
+    );
+  };
+
+  const apply = (update: any) => {
+    if (Array.isArray(update)) {
+      for (const stage of update) {
+        const values = Object.entries<any>(stage.$set).map(
+          ([field, expression]) => [field, evaluate(expression)],
+        );
+        for (const [field, value] of values) {
+          if (value === undefined) delete user[field];
+          else user[field] = value;
+        }
+      }
+      return;
+    }
+    for (const [field, value] of Object.entries<any>(update.$inc || {})) {
+      user[field] += value;
+    }
+    Object.assign(user, update.$set);
+  };
+
+  return {
+    findOneAndUpdate: (filter: any, update: any) => {
+      const result = async () => {
+        await tick();
+        if (!matches(filter)) return null;
+        const before = { ...user };
+        apply(update);
+        return before;
+      };
+      const query = { select: () => query, lean: result };
+      return query;
+    },
+    updateOne: async (filter: any, update: any) => {
+      await tick();
+      if (!matches(filter)) return { modifiedCount: 0 };
+      apply(update);
+      return { modifiedCount: 1 };
+    },
+  };
+}
+
+describe('LoginAttemptService', () => {
+  let service: LoginAttemptService;
+  let user: any;
+
+  const lastFailure = new Date(Date.now() - 120_000);
+
+  const setUp = async (failedLoginAttempts: number) => {
+    user = {
+      _id: new Types.ObjectId(),
+      failedLoginAttempts,
+      lastFailedLoginAt: lastFailure,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptService,
+        { provide: getModelToken(User.name), useValue: createUserModel(user) },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (_key: string, defaultValue: unknown) => defaultValue,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptService>(LoginAttemptService);
+  };
+
+  it('lets only one of several parallel attempts past the delay', async () => {
+    // Three failures: the next attempt waits 2s, long since passed
+    await setUp(3);
+
+    const claims = await Promise.all([
+      service.claimAttempt(user._id),
+      service.claimAttempt(user._id),
+      service.claimAttempt(user._id),
+    ]);
+
+    const allowed = claims.filter((claim) => 'attempt' in claim);
+    expect(allowed).toHaveLength(1);
+    expect(claims.filter((claim) => 'block' in claim)).toEqual([
+      {
+        block: expect.objectContaining({
+          reason: LoginFailureReason.RETRY_TOO_SOON,
+        }),
+      },
+      {
+        block: expect.objectContaining({
+          reason: LoginFailureReason.RETRY_TOO_SOON,
+        }),
+      },
+    ]);
+    expect(user.failedLoginAttempts).toBe(4);
+  });
+
+  it('hands back an attempt that did not fail without delaying the next', async () => {
+    await setUp(3);
+
+    const claim = await service.claimAttempt(user._id);
+    if (!('attempt' in claim)) throw new Error('Attempt was blocked');
+    await service.release(user._id, claim.attempt);
+
+    expect(user.failedLoginAttempts).toBe(3);
+    expect(user.lastFailedLoginAt).toBe(lastFailure);
+    await expect(service.claimAttempt(user._id)).resolves.toHaveProperty(
+      'attempt',
+    );
+  });
+
+  it('locks the account when a failure reaches the limit', async () => {
+    await setUp(9);
+
+    await service.claimAttempt(user._id);
+    await expect(service.recordFailure(user._id)).resolves.toBe(true);
+
+    expect(user.failedLoginAttempts).toBe(0);
+    await expect(service.claimAttempt(user._id)).resolves.toEqual({
+      block: {
+        reason: LoginFailureReason.ACCOUNT_LOCKED,
+        until: user.lockedUntil,
+      },
+    });
+    expect(user.failedLoginAttempts).toBe(0);
+  });
+});
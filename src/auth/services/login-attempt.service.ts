@@ -0,0 +1,225 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { User, UserDocument } from '../../schemas/user.schema';
+import { LoginFailureReason } from '../../schemas/security-event.schema';
+
+export interface LoginBlock {
+  reason: LoginFailureReason.ACCOUNT_LOCKED | LoginFailureReason.RETRY_TOO_SOON;
+  until: Date;
+}
+
+/**
+ * A login attempt counted before its password or code is checked
+ */
+export interface LoginAttempt {
+  startedAt: Date;
+  previousFailureAt?: Date;
+}
+
+/**
+ * Login Attempt Service
+ *
+ * Counts wrong passwords and 2FA codes per account, independently of the
+ * IP-based rate limit. Each attempt is counted as it starts, so parallel
+ * attempts see each other, and is handed back unless it fails:
+ * - After a few failures each further attempt must wait, the wait doubling
+ *   with every failure
+ * - Reaching the limit locks the account for a while
+ * - A successful login, a password reset or an admin unlock clears the count
+ */
+@Injectable()
+export class LoginAttemptService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Count an attempt, unless the account is locked or must wait
+   *
+   * The count and the time are taken in one update; the wait is derived
+   * from the values it replaced, so of several parallel attempts only the
+   * first gets through.
+   *
+   * @returns The block, or the counted attempt to hand back through
+   * release() unless it fails
+   */
+  async claimAttempt(
+    userId: Types.ObjectId | string,
+  ): Promise<{ block: LoginBlock } | { attempt: LoginAttempt }> {
+    const startedAt = new Date();
+    const previous = await this.userModel
+      .findOneAndUpdate(
+        { _id: userId },
+        {
+          $inc: { failedLoginAttempts: 1 },
+          $set: { lastFailedLoginAt: startedAt },
+        },
+        { new: false },
+      )
+      .select('failedLoginAttempts lastFailedLoginAt lockedUntil')
+      .lean<
+        Pick<User, 'failedLoginAttempts' | 'lastFailedLoginAt' | 'lockedUntil'>
+      >();
+
+    const attempt = {
+      startedAt,
+      previousFailureAt: previous?.lastFailedLoginAt,
+    };
+    const block = previous && this.getBlock(previous, startedAt);
+    if (block) {
+      await this.release(userId, attempt);
+      return { block };
+    }
+    return { attempt };
+  }
+
+  /**
+   * Hand back an attempt that did not fail
+   *
+   * The failure time goes back to the earlier one unless another attempt
+   * has started since.
+   */
+  async release(
+    userId: Types.ObjectId | string,
+    attempt: LoginAttempt,
+  ): Promise<void> {
+    await this.userModel.updateOne(
+      { _id: userId, failedLoginAttempts: { $gt: 0 } },
+      [
+        {
+          $set: {
+            failedLoginAttempts: { $subtract: ['$failedLoginAttempts', 1] },
+            lastFailedLoginAt: {
+              $cond: [
+                { $eq: ['$lastFailedLoginAt', attempt.startedAt] },
+                attempt.previousFailureAt ?? '$$REMOVE',
+                '$lastFailedLoginAt',
+              ],
+            },
+          },
+        },
+      ],
+    );
+  }
+
+  /**
+   * Keep a failed attempt counted and lock the account once the limit is
+   * reached
+   *
+   * @returns True when this attempt locked the account
+   */
+  async recordFailure(userId: Types.ObjectId | string): Promise<boolean> {
+    const maxAttempts = this.configService.get<number>(
+      'app.loginSecurity.maxFailedAttempts',
+      10,
+    );
+    const lockoutMinutes = this.configService.get<number>(
+      'app.loginSecurity.lockoutMinutes',
+      15,
+    );
+
+    // Concurrent failures may all reach the limit; only the one that resets
+    // the count locks the account
+    const locked = await this.userModel.updateOne(
+      { _id: userId, failedLoginAttempts: { $gte: maxAttempts } },
+      {
+        $set: {
+          failedLoginAttempts: 0,
+          lockedUntil: new Date(Date.now() + lockoutMinutes * 60 * 1000),
+        },
+      },
+    );
+    return locked.modifiedCount === 1;
+  }
+
+  /**
+   * Clear failed attempts and any lockout
+   */
+  async reset(userId: Types.ObjectId | string): Promise<void> {
+    await this.userModel.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { failedLoginAttempts: { $gt: 0 } },
+          { lockedUntil: { $exists: true } },
+        ],
+      },
+      {
+        $set: { failedLoginAttempts: 0 },
+        $unset: { lastFailedLoginAt: 1, lockedUntil: 1 },
+      },
+    );
+  }
+
+  /**
+   * Lift an active lockout
+   *
+   * @returns False when the account is not locked
+   */
+  async unlock(userId: string): Promise<boolean> {
+    const unlocked = await this.userModel.updateOne(
+      { _id: userId, lockedUntil: { $gt: new Date() } },
+      {
+        $set: { failedLoginAttempts: 0 },
+        $unset: { lastFailedLoginAt: 1, lockedUntil: 1 },
+      },
+    );
+    return unlocked.modifiedCount === 1;
+  }
+
+  /**
+   * Why the account may not attempt a login at the given time, if it may not
+   *
+   * @private
+   */
+  private getBlock(
+    user: Pick<
+      User,
+      'failedLoginAttempts' | 'lastFailedLoginAt' | 'lockedUntil'
+    >,
+    at: Date,
+  ): LoginBlock | null {
+    if (user.lockedUntil && user.lockedUntil > at) {
+      return {
+        reason: LoginFailureReason.ACCOUNT_LOCKED,
+        until: user.lockedUntil,
+      };
+    }
+
+    const delayMs = this.getDelaySeconds(user.failedLoginAttempts ?? 0) * 1000;
+    if (delayMs > 0 && user.lastFailedLoginAt) {
+      const until = new Date(user.lastFailedLoginAt.getTime() + delayMs);
+      if (until > at) {
+        return { reason: LoginFailureReason.RETRY_TOO_SOON, until };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Wait before the next attempt after the given number of failures
+   *
+   * @private
+   */
+  private getDelaySeconds(failedAttempts: number): number {
+    const delayAfter = this.configService.get<number>(
+      'app.loginSecurity.delayAfterAttempts',
+      3,
+    );
+    if (failedAttempts < delayAfter) return 0;
+
+    const baseDelay = this.configService.get<number>(
+      'app.loginSecurity.baseDelaySeconds',
+      2,
+    );
+    const maxDelay = this.configService.get<number>(
+      'app.loginSecurity.maxDelaySeconds',
+      60,
+    );
+    return Math.min(baseDelay * 2 ** (failedAttempts - delayAfter), maxDelay);
+  }
+}
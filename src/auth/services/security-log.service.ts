@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  SecurityEvent,
+  SecurityEventDocument,
+  SecurityEventType,
+} from '../../schemas/security-event.schema';
+import { describeDevice, SessionContext } from './session.service';
+
+export interface SecurityEventEntry extends SessionContext {
+  userId?: Types.ObjectId | string;
+  email?: string;
+  platform?: string;
+  reason?: string;
+  newDevice?: boolean;
+  actorId?: Types.ObjectId | string;
+}
+
+/**
+ * Security Log Service
+ *
+ * Records authentication events for audits and for spotting logins from
+ * new devices. Logging never fails the request it describes.
+ */
+@Injectable()
+export class SecurityLogService {
+  private readonly logger = new Logger(SecurityLogService.name);
+
+  constructor(
+    @InjectModel(SecurityEvent.name)
+    private securityEventModel: Model<SecurityEventDocument>,
+    private configService: ConfigService,
+  ) {}
+
+  async record(
+    type: SecurityEventType,
+    entry: SecurityEventEntry = {},
+  ): Promise<void> {
+    const retentionDays = this.configService.get<number>(
+      'app.loginSecurity.securityLogRetentionDays',
+      90,
+    );
+
+    try {
+      await this.securityEventModel.create({
+        type,
+        userId: entry.userId ? new Types.ObjectId(entry.userId) : undefined,
+        email: entry.email,
+        platform: entry.platform,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent,
+        deviceName: describeDevice(entry.userAgent),
+        reason: entry.reason,
+        newDevice: entry.newDevice,
+        actorId: entry.actorId ? new Types.ObjectId(entry.actorId) : undefined,
+        expiresAt: new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000),
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record security event ${type}`,
+        (error as Error).stack,
+      );
+    }
+  }
+
+  /**
+   * Whether a login comes from a device or IP address the user has not
+   * logged in from before; the very first login is not reported
+   */
+  async isNewDevice(
+    userId: Types.ObjectId | string,
+    context: SessionContext,
+  ): Promise<boolean> {
+    if (!context.ipAddress && !context.userAgent) return false;
+
+    const userObjectId = new Types.ObjectId(userId);
+    const hasLoggedInBefore = await this.securityEventModel.exists({
+      userId: userObjectId,
+      type: SecurityEventType.LOGIN_SUCCEEDED,
+    });
+    if (!hasLoggedInBefore) return false;
+
+    // Compare only what this login tells us about itself
+    const deviceName = describeDevice(context.userAgent);
+    const seen = await this.securityEventModel.exists({
+      userId: userObjectId,
+      type: SecurityEventType.LOGIN_SUCCEEDED,
+      ...(context.ipAddress && { ipAddress: context.ipAddress }),
+      ...(deviceName && { deviceName }),
+    });
+    return !seen;
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  SECURITY_SETTINGS_KEY,
+  SecuritySettings,
+  SecuritySettingsDocument,
+} from '../../schemas/security-settings.schema';
+
+/**
+ * Security Settings Service
+ *
+ * Reads and updates the platform-wide authentication policy; the defaults
+ * apply until an admin saves settings.
+ */
+@Injectable()
+export class SecuritySettingsService {
+  constructor(
+    @InjectModel(SecuritySettings.name)
+    private securitySettingsModel: Model<SecuritySettingsDocument>,
+  ) {}
+
+  async getSettings(): Promise<SecuritySettings> {
+    const settings = await this.securitySettingsModel
+      .findOne({ key: SECURITY_SETTINGS_KEY })
+      .lean();
+
+    return settings ?? { key: SECURITY_SETTINGS_KEY, requireTwoFactor: false };
+  }
+
+  async updateSettings(
+    update: Partial<Omit<SecuritySettings, 'key'>>,
+  ): Promise<SecuritySettings> {
+    const settings = await this.securitySettingsModel
+      .findOneAndUpdate(
+        { key: SECURITY_SETTINGS_KEY },
+        { $set: update },
+        { upsert: true, new: true, setDefaultsOnInsert: true },
+      )
+      .lean();
+
+    return settings;
+  }
+}
@@ -0,0 +1,331 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Model, Types } from 'mongoose';
+import {
+  AuthSession,
+  AuthSessionDocument,
+  AuthSessionRevokeReason,
+} from '../../schemas/auth-session.schema';
+
+/**
+ * Where a login or refresh came from
+ */
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+  deviceName?: string;
+}
+
+const OS_PATTERNS: Array<[string, RegExp]> = [
+  ['iPhone', /iPhone/],
+  ['iPad', /iPad/],
+  ['Android', /Android/],
+  ['Windows', /Windows/],
+  ['macOS', /Mac OS X|Macintosh/],
+  ['Linux', /Linux/],
+];
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome to be Safari
+const BROWSER_PATTERNS: Array<[string, RegExp]> = [
+  ['Edge', /Edg\//],
+  ['Opera', /OPR\//],
+  ['Chrome', /Chrome\//],
+  ['Firefox', /Firefox\//],
+  ['Safari', /Safari\//],
+];
+
+/**
+ * Readable device name such as "Chrome on Windows"
+ */
+export function describeDevice(userAgent?: string): string | undefined {
+  if (!userAgent) return undefined;
+
+  const os = OS_PATTERNS.find(([, pattern]) => pattern.test(userAgent));
+  const browser = BROWSER_PATTERNS.find(([, pattern]) =>
+    pattern.test(userAgent),
+  );
+
+  if (browser && os) return `${browser[0]} on ${os[0]}`;
+  return browser?.[0] ?? os?.[0] ?? 'Unknown device';
+}
+
+const SESSION_STATE_CACHE_PREFIX = 'auth_session_active:';
+
+/**
+ * How long an "active" answer is cached (cache-manager TTLs are in
+ * milliseconds). Revoking overwrites the cached answer, so this only bounds
+ * how long a lookup racing a revocation can serve a stale answer.
+ */
+const ACTIVE_SESSION_CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * How long an "inactive" answer is cached; sessions never come back, so this
+ * only has to outlive the access tokens signed for them
+ */
+const INACTIVE_SESSION_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface SessionSummary {
+  id: string;
+  platform: string;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+/**
+ * Session Service
+ *
+ * Keeps server-side records of logins so refresh tokens can be rotated and
+ * revoked:
+ * - Each refresh swaps the session's current token ID atomically; a token
+ *   can be exchanged once
+ * - Presenting an already rotated token means it leaked, so the whole
+ *   session is revoked
+ * - Users and admins can list and revoke sessions
+ * - Access tokens carry their session ID and are rejected once the session
+ *   is over; the session state is cached in Redis and revoking writes
+ *   through to the cache
+ */
+@Injectable()
+export class SessionService {
+  private readonly pendingLookups = new Map<string, Promise<boolean>>();
+
+  constructor(
+    @InjectModel(AuthSession.name)
+    private sessionModel: Model<AuthSessionDocument>,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+  ) {}
+
+  /**
+   * Record a new login
+   *
+   * @param sessionId - ID the session's tokens were signed with
+   * @param tokenId - JWT ID of the first refresh token
+   * @param expiresAt - Expiry of the first refresh token
+   */
+  async createSession(
+    sessionId: Types.ObjectId,
+    userId: Types.ObjectId | string,
+    platform: string,
+    tokenId: string,
+    expiresAt: Date,
+    context: SessionContext,
+  ): Promise<void> {
+    await this.sessionModel.create({
+      _id: sessionId,
+      userId: new Types.ObjectId(userId),
+      currentTokenId: tokenId,
+      platform,
+      deviceName: context.deviceName || describeDevice(context.userAgent),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      lastSeenAt: new Date(),
+      expiresAt,
+    });
+  }
+
+  /**
+   * Exchange a session's refresh token for the next one
+   *
+   * @param tokenId - JWT ID of the presented refresh token
+   * @param nextTokenId - JWT ID of the refresh token being issued
+   * @param expiresAt - Expiry of the refresh token being issued
+   * @returns False when the session is over or the token was already used;
+   * reuse revokes the session
+   */
+  async rotate(
+    sessionId: string,
+    tokenId: string,
+    nextTokenId: string,
+    expiresAt: Date,
+    context: SessionContext,
+  ): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) return false;
+
+    const now = new Date();
+    const active = {
+      _id: new Types.ObjectId(sessionId),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: now },
+    };
+
+    const rotated = await this.sessionModel.updateOne(
+      { ...active, currentTokenId: tokenId },
+      {
+        $set: {
+          currentTokenId: nextTokenId,
+          lastSeenAt: now,
+          expiresAt,
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+          ...(context.userAgent && { userAgent: context.userAgent }),
+        },
+      },
+    );
+    if (rotated.modifiedCount === 1) return true;
+
+    // The session is alive but the token is not its latest one
+    const revoked = await this.sessionModel.updateOne(active, {
+      $set: {
+        revokedAt: now,
+        revokedReason: AuthSessionRevokeReason.TOKEN_REUSE,
+      },
+    });
+    if (revoked.modifiedCount === 1) await this.markInactive([sessionId]);
+    return false;
+  }
+
+  /**
+   * Whether access tokens signed for a session are still accepted
+   *
+   * Concurrent lookups of the same session share one database query.
+   */
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    if (!Types.ObjectId.isValid(sessionId)) return false;
+
+    const cached = await this.cacheManager.get<boolean>(
+      this.cacheKey(sessionId),
+    );
+    if (typeof cached === 'boolean') return cached;
+
+    let lookup = this.pendingLookups.get(sessionId);
+    if (!lookup) {
+      lookup = this.lookup(sessionId).finally(() =>
+        this.pendingLookups.delete(sessionId),
+      );
+      this.pendingLookups.set(sessionId, lookup);
+    }
+    return lookup;
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   *
+   * @param currentSessionId - Session of the caller, flagged as current
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionSummary[]> {
+    const sessions = await this.sessionModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .sort({ lastSeenAt: -1 })
+      .lean<Array<AuthSession & { _id: Types.ObjectId; createdAt: Date }>>();
+
+    return sessions.map((session) => ({
+      id: session._id.toString(),
+      platform: session.platform,
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session._id.toString() === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one session of a user
+   *
+   * @returns False when the user has no such active session
+   */
+  async revokeSession(
+    userId: string,
+    sessionId: string,
+    reason: AuthSessionRevokeReason,
+  ): Promise<boolean> {
+    const revoked = Types.ObjectId.isValid(sessionId)
+      ? await this.sessionModel.updateOne(
+          {
+            _id: new Types.ObjectId(sessionId),
+            userId: new Types.ObjectId(userId),
+            revokedAt: { $exists: false },
+          },
+          { $set: { revokedAt: new Date(), revokedReason: reason } },
+        )
+      : { modifiedCount: 0 };
+
+    if (revoked.modifiedCount !== 1) return false;
+
+    await this.markInactive([sessionId]);
+    return true;
+  }
+
+  /**
+   * Revoke every session of a user
+   *
+   * @returns Number of revoked sessions
+   */
+  async revokeAllSessions(
+    userId: string,
+    reason: AuthSessionRevokeReason,
+  ): Promise<number> {
+    const owner = new Types.ObjectId(userId);
+    const revokedAt = new Date();
+
+    const revoked = await this.sessionModel.updateMany(
+      { userId: owner, revokedAt: { $exists: false } },
+      { $set: { revokedAt, revokedReason: reason } },
+    );
+    if (revoked.modifiedCount === 0) return 0;
+
+    // The shared timestamp picks out exactly the sessions revoked above
+    const sessions = await this.sessionModel
+      .find({ userId: owner, revokedAt })
+      .select('_id')
+      .lean<Array<{ _id: Types.ObjectId }>>();
+    await this.markInactive(sessions.map((session) => session._id.toString()));
+
+    return revoked.modifiedCount;
+  }
+
+  /**
+   * Read a session's state from MongoDB and cache it
+   *
+   * @private
+   */
+  private async lookup(sessionId: string): Promise<boolean> {
+    const session = await this.sessionModel
+      .findOne({
+        _id: new Types.ObjectId(sessionId),
+        revokedAt: { $exists: false },
+        expiresAt: { $gt: new Date() },
+      })
+      .select('_id')
+      .lean();
+
+    const active = !!session;
+    await this.cacheManager.set(
+      this.cacheKey(sessionId),
+      active,
+      active ? ACTIVE_SESSION_CACHE_TTL_MS : INACTIVE_SESSION_CACHE_TTL_MS,
+    );
+    return active;
+  }
+
+  private async markInactive(sessionIds: string[]): Promise<void> {
+    await Promise.all(
+      sessionIds.map((sessionId) =>
+        this.cacheManager.set(
+          this.cacheKey(sessionId),
+          false,
+          INACTIVE_SESSION_CACHE_TTL_MS,
+        ),
+      ),
+    );
+  }
+
+  private cacheKey(sessionId: string): string {
+    return `${SESSION_STATE_CACHE_PREFIX}${sessionId}`;
+  }
+}
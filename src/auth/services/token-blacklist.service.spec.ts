@@ -0,0 +1,179 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { TokenBlacklistService } from './token-blacklist.service';
+import { BlacklistedToken } from '../../schemas/blacklisted-token.schema';
+
+/**
+ * In-memory stand-ins for MongoDB and Redis
+ *
+ * Database queries take DB_LATENCY_MS, cache calls yield to the event loop
+ * once, roughly the cost of a round trip to a local Redis.
+ */
+const DB_LATENCY_MS = 5;
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createBlacklistModel(entries: Map<string, BlacklistedToken>) {
+  const model = {
+    queries: 0,
+    updateOne: async (
+      filter: Pick<BlacklistedToken, 'tokenHash'>,
+      update: { $setOnInsert: BlacklistedToken },
+    ) => {
+      await sleep(DB_LATENCY_MS);
+      if (!entries.has(filter.tokenHash)) {
+        entries.set(filter.tokenHash, { ...update.$setOnInsert });
+      }
+    },
+    findOne: (filter: { tokenHash: string; expiresAt: { $gt: Date } }) => ({
+      select: () => ({
+        lean: async () => {
+          model.queries++;
+          await sleep(DB_LATENCY_MS);
+          const entry = entries.get(filter.tokenHash);
+          return entry && entry.expiresAt > filter.expiresAt.$gt ? entry : null;
+        },
+      }),
+    }),
+  };
+  return model;
+}
+
+function createCache() {
+  const values = new Map<string, { value: unknown; expiresAt: number }>();
+  return {
+    get: async (key: string) => {
+      await tick();
+      const entry = values.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+    },
+    set: async (key: string, value: unknown, ttl: number) => {
+      await tick();
+      values.set(key, { value, expiresAt: Date.now() + ttl });
+    },
+  };
+}
+
+describe('TokenBlacklistService', () => {
+  let service: TokenBlacklistService;
+  let entries: Map<string, BlacklistedToken>;
+  let model: ReturnType<typeof createBlacklistModel>;
+
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    entries = new Map();
+    model = createBlacklistModel(entries);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TokenBlacklistService,
+        {
+          provide: getModelToken(BlacklistedToken.name),
+          useValue: model,
+        },
+        { provide: CACHE_MANAGER, useValue: createCache() },
+      ],
+    }).compile();
+
+    service = module.get<TokenBlacklistService>(TokenBlacklistService);
+  });
+
+  it('stores token hashes, never the tokens', async () => {
+    await service.addToBlacklist(
+      'header.payload.signature',
+      'user-1',
+      inOneHour(),
+    );
+
+    const [[tokenHash, entry]] = [...entries];
+    expect(tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(entry)).not.toContain('header.payload.signature');
+    await expect(
+      service.isBlacklisted('header.payload.signature'),
+    ).resolves.toBe(true);
+    await expect(service.isBlacklisted('other.token.value')).resolves.toBe(
+      false,
+    );
+  });
+
+  it('skips tokens that already expired', async () => {
+    await service.addToBlacklist(
+      'expired.token.value',
+      'user-1',
+      new Date(Date.now() - 1000),
+    );
+
+    expect(entries.size).toBe(0);
+  });
+
+  it('answers a token blacklisted after a cached lookup', async () => {
+    await expect(service.isBlacklisted('live.token.value')).resolves.toBe(
+      false,
+    );
+
+    await service.addToBlacklist('live.token.value', 'user-1', inOneHour());
+
+    await expect(service.isBlacklisted('live.token.value')).resolves.toBe(true);
+  });
+
+  it('queries the database once for concurrent first lookups', async () => {
+    await service.addToBlacklist('revoked.token.value', 'user-1', inOneHour());
+    // Start from a cold cache: only the database knows the token
+    const cold = await Test.createTestingModule({
+      providers: [
+        TokenBlacklistService,
+        { provide: getModelToken(BlacklistedToken.name), useValue: model },
+        { provide: CACHE_MANAGER, useValue: createCache() },
+      ],
+    }).compile();
+    service = cold.get<TokenBlacklistService>(TokenBlacklistService);
+
+    const results = await Promise.all(
+      Array.from({ length: 20 }, () =>
+        service.isBlacklisted('revoked.token.value'),
+      ),
+    );
+
+    expect(results.every(Boolean)).toBe(true);
+    expect(model.queries).toBe(1);
+
+    await service.isBlacklisted('revoked.token.value');
+    expect(model.queries).toBe(1);
+  });
+
+  it('keeps lookups off the database under load', async () => {
+    const tokens = Array.from({ length: 50 }, (_, i) => `token.${i}.sig`);
+    const revoked = tokens.slice(0, 5);
+    for (const token of revoked) {
+      await service.addToBlacklist(token, 'user-1', inOneHour());
+    }
+
+    const lookups = Array.from(
+      { length: 4000 },
+      (_, i) => tokens[i % tokens.length],
+    );
+    const run = async () => {
+      // 200 concurrent requests at a time
+      for (let i = 0; i < lookups.length; i += 200) {
+        await Promise.all(
+          lookups
+            .slice(i, i + 200)
+            .map((token) => service.isBlacklisted(token)),
+        );
+      }
+    };
+
+    await run();
+    const coldQueries = model.queries;
+    await run();
+
+    // Revoked tokens were cached on logout; every other token is queried
+    // once, even by concurrent first lookups
+    expect(coldQueries).toBe(tokens.length - revoked.length);
+    // Once cached, the database is not touched at all
+    expect(model.queries).toBe(coldQueries);
+  });
+});
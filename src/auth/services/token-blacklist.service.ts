@@ -1,19 +1,40 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
 import { Model } from 'mongoose';
+import { createHash } from 'crypto';
+import {
+  BlacklistedToken,
+  BlacklistedTokenDocument,
+} from '../../schemas/blacklisted-token.schema';
 
-export interface BlacklistedToken {
-  token: string;
-  userId: string;
-  expiresAt: Date;
-  createdAt: Date;
-}
+const BLACKLIST_CACHE_PREFIX = 'token_blacklist:';
+
+/**
+ * How long a "not blacklisted" answer is cached (cache-manager TTLs are in
+ * milliseconds). Blacklisting overwrites the cached answer, so this only
+ * bounds how long a lookup racing a logout can serve a stale answer.
+ */
+const NOT_BLACKLISTED_CACHE_TTL_MS = 30 * 1000;
 
+/**
+ * Token Blacklist Service
+ *
+ * Rejects revoked JWTs before they expire:
+ * - Tokens are stored as SHA-256 hashes with a TTL index on their expiry
+ * - Answers are cached in Redis, so authenticated requests rarely reach
+ *   MongoDB; blacklisting writes through to the cache
+ * - Concurrent lookups of the same token share one database query
+ */
 @Injectable()
 export class TokenBlacklistService {
+  private readonly pendingLookups = new Map<string, Promise<boolean>>();
+
   constructor(
-    @InjectModel('BlacklistedToken')
-    private blacklistedTokenModel: Model<BlacklistedToken>,
+    @InjectModel(BlacklistedToken.name)
+    private blacklistedTokenModel: Model<BlacklistedTokenDocument>,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
   ) {}
 
   async addToBlacklist(
@@ -21,28 +42,81 @@ export class TokenBlacklistService {
     userId: string,
     expiresAt: Date,
   ): Promise<void> {
-    await this.blacklistedTokenModel.create({
-      token,
-      userId,
-      expiresAt,
-      createdAt: new Date(),
-    });
+    const ttl = this.millisecondsUntil(expiresAt);
+    // An expired token is rejected by its signature check already
+    if (ttl <= 0) return;
+
+    const tokenHash = this.hashToken(token);
+    // Upsert so logging out twice with the same token is harmless
+    await this.blacklistedTokenModel.updateOne(
+      { tokenHash },
+      { $setOnInsert: { tokenHash, userId, expiresAt } },
+      { upsert: true },
+    );
+    await this.cacheManager.set(this.cacheKey(tokenHash), true, ttl);
   }
 
   async isBlacklisted(token: string): Promise<boolean> {
-    const blacklistedToken = await this.blacklistedTokenModel.findOne({
-      token,
-    });
-    return !!blacklistedToken;
-  }
+    const tokenHash = this.hashToken(token);
 
-  async cleanupExpiredTokens(): Promise<void> {
-    await this.blacklistedTokenModel.deleteMany({
-      expiresAt: { $lt: new Date() },
-    });
+    const cached = await this.cacheManager.get<boolean>(
+      this.cacheKey(tokenHash),
+    );
+    if (typeof cached === 'boolean') return cached;
+
+    let lookup = this.pendingLookups.get(tokenHash);
+    if (!lookup) {
+      lookup = this.lookup(tokenHash).finally(() =>
+        this.pendingLookups.delete(tokenHash),
+      );
+      this.pendingLookups.set(tokenHash, lookup);
+    }
+    return lookup;
   }
 
-  async getUserBlacklistedTokens(userId: string): Promise<BlacklistedToken[]> {
+  async getUserBlacklistedTokens(
+    userId: string,
+  ): Promise<BlacklistedTokenDocument[]> {
     return this.blacklistedTokenModel.find({ userId }).exec();
   }
+
+  /**
+   * Read a token's state from MongoDB and cache it
+   *
+   * @private
+   */
+  private async lookup(tokenHash: string): Promise<boolean> {
+    const entry = await this.blacklistedTokenModel
+      .findOne({ tokenHash, expiresAt: { $gt: new Date() } })
+      .select('expiresAt')
+      .lean();
+
+    if (entry) {
+      await this.cacheManager.set(
+        this.cacheKey(tokenHash),
+        true,
+        this.millisecondsUntil(entry.expiresAt),
+      );
+      return true;
+    }
+
+    await this.cacheManager.set(
+      this.cacheKey(tokenHash),
+      false,
+      NOT_BLACKLISTED_CACHE_TTL_MS,
+    );
+    return false;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private cacheKey(tokenHash: string): string {
+    return `${BLACKLIST_CACHE_PREFIX}${tokenHash}`;
+  }
+
+  private millisecondsUntil(date: Date): number {
+    return date.getTime() - Date.now();
+  }
 }
@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { User, UserDocument, UserRole } from '../../schemas/user.schema';
+import { AuthError, AuthErrorMessages } from '../enums';
+import {
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotpCode,
+} from '../totp.util';
+import { SecuritySettingsService } from './security-settings.service';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Roles whose logins to their own platforms the 2FA policy covers
+ */
+export const TWO_FACTOR_POLICY_ROLES = [UserRole.ADMIN, UserRole.SELLER];
+
+export interface TwoFactorCredentials {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Two-Factor Service
+ *
+ * TOTP (RFC 6238) enrollment and verification:
+ * - Setup hands out a secret and an otpauth:// URI for a QR code; the
+ *   secret only takes effect once a code from it is confirmed
+ * - Each code is accepted once, recovery codes are single-use and stored
+ *   as hashes
+ */
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private configService: ConfigService,
+    private securitySettingsService: SecuritySettingsService,
+  ) {}
+
+  /**
+   * Start enrollment with a new secret
+   *
+   * Calling setup again replaces a secret that was not confirmed yet.
+   */
+  async beginSetup(userId: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select('email twoFactorEnabled');
+    if (!user) {
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.USER_NOT_FOUND],
+      );
+    }
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException(
+        AuthErrorMessages[AuthError.TWO_FACTOR_ALREADY_ENABLED],
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.userModel.updateOne(
+      { _id: user._id },
+      { $set: { twoFactorPendingSecret: secret } },
+    );
+
+    return {
+      secret,
+      otpauthUrl: buildOtpauthUrl(
+        secret,
+        user.email,
+        this.configService.get<string>('app.twoFactor.issuer') || 'E-Commerce',
+      ),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the new secret
+   *
+   * @returns Recovery codes, shown to the user only this once
+   */
+  async enable(userId: string, code: string) {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+twoFactorPendingSecret twoFactorEnabled');
+    if (!user?.twoFactorPendingSecret || user.twoFactorEnabled) {
+      throw new BadRequestException(
+        AuthErrorMessages[AuthError.TWO_FACTOR_SETUP_NOT_STARTED],
+      );
+    }
+
+    const step = verifyTotpCode(user.twoFactorPendingSecret, code);
+    if (step === null) {
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+      );
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    // Guard on the pending secret so concurrent confirmations enable once
+    const enabled = await this.userModel.updateOne(
+      {
+        _id: user._id,
+        twoFactorEnabled: { $ne: true },
+        twoFactorPendingSecret: user.twoFactorPendingSecret,
+      },
+      {
+        $set: {
+          twoFactorEnabled: true,
+          twoFactorSecret: user.twoFactorPendingSecret,
+          twoFactorLastUsedStep: step,
+          twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+            this.hashRecoveryCode(recoveryCode),
+          ),
+        },
+        $unset: { twoFactorPendingSecret: 1 },
+      },
+    );
+    if (enabled.modifiedCount !== 1) {
+      throw new BadRequestException(
+        AuthErrorMessages[AuthError.TWO_FACTOR_SETUP_NOT_STARTED],
+      );
+    }
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a code or recovery code of an enrolled user
+   *
+   * @returns False when neither is valid or the code was already used
+   */
+  async verify(
+    userId: string,
+    credentials: TwoFactorCredentials,
+  ): Promise<boolean> {
+    const user = await this.userModel
+      .findById(userId)
+      .select('+twoFactorSecret twoFactorEnabled');
+    if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+    if (credentials.recoveryCode) {
+      // Pulling the hash consumes the code exactly once
+      const consumed = await this.userModel.updateOne(
+        {
+          _id: user._id,
+          twoFactorRecoveryCodes: this.hashRecoveryCode(
+            credentials.recoveryCode,
+          ),
+        },
+        {
+          $pull: {
+            twoFactorRecoveryCodes: this.hashRecoveryCode(
+              credentials.recoveryCode,
+            ),
+          },
+        },
+      );
+      return consumed.modifiedCount === 1;
+    }
+
+    if (!credentials.code) return false;
+    const step = verifyTotpCode(user.twoFactorSecret, credentials.code);
+    if (step === null) return false;
+
+    // Accept each code once, even from concurrent requests
+    const accepted = await this.userModel.updateOne(
+      {
+        _id: user._id,
+        $or: [
+          { twoFactorLastUsedStep: { $exists: false } },
+          { twoFactorLastUsedStep: { $lt: step } },
+        ],
+      },
+      { $set: { twoFactorLastUsedStep: step } },
+    );
+    return accepted.modifiedCount === 1;
+  }
+
+  /**
+   * Turn 2FA off after checking a code
+   *
+   * @throws ForbiddenException when the 2FA policy covers the user's role
+   */
+  async disable(userId: string, credentials: TwoFactorCredentials) {
+    const user = await this.userModel.findById(userId).select('role');
+    if (user && (await this.isRequiredForRole(user.role))) {
+      throw new ForbiddenException(
+        AuthErrorMessages[AuthError.TWO_FACTOR_REQUIRED_BY_POLICY],
+      );
+    }
+
+    await this.verifyOrThrow(userId, credentials);
+    await this.userModel.updateOne(
+      { _id: new Types.ObjectId(userId) },
+      {
+        $set: { twoFactorEnabled: false },
+        $unset: {
+          twoFactorSecret: 1,
+          twoFactorPendingSecret: 1,
+          twoFactorRecoveryCodes: 1,
+          twoFactorLastUsedStep: 1,
+        },
+      },
+    );
+
+    return { message: AuthErrorMessages[AuthError.TWO_FACTOR_DISABLED] };
+  }
+
+  /**
+   * Replace all recovery codes after checking a code
+   *
+   * @returns The new recovery codes
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    await this.verifyOrThrow(userId, { code });
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await this.userModel.updateOne(
+      { _id: new Types.ObjectId(userId) },
+      {
+        $set: {
+          twoFactorRecoveryCodes: recoveryCodes.map((recoveryCode) =>
+            this.hashRecoveryCode(recoveryCode),
+          ),
+        },
+      },
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Whether the 2FA policy currently applies to a role
+   */
+  async isRequiredForRole(role: UserRole): Promise<boolean> {
+    if (!TWO_FACTOR_POLICY_ROLES.includes(role)) return false;
+
+    const settings = await this.securitySettingsService.getSettings();
+    return settings.requireTwoFactor;
+  }
+
+  private async verifyOrThrow(
+    userId: string,
+    credentials: TwoFactorCredentials,
+  ): Promise<void> {
+    if (!(await this.verify(userId, credentials))) {
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.INVALID_TWO_FACTOR_CODE],
+      );
+    }
+  }
+
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  /**
+   * Recovery codes are random, so a plain hash is enough; dashes and case
+   * are ignored when users type them
+   */
+  private hashRecoveryCode(recoveryCode: string): string {
+    const normalized = recoveryCode.toLowerCase().replace(/[^0-9a-f]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -1,24 +1,58 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { TokenBlacklistService } from '../services/token-blacklist.service';
+import { SessionService } from '../services/session.service';
+import { AuthError, AuthErrorMessages } from '../enums';
+
+const extractToken = ExtractJwt.fromAuthHeaderAsBearerToken();
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private tokenBlacklistService: TokenBlacklistService,
+    private sessionService: SessionService,
+  ) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: extractToken,
       ignoreExpiration: false,
       secretOrKey:
         configService.get<string>('app.jwt.secret') || 'fallback-secret',
+      passReqToCallback: true,
     });
   }
 
-  validate(payload: { sub: string; email: string; role: string }) {
+  async validate(
+    request: Request,
+    payload: { sub: string; email: string; role: string; sid?: string },
+  ) {
+    // Tokens of logged out users stay valid until they expire otherwise
+    const token = extractToken(request);
+    if (token && (await this.tokenBlacklistService.isBlacklisted(token))) {
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.TOKEN_REVOKED],
+      );
+    }
+
+    // Revoking a session ends its access tokens too, not just its refresh
+    // token
+    if (
+      payload.sid &&
+      !(await this.sessionService.isSessionActive(payload.sid))
+    ) {
+      throw new UnauthorizedException(
+        AuthErrorMessages[AuthError.TOKEN_REVOKED],
+      );
+    }
+
     return {
       id: payload.sub,
       email: payload.email,
       role: payload.role,
+      sessionId: payload.sid,
     };
   }
 }
@@ -2,7 +2,21 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { CampaignsController } from './campaigns.controller';
 import { CampaignsService } from './campaigns.service';
+import { CampaignRedemptionService } from './services/campaign-redemption.service';
+import { CouponCodeService } from './services/coupon-code.service';
 import { Campaign, CampaignSchema } from '../schemas/campaign.schema';
+import {
+  CampaignRedemption,
+  CampaignRedemptionSchema,
+} from '../schemas/campaign-redemption.schema';
+import {
+  CampaignCustomerUsage,
+  CampaignCustomerUsageSchema,
+} from '../schemas/campaign-customer-usage.schema';
+import {
+  CampaignCode,
+  CampaignCodeSchema,
+} from '../schemas/campaign-code.schema';
 import { Category, CategorySchema } from '../schemas/category.schema';
 import { Product, ProductSchema } from '../schemas/product.schema';
 import { User, UserSchema } from '../schemas/user.schema';
@@ -15,6 +29,8 @@ import { User, UserSchema } from '../schemas/user.schema';
  * - Campaign filtering and search capabilities
  * - Campaign applicability checking
  * - Integration with products and categories
+ * - Campaign usage limits through the redemption ledger
+ * - Coupon code resolution and single-use code generation
  */
 @Module({
   imports: [
@@ -23,10 +39,16 @@ import { User, UserSchema } from '../schemas/user.schema';
       { name: Category.name, schema: CategorySchema },
       { name: Product.name, schema: ProductSchema },
       { name: User.name, schema: UserSchema },
+      { name: CampaignRedemption.name, schema: CampaignRedemptionSchema },
+      {
+        name: CampaignCustomerUsage.name,
+        schema: CampaignCustomerUsageSchema,
+      },
+      { name: CampaignCode.name, schema: CampaignCodeSchema },
     ]),
   ],
   controllers: [CampaignsController],
-  providers: [CampaignsService],
-  exports: [CampaignsService],
+  providers: [CampaignsService, CampaignRedemptionService, CouponCodeService],
+  exports: [CampaignsService, CampaignRedemptionService, CouponCodeService],
 })
 export class CampaignsModule {}
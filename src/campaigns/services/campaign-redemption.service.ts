@@ -0,0 +1,285 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Campaign, CampaignDocument } from '../../schemas/campaign.schema';
+import {
+  CampaignRedemption,
+  CampaignRedemptionDocument,
+  RedemptionStatus,
+} from '../../schemas/campaign-redemption.schema';
+import {
+  CampaignCustomerUsage,
+  CampaignCustomerUsageDocument,
+} from '../../schemas/campaign-customer-usage.schema';
+import { CouponCodeService } from './coupon-code.service';
+
+/**
+ * Campaign Redemption Service
+ *
+ * Enforces campaign usage limits through a redemption ledger:
+ * - Filters out campaigns whose global or per-customer limit is reached
+ * - Reserves usage slots with conditional atomic increments at checkout,
+ *   on the campaign for the global limit and on a per-customer counter for
+ *   the per-customer limit
+ * - Records one ledger entry per campaign applied to an order
+ * - Releases usage (and single-use coupon codes) when an order is cancelled
+ */
+@Injectable()
+export class CampaignRedemptionService {
+  constructor(
+    @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
+    @InjectModel(CampaignRedemption.name)
+    private redemptionModel: Model<CampaignRedemptionDocument>,
+    @InjectModel(CampaignCustomerUsage.name)
+    private customerUsageModel: Model<CampaignCustomerUsageDocument>,
+    private couponCodeService: CouponCodeService,
+  ) {}
+
+  /**
+   * Keep only campaigns the customer can still redeem
+   *
+   * @param campaigns - Candidate campaigns
+   * @param userId - Customer user ID
+   * @returns Campaigns below both their global and per-customer limits
+   */
+  async filterRedeemable<T extends CampaignDocument>(
+    campaigns: T[],
+    userId: string,
+  ): Promise<T[]> {
+    const underGlobalLimit = campaigns.filter(
+      (campaign) =>
+        !campaign.maxUsage || (campaign.usageCount || 0) < campaign.maxUsage,
+    );
+
+    const perCustomerLimited = underGlobalLimit.filter(
+      (campaign) => campaign.maxUsagePerCustomer,
+    );
+    if (perCustomerLimited.length === 0) {
+      return underGlobalLimit;
+    }
+
+    const customerUsage = await this.getCustomerUsage(
+      perCustomerLimited.map((campaign) => campaign._id as Types.ObjectId),
+      userId,
+    );
+
+    return underGlobalLimit.filter(
+      (campaign) =>
+        !campaign.maxUsagePerCustomer ||
+        (customerUsage.get((campaign._id as any).toString()) || 0) <
+          campaign.maxUsagePerCustomer,
+    );
+  }
+
+  /**
+   * Reserve one usage slot on each campaign
+   *
+   * Each increment only succeeds while usageCount is below maxUsage, and
+   * the customer's counter while it is below maxUsagePerCustomer, so
+   * concurrent checkouts can never push a campaign past either limit. If
+   * any campaign is exhausted, slots already taken are handed back.
+   *
+   * @param campaignIds - Campaigns applied to the order
+   * @param userId - Customer user ID
+   * @returns True when every campaign was reserved
+   */
+  async reserve(campaignIds: string[], userId: string): Promise<boolean> {
+    const reserved: string[] = [];
+
+    for (const campaignId of campaignIds) {
+      const campaign = await this.campaignModel.findOneAndUpdate(
+        {
+          _id: new Types.ObjectId(campaignId),
+          $or: [
+            { maxUsage: { $in: [null, 0] } },
+            { $expr: { $lt: [{ $ifNull: ['$usageCount', 0] }, '$maxUsage'] } },
+          ],
+        },
+        { $inc: { usageCount: 1 } },
+        { new: true },
+      );
+
+      if (!campaign) {
+        await this.release(reserved, userId);
+        return false;
+      }
+
+      if (!(await this.reserveCustomerSlot(campaign, userId))) {
+        // Only the global slot was taken for this campaign
+        await this.campaignModel.updateOne(
+          { _id: campaign._id, usageCount: { $gt: 0 } },
+          { $inc: { usageCount: -1 } },
+        );
+        await this.release(reserved, userId);
+        return false;
+      }
+
+      reserved.push(campaignId);
+    }
+
+    return true;
+  }
+
+  /**
+   * Hand back usage slots taken by reserve()
+   *
+   * @param campaignIds - Campaigns to release
+   * @param userId - Customer the slots were reserved for
+   */
+  async release(campaignIds: string[], userId: string): Promise<void> {
+    if (campaignIds.length === 0) return;
+
+    const ids = campaignIds.map((id) => new Types.ObjectId(id));
+    await this.campaignModel.updateMany(
+      { _id: { $in: ids }, usageCount: { $gt: 0 } },
+      { $inc: { usageCount: -1 } },
+    );
+    await this.customerUsageModel.updateMany(
+      {
+        campaignId: { $in: ids },
+        userId: new Types.ObjectId(userId),
+        count: { $gt: 0 },
+      },
+      { $inc: { count: -1 } },
+    );
+  }
+
+  /**
+   * Write ledger entries for the campaigns applied to an order
+   *
+   * @param orderId - Created order ID
+   * @param userId - Customer user ID
+   * @param appliedCampaigns - Campaigns and discount amounts applied
+   */
+  async recordRedemptions(
+    orderId: string,
+    userId: string,
+    appliedCampaigns: Array<{
+      campaignId: string;
+      discountAmount: number;
+      code?: string;
+    }>,
+  ): Promise<void> {
+    if (appliedCampaigns.length === 0) return;
+
+    await this.redemptionModel.insertMany(
+      appliedCampaigns.map((campaign) => ({
+        campaignId: new Types.ObjectId(campaign.campaignId),
+        userId: new Types.ObjectId(userId),
+        orderId: new Types.ObjectId(orderId),
+        discountAmount: campaign.discountAmount,
+        code: campaign.code,
+        status: RedemptionStatus.REDEEMED,
+      })),
+    );
+  }
+
+  /**
+   * Release every redemption held by an order (e.g. on cancellation)
+   *
+   * Each entry is claimed by flipping its status, so of two concurrent
+   * cancellations only the one that released an entry gives its usage back.
+   *
+   * @param orderId - Order ID
+   */
+  async releaseForOrder(orderId: string): Promise<void> {
+    await this.couponCodeService.restoreForOrder(orderId);
+
+    const redemptions = await this.redemptionModel
+      .find({
+        orderId: new Types.ObjectId(orderId),
+        status: RedemptionStatus.REDEEMED,
+      })
+      .select('_id');
+
+    const released: CampaignRedemptionDocument[] = [];
+    for (const redemption of redemptions) {
+      const claimed = await this.redemptionModel.findOneAndUpdate(
+        { _id: redemption._id, status: RedemptionStatus.REDEEMED },
+        { $set: { status: RedemptionStatus.RELEASED } },
+      );
+      if (claimed) released.push(claimed);
+    }
+    if (released.length === 0) return;
+
+    await this.release(
+      released.map((redemption) => redemption.campaignId.toString()),
+      released[0].userId.toString(),
+    );
+  }
+
+  /**
+   * Count active redemptions per campaign for a customer
+   *
+   * @private
+   */
+  private async getCustomerUsage(
+    campaignIds: Types.ObjectId[],
+    userId: string,
+  ): Promise<Map<string, number>> {
+    const usage = await this.redemptionModel.aggregate([
+      {
+        $match: {
+          campaignId: { $in: campaignIds },
+          userId: new Types.ObjectId(userId),
+          status: RedemptionStatus.REDEEMED,
+        },
+      },
+      { $group: { _id: '$campaignId', count: { $sum: 1 } } },
+    ]);
+
+    return new Map(usage.map((item) => [item._id.toString(), item.count]));
+  }
+
+  /**
+   * Take one of the customer's slots on a campaign with a per-customer limit
+   *
+   * @private
+   * @returns False when the customer has reached the limit
+   */
+  private async reserveCustomerSlot(
+    campaign: CampaignDocument,
+    userId: string,
+  ): Promise<boolean> {
+    if (!campaign.maxUsagePerCustomer) return true;
+
+    const campaignId = campaign._id as Types.ObjectId;
+    const userObjectId = new Types.ObjectId(userId);
+    await this.ensureCustomerUsage(campaignId, userObjectId);
+
+    const result = await this.customerUsageModel.updateOne(
+      {
+        campaignId,
+        userId: userObjectId,
+        count: { $lt: campaign.maxUsagePerCustomer },
+      },
+      { $inc: { count: 1 } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Create the customer's counter on first use, seeded from the ledger so
+   * redemptions made before counters existed still count
+   *
+   * @private
+   */
+  private async ensureCustomerUsage(
+    campaignId: Types.ObjectId,
+    userId: Types.ObjectId,
+  ): Promise<void> {
+    if (await this.customerUsageModel.exists({ campaignId, userId })) return;
+
+    const usage = await this.getCustomerUsage([campaignId], userId.toString());
+    try {
+      await this.customerUsageModel.create({
+        campaignId,
+        userId,
+        count: usage.get(campaignId.toString()) || 0,
+      });
+    } catch (error) {
+      // A concurrent checkout created it first
+      if (error?.code !== 11000) throw error;
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { randomInt } from 'crypto';
+import { Campaign, CampaignDocument } from '../../schemas/campaign.schema';
+import {
+  CampaignCode,
+  CampaignCodeDocument,
+} from '../../schemas/campaign-code.schema';
+
+/**
+ * Unambiguous characters used for generated codes (no 0/O, 1/I/L)
+ */
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const GENERATED_CODE_LENGTH = 8;
+
+export interface ResolvedCoupon {
+  code: string;
+  campaign: CampaignDocument;
+  isSingleUse: boolean;
+  isUsed: boolean;
+}
+
+/**
+ * Coupon Code Service
+ *
+ * Handles code-based campaigns:
+ * - Resolves shared campaign codes and generated single-use codes
+ * - Generates bulk single-use codes for marketing sends
+ * - Consumes single-use codes atomically at checkout
+ * - Restores codes when checkout fails or an order is cancelled
+ */
+@Injectable()
+export class CouponCodeService {
+  constructor(
+    @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
+    @InjectModel(CampaignCode.name)
+    private campaignCodeModel: Model<CampaignCodeDocument>,
+  ) {}
+
+  /**
+   * Normalize a code the way it is stored
+   *
+   * @param code - Code as entered
+   * @returns Trimmed, upper-case code
+   */
+  normalizeCode(code: string): string {
+    return code.trim().toUpperCase();
+  }
+
+  /**
+   * Find the campaign behind a coupon code
+   *
+   * @param code - Shared campaign code or generated single-use code
+   * @returns Resolved coupon or null if the code is unknown
+   */
+  async resolve(code: string): Promise<ResolvedCoupon | null> {
+    const normalized = this.normalizeCode(code);
+
+    const campaign = await this.campaignModel
+      .findOne({ code: normalized })
+      .exec();
+    if (campaign) {
+      return {
+        code: normalized,
+        campaign,
+        isSingleUse: false,
+        isUsed: false,
+      };
+    }
+
+    const campaignCode = await this.campaignCodeModel
+      .findOne({ code: normalized })
+      .lean();
+    if (!campaignCode) return null;
+
+    const codeCampaign = await this.campaignModel
+      .findById(campaignCode.campaignId)
+      .exec();
+    if (!codeCampaign) return null;
+
+    return {
+      code: normalized,
+      campaign: codeCampaign,
+      isSingleUse: true,
+      isUsed: !!campaignCode.usedAt,
+    };
+  }
+
+  /**
+   * Check whether a code is already used by another campaign
+   *
+   * @param code - Code to check
+   * @param excludeCampaignId - Campaign allowed to own the code
+   * @returns True if the code is taken
+   */
+  async isCodeTaken(
+    code: string,
+    excludeCampaignId?: string,
+  ): Promise<boolean> {
+    const normalized = this.normalizeCode(code);
+    const campaignFilter: any = { code: normalized };
+    if (excludeCampaignId) {
+      campaignFilter._id = { $ne: new Types.ObjectId(excludeCampaignId) };
+    }
+
+    const [campaignCount, codeCount] = await Promise.all([
+      this.campaignModel.countDocuments(campaignFilter),
+      this.campaignCodeModel.countDocuments({ code: normalized }),
+    ]);
+
+    return campaignCount > 0 || codeCount > 0;
+  }
+
+  /**
+   * Generate single-use codes for a campaign
+   *
+   * The campaign is switched to code-only so it stops applying automatically.
+   *
+   * @param campaignId - Campaign ID
+   * @param count - Number of codes to generate
+   * @param prefix - Optional prefix for every code
+   * @returns Generated codes
+   */
+  async generateCodes(
+    campaignId: string,
+    count: number,
+    prefix?: string,
+  ): Promise<string[]> {
+    const normalizedPrefix = prefix ? this.normalizeCode(prefix) : '';
+    const codes = new Set<string>();
+
+    while (codes.size < count) {
+      const candidates: string[] = [];
+      while (candidates.length < count - codes.size) {
+        const candidate = normalizedPrefix + this.randomCode();
+        if (!codes.has(candidate) && !candidates.includes(candidate)) {
+          candidates.push(candidate);
+        }
+      }
+
+      const [existingCampaigns, existingCodes] = await Promise.all([
+        this.campaignModel.find({ code: { $in: candidates } }, 'code').lean(),
+        this.campaignCodeModel
+          .find({ code: { $in: candidates } }, 'code')
+          .lean(),
+      ]);
+      const taken = new Set([
+        ...existingCampaigns.map((campaign) => campaign.code),
+        ...existingCodes.map((campaignCode) => campaignCode.code),
+      ]);
+
+      candidates
+        .filter((candidate) => !taken.has(candidate))
+        .forEach((candidate) => codes.add(candidate));
+    }
+
+    await this.campaignCodeModel.insertMany(
+      [...codes].map((code) => ({
+        campaignId: new Types.ObjectId(campaignId),
+        code,
+      })),
+    );
+    await this.campaignModel.updateOne(
+      { _id: new Types.ObjectId(campaignId) },
+      { $set: { requiresCode: true } },
+    );
+
+    return [...codes];
+  }
+
+  /**
+   * List generated codes of a campaign
+   *
+   * @param campaignId - Campaign ID
+   * @param page - Page number
+   * @param limit - Items per page
+   * @returns Paginated codes with usage information
+   */
+  async findCodes(campaignId: string, page: number = 1, limit: number = 50) {
+    const filter = { campaignId: new Types.ObjectId(campaignId) };
+    const skip = (page - 1) * limit;
+
+    const [codes, total, used] = await Promise.all([
+      this.campaignCodeModel
+        .find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      this.campaignCodeModel.countDocuments(filter),
+      this.campaignCodeModel.countDocuments({
+        ...filter,
+        usedAt: { $exists: true },
+      }),
+    ]);
+
+    return {
+      data: codes.map((campaignCode) => ({
+        code: campaignCode.code,
+        isUsed: !!campaignCode.usedAt,
+        usedAt: campaignCode.usedAt,
+        usedBy: campaignCode.usedBy?.toString(),
+        orderId: campaignCode.orderId?.toString(),
+      })),
+      total,
+      used,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Remove all generated codes of a campaign
+   *
+   * @param campaignId - Campaign ID
+   */
+  async deleteCodes(campaignId: string): Promise<void> {
+    await this.campaignCodeModel.deleteMany({
+      campaignId: new Types.ObjectId(campaignId),
+    });
+  }
+
+  /**
+   * Mark a single-use code as used
+   *
+   * The update only matches unused codes, so two concurrent checkouts
+   * cannot both consume the same code.
+   *
+   * @param code - Generated code
+   * @param userId - Customer user ID
+   * @returns True if the code was consumed by this call
+   */
+  async consume(code: string, userId: string): Promise<boolean> {
+    const result = await this.campaignCodeModel.updateOne(
+      { code: this.normalizeCode(code), usedAt: { $exists: false } },
+      { $set: { usedBy: new Types.ObjectId(userId), usedAt: new Date() } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Link a consumed code to the order that used it
+   *
+   * @param code - Generated code
+   * @param orderId - Created order ID
+   */
+  async attachOrder(code: string, orderId: string): Promise<void> {
+    await this.campaignCodeModel.updateOne(
+      { code: this.normalizeCode(code) },
+      { $set: { orderId: new Types.ObjectId(orderId) } },
+    );
+  }
+
+  /**
+   * Make a consumed code available again (e.g. after a failed payment)
+   *
+   * @param code - Generated code
+   */
+  async restore(code: string): Promise<void> {
+    await this.campaignCodeModel.updateOne(
+      { code: this.normalizeCode(code) },
+      { $unset: { usedBy: '', usedAt: '', orderId: '' } },
+    );
+  }
+
+  /**
+   * Make the codes used by an order available again
+   *
+   * @param orderId - Order ID
+   */
+  async restoreForOrder(orderId: string): Promise<void> {
+    await this.campaignCodeModel.updateMany(
+      { orderId: new Types.ObjectId(orderId) },
+      { $unset: { usedBy: '', usedAt: '', orderId: '' } },
+    );
+  }
+
+  /**
+   * Build one random code body
+   *
+   * @private
+   */
+  private randomCode(): string {
+    let code = '';
+    for (let i = 0; i < GENERATED_CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+}
@@ -22,6 +22,7 @@ import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
 import { addToCartSchema } from './dto/add-to-cart.dto';
 import { updateCartItemSchema } from './dto/update-cart-item.dto';
 import { checkoutSchema } from './dto/checkout.dto';
+import { applyCouponSchema } from './dto/apply-coupon.dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 
@@ -54,6 +55,8 @@ export class CartController {
             type: 'object',
             properties: {
               productId: { type: 'string' },
+              variantId: { type: 'string' },
+              variantName: { type: 'string', example: 'Red / M' },
               quantity: { type: 'number' },
               price: { type: 'number' },
               name: { type: 'string' },
@@ -75,9 +78,22 @@ export class CartController {
               campaignName: { type: 'string' },
               discountAmount: { type: 'number' },
               discountType: { type: 'string', enum: ['percentage', 'fixed'] },
+              code: { type: 'string', description: 'Coupon code used' },
             },
           },
         },
+        couponCode: { type: 'string', description: 'Applied coupon code' },
+        coupon: {
+          type: 'object',
+          description: 'Applied coupon and its discount',
+          properties: {
+            code: { type: 'string' },
+            campaignId: { type: 'string' },
+            campaignName: { type: 'string' },
+            discountAmount: { type: 'number' },
+            isSingleUse: { type: 'boolean' },
+          },
+        },
       },
     },
   })
@@ -141,7 +157,8 @@ export class CartController {
   @Post('add')
   @ApiOperation({
     summary: 'Add item to cart',
-    description: "Add a product to the user's shopping cart",
+    description:
+      "Add a product to the user's shopping cart. Products with variants require a variantId; each variant is a separate cart line",
   })
   @ApiResponse({
     status: 201,
@@ -168,6 +185,11 @@ export class CartController {
     description: 'Update the quantity of a specific item in the cart',
   })
   @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiQuery({
+    name: 'variantId',
+    required: false,
+    description: 'Variant ID of the cart line',
+  })
   @ApiResponse({
     status: 200,
     description: 'Cart item updated successfully',
@@ -181,8 +203,14 @@ export class CartController {
     @CurrentUser('id') userId: string,
     @Param('productId') productId: string,
     @Body(new ZodValidationPipe(updateCartItemSchema)) updateDto: any,
+    @Query('variantId') variantId?: string,
   ) {
-    return this.cartService.updateCartItem(userId, productId, updateDto);
+    return this.cartService.updateCartItem(
+      userId,
+      productId,
+      updateDto,
+      variantId,
+    );
   }
 
   /**
@@ -194,6 +222,11 @@ export class CartController {
     description: 'Remove a specific item from the cart',
   })
   @ApiParam({ name: 'productId', description: 'Product ID' })
+  @ApiQuery({
+    name: 'variantId',
+    required: false,
+    description: 'Variant ID of the cart line',
+  })
   @ApiResponse({
     status: 200,
     description: 'Item removed from cart successfully',
@@ -202,8 +235,9 @@ export class CartController {
   async removeFromCart(
     @CurrentUser('id') userId: string,
     @Param('productId') productId: string,
+    @Query('variantId') variantId?: string,
   ) {
-    return this.cartService.removeFromCart(userId, productId);
+    return this.cartService.removeFromCart(userId, productId, variantId);
   }
 
   /**
@@ -228,6 +262,48 @@ export class CartController {
     return this.cartService.clearCart(userId);
   }
 
+  /**
+   * Apply coupon code
+   */
+  @Post('coupon')
+  @ApiOperation({
+    summary: 'Apply coupon code',
+    description:
+      'Apply a campaign coupon code to the cart. Replaces any previously applied coupon',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Coupon applied successfully, returns the updated cart',
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Coupon inactive, expired, already used, usage limit reached, minimum order not met or not applicable to cart items',
+  })
+  @ApiResponse({ status: 404, description: 'Invalid coupon code' })
+  async applyCoupon(
+    @CurrentUser('id') userId: string,
+    @Body(new ZodValidationPipe(applyCouponSchema)) applyCouponDto: any,
+  ) {
+    return this.cartService.applyCoupon(userId, applyCouponDto);
+  }
+
+  /**
+   * Remove coupon code
+   */
+  @Delete('coupon')
+  @ApiOperation({
+    summary: 'Remove coupon code',
+    description: 'Remove the applied coupon code from the cart',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Coupon removed successfully, returns the updated cart',
+  })
+  async removeCoupon(@CurrentUser('id') userId: string) {
+    return this.cartService.removeCoupon(userId);
+  }
+
   /**
    * Checkout
    */
@@ -249,7 +325,11 @@ export class CartController {
       },
     },
   })
-  @ApiResponse({ status: 400, description: 'Empty cart or payment failed' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Empty cart, payment failed, or applied coupon/campaign no longer valid',
+  })
   async checkout(
     @CurrentUser('id') userId: string,
     @Body(new ZodValidationPipe(checkoutSchema)) checkoutDto: any,
@@ -7,6 +7,8 @@ import { Campaign, CampaignSchema } from '../schemas/campaign.schema';
 import { CartController } from './cart.controller';
 import { CartService } from './cart.service';
 import { OrdersModule } from '../orders/orders.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { PaymentsModule } from '../payments/payments.module';
 import { RecommendationsModule } from '../recommendations/recommendations.module';
 
 @Module({
@@ -27,6 +29,8 @@ import { RecommendationsModule } from '../recommendations/recommendations.module
       { name: Campaign.name, schema: CampaignSchema },
     ]),
     OrdersModule,
+    CampaignsModule,
+    PaymentsModule,
     RecommendationsModule,
   ],
   controllers: [CartController],
@@ -8,7 +8,12 @@ import { Model } from 'mongoose';
 import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { Inject } from '@nestjs/common';
 import { Cache } from 'cache-manager';
-import { Product, ProductDocument } from '../schemas/product.schema';
+import {
+  findProductVariant,
+  formatVariantName,
+  Product,
+  ProductDocument,
+} from '../schemas/product.schema';
 import {
   Campaign,
   CampaignDocument,
@@ -17,12 +22,28 @@ import {
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
 import { CheckoutDto } from './dto/checkout.dto';
+import { ApplyCouponDto } from './dto/apply-coupon.dto';
 import { CartError, CartErrorMessages } from './enums/cart-error.enum';
-import { OrdersService } from '../orders/orders.service';
+import { OrdersService, OrderDetails } from '../orders/orders.service';
+import { StockReservationService } from '../orders/stock-reservation.service';
+import { PaymentsService } from '../payments/payments.service';
+import { PaymentTransactionStatus } from '../schemas/payment.schema';
+import {
+  calculateOrderTotals,
+  OrderStatusActor,
+  orderLineKey,
+} from '../schemas/order.schema';
 import { RecommendationsService } from '../recommendations/recommendations.service';
+import { CampaignRedemptionService } from '../campaigns/services/campaign-redemption.service';
+import {
+  CouponCodeService,
+  ResolvedCoupon,
+} from '../campaigns/services/coupon-code.service';
 
 export interface CartItem {
   productId: string;
+  variantId?: string;
+  variantName?: string;
   quantity: number;
   price: number;
   name: string;
@@ -38,6 +59,7 @@ export interface CartItem {
   hasDiscount: boolean;
   discountedPrice?: number;
   discountPercentage?: number;
+  lineDiscount?: number;
 }
 
 export interface Cart {
@@ -51,7 +73,16 @@ export interface Cart {
     campaignName: string;
     discountAmount: number;
     discountType: 'percentage' | 'fixed';
+    code?: string;
   }>;
+  couponCode?: string;
+  coupon?: {
+    code: string;
+    campaignId: string;
+    campaignName: string;
+    discountAmount: number;
+    isSingleUse: boolean;
+  };
 }
 
 @Injectable()
@@ -62,6 +93,10 @@ export class CartService {
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
     private ordersService: OrdersService,
     private recommendationsService: RecommendationsService,
+    private campaignRedemptionService: CampaignRedemptionService,
+    private couponCodeService: CouponCodeService,
+    private paymentsService: PaymentsService,
+    private stockReservationService: StockReservationService,
   ) {}
 
   /**
@@ -95,14 +130,21 @@ export class CartService {
           return item; // Keep existing item if product not found
         }
 
+        // A variant removed since it was added can no longer be bought
+        const variant = item.variantId
+          ? findProductVariant(product, item.variantId)
+          : undefined;
+        const basePrice = variant?.price ?? product.price;
+
         // Calculate discount
-        const discountedPrice = await this.getDiscountedPrice(product);
+        const discountedPrice = await this.getDiscountedPrice(
+          product,
+          basePrice,
+        );
         const hasDiscount =
-          discountedPrice !== null && discountedPrice < product.price;
+          discountedPrice !== null && discountedPrice < basePrice;
         const discountPercentage = hasDiscount
-          ? Math.round(
-              ((product.price - discountedPrice) / product.price) * 100,
-            )
+          ? Math.round(((basePrice - discountedPrice) / basePrice) * 100)
           : 0;
 
         return {
@@ -119,7 +161,8 @@ export class CartService {
             product.sellerId?.toString() ||
             '',
           sellerName: `${(product.sellerId as any)?.firstName || ''} ${(product.sellerId as any)?.lastName || ''}`,
-          stock: product.stock || 0,
+          variantName: variant ? formatVariantName(variant) : item.variantName,
+          stock: item.variantId ? variant?.stock || 0 : product.stock || 0,
           hasDiscount,
           discountedPrice: discountedPrice || undefined,
           discountPercentage,
@@ -137,7 +180,7 @@ export class CartService {
    * Add item to cart
    */
   async addToCart(userId: string, addToCartDto: AddToCartDto): Promise<Cart> {
-    const { productId, quantity } = addToCartDto;
+    const { productId, variantId, quantity } = addToCartDto;
 
     // Validate product exists and is active
     const product = await this.productModel
@@ -153,9 +196,9 @@ export class CartService {
     }
 
     // Check stock availability
-    const totalStock = product.stock || 0;
+    const purchasable = this.resolvePurchasable(product, variantId);
 
-    if (totalStock < quantity) {
+    if (purchasable.stock < quantity) {
       throw new BadRequestException(
         CartErrorMessages[CartError.INSUFFICIENT_STOCK],
       );
@@ -164,9 +207,10 @@ export class CartService {
     const cartKey = `cart:${userId}`;
     let cart = await this.getCart(userId);
 
-    // Check if product already exists in cart
+    // Check if the same product variant already exists in cart
+    const lineKey = orderLineKey({ productId, variantId });
     const existingItemIndex = cart.items.findIndex(
-      (item) => item.productId === productId,
+      (item) => orderLineKey(item) === lineKey,
     );
 
     if (existingItemIndex !== -1) {
@@ -176,8 +220,10 @@ export class CartService {
       // Add new item
       cart.items.push({
         productId,
+        variantId,
+        variantName: purchasable.variantName,
         quantity,
-        price: product.price,
+        price: purchasable.price,
         name: product.name,
         description: product.description,
         imageUrls: product.imageUrls || [],
@@ -190,7 +236,7 @@ export class CartService {
           product.sellerId?.toString() ||
           '',
         sellerName: `${(product.sellerId as any)?.firstName || ''} ${(product.sellerId as any)?.lastName || ''}`,
-        stock: product.stock || 0,
+        stock: purchasable.stock,
         hasDiscount: false, // Will be calculated later
         discountedPrice: undefined, // Will be calculated later
         discountPercentage: 0, // Will be calculated later
@@ -213,12 +259,14 @@ export class CartService {
     userId: string,
     productId: string,
     updateDto: UpdateCartItemDto,
+    variantId?: string,
   ): Promise<Cart> {
     const { quantity } = updateDto;
 
     const cart = await this.getCart(userId);
+    const lineKey = orderLineKey({ productId, variantId });
     const itemIndex = cart.items.findIndex(
-      (item) => item.productId === productId,
+      (item) => orderLineKey(item) === lineKey,
     );
 
     if (itemIndex === -1) {
@@ -239,9 +287,9 @@ export class CartService {
       );
     }
 
-    const totalStock = product.stock || 0;
+    const { stock } = this.resolvePurchasable(product, variantId);
 
-    if (totalStock < quantity) {
+    if (stock < quantity) {
       throw new BadRequestException(
         CartErrorMessages[CartError.INSUFFICIENT_STOCK],
       );
@@ -262,10 +310,15 @@ export class CartService {
   /**
    * Remove item from cart
    */
-  async removeFromCart(userId: string, productId: string): Promise<Cart> {
+  async removeFromCart(
+    userId: string,
+    productId: string,
+    variantId?: string,
+  ): Promise<Cart> {
     const cart = await this.getCart(userId);
+    const lineKey = orderLineKey({ productId, variantId });
     const itemIndex = cart.items.findIndex(
-      (item) => item.productId === productId,
+      (item) => orderLineKey(item) === lineKey,
     );
 
     if (itemIndex === -1) {
@@ -296,6 +349,165 @@ export class CartService {
     return { message: 'Cart cleared successfully' };
   }
 
+  /**
+   * Apply a coupon code to the cart
+   */
+  async applyCoupon(
+    userId: string,
+    applyCouponDto: ApplyCouponDto,
+  ): Promise<Cart> {
+    const cart = await this.getCart(userId);
+
+    if (cart.items.length === 0) {
+      throw new BadRequestException(CartErrorMessages[CartError.EMPTY_CART]);
+    }
+
+    const coupon = await this.findValidCoupon(applyCouponDto.code, userId);
+
+    const applicableItems = this.getApplicableItems(
+      cart.items,
+      coupon.campaign,
+    );
+    if (applicableItems.length === 0) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_NOT_APPLICABLE],
+      );
+    }
+
+    const applicableSubtotal = applicableItems.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0,
+    );
+    if (applicableSubtotal < (coupon.campaign.minOrderAmount || 0)) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_MIN_ORDER_NOT_MET],
+      );
+    }
+
+    const updatedCart = await this.calculateCartTotals({
+      ...cart,
+      couponCode: coupon.code,
+    });
+    if (!updatedCart.coupon) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_NOT_APPLICABLE],
+      );
+    }
+
+    // Save to Redis
+    const cartKey = `cart:${userId}`;
+    await this.cacheManager.set(cartKey, updatedCart, 60 * 60 * 24 * 7);
+
+    return updatedCart;
+  }
+
+  /**
+   * Remove the coupon code from the cart
+   */
+  async removeCoupon(userId: string): Promise<Cart> {
+    const cart = await this.getCart(userId);
+
+    const updatedCart = await this.calculateCartTotals({
+      ...cart,
+      couponCode: undefined,
+    });
+
+    // Save to Redis
+    const cartKey = `cart:${userId}`;
+    await this.cacheManager.set(cartKey, updatedCart, 60 * 60 * 24 * 7);
+
+    return updatedCart;
+  }
+
+  /**
+   * Resolve a coupon code and validate it for the customer
+   */
+  private async findValidCoupon(
+    code: string,
+    userId: string,
+  ): Promise<ResolvedCoupon> {
+    const coupon = await this.couponCodeService.resolve(code);
+
+    if (!coupon) {
+      throw new NotFoundException(CartErrorMessages[CartError.INVALID_COUPON]);
+    }
+
+    if (coupon.isUsed) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_ALREADY_USED],
+      );
+    }
+
+    if (!coupon.campaign.isActive) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_INACTIVE],
+      );
+    }
+
+    const now = new Date();
+    if (coupon.campaign.startDate > now) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_NOT_STARTED],
+      );
+    }
+    if (coupon.campaign.endDate < now) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_EXPIRED],
+      );
+    }
+
+    const redeemable = await this.campaignRedemptionService.filterRedeemable(
+      [coupon.campaign],
+      userId,
+    );
+    if (redeemable.length === 0) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_USAGE_LIMIT_REACHED],
+      );
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Resolve the price and stock of the product or variant being bought
+   *
+   * Products with variants are sold per variant, at the variant's own
+   * price and from its own stock.
+   */
+  private resolvePurchasable(
+    product: ProductDocument,
+    variantId?: string,
+  ): { price: number; stock: number; variantName?: string } {
+    if (!product.variants?.length) {
+      if (variantId) {
+        throw new NotFoundException(
+          CartErrorMessages[CartError.VARIANT_NOT_FOUND],
+        );
+      }
+      return { price: product.price, stock: product.stock || 0 };
+    }
+
+    if (!variantId) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.VARIANT_REQUIRED],
+      );
+    }
+
+    const variant = findProductVariant(product, variantId);
+    if (!variant) {
+      throw new NotFoundException(
+        CartErrorMessages[CartError.VARIANT_NOT_FOUND],
+      );
+    }
+
+    return {
+      price: variant.price,
+      stock: variant.stock,
+      variantName: formatVariantName(variant),
+    };
+  }
+
   /**
    * Calculate cart totals with campaign discounts
    */
@@ -303,10 +515,13 @@ export class CartService {
     if (cart.items.length === 0) {
       return {
         ...cart,
+        items: [],
         subtotal: 0,
         totalDiscount: 0,
         total: 0,
         appliedCampaigns: [],
+        couponCode: undefined,
+        coupon: undefined,
       };
     }
 
@@ -316,22 +531,29 @@ export class CartService {
       0,
     );
 
-    // Get active campaigns
+    // Get automatic campaigns the customer has not exhausted
     const now = new Date();
-    const activeCampaigns = await this.campaignModel
-      .find({
-        startDate: { $lte: now },
-        endDate: { $gte: now },
-        isActive: true,
-      })
-      .exec();
+    const activeCampaigns =
+      await this.campaignRedemptionService.filterRedeemable(
+        await this.campaignModel
+          .find({
+            startDate: { $lte: now },
+            endDate: { $gte: now },
+            isActive: true,
+            requiresCode: { $ne: true },
+          })
+          .exec(),
+        cart.userId,
+      );
 
     let totalDiscount = 0;
+    const lineDiscounts = new Map<string, number>();
     const appliedCampaigns: Array<{
       campaignId: string;
       campaignName: string;
       discountAmount: number;
       discountType: 'percentage' | 'fixed';
+      code?: string;
     }> = [];
 
     // Apply platform campaigns first
@@ -348,6 +570,11 @@ export class CartService {
 
       if (campaignDiscount > 0) {
         totalDiscount += campaignDiscount;
+        this.allocateLineDiscount(
+          this.getApplicableItems(cart.items, campaign),
+          campaignDiscount,
+          lineDiscounts,
+        );
         appliedCampaigns.push({
           campaignId: (campaign._id as any).toString(),
           campaignName: campaign.name,
@@ -374,6 +601,11 @@ export class CartService {
 
       if (campaignDiscount > 0) {
         totalDiscount += campaignDiscount;
+        this.allocateLineDiscount(
+          this.getApplicableItems(cart.items, campaign),
+          campaignDiscount,
+          lineDiscounts,
+        );
         appliedCampaigns.push({
           campaignId: (campaign._id as any).toString(),
           campaignName: campaign.name,
@@ -386,19 +618,129 @@ export class CartService {
       }
     }
 
+    // Apply the coupon code last; a coupon that no longer applies is dropped
+    let coupon: Cart['coupon'];
+    if (cart.couponCode) {
+      const resolved = await this.findValidCoupon(
+        cart.couponCode,
+        cart.userId,
+      ).catch(() => null);
+      const couponDiscount = resolved
+        ? this.calculateCampaignDiscount(
+            cart.items,
+            resolved.campaign,
+            totalDiscount,
+          )
+        : 0;
+
+      if (resolved && couponDiscount > 0) {
+        totalDiscount += couponDiscount;
+        this.allocateLineDiscount(
+          this.getApplicableItems(cart.items, resolved.campaign),
+          couponDiscount,
+          lineDiscounts,
+        );
+        coupon = {
+          code: resolved.code,
+          campaignId: (resolved.campaign._id as any).toString(),
+          campaignName: resolved.campaign.name,
+          discountAmount: couponDiscount,
+          isSingleUse: resolved.isSingleUse,
+        };
+        appliedCampaigns.push({
+          campaignId: coupon.campaignId,
+          campaignName: coupon.campaignName,
+          discountAmount: couponDiscount,
+          discountType:
+            resolved.campaign.discountType === DiscountType.PERCENTAGE
+              ? 'percentage'
+              : 'fixed',
+          code: coupon.code,
+        });
+      }
+    }
+
     return {
       ...cart,
+      items: cart.items.map((item) => ({
+        ...item,
+        lineDiscount: lineDiscounts.get(orderLineKey(item)) || 0,
+      })),
       subtotal,
       totalDiscount,
       total: Math.max(0, subtotal - totalDiscount),
       appliedCampaigns,
+      couponCode: coupon?.code,
+      coupon,
     };
   }
 
+  /**
+   * Get cart items a campaign applies to
+   */
+  private getApplicableItems(items: CartItem[], campaign: any): CartItem[] {
+    if (campaign.type === 'platform') {
+      // Platform campaigns apply to all products
+      return items;
+    }
+
+    if (campaign.type === 'seller') {
+      // Seller campaigns apply only to seller's products
+      return items.filter((item) =>
+        campaign.productIds.some(
+          (productId: any) => productId.toString() === item.productId,
+        ),
+      );
+    }
+
+    return [];
+  }
+
+  /**
+   * Spread a campaign discount over its items proportionally to line value
+   *
+   * Amounts are rounded to cents; the last line absorbs the rounding
+   * remainder so line discounts always add up to the campaign discount.
+   */
+  private allocateLineDiscount(
+    items: CartItem[],
+    discount: number,
+    lineDiscounts: Map<string, number>,
+  ): void {
+    const applicableSubtotal = items.reduce(
+      (sum, item) => sum + item.price * item.quantity,
+      0,
+    );
+    if (applicableSubtotal <= 0) return;
+
+    let remaining = Math.round(discount * 100) / 100;
+    items.forEach((item, index) => {
+      const share =
+        index === items.length - 1
+          ? remaining
+          : Math.round(
+              ((item.price * item.quantity) / applicableSubtotal) *
+                discount *
+                100,
+            ) / 100;
+      remaining = Math.round((remaining - share) * 100) / 100;
+      const lineKey = orderLineKey(item);
+      lineDiscounts.set(
+        lineKey,
+        Math.round(((lineDiscounts.get(lineKey) || 0) + share) * 100) / 100,
+      );
+    });
+  }
+
   /**
    * Get discounted price for a product based on active campaigns
+   *
+   * @param price - Base price to discount, e.g. a variant's price
    */
-  private async getDiscountedPrice(product: any): Promise<number | null> {
+  private async getDiscountedPrice(
+    product: any,
+    price: number = product.price,
+  ): Promise<number | null> {
     const now = new Date();
 
     const campaigns = await this.campaignModel
@@ -406,6 +748,7 @@ export class CartService {
         isActive: true,
         startDate: { $lte: now },
         endDate: { $gte: now },
+        requiresCode: { $ne: true },
         $or: [
           { productIds: product._id },
           { categoryIds: product.category },
@@ -418,13 +761,13 @@ export class CartService {
 
     if (!campaigns.length) return null;
 
-    let minPrice = product.price;
+    let minPrice = price;
     for (const campaign of campaigns) {
-      let discounted = product.price;
+      let discounted = price;
       if (campaign.discountType === 'percentage') {
-        discounted = product.price * (1 - campaign.discountValue / 100);
+        discounted = price * (1 - campaign.discountValue / 100);
       } else if (campaign.discountType === 'amount') {
-        discounted = product.price - campaign.discountValue;
+        discounted = price - campaign.discountValue;
       }
       if (discounted < minPrice) minPrice = discounted;
     }
@@ -440,17 +783,7 @@ export class CartService {
     campaign: any,
     currentTotalDiscount: number,
   ): number {
-    let applicableItems: CartItem[] = [];
-
-    if (campaign.type === 'platform') {
-      // Platform campaigns apply to all products
-      applicableItems = items;
-    } else if (campaign.type === 'seller') {
-      // Seller campaigns apply only to seller's products
-      applicableItems = items.filter((item) =>
-        campaign.productIds.includes(item.productId),
-      );
-    }
+    const applicableItems = this.getApplicableItems(items, campaign);
 
     if (applicableItems.length === 0) {
       return 0;
@@ -484,12 +817,21 @@ export class CartService {
    * Process checkout
    */
   async checkout(userId: string, checkoutDto: CheckoutDto): Promise<any> {
-    const cart = await this.getCart(userId);
+    // Re-price so campaigns exhausted since the cart was saved drop out
+    const savedCart = await this.getCart(userId);
+    const cart = await this.calculateCartTotals(savedCart);
 
     if (cart.items.length === 0) {
       throw new BadRequestException(CartErrorMessages[CartError.EMPTY_CART]);
     }
 
+    // Never charge a different total than the one shown with the coupon
+    if (savedCart.couponCode && !cart.coupon) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_NO_LONGER_VALID],
+      );
+    }
+
     // Validate stock availability
     for (const item of cart.items) {
       const product = await this.productModel.findById(item.productId).exec();
@@ -497,45 +839,147 @@ export class CartService {
         throw new NotFoundException(`Product not found: ${item.name}`);
       }
 
-      const totalStock = product.stock || 0;
-      if (totalStock < item.quantity) {
+      const { stock } = this.resolvePurchasable(product, item.variantId);
+      if (stock < item.quantity) {
         throw new BadRequestException(
           `Insufficient stock for product: ${item.name}`,
         );
       }
     }
 
-    // Process payment (dummy implementation)
-    const paymentResult = await this.processPayment(checkoutDto, cart.total);
+    // Take the stock atomically before charging, so concurrent checkouts
+    // cannot sell the same units twice
+    const stockReservationId = await this.stockReservationService.reserve(
+      userId,
+      cart.items,
+    );
+    if (!stockReservationId) {
+      throw new BadRequestException(
+        CartErrorMessages[CartError.INSUFFICIENT_STOCK],
+      );
+    }
 
-    if (!paymentResult.success) {
-      throw new BadRequestException('Payment failed: ' + paymentResult.message);
+    // Hold a usage slot on every applied campaign before charging
+    const campaignIds = cart.appliedCampaigns.map(
+      (campaign) => campaign.campaignId,
+    );
+    const reserved = await this.campaignRedemptionService.reserve(
+      campaignIds,
+      userId,
+    );
+    if (!reserved) {
+      await this.stockReservationService.release(stockReservationId);
+      throw new BadRequestException(
+        CartErrorMessages[CartError.CAMPAIGN_USAGE_LIMIT_REACHED],
+      );
+    }
+
+    // Single-use codes are consumed atomically so only one order gets them
+    const singleUseCode = cart.coupon?.isSingleUse
+      ? cart.coupon.code
+      : undefined;
+    if (
+      singleUseCode &&
+      !(await this.couponCodeService.consume(singleUseCode, userId))
+    ) {
+      await this.releaseCheckoutHolds(userId, stockReservationId, campaignIds);
+      throw new BadRequestException(
+        CartErrorMessages[CartError.COUPON_ALREADY_USED],
+      );
+    }
+
+    // Hold the funds for the total the order will store; they are captured
+    // once the order exists
+    const orderItems = cart.items.map((item) => ({
+      productId: item.productId,
+      variantId: item.variantId,
+      quantity: item.quantity,
+      price: item.price,
+      discount: item.lineDiscount || 0,
+      sellerId: item.sellerId,
+    }));
+    const { totalPrice } = calculateOrderTotals(orderItems);
+    const payment = await this.paymentsService.authorize(
+      userId,
+      totalPrice,
+      checkoutDto.paymentMethod,
+    );
+    const paymentId = (payment._id as any).toString();
+
+    if (payment.status !== PaymentTransactionStatus.AUTHORIZED) {
+      await this.releaseCheckoutHolds(
+        userId,
+        stockReservationId,
+        campaignIds,
+        singleUseCode,
+      );
+      throw new BadRequestException('Payment failed: ' + payment.failureReason);
     }
 
     // Create order through Orders Service
     const orderData = {
-      items: cart.items.map((item) => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        price: item.price,
-        sellerId: item.sellerId,
-      })),
+      items: orderItems,
       shippingAddress: checkoutDto.shippingAddress,
-      paymentStatus: paymentResult.success
-        ? ('paid' as any)
-        : ('pending' as any),
       notes: checkoutDto.notes,
-      paymentTransactionId: paymentResult.transactionId,
+      paymentTransactionId: payment.providerTransactionId,
+      stockReservationId,
       appliedCampaigns: cart.appliedCampaigns,
       subtotal: cart.subtotal,
       totalDiscount: cart.totalDiscount,
     };
 
     // Create real order using OrdersService
-    const createdOrder = await this.ordersService.createOrder(
+    let createdOrder: OrderDetails;
+    try {
+      createdOrder = await this.ordersService.createOrder(userId, orderData);
+    } catch (error) {
+      await this.paymentsService.void(paymentId);
+      await this.releaseCheckoutHolds(
+        userId,
+        stockReservationId,
+        campaignIds,
+        singleUseCode,
+      );
+      throw error;
+    }
+
+    if (singleUseCode) {
+      await this.couponCodeService.attachOrder(singleUseCode, createdOrder._id);
+    }
+    await this.campaignRedemptionService.recordRedemptions(
+      createdOrder._id,
       userId,
-      orderData,
+      cart.appliedCampaigns,
     );
+    await this.paymentsService.attachToOrder(paymentId, createdOrder._id);
+
+    // Never capture an amount other than the order's total; cancelling the
+    // order voids the hold and hands back stock, campaign usage and codes
+    if (createdOrder.totalPrice !== payment.amount) {
+      await this.ordersService.cancelOrder(
+        createdOrder._id,
+        userId,
+        OrderStatusActor.SYSTEM,
+        'Order total does not match the authorized amount',
+      );
+      throw new BadRequestException(
+        CartErrorMessages[CartError.ORDER_TOTAL_MISMATCH],
+      );
+    }
+
+    // Capture; a rejected capture cancels the order the same way
+    const capturedPayment = await this.paymentsService.capture(paymentId);
+    if (capturedPayment.status !== PaymentTransactionStatus.CAPTURED) {
+      await this.ordersService.cancelOrder(
+        createdOrder._id,
+        userId,
+        OrderStatusActor.SYSTEM,
+        'Payment capture failed',
+      );
+      throw new BadRequestException(
+        'Payment failed: ' + capturedPayment.failureReason,
+      );
+    }
 
     // Clear cart after successful order creation
     await this.clearCart(userId);
@@ -543,37 +987,26 @@ export class CartService {
     return {
       message: 'Order placed successfully',
       orderId: createdOrder._id,
-      transactionId: paymentResult.transactionId,
-      total: cart.total,
-      order: createdOrder,
+      transactionId: capturedPayment.providerTransactionId,
+      total: createdOrder.totalPrice,
+      order: await this.ordersService.findOrderById(createdOrder._id, userId),
     };
   }
 
   /**
-   * Dummy payment processing
+   * Hand back the stock, campaign slots and single-use code held by a
+   * failed checkout
    */
-  private async processPayment(
-    checkoutDto: CheckoutDto,
-    amount: number,
-  ): Promise<any> {
-    // Simulate payment processing
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-
-    // Simulate 95% success rate
-    const isSuccess = Math.random() > 0.05;
-
-    if (isSuccess) {
-      return {
-        success: true,
-        transactionId:
-          'TXN_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9),
-        amount,
-      };
-    } else {
-      return {
-        success: false,
-        message: 'Payment declined by bank',
-      };
+  private async releaseCheckoutHolds(
+    userId: string,
+    stockReservationId: string,
+    campaignIds: string[],
+    singleUseCode?: string,
+  ): Promise<void> {
+    await this.stockReservationService.release(stockReservationId);
+    await this.campaignRedemptionService.release(campaignIds, userId);
+    if (singleUseCode) {
+      await this.couponCodeService.restore(singleUseCode);
     }
   }
 
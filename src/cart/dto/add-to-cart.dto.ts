@@ -2,6 +2,7 @@ import { z } from 'zod';
 
 export const addToCartSchema = z.object({
   productId: z.string().min(1, 'Product ID is required'),
+  variantId: z.string().min(1, 'Variant ID cannot be empty').optional(),
   quantity: z.number().int().min(1, 'Quantity must be at least 1'),
 });
 
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const applyCouponSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Coupon code is required')
+    .max(50, 'Coupon code cannot exceed 50 characters'),
+});
+
+export type ApplyCouponDto = z.infer<typeof applyCouponSchema>;
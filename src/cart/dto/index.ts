@@ -1,3 +1,4 @@
 export * from './add-to-cart.dto';
 export * from './update-cart-item.dto';
 export * from './checkout.dto';
+export * from './apply-coupon.dto';
@@ -1,19 +1,52 @@
 export enum CartError {
   PRODUCT_NOT_FOUND = 'PRODUCT_NOT_FOUND',
+  VARIANT_REQUIRED = 'VARIANT_REQUIRED',
+  VARIANT_NOT_FOUND = 'VARIANT_NOT_FOUND',
   INSUFFICIENT_STOCK = 'INSUFFICIENT_STOCK',
   INVALID_QUANTITY = 'INVALID_QUANTITY',
   CART_ITEM_NOT_FOUND = 'CART_ITEM_NOT_FOUND',
   EMPTY_CART = 'EMPTY_CART',
   PRODUCT_ALREADY_IN_CART = 'PRODUCT_ALREADY_IN_CART',
   UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
+  CAMPAIGN_USAGE_LIMIT_REACHED = 'CAMPAIGN_USAGE_LIMIT_REACHED',
+  INVALID_COUPON = 'INVALID_COUPON',
+  COUPON_INACTIVE = 'COUPON_INACTIVE',
+  COUPON_NOT_STARTED = 'COUPON_NOT_STARTED',
+  COUPON_EXPIRED = 'COUPON_EXPIRED',
+  COUPON_ALREADY_USED = 'COUPON_ALREADY_USED',
+  COUPON_USAGE_LIMIT_REACHED = 'COUPON_USAGE_LIMIT_REACHED',
+  COUPON_MIN_ORDER_NOT_MET = 'COUPON_MIN_ORDER_NOT_MET',
+  COUPON_NOT_APPLICABLE = 'COUPON_NOT_APPLICABLE',
+  COUPON_NO_LONGER_VALID = 'COUPON_NO_LONGER_VALID',
+  ORDER_TOTAL_MISMATCH = 'ORDER_TOTAL_MISMATCH',
 }
 
 export const CartErrorMessages = {
   [CartError.PRODUCT_NOT_FOUND]: 'Product not found',
+  [CartError.VARIANT_REQUIRED]:
+    'This product has variants. Please select a variant',
+  [CartError.VARIANT_NOT_FOUND]: 'Product variant not found',
   [CartError.INSUFFICIENT_STOCK]: 'Insufficient stock available',
   [CartError.INVALID_QUANTITY]: 'Invalid quantity. Must be at least 1',
   [CartError.CART_ITEM_NOT_FOUND]: 'Cart item not found',
   [CartError.EMPTY_CART]: 'Cart is empty',
   [CartError.PRODUCT_ALREADY_IN_CART]: 'Product already exists in cart',
   [CartError.UNAUTHORIZED_ACCESS]: 'Unauthorized access to cart',
+  [CartError.CAMPAIGN_USAGE_LIMIT_REACHED]:
+    'A campaign in your cart has reached its usage limit. Please review your cart and try again',
+  [CartError.INVALID_COUPON]: 'Invalid coupon code',
+  [CartError.COUPON_INACTIVE]: 'This coupon is not active',
+  [CartError.COUPON_NOT_STARTED]: 'This coupon is not valid yet',
+  [CartError.COUPON_EXPIRED]: 'This coupon has expired',
+  [CartError.COUPON_ALREADY_USED]: 'This coupon code has already been used',
+  [CartError.COUPON_USAGE_LIMIT_REACHED]:
+    'This coupon has reached its usage limit',
+  [CartError.COUPON_MIN_ORDER_NOT_MET]:
+    'Your cart does not meet the minimum order amount for this coupon',
+  [CartError.COUPON_NOT_APPLICABLE]:
+    'This coupon does not apply to any item in your cart',
+  [CartError.COUPON_NO_LONGER_VALID]:
+    'The coupon in your cart is no longer valid. Please review your cart and try again',
+  [CartError.ORDER_TOTAL_MISMATCH]:
+    'The order total changed during checkout. Please review your cart and try again',
 };
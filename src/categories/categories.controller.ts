@@ -48,6 +48,8 @@ export class CategoriesController {
               description: { type: 'string' },
               image: { type: 'string' },
               isActive: { type: 'boolean' },
+              parentId: { type: 'string', nullable: true },
+              ancestors: { type: 'array', items: { type: 'string' } },
               createdAt: { type: 'string' },
               updatedAt: { type: 'string' },
             },
@@ -66,6 +68,40 @@ export class CategoriesController {
     return this.categoriesService.findAllCategories(query);
   }
 
+  /**
+   * Get the category tree
+   */
+  @Get('tree')
+  @ApiOperation({
+    summary: 'Get category tree',
+    description:
+      'Retrieve all active categories nested under their parent categories',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Category tree retrieved successfully',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          _id: { type: 'string' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          image: { type: 'string' },
+          children: {
+            type: 'array',
+            description: 'Child categories, nested the same way',
+            items: { type: 'object' },
+          },
+        },
+      },
+    },
+  })
+  async findCategoryTree() {
+    return this.categoriesService.findCategoryTree();
+  }
+
   /**
    * Get category by ID
    */
@@ -86,6 +122,8 @@ export class CategoriesController {
         description: { type: 'string' },
         image: { type: 'string' },
         isActive: { type: 'boolean' },
+        parentId: { type: 'string', nullable: true },
+        ancestors: { type: 'array', items: { type: 'string' } },
         createdAt: { type: 'string' },
         updatedAt: { type: 'string' },
       },
@@ -95,4 +133,41 @@ export class CategoriesController {
   async findOneCategory(@Param('id') id: string) {
     return this.categoriesService.findOneCategory(id);
   }
+
+  /**
+   * Get the attribute set of a category
+   */
+  @Get(':id/attributes')
+  @ApiOperation({
+    summary: 'Get category attributes',
+    description:
+      'Retrieve the attributes products of this category are described with, including those inherited from parent categories',
+  })
+  @ApiParam({ name: 'id', description: 'Category ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Category attributes retrieved successfully',
+    schema: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          key: { type: 'string', example: 'screen_size' },
+          label: { type: 'string', example: 'Screen Size' },
+          type: {
+            type: 'string',
+            enum: ['enum', 'number', 'boolean', 'text'],
+          },
+          options: { type: 'array', items: { type: 'string' } },
+          unit: { type: 'string', example: 'inch' },
+          required: { type: 'boolean' },
+          filterable: { type: 'boolean' },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async findCategoryAttributes(@Param('id') id: string) {
+    return this.categoriesService.findAttributeSet(id);
+  }
 }
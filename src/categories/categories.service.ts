@@ -1,9 +1,31 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model, UpdateQuery } from 'mongoose';
-import { Category, CategoryDocument } from '../schemas/category.schema';
+import { Model, Types, UpdateQuery } from 'mongoose';
+import {
+  AttributeType,
+  Category,
+  CategoryAttribute,
+  CategoryDocument,
+} from '../schemas/category.schema';
 import { FindAllCategoriesDto } from './dto/find-all-categories.dto';
 
+export interface CategoryTreeNode {
+  _id: string;
+  name: string;
+  description?: string;
+  image?: string;
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryBreadcrumb {
+  _id: string;
+  name: string;
+}
+
+export type SpecificationValue = string | number | boolean;
+
+type LeanCategory = Category & { _id: Types.ObjectId };
+
 @Injectable()
 export class CategoriesService {
   constructor(
@@ -62,6 +84,179 @@ export class CategoriesService {
     };
   }
 
+  /**
+   * Get the active categories as a nested tree
+   *
+   * Children of an inactive category are left out with it.
+   */
+  async findCategoryTree(): Promise<CategoryTreeNode[]> {
+    const categories = await this.categoryModel
+      .find({ isActive: true })
+      .sort({ name: 1 })
+      .lean<LeanCategory[]>();
+
+    const childrenByParent = new Map<string, typeof categories>();
+    categories.forEach((category) => {
+      const parentKey = category.parentId?.toString() || '';
+      childrenByParent.set(parentKey, [
+        ...(childrenByParent.get(parentKey) || []),
+        category,
+      ]);
+    });
+
+    const buildNodes = (parentKey: string): CategoryTreeNode[] =>
+      (childrenByParent.get(parentKey) || []).map((category) => ({
+        _id: category._id.toString(),
+        name: category.name,
+        description: category.description,
+        image: category.image,
+        children: buildNodes(category._id.toString()),
+      }));
+
+    return buildNodes('');
+  }
+
+  /**
+   * Get a category together with all of its descendants
+   *
+   * @param categoryId - Category ID
+   * @returns IDs of the category and every category below it
+   */
+  async findSubtreeIds(categoryId: string): Promise<Types.ObjectId[]> {
+    const id = new Types.ObjectId(categoryId);
+    const descendants = await this.categoryModel
+      .find({ ancestors: id })
+      .select('_id')
+      .lean<LeanCategory[]>();
+
+    return [id, ...descendants.map((category) => category._id)];
+  }
+
+  /**
+   * Get the path from the root category down to a category
+   *
+   * @param categoryId - Category ID
+   * @returns Breadcrumbs, root first and ending with the category itself
+   */
+  async findBreadcrumbs(
+    categoryId: Types.ObjectId | string,
+  ): Promise<CategoryBreadcrumb[]> {
+    const category = await this.categoryModel
+      .findById(categoryId)
+      .lean<LeanCategory>();
+    if (!category) return [];
+
+    const ancestorIds = category.ancestors || [];
+    const ancestors = await this.categoryModel
+      .find({ _id: { $in: ancestorIds } })
+      .select('name')
+      .lean<LeanCategory[]>();
+
+    return [
+      ...ancestorIds.map((ancestorId) =>
+        ancestors.find((ancestor) => ancestor._id.equals(ancestorId)),
+      ),
+      category,
+    ]
+      .filter((item) => !!item)
+      .map((item) => ({ _id: item._id.toString(), name: item.name }));
+  }
+
+  /**
+   * Get the attributes that apply to products of a category
+   *
+   * Attributes are inherited from ancestor categories; a subcategory
+   * attribute with the same key overrides the inherited one.
+   *
+   * @param categoryId - Category ID
+   * @returns Attribute set, root category attributes first
+   */
+  async findAttributeSet(
+    categoryId: Types.ObjectId | string,
+  ): Promise<CategoryAttribute[]> {
+    const category = await this.categoryModel
+      .findById(categoryId)
+      .lean<LeanCategory>();
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    const ancestorIds = category.ancestors || [];
+    const ancestors = await this.categoryModel
+      .find({ _id: { $in: ancestorIds } })
+      .select('attributes')
+      .lean<LeanCategory[]>();
+
+    const attributes = new Map<string, CategoryAttribute>();
+    [
+      ...ancestorIds.map((ancestorId) =>
+        ancestors.find((ancestor) => ancestor._id.equals(ancestorId)),
+      ),
+      category,
+    ].forEach((item) =>
+      (item?.attributes || []).forEach((attribute) =>
+        attributes.set(attribute.key, attribute),
+      ),
+    );
+
+    return [...attributes.values()];
+  }
+
+  /**
+   * Check product specifications against a category's attribute set
+   *
+   * Keys are matched to attribute keys or labels case-insensitively and
+   * values are converted to the attribute type, so "Color", "color" and
+   * "COLOR" all end up under the same key. Categories without attributes
+   * accept free-form specifications.
+   *
+   * @param categoryId - Category ID
+   * @param specifications - Specifications sent by the seller
+   * @returns Normalized specifications and validation errors, if any
+   */
+  async validateSpecifications(
+    categoryId: Types.ObjectId | string,
+    specifications: Record<string, SpecificationValue> = {},
+  ): Promise<{
+    specifications: Record<string, SpecificationValue>;
+    errors: string[];
+  }> {
+    const attributes = await this.findAttributeSet(categoryId);
+    if (attributes.length === 0) {
+      return { specifications, errors: [] };
+    }
+
+    const normalized: Record<string, SpecificationValue> = {};
+    const errors: string[] = [];
+
+    Object.entries(specifications).forEach(([name, value]) => {
+      const attribute = attributes.find(
+        (item) =>
+          item.key.toLowerCase() === name.trim().toLowerCase() ||
+          item.label.toLowerCase() === name.trim().toLowerCase(),
+      );
+      if (!attribute) {
+        errors.push(`Unknown attribute "${name}"`);
+        return;
+      }
+      if (value === '' || value === null || value === undefined) return;
+
+      const converted = this.convertAttributeValue(attribute, value);
+      if (converted === undefined) {
+        errors.push(`Invalid value "${String(value)}" for ${attribute.label}`);
+        return;
+      }
+      normalized[attribute.key] = converted;
+    });
+
+    attributes
+      .filter((attribute) => attribute.required)
+      .filter((attribute) => normalized[attribute.key] === undefined)
+      .forEach((attribute) => errors.push(`${attribute.label} is required`));
+
+    return { specifications: normalized, errors };
+  }
+
   async findOneCategory(id: string): Promise<Category> {
     const category = await this.categoryModel.findById(id).exec();
     if (!category) {
@@ -111,4 +306,34 @@ export class CategoriesService {
     category.isActive = !category.isActive;
     return category.save();
   }
+
+  /**
+   * Convert a specification value to its attribute type
+   *
+   * @private
+   * @returns Converted value, or undefined when it does not fit the type
+   */
+  private convertAttributeValue(
+    attribute: CategoryAttribute,
+    value: SpecificationValue,
+  ): SpecificationValue | undefined {
+    const text = String(value).trim();
+
+    switch (attribute.type) {
+      case AttributeType.NUMBER: {
+        const number = typeof value === 'number' ? value : Number(text);
+        return text !== '' && Number.isFinite(number) ? number : undefined;
+      }
+      case AttributeType.BOOLEAN:
+        if (value === true || text.toLowerCase() === 'true') return true;
+        if (value === false || text.toLowerCase() === 'false') return false;
+        return undefined;
+      case AttributeType.ENUM:
+        return attribute.options.find(
+          (option) => option.toLowerCase() === text.toLowerCase(),
+        );
+      default:
+        return text;
+    }
+  }
 }
@@ -15,7 +15,7 @@ import { Request } from 'express';
  * - JWT token validation via Passport strategy
  * - Bearer token format verification
  * - Enhanced security headers validation
- * - Potential for token blacklist integration
+ * - Revoked (blacklisted) tokens are rejected by JwtStrategy
  *
  * @security Validates JWT tokens and ensures proper authentication
  * @extends AuthGuard('jwt')
@@ -46,9 +46,6 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       throw new UnauthorizedException('No token provided');
     }
 
-    // TODO: Implement token blacklist check when TokenBlacklistService is properly integrated
-    // This would require proper module dependency injection to avoid circular dependencies
-
     return super.canActivate(context) as Promise<boolean>;
   }
 }
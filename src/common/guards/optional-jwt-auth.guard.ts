@@ -0,0 +1,32 @@
+import { Injectable, ExecutionContext } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
+
+/**
+ * Optional JWT Authentication Guard
+ *
+ * For public endpoints that attribute requests to signed-in users. Every
+ * request is let through; when a valid bearer token is sent the user is
+ * attached to the request just like with JwtAuthGuard, otherwise
+ * `request.user` stays undefined.
+ *
+ * @extends AuthGuard('jwt')
+ */
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<Request>();
+    if (!request.headers?.authorization) {
+      return true;
+    }
+
+    return super.canActivate(context) as Promise<boolean>;
+  }
+
+  /**
+   * Treat missing, invalid or expired tokens as anonymous requests
+   */
+  handleRequest<TUser = any>(err: unknown, user: TUser | false): TUser {
+    return (user || undefined) as TUser;
+  }
+}
@@ -64,4 +64,55 @@ export class EmailService {
 
     await this.sendEmail(to, subject, html);
   }
+
+  async sendReviewRejectedEmail(
+    to: string,
+    firstName: string,
+    productName: string,
+    reason: string,
+  ): Promise<void> {
+    const subject = 'Your review was not published';
+    const html = `
+      <h1>Review Not Published</h1>
+      <p>Hi ${this.escapeHtml(firstName)},</p>
+      <p>Your review of ${this.escapeHtml(productName)} was not published for the following reason:</p>
+      <p>${this.escapeHtml(reason)}</p>
+      <p>You can edit your review and it will be checked again.</p>
+    `;
+
+    await this.sendEmail(to, subject, html);
+  }
+
+  async sendNewLoginEmail(
+    to: string,
+    firstName: string,
+    login: { deviceName?: string; ipAddress?: string; loggedInAt: Date },
+  ): Promise<void> {
+    const appUrl = this.configService.get<string>('app.app.url');
+    const resetUrl = `${appUrl}/reset-password`;
+
+    const subject = 'New login to your account';
+    const html = `
+      <h1>New Login</h1>
+      <p>Hi ${this.escapeHtml(firstName)},</p>
+      <p>Your account was just signed in to from a device or location we have not seen before:</p>
+      <ul>
+        <li>Device: ${this.escapeHtml(login.deviceName || 'Unknown device')}</li>
+        <li>IP address: ${this.escapeHtml(login.ipAddress || 'Unknown')}</li>
+        <li>Time: ${login.loggedInAt.toUTCString()}</li>
+      </ul>
+      <p>If this was you, no action is needed.</p>
+      <p>If it wasn't, <a href="${resetUrl}">reset your password</a> right away and sign out your other sessions.</p>
+    `;
+
+    await this.sendEmail(to, subject, html);
+  }
+
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
 }
@@ -14,6 +14,9 @@ import { randomBytes } from 'crypto';
  * - MinIO object storage settings
  * - Rate limiting and security parameters
  * - Email service configuration
+ * - Review moderation screening rules
+ * - Account lockout and security log retention
+ * - Payment provider selection
  *
  * @security All secrets have cryptographically secure fallbacks
  * @security Environment variables should be used in production
@@ -33,6 +36,39 @@ export default registerAs('app', () => {
       refreshSecret: process.env.JWT_REFRESH_SECRET || generateSecureSecret(),
       expiresIn: process.env.JWT_EXPIRES_IN || '15m',
       refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+      // Signs the short-lived challenge between password and 2FA code
+      twoFactorSecret: process.env.JWT_2FA_SECRET || generateSecureSecret(),
+    },
+    twoFactor: {
+      // Account name prefix shown in authenticator apps
+      issuer: process.env.TWO_FACTOR_ISSUER || 'E-Commerce',
+    },
+    loginSecurity: {
+      // Failed attempts that lock the account
+      maxFailedAttempts: parseInt(
+        process.env.LOGIN_MAX_FAILED_ATTEMPTS || '10',
+        10,
+      ),
+      lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10),
+      // Failed attempts allowed back to back; later ones must wait, starting
+      // at the base delay and doubling up to the maximum
+      delayAfterAttempts: parseInt(
+        process.env.LOGIN_DELAY_AFTER_ATTEMPTS || '3',
+        10,
+      ),
+      baseDelaySeconds: parseInt(
+        process.env.LOGIN_BASE_DELAY_SECONDS || '2',
+        10,
+      ),
+      maxDelaySeconds: parseInt(
+        process.env.LOGIN_MAX_DELAY_SECONDS || '60',
+        10,
+      ),
+      notifyNewDevice: process.env.LOGIN_NOTIFY_NEW_DEVICE !== 'false',
+      securityLogRetentionDays: parseInt(
+        process.env.SECURITY_LOG_RETENTION_DAYS || '90',
+        10,
+      ),
     },
     upload: {
       path: process.env.UPLOAD_PATH || './uploads',
@@ -65,6 +101,25 @@ export default registerAs('app', () => {
       password: process.env.EMAIL_PASSWORD || '',
       from: process.env.EMAIL_FROM || 'noreply@ecommerce.com',
     },
+    reviewModeration: {
+      // Reviews passing every check go live without an admin
+      autoApprove: process.env.REVIEW_AUTO_APPROVE !== 'false',
+      // Comma-separated words that send a review to the moderation queue
+      bannedWords: (process.env.REVIEW_BANNED_WORDS || '')
+        .split(',')
+        .map((word) => word.trim())
+        .filter(Boolean),
+      detectContactInfo: process.env.REVIEW_DETECT_CONTACT_INFO !== 'false',
+      // Share of upper-case letters above which a review is flagged; 1 disables
+      maxCapsRatio: parseFloat(process.env.REVIEW_MAX_CAPS_RATIO || '0.7'),
+      detectDuplicates: process.env.REVIEW_DETECT_DUPLICATES !== 'false',
+    },
+    payment: {
+      provider: process.env.PAYMENT_PROVIDER || 'sandbox',
+      currency: process.env.PAYMENT_CURRENCY || 'TRY',
+      // Webhooks are rejected while no secret is configured
+      webhookSecret: process.env.PAYMENT_WEBHOOK_SECRET || '',
+    },
     app: {
       url: process.env.APP_URL || 'http://localhost:3000',
     },
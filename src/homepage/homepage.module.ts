@@ -7,6 +7,7 @@ import { Category, CategorySchema } from '../schemas/category.schema';
 import { Campaign, CampaignSchema } from '../schemas/campaign.schema';
 import { Order, OrderSchema } from '../schemas/order.schema';
 import { RecommendationsModule } from '../recommendations/recommendations.module';
+import { CategoriesModule } from '../categories/categories.module';
 
 @Module({
   imports: [
@@ -17,6 +18,7 @@ import { RecommendationsModule } from '../recommendations/recommendations.module
       { name: Order.name, schema: OrderSchema },
     ]),
     RecommendationsModule,
+    CategoriesModule,
   ],
   controllers: [HomepageController],
   providers: [HomepageService],
@@ -10,6 +10,7 @@ import {
 } from '../schemas/campaign.schema';
 import { Order, OrderDocument } from '../schemas/order.schema';
 import { RecommendationsService } from '../recommendations/recommendations.service';
+import { CategoriesService } from '../categories/categories.service';
 
 /**
  * Homepage Service
@@ -25,6 +26,7 @@ export class HomepageService {
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     private readonly recommendationsService: RecommendationsService,
+    private readonly categoriesService: CategoriesService,
   ) {}
 
   /**
@@ -41,6 +43,7 @@ export class HomepageService {
         isActive: true,
         startDate: { $lte: now },
         endDate: { $gte: now },
+        requiresCode: { $ne: true },
         $or: [
           { productIds: product._id },
           { categoryIds: product.category },
@@ -228,8 +231,8 @@ export class HomepageService {
       price: product.price,
       discountedPrice: (product as any).discountedPrice,
       imageUrls: product.imageUrls || [],
-      averageRating: (product as any).averageRating || 0,
-      reviewCount: (product as any).reviewCount || 0,
+      averageRating: product.averageRating || 0,
+      reviewCount: product.reviewCount || 0,
       category: {
         _id: (product.category as any)?._id?.toString(),
         name: (product.category as any)?.name,
@@ -260,12 +263,14 @@ export class HomepageService {
    *
    * @param categoryId - Category ID
    * @param limit - Number of products to return
-   * @returns Products in the category
+   * @returns Products in the category and its subcategories
    */
   async getProductsByCategory(categoryId: string, limit: number = 6) {
     const products = await this.productModel
       .find({
-        category: new Types.ObjectId(categoryId),
+        category: {
+          $in: await this.categoriesService.findSubtreeIds(categoryId),
+        },
         isActive: true,
         stock: { $gt: 0 },
       })
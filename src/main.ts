@@ -26,7 +26,8 @@ import { GlobalExceptionFilter } from './common/filters/global-exception.filter'
  * @throws {Error} If application fails to start
  */
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw body is kept for payment webhook signature verification
+  const app = await NestFactory.create(AppModule, { rawBody: true });
   const configService = app.get(ConfigService);
 
   // CORS configuration - allow all origins
@@ -1,13 +1,14 @@
 import { z } from 'zod';
-import { PaymentStatus } from '../../schemas/order.schema';
 
 /**
  * Order item schema for order creation
  */
 export const orderItemSchema = z.object({
   productId: z.string().min(1, 'Product ID is required'),
+  variantId: z.string().optional(),
   quantity: z.number().int().min(1, 'Quantity must be at least 1'),
   price: z.number().min(0, 'Price must be positive'),
+  discount: z.number().min(0, 'Discount must be positive').optional(),
   sellerId: z.string().min(1, 'Seller ID is required'),
 });
 
@@ -32,9 +33,9 @@ export const shippingAddressSchema = z.object({
 export const createOrderSchema = z.object({
   items: z.array(orderItemSchema).min(1, 'At least one item is required'),
   shippingAddress: shippingAddressSchema,
-  paymentStatus: z.nativeEnum(PaymentStatus).optional(),
   notes: z.string().max(500, 'Notes cannot exceed 500 characters').optional(),
   paymentTransactionId: z.string().optional(),
+  stockReservationId: z.string().optional(),
   appliedCampaigns: z
     .array(
       z.object({
@@ -42,6 +43,7 @@ export const createOrderSchema = z.object({
         campaignName: z.string(),
         discountAmount: z.number(),
         discountType: z.enum(['percentage', 'fixed']),
+        code: z.string().optional(),
       }),
     )
     .optional(),
@@ -50,6 +52,7 @@ export const createOrderSchema = z.object({
     .number()
     .min(0, 'Total discount must be positive')
     .optional(),
+  shippingCost: z.number().min(0, 'Shipping cost must be positive').optional(),
 });
 
 /**
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { orderLineKey } from '../../schemas/order.schema';
+import { ReturnReason } from '../../schemas/return-request.schema';
+
+/**
+ * Returned item schema
+ */
+export const returnItemSchema = z.object({
+  productId: z.string().min(1, 'Product ID is required'),
+  variantId: z.string().optional(),
+  quantity: z.coerce.number().int().min(1, 'Quantity must be at least 1'),
+  reason: z.nativeEnum(ReturnReason),
+  comment: z
+    .string()
+    .max(500, 'Comment cannot exceed 500 characters')
+    .optional(),
+});
+
+/**
+ * Create return request schema
+ *
+ * Sent as multipart/form-data together with the photos, so `items` may
+ * arrive as a JSON string.
+ */
+export const createReturnSchema = z.object({
+  items: z.preprocess(
+    (value) => {
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    },
+    z
+      .array(returnItemSchema)
+      .min(1, 'At least one item is required')
+      .refine(
+        (items) =>
+          new Set(items.map((item) => orderLineKey(item))).size ===
+          items.length,
+        'Each product variant can only be listed once',
+      ),
+  ),
+});
+
+export type CreateReturnDto = z.infer<typeof createReturnSchema>;
@@ -1,2 +1,3 @@
 export * from './create-order.dto';
 export * from './find-orders.dto';
+export * from './create-return.dto';
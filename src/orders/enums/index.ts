@@ -0,0 +1 @@
+export * from './return-error.enum';
@@ -0,0 +1,32 @@
+export enum ReturnError {
+  ORDER_NOT_FOUND = 'ORDER_NOT_FOUND',
+  RETURN_NOT_FOUND = 'RETURN_NOT_FOUND',
+  ORDER_NOT_RETURNABLE = 'ORDER_NOT_RETURNABLE',
+  RETURN_WINDOW_EXPIRED = 'RETURN_WINDOW_EXPIRED',
+  ITEM_NOT_IN_ORDER = 'ITEM_NOT_IN_ORDER',
+  RETURN_QUANTITY_EXCEEDED = 'RETURN_QUANTITY_EXCEEDED',
+  INVALID_PHOTO = 'INVALID_PHOTO',
+  PHOTO_UPLOAD_FAILED = 'PHOTO_UPLOAD_FAILED',
+  INVALID_RETURN_STATE = 'INVALID_RETURN_STATE',
+  REFUND_EXCEEDS_REQUESTED = 'REFUND_EXCEEDS_REQUESTED',
+  NOTHING_TO_REFUND = 'NOTHING_TO_REFUND',
+}
+
+export const ReturnErrorMessages = {
+  [ReturnError.ORDER_NOT_FOUND]: 'Order not found',
+  [ReturnError.RETURN_NOT_FOUND]: 'Return request not found',
+  [ReturnError.ORDER_NOT_RETURNABLE]: 'Only delivered items can be returned',
+  [ReturnError.RETURN_WINDOW_EXPIRED]:
+    'The return period for these items has ended',
+  [ReturnError.ITEM_NOT_IN_ORDER]: 'Returned item is not part of this order',
+  [ReturnError.RETURN_QUANTITY_EXCEEDED]:
+    'Return quantity exceeds the quantity that can still be returned',
+  [ReturnError.INVALID_PHOTO]: 'Photos must be images of at most 5MB',
+  [ReturnError.PHOTO_UPLOAD_FAILED]: 'Failed to upload return photos',
+  [ReturnError.INVALID_RETURN_STATE]:
+    'Return request cannot be changed in its current state',
+  [ReturnError.REFUND_EXCEEDS_REQUESTED]:
+    'Refund amount cannot exceed the amount paid for the returned items',
+  [ReturnError.NOTHING_TO_REFUND]:
+    'The order has no captured payment left to refund',
+};
@@ -1,4 +1,16 @@
-import { Controller, Get, Param, Put, UseGuards, Query } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Put,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+  Query,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -6,16 +18,79 @@ import {
   ApiParam,
   ApiQuery,
   ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
+import { MAX_RETURN_PHOTOS, ReturnsService } from './returns.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { UserRole } from '../schemas/user.schema';
-import { OrderStatus, PaymentStatus } from '../schemas/order.schema';
+import {
+  FulfillmentStatus,
+  OrderStatus,
+  OrderStatusActor,
+  PaymentStatus,
+} from '../schemas/order.schema';
 import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
 import { findOrdersSchema } from './dto/find-orders.dto';
+import { createReturnSchema, CreateReturnDto } from './dto/create-return.dto';
+import { ReturnReason, ReturnStatus } from '../schemas/return-request.schema';
+
+/**
+ * Swagger schema of one recorded status transition
+ */
+const STATUS_CHANGE_SCHEMA = {
+  type: 'object',
+  properties: {
+    actor: { type: 'string', enum: Object.values(OrderStatusActor) },
+    sellerId: {
+      type: 'string',
+      description: "Set when a seller's shipment changed status",
+    },
+    sellerName: { type: 'string' },
+    previousStatus: { type: 'string' },
+    status: { type: 'string' },
+    description: { type: 'string', description: 'Status description' },
+    note: { type: 'string' },
+    changedAt: { type: 'string', format: 'date-time' },
+  },
+};
+
+/**
+ * Swagger schema of a return request
+ */
+const RETURN_REQUEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    _id: { type: 'string' },
+    orderId: { type: 'string' },
+    sellerId: { type: 'string' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          productId: { type: 'string' },
+          variantId: { type: 'string' },
+          quantity: { type: 'number' },
+          reason: { type: 'string', enum: Object.values(ReturnReason) },
+          comment: { type: 'string' },
+          amount: { type: 'number', description: 'Paid amount of the units' },
+        },
+      },
+    },
+    photoUrls: { type: 'array', items: { type: 'string' } },
+    status: { type: 'string', enum: Object.values(ReturnStatus) },
+    requestedAmount: { type: 'number' },
+    refundAmount: { type: 'number' },
+    sellerNote: { type: 'string' },
+    rejectionReason: { type: 'string' },
+    createdAt: { type: 'string', format: 'date-time' },
+  },
+};
 
 /**
  * Orders Controller
@@ -25,6 +100,7 @@ import { findOrdersSchema } from './dto/find-orders.dto';
  * - Order detail retrieval
  * - Order tracking information
  * - Order cancellation
+ * - Return requests for delivered items
  *
  * All endpoints require customer authentication and role-based access control.
  */
@@ -34,7 +110,10 @@ import { findOrdersSchema } from './dto/find-orders.dto';
 @Roles(UserRole.CUSTOMER)
 @ApiBearerAuth()
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly returnsService: ReturnsService,
+  ) {}
 
   /**
    * Get customer's orders with filtering and pagination
@@ -187,6 +266,12 @@ export class OrdersController {
             type: 'object',
             properties: {
               productId: { type: 'string', description: 'Product ID' },
+              variantId: { type: 'string', description: 'Variant ID' },
+              variantName: {
+                type: 'string',
+                description: 'Variant name',
+                example: 'Red / M',
+              },
               productName: { type: 'string', description: 'Product name' },
               productImage: {
                 type: 'string',
@@ -197,6 +282,27 @@ export class OrdersController {
               quantity: { type: 'number', description: 'Quantity ordered' },
               price: { type: 'number', description: 'Unit price' },
               subtotal: { type: 'number', description: 'Item subtotal' },
+              discount: {
+                type: 'number',
+                description: 'Campaign discount applied to the line',
+              },
+              total: { type: 'number', description: 'Amount paid for line' },
+            },
+          },
+        },
+        subtotal: { type: 'number', description: 'Undiscounted item total' },
+        totalDiscount: { type: 'number', description: 'Total discount' },
+        shippingCost: { type: 'number', description: 'Shipping cost' },
+        appliedCampaigns: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              campaignId: { type: 'string' },
+              campaignName: { type: 'string' },
+              discountAmount: { type: 'number' },
+              discountType: { type: 'string', enum: ['percentage', 'fixed'] },
+              code: { type: 'string', description: 'Coupon code used' },
             },
           },
         },
@@ -204,12 +310,35 @@ export class OrdersController {
           type: 'object',
           description: 'Shipping address details',
         },
+        fulfillments: {
+          type: 'array',
+          description: 'Per-seller shipments of the order',
+          items: {
+            type: 'object',
+            properties: {
+              sellerId: { type: 'string' },
+              sellerName: { type: 'string' },
+              status: {
+                type: 'string',
+                enum: Object.values(FulfillmentStatus),
+              },
+              trackingNumber: { type: 'string' },
+              shippedAt: { type: 'string', format: 'date-time' },
+              deliveredAt: { type: 'string', format: 'date-time' },
+              cancelledAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
+        statusHistory: {
+          type: 'array',
+          description: 'Recorded status transitions, oldest first',
+          items: STATUS_CHANGE_SCHEMA,
+        },
         trackingNumber: {
           type: 'string',
-          description: 'Package tracking number',
+          description: 'Package tracking number of legacy orders',
         },
         notes: { type: 'string', description: 'Customer notes' },
-        sellerNotes: { type: 'string', description: 'Seller notes' },
       },
     },
   })
@@ -229,8 +358,8 @@ export class OrdersController {
   /**
    * Get order tracking information
    *
-   * Provides comprehensive tracking information including current status,
-   * location, tracking history, and estimated delivery.
+   * Provides tracking information including current status, per-seller
+   * shipments, the recorded status history, and estimated delivery.
    *
    * @param orderId - Order ID
    * @param userId - Authenticated customer ID
@@ -240,7 +369,7 @@ export class OrdersController {
   @ApiOperation({
     summary: 'Get order tracking information',
     description:
-      'Retrieve tracking information including status history and current location',
+      'Retrieve tracking information including per-seller shipments and the recorded status history',
   })
   @ApiParam({
     name: 'id',
@@ -257,30 +386,18 @@ export class OrdersController {
         status: { type: 'string', enum: Object.values(OrderStatus) },
         trackingNumber: {
           type: 'string',
-          description: 'Package tracking number',
+          description: 'Package tracking number of legacy orders',
         },
-        estimatedDelivery: { type: 'string', format: 'date-time' },
-        currentLocation: {
-          type: 'string',
-          description: 'Current package location',
+        shipments: {
+          type: 'array',
+          description: 'Per-seller shipments with their own tracking numbers',
+          items: { type: 'object' },
         },
+        estimatedDelivery: { type: 'string', format: 'date-time' },
         trackingHistory: {
           type: 'array',
-          items: {
-            type: 'object',
-            properties: {
-              status: { type: 'string', enum: Object.values(OrderStatus) },
-              timestamp: { type: 'string', format: 'date-time' },
-              description: {
-                type: 'string',
-                description: 'Status description',
-              },
-              completed: {
-                type: 'boolean',
-                description: 'Whether this step is completed',
-              },
-            },
-          },
+          description: 'Recorded status transitions, oldest first',
+          items: STATUS_CHANGE_SCHEMA,
         },
       },
     },
@@ -359,4 +476,125 @@ export class OrdersController {
   ) {
     return this.ordersService.cancelOrder(orderId, userId);
   }
+
+  /**
+   * Request a return for delivered items
+   *
+   * Items of different sellers are split into one return request per
+   * seller. Photos are uploaded to MinIO and attached to every request.
+   *
+   * @param orderId - Order ID
+   * @param userId - Authenticated customer ID
+   * @param createReturnDto - Returned items with quantities and reasons
+   * @param photos - Optional photos of the returned items
+   * @returns Created return requests
+   */
+  @Post(':id/returns')
+  @UseInterceptors(FilesInterceptor('photos', MAX_RETURN_PHOTOS))
+  @ApiOperation({
+    summary: 'Request a return',
+    description:
+      'Request a return for delivered items with quantities, reason codes and optional photos',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiConsumes('multipart/form-data', 'application/json')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['items'],
+      properties: {
+        items: {
+          type: 'array',
+          description: 'Returned items (a JSON string in multipart requests)',
+          items: {
+            type: 'object',
+            required: ['productId', 'quantity', 'reason'],
+            properties: {
+              productId: { type: 'string' },
+              variantId: {
+                type: 'string',
+                description: 'Required for products ordered as a variant',
+              },
+              quantity: { type: 'number', minimum: 1 },
+              reason: { type: 'string', enum: Object.values(ReturnReason) },
+              comment: { type: 'string', maxLength: 500 },
+            },
+          },
+        },
+        photos: {
+          type: 'array',
+          maxItems: MAX_RETURN_PHOTOS,
+          items: { type: 'string', format: 'binary' },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Return requests created successfully',
+    schema: { type: 'array', items: RETURN_REQUEST_SCHEMA },
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request - Items not delivered, return period ended, quantity exceeded or invalid photos',
+  })
+  @ApiResponse({ status: 404, description: 'Order not found' })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid token' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async createReturn(
+    @Param('id') orderId: string,
+    @CurrentUser('id') userId: string,
+    @Body(new ZodValidationPipe(createReturnSchema))
+    createReturnDto: CreateReturnDto,
+    @UploadedFiles() photos: Express.Multer.File[] = [],
+  ) {
+    return this.returnsService.createReturn(
+      orderId,
+      userId,
+      createReturnDto,
+      photos,
+    );
+  }
+
+  /**
+   * Get the return requests of an order
+   *
+   * @param orderId - Order ID
+   * @param userId - Authenticated customer ID
+   * @returns Return requests, newest first
+   */
+  @Get(':id/returns')
+  @ApiOperation({
+    summary: 'Get order return requests',
+    description: 'Retrieve the return requests of an order and their status',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Order ID',
+    example: '507f1f77bcf86cd799439011',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return requests retrieved successfully',
+    schema: { type: 'array', items: RETURN_REQUEST_SCHEMA },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized - Invalid token' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async findOrderReturns(
+    @Param('id') orderId: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.returnsService.findOrderReturns(orderId, userId);
+  }
 }
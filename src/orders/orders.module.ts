@@ -2,9 +2,22 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { OrdersController } from './orders.controller';
 import { OrdersService } from './orders.service';
+import { ReturnsService } from './returns.service';
+import { StockReservationService } from './stock-reservation.service';
 import { Order, OrderSchema } from '../schemas/order.schema';
+import {
+  ReturnRequest,
+  ReturnRequestSchema,
+} from '../schemas/return-request.schema';
 import { Product, ProductSchema } from '../schemas/product.schema';
+import {
+  StockReservation,
+  StockReservationSchema,
+} from '../schemas/stock-reservation.schema';
 import { User, UserSchema } from '../schemas/user.schema';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { MinioService } from '../minio/minio.service';
 
 /**
  * Orders Module
@@ -13,6 +26,8 @@ import { User, UserSchema } from '../schemas/user.schema';
  * - Order creation and lifecycle management
  * - Customer order access and tracking
  * - Order status updates and cancellation
+ * - Atomic stock reservation for checkouts
+ * - Return requests (RMA) and refunds of delivered items
  * - Integration with product and user systems
  */
 @Module({
@@ -21,10 +36,19 @@ import { User, UserSchema } from '../schemas/user.schema';
       { name: Order.name, schema: OrderSchema },
       { name: Product.name, schema: ProductSchema },
       { name: User.name, schema: UserSchema },
+      { name: ReturnRequest.name, schema: ReturnRequestSchema },
+      { name: StockReservation.name, schema: StockReservationSchema },
     ]),
+    CampaignsModule,
+    PaymentsModule,
   ],
   controllers: [OrdersController],
-  providers: [OrdersService],
-  exports: [OrdersService],
+  providers: [
+    OrdersService,
+    ReturnsService,
+    StockReservationService,
+    MinioService,
+  ],
+  exports: [OrdersService, ReturnsService, StockReservationService],
 })
 export class OrdersModule {}
@@ -0,0 +1,276 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { OrdersService } from './orders.service';
+import { StockReservationService } from './stock-reservation.service';
+import { SellerOrdersService } from '../sellers/seller-orders/seller-orders.service';
+import { CampaignRedemptionService } from '../campaigns/services/campaign-redemption.service';
+import { PaymentsService } from '../payments/payments.service';
+import {
+  FulfillmentStatus,
+  Order,
+  OrderStatus,
+  OrderStatusActor,
+} from '../schemas/order.schema';
+import { Product } from '../schemas/product.schema';
+import { User } from '../schemas/user.schema';
+
+/**
+ * In-memory stand-in for the orders collection
+ *
+ * Only the filters and updates the order services send are understood.
+ * Every call yields to the event loop first, so concurrent calls
+ * interleave, and then matches and applies its update in one synchronous
+ * step, like MongoDB's single-document atomic updates.
+ */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+function createOrderModel(order: any) {
+  const clone = () => ({
+    ...order,
+    items: order.items.map((item: any) => ({ ...item })),
+    fulfillments: order.fulfillments.map((group: any) => ({ ...group })),
+    statusHistory: [...order.statusHistory],
+  });
+
+  const matchesGroup = (group: any, condition: any) =>
+    (condition.sellerId === undefined ||
+      group.sellerId.toString() === condition.sellerId.toString()) &&
+    (condition.status === undefined || group.status === condition.status);
+
+  const matches = (filter: any) =>
+    filter._id.toString() === order._id.toString() &&
+    (filter.userId === undefined ||
+      filter.userId.toString() === order.userId.toString()) &&
+    (filter.status === undefined || filter.status === order.status) &&
+    (!filter.fulfillments ||
+      order.fulfillments.some((group: any) =>
+        matchesGroup(group, filter.fulfillments.$elemMatch),
+      )) &&
+    (filter.$and || []).every((condition: any) =>
+      order.fulfillments.some((group: any) =>
+        matchesGroup(group, condition.fulfillments.$elemMatch),
+      ),
+    );
+
+  const apply = (filter: any, update: any) => {
+    const matchedGroup = filter.fulfillments
+      ? order.fulfillments.find((group: any) =>
+          matchesGroup(group, filter.fulfillments.$elemMatch),
+        )
+      : undefined;
+
+    for (const [path, value] of Object.entries<any>(update.$set || {})) {
+      const [field, position, key] = path.split('.');
+      if (field !== 'fulfillments') {
+        order[field] = value;
+      } else if (position === '$') {
+        matchedGroup[key] = value;
+      } else {
+        order.fulfillments[Number(position)][key] = value;
+      }
+    }
+    for (const path of Object.keys(update.$unset || {})) {
+      const [, position, key] = path.split('.');
+      delete order.fulfillments[Number(position)][key];
+    }
+    const pushed = update.$push?.statusHistory;
+    if (pushed) {
+      order.statusHistory.push(...(pushed.$each || [pushed]));
+    }
+    const pulled = update.$pull?.statusHistory;
+    if (pulled) {
+      order.statusHistory = order.statusHistory.filter(
+        (change: any) =>
+          !Object.entries(pulled).every(([key, value]) =>
+            value instanceof Date
+              ? change[key]?.getTime() === value.getTime()
+              : change[key]?.toString() === String(value),
+          ),
+      );
+    }
+  };
+
+  const query = (result: () => any) => ({
+    select: () => query(result),
+    populate: () => query(result),
+    lean: async () => {
+      await tick();
+      return result();
+    },
+    then: (resolve: any, reject: any) =>
+      tick().then(result).then(resolve, reject),
+  });
+
+  return {
+    findOne: (filter: any) => query(() => (matches(filter) ? clone() : null)),
+    findById: () => query(clone),
+    findOneAndUpdate: async (filter: any, update: any, options?: any) => {
+      await tick();
+      if (!matches(filter)) return null;
+      const before = clone();
+      apply(filter, update);
+      return options?.new ? clone() : before;
+    },
+    updateOne: async (filter: any, update: any) => {
+      await tick();
+      if (!matches(filter)) return { modifiedCount: 0 };
+      apply(filter, update);
+      return { modifiedCount: 1 };
+    },
+  };
+}
+
+describe('OrdersService', () => {
+  let service: OrdersService;
+  let sellerOrdersService: SellerOrdersService;
+  let order: any;
+  let restocked: any[];
+
+  const userId = new Types.ObjectId();
+  const sellerId = new Types.ObjectId();
+  const otherSellerId = new Types.ObjectId();
+
+  const mockPaymentsService = {
+    reverseForOrder: jest.fn(),
+    refundForOrder: jest.fn(),
+  };
+  const mockCampaignRedemptionService = { releaseForOrder: jest.fn() };
+
+  const createOrder = (otherGroupStatus: FulfillmentStatus) => ({
+    _id: new Types.ObjectId(),
+    userId,
+    status: OrderStatus.PENDING,
+    items: [
+      { productId: new Types.ObjectId(), sellerId, price: 20, quantity: 2 },
+      {
+        productId: new Types.ObjectId(),
+        sellerId: otherSellerId,
+        price: 15,
+        quantity: 1,
+      },
+    ],
+    fulfillments: [
+      { sellerId, status: FulfillmentStatus.PENDING },
+      { sellerId: otherSellerId, status: otherGroupStatus },
+    ],
+    statusHistory: [],
+  });
+
+  const cancel = () =>
+    service.cancelOrder(order._id.toString(), userId.toString());
+
+  const setUp = async (otherGroupStatus: FulfillmentStatus) => {
+    order = createOrder(otherGroupStatus);
+    restocked = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        SellerOrdersService,
+        {
+          provide: getModelToken(Order.name),
+          useValue: createOrderModel(order),
+        },
+        { provide: getModelToken(Product.name), useValue: {} },
+        { provide: getModelToken(User.name), useValue: {} },
+        {
+          provide: CampaignRedemptionService,
+          useValue: mockCampaignRedemptionService,
+        },
+        { provide: PaymentsService, useValue: mockPaymentsService },
+        {
+          provide: StockReservationService,
+          useValue: {
+            restock: async (items: any[]) => {
+              await tick();
+              restocked.push(...items);
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrdersService>(OrdersService);
+    sellerOrdersService = module.get<SellerOrdersService>(SellerOrdersService);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentsService.reverseForOrder.mockImplementation(tick);
+    mockPaymentsService.refundForOrder.mockImplementation(tick);
+  });
+
+  describe('cancelOrder', () => {
+    it('cancels every open group and restocks their items', async () => {
+      await setUp(FulfillmentStatus.PROCESSING);
+
+      const result = await cancel();
+
+      expect(result.status).toBe(OrderStatus.CANCELLED);
+      expect(order.fulfillments.map((group: any) => group.status)).toEqual([
+        FulfillmentStatus.CANCELLED,
+        FulfillmentStatus.CANCELLED,
+      ]);
+      expect(order.statusHistory).toContainEqual(
+        expect.objectContaining({
+          actor: OrderStatusActor.CUSTOMER,
+          sellerId: otherSellerId,
+          previousStatus: FulfillmentStatus.PROCESSING,
+          status: FulfillmentStatus.CANCELLED,
+        }),
+      );
+      expect(restocked).toEqual(order.items);
+      expect(mockPaymentsService.reverseForOrder).toHaveBeenCalledTimes(1);
+    });
+
+    it('restocks each group once when a seller cancels at the same time', async () => {
+      await setUp(FulfillmentStatus.PENDING);
+
+      await Promise.allSettled([
+        cancel(),
+        sellerOrdersService.updateOrderStatus(
+          order._id.toString(),
+          sellerId.toString(),
+          { status: FulfillmentStatus.CANCELLED } as any,
+        ),
+      ]);
+
+      expect(order.status).toBe(OrderStatus.CANCELLED);
+      expect(
+        order.fulfillments.every(
+          (group: any) => group.status === FulfillmentStatus.CANCELLED,
+        ),
+      ).toBe(true);
+      expect(restocked).toHaveLength(order.items.length);
+      expect(restocked).toEqual(expect.arrayContaining(order.items));
+    });
+
+    it('refuses an order a seller shipped meanwhile', async () => {
+      await setUp(FulfillmentStatus.SHIPPED);
+
+      await expect(cancel()).rejects.toThrow(
+        'Cannot cancel shipped or delivered orders',
+      );
+      expect(mockPaymentsService.reverseForOrder).not.toHaveBeenCalled();
+      expect(restocked).toHaveLength(0);
+    });
+
+    it('restores the open groups when the payment reversal fails', async () => {
+      await setUp(FulfillmentStatus.PROCESSING);
+      mockPaymentsService.reverseForOrder.mockRejectedValueOnce(
+        new Error('Provider unavailable'),
+      );
+
+      await expect(cancel()).rejects.toThrow('Provider unavailable');
+
+      expect(order.status).toBe(OrderStatus.PENDING);
+      expect(order.fulfillments.map((group: any) => group.status)).toEqual([
+        FulfillmentStatus.PENDING,
+        FulfillmentStatus.PROCESSING,
+      ]);
+      expect(order.statusHistory).toHaveLength(0);
+      expect(restocked).toHaveLength(0);
+    });
+  });
+});
@@ -2,19 +2,38 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import {
+  buildOrderFulfillments,
+  calculateOrderTotals,
+  FulfillmentStatus,
   Order,
   OrderDocument,
   OrderStatus,
+  orderLineDiscount,
+  OrderStatusActor,
   PaymentStatus,
 } from '../schemas/order.schema';
-import { Product, ProductDocument } from '../schemas/product.schema';
+import {
+  findProductVariant,
+  formatVariantName,
+  Product,
+  ProductDocument,
+} from '../schemas/product.schema';
 import { User, UserDocument, UserRole } from '../schemas/user.schema';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { FindOrdersDto } from './dto/find-orders.dto';
+import { CampaignRedemptionService } from '../campaigns/services/campaign-redemption.service';
+import { PaymentsService } from '../payments/payments.service';
+import { StockReservationService } from './stock-reservation.service';
+
+/**
+ * Times a cancellation re-reads an order changed while it was claimed
+ */
+const MAX_CANCEL_ATTEMPTS = 3;
 
 export interface OrderSummary {
   _id: string;
@@ -29,6 +48,8 @@ export interface OrderSummary {
 export interface OrderDetails extends OrderSummary {
   items: Array<{
     productId: string;
+    variantId?: string;
+    variantName?: string;
     productName: string;
     productImage?: string;
     sellerId: string;
@@ -36,11 +57,41 @@ export interface OrderDetails extends OrderSummary {
     quantity: number;
     price: number;
     subtotal: number;
+    discount: number;
+    total: number;
+  }>;
+  subtotal: number;
+  totalDiscount: number;
+  shippingCost: number;
+  appliedCampaigns: Array<{
+    campaignId: string;
+    campaignName: string;
+    discountAmount: number;
+    discountType: 'percentage' | 'fixed';
+    code?: string;
   }>;
   shippingAddress: any;
+  fulfillments: Array<{
+    sellerId: string;
+    sellerName?: string;
+    status: FulfillmentStatus;
+    trackingNumber?: string;
+    shippedAt?: Date;
+    deliveredAt?: Date;
+    cancelledAt?: Date;
+  }>;
+  statusHistory: Array<{
+    actor: OrderStatusActor;
+    sellerId?: string;
+    sellerName?: string;
+    previousStatus?: string;
+    status: string;
+    description: string;
+    note?: string;
+    changedAt: Date;
+  }>;
   trackingNumber?: string;
   notes?: string;
-  sellerNotes?: string;
 }
 
 /**
@@ -60,6 +111,9 @@ export class OrdersService {
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private campaignRedemptionService: CampaignRedemptionService,
+    private paymentsService: PaymentsService,
+    private stockReservationService: StockReservationService,
   ) {}
 
   /**
@@ -79,35 +133,83 @@ export class OrdersService {
       throw new BadRequestException('Invalid customer');
     }
 
-    // Validate products and stock availability
+    // Validate products and variants
     const validatedItems = await this.validateOrderItems(createOrderDto.items);
 
-    // Calculate total price
-    const totalPrice = validatedItems.reduce(
-      (sum, item) => sum + item.price * item.quantity,
-      0,
-    );
+    // Take the stock atomically unless checkout already reserved it
+    const reservationId =
+      createOrderDto.stockReservationId ||
+      (await this.stockReservationService.reserve(userId, validatedItems));
+    if (!reservationId) {
+      throw new BadRequestException(
+        'Insufficient stock for one or more products',
+      );
+    }
+
+    // Snapshot pricing: line discounts are authoritative for the total
+    const { subtotal, totalDiscount, shippingCost, totalPrice } =
+      calculateOrderTotals(validatedItems, createOrderDto.shippingCost);
 
     // Create order
     const order = new this.orderModel({
       userId: new Types.ObjectId(userId),
       items: validatedItems.map((item) => ({
         productId: new Types.ObjectId(item.productId),
+        variantId: item.variantId
+          ? new Types.ObjectId(item.variantId)
+          : undefined,
+        variantName: item.variantName,
         sellerId: new Types.ObjectId(item.sellerId),
         quantity: item.quantity,
         price: item.price,
+        discount: item.discount,
       })),
+      subtotal,
+      totalDiscount,
+      shippingCost,
       totalPrice,
+      appliedCampaigns: (createOrderDto.appliedCampaigns || []).map(
+        (campaign) => ({
+          campaignId: new Types.ObjectId(campaign.campaignId),
+          campaignName: campaign.campaignName,
+          discountAmount: this.roundAmount(campaign.discountAmount),
+          discountType: campaign.discountType,
+          code: campaign.code,
+        }),
+      ),
       shippingAddress: createOrderDto.shippingAddress,
+      fulfillments: buildOrderFulfillments(validatedItems),
       status: OrderStatus.PENDING,
-      paymentStatus: createOrderDto.paymentStatus || PaymentStatus.PENDING,
+      statusHistory: [
+        {
+          actor: OrderStatusActor.CUSTOMER,
+          actorId: new Types.ObjectId(userId),
+          status: OrderStatus.PENDING,
+          changedAt: new Date(),
+        },
+      ],
+      paymentStatus: PaymentStatus.PENDING,
+      paymentTransactionId: createOrderDto.paymentTransactionId,
       notes: createOrderDto.notes,
     });
 
-    const savedOrder = await order.save();
+    const committed = await this.stockReservationService.commit(
+      reservationId,
+      order._id as Types.ObjectId,
+    );
+    if (!committed) {
+      throw new BadRequestException(
+        'Stock reservation has expired, please try again',
+      );
+    }
 
-    // Reduce stock for ordered products
-    await this.reduceProductStock(validatedItems);
+    let savedOrder: OrderDocument;
+    try {
+      savedOrder = await order.save();
+    } catch (error) {
+      await this.stockReservationService.release(reservationId);
+      throw error;
+    }
 
     // Return order details
     return this.formatOrderDetails(savedOrder, validatedItems);
@@ -200,82 +302,211 @@ export class OrdersService {
       throw new NotFoundException('Order not found');
     }
 
-    const items = order.items.map((item) => ({
-      productId: item.productId._id.toString(),
-      productName: (item.productId as any).name,
-      productImage: (item.productId as any).imageUrls?.[0],
-      sellerId: item.sellerId._id.toString(),
-      sellerName: `${(item.sellerId as any).firstName} ${(item.sellerId as any).lastName}`,
-      quantity: item.quantity,
-      price: item.price,
-      subtotal: item.price * item.quantity,
-    }));
-
-    return {
-      _id: (order._id as any).toString(),
-      status: order.status,
-      totalPrice: order.totalPrice,
-      paymentStatus: order.paymentStatus,
-      itemCount: order.items.length,
-      orderDate: (order as any).createdAt,
-      estimatedDelivery: this.calculateEstimatedDelivery(
-        order.status,
-        (order as any).createdAt,
-      ),
-      items,
-      shippingAddress: order.shippingAddress,
-      trackingNumber: order.trackingNumber,
-      notes: order.notes,
-      sellerNotes: (order as any).sellerNotes,
-    };
+    return this.formatOrderDetailsFromPopulated(order);
   }
 
   /**
    * Cancel an order if allowed
    *
+   * The open fulfilment groups are claimed in one guarded update before any
+   * money moves, so a concurrent seller cancellation or shipment either
+   * happens first and is seen here, or fails afterwards.
+   *
    * @param orderId - Order ID
    * @param userId - Customer user ID
+   * @param actor - Who cancels the order, recorded in the status history
+   * @param note - Optional reason recorded in the status history
    * @returns Updated order
    */
-  async cancelOrder(orderId: string, userId: string): Promise<OrderDetails> {
-    const order = await this.orderModel.findOne({
-      _id: new Types.ObjectId(orderId),
-      userId: new Types.ObjectId(userId),
-    });
+  async cancelOrder(
+    orderId: string,
+    userId: string,
+    actor: OrderStatusActor = OrderStatusActor.CUSTOMER,
+    note?: string,
+  ): Promise<OrderDetails> {
+    const cancelledAt = new Date();
+    let claimed: OrderDocument | null = null;
 
-    if (!order) {
-      throw new NotFoundException('Order not found');
+    for (let attempt = 0; !claimed; attempt++) {
+      const order = await this.orderModel.findOne({
+        _id: new Types.ObjectId(orderId),
+        userId: new Types.ObjectId(userId),
+      });
+
+      if (!order) {
+        throw new NotFoundException('Order not found');
+      }
+
+      this.assertCancellable(order);
+
+      // Another update changed the order between reading and claiming it
+      if (attempt === MAX_CANCEL_ATTEMPTS) {
+        throw new ConflictException(
+          'Order was updated at the same time, please try again',
+        );
+      }
+
+      claimed = await this.claimCancellation(order, actor, note, cancelledAt);
     }
 
-    // Check if order can be cancelled
+    const openGroups = claimed.fulfillments.filter(
+      (fulfillment) => fulfillment.status !== FulfillmentStatus.CANCELLED,
+    );
+
+    // Void or refund the payment once the cancellation is ours
+    try {
+      await this.paymentsService.reverseForOrder(orderId);
+    } catch (error) {
+      await this.revertCancellation(claimed, cancelledAt);
+      throw error;
+    }
+
+    // Restore stock of the groups this cancellation claimed; groups a seller
+    // cancelled were restocked by that cancellation
+    const openSellerIds = openGroups.map((fulfillment) =>
+      fulfillment.sellerId.toString(),
+    );
+    await this.restoreProductStock(
+      claimed.items.filter((item) =>
+        openSellerIds.includes(item.sellerId.toString()),
+      ),
+    );
+
+    // Hand campaign usage back to the campaigns applied to this order
+    await this.campaignRedemptionService.releaseForOrder(orderId);
+
+    // Return updated order details
+    const populatedOrder = await this.orderModel
+      .findById(orderId)
+      .populate('items.productId', 'name imageUrls')
+      .populate('items.sellerId', 'firstName lastName')
+      .lean();
+
+    return this.formatOrderDetailsFromPopulated(populatedOrder!);
+  }
+
+  /**
+   * Reject cancelling an order that shipped, was returned or is cancelled
+   *
+   * @private
+   */
+  private assertCancellable(order: OrderDocument): void {
     if (
+      order.status === OrderStatus.PARTIALLY_SHIPPED ||
       order.status === OrderStatus.SHIPPED ||
-      order.status === OrderStatus.DELIVERED
+      order.status === OrderStatus.DELIVERED ||
+      order.status === OrderStatus.PARTIALLY_RETURNED ||
+      order.status === OrderStatus.RETURNED ||
+      order.fulfillments.some(
+        (fulfillment) =>
+          fulfillment.status === FulfillmentStatus.SHIPPED ||
+          fulfillment.status === FulfillmentStatus.DELIVERED,
+      )
     ) {
       throw new BadRequestException(
         'Cannot cancel shipped or delivered orders',
       );
     }
 
-    if (order.status === OrderStatus.CANCELLED) {
+    if (
+      order.status === OrderStatus.CANCELLED ||
+      order.fulfillments.every(
+        (fulfillment) => fulfillment.status === FulfillmentStatus.CANCELLED,
+      )
+    ) {
       throw new BadRequestException('Order is already cancelled');
     }
+  }
 
-    // Update order status
-    order.status = OrderStatus.CANCELLED;
-    await order.save();
+  /**
+   * Cancel the order and its open groups, if unchanged since it was read
+   *
+   * The update only applies while the order status and every group status
+   * are still the ones read, so each open group is cancelled by exactly one
+   * caller.
+   *
+   * @private
+   * @returns The order before the update, or null if it changed meanwhile
+   */
+  private async claimCancellation(
+    order: OrderDocument,
+    actor: OrderStatusActor,
+    note: string | undefined,
+    cancelledAt: Date,
+  ): Promise<OrderDocument | null> {
+    const actorId =
+      actor === OrderStatusActor.SYSTEM ? undefined : order.userId;
+    const set: Record<string, unknown> = { status: OrderStatus.CANCELLED };
+    const history: Array<Record<string, unknown>> = [];
+
+    order.fulfillments.forEach((fulfillment, index) => {
+      if (fulfillment.status === FulfillmentStatus.CANCELLED) return;
+      set[`fulfillments.${index}.status`] = FulfillmentStatus.CANCELLED;
+      set[`fulfillments.${index}.cancelledAt`] = cancelledAt;
+      history.push({
+        actor,
+        actorId,
+        sellerId: fulfillment.sellerId,
+        previousStatus: fulfillment.status,
+        status: FulfillmentStatus.CANCELLED,
+        note,
+        changedAt: cancelledAt,
+      });
+    });
+    history.push({
+      actor,
+      actorId,
+      previousStatus: order.status,
+      status: OrderStatus.CANCELLED,
+      note,
+      changedAt: cancelledAt,
+    });
 
-    // Restore product stock
-    await this.restoreProductStock(order.items);
+    return this.orderModel.findOneAndUpdate(
+      {
+        _id: order._id,
+        status: order.status,
+        $and: order.fulfillments.map((fulfillment) => ({
+          fulfillments: {
+            $elemMatch: {
+              sellerId: fulfillment.sellerId,
+              status: fulfillment.status,
+            },
+          },
+        })),
+      },
+      { $set: set, $push: { statusHistory: { $each: history } } },
+    );
+  }
 
-    // Return updated order details
-    const populatedOrder = await this.orderModel
-      .findById(orderId)
-      .populate('items.productId', 'name imageUrls')
-      .populate('items.sellerId', 'firstName lastName')
-      .lean();
+  /**
+   * Undo a claimed cancellation whose payment step failed
+   *
+   * @private
+   * @param order - The order before the cancellation
+   * @param cancelledAt - Time recorded by the cancellation
+   */
+  private async revertCancellation(
+    order: OrderDocument,
+    cancelledAt: Date,
+  ): Promise<void> {
+    const set: Record<string, unknown> = { status: order.status };
+    const unset: Record<string, ''> = {};
+
+    order.fulfillments.forEach((fulfillment, index) => {
+      if (fulfillment.status === FulfillmentStatus.CANCELLED) return;
+      set[`fulfillments.${index}.status`] = fulfillment.status;
+      unset[`fulfillments.${index}.cancelledAt`] = '';
+    });
 
-    return this.formatOrderDetailsFromPopulated(populatedOrder!);
+    await this.orderModel.updateOne(
+      { _id: order._id, status: OrderStatus.CANCELLED },
+      {
+        $set: set,
+        $unset: unset,
+        $pull: { statusHistory: { changedAt: cancelledAt } },
+      },
+    );
   }
 
   /**
@@ -288,23 +519,31 @@ export class OrdersService {
   async getOrderTracking(orderId: string, userId: string) {
     const order = await this.findOrderById(orderId, userId);
 
-    const trackingHistory = this.generateTrackingHistory(
-      order.status,
-      order.orderDate,
-    );
-
     return {
       orderId: order._id,
       status: order.status,
       trackingNumber: order.trackingNumber,
+      shipments: order.fulfillments,
       estimatedDelivery: order.estimatedDelivery,
-      currentLocation: this.getCurrentLocation(order.status),
-      trackingHistory,
+      trackingHistory: order.statusHistory,
     };
   }
 
   /**
-   * Validate order items and check stock availability
+   * Restore product stock after order cancellation or a received return
+   *
+   * Variant lines are restocked on their variant.
+   *
+   * @param items - Order items or returned items with quantities
+   */
+  async restoreProductStock(items: any[]) {
+    await this.stockReservationService.restock(items);
+  }
+
+  /**
+   * Validate order items and their variants
+   *
+   * Stock is not checked here; it is taken atomically by the reservation.
    *
    * @private
    * @param items - Order items to validate
@@ -313,9 +552,12 @@ export class OrdersService {
   private async validateOrderItems(items: any[]) {
     const validatedItems: Array<{
       productId: string;
+      variantId?: string;
+      variantName?: string;
       sellerId: string;
       quantity: number;
       price: number;
+      discount: number;
       productName: string;
       productImage?: string;
       sellerName: string;
@@ -333,18 +575,29 @@ export class OrdersService {
         );
       }
 
-      const totalStock = product.stock || 0;
-      if (totalStock < item.quantity) {
+      // Products with variants are ordered and stocked per variant
+      const variant = item.variantId
+        ? findProductVariant(product, item.variantId)
+        : undefined;
+      if (item.variantId && !variant) {
+        throw new BadRequestException(
+          `Variant not found for product ${product.name}`,
+        );
+      }
+      if (!item.variantId && product.variants?.length) {
         throw new BadRequestException(
-          `Insufficient stock for product ${product.name}`,
+          `A variant must be selected for product ${product.name}`,
         );
       }
 
       validatedItems.push({
         productId: (product._id as any).toString(),
+        variantId: item.variantId,
+        variantName: variant ? formatVariantName(variant) : undefined,
         sellerId: (product.sellerId._id as any).toString(),
         quantity: item.quantity,
         price: item.price,
+        discount: orderLineDiscount(item),
         productName: product.name,
         productImage: product.imageUrls?.[0],
         sellerName: `${(product.sellerId as any).firstName} ${(product.sellerId as any).lastName}`,
@@ -354,40 +607,6 @@ export class OrdersService {
     return validatedItems;
   }
 
-  /**
-   * Reduce product stock after order creation
-   *
-   * @private
-   * @param items - Order items
-   */
-  private async reduceProductStock(items: any[]) {
-    for (const item of items) {
-      const product = await this.productModel.findById(item.productId);
-      if (product) {
-        // Reduce stock from main product stock
-        product.stock = Math.max(0, product.stock - item.quantity);
-        await product.save();
-      }
-    }
-  }
-
-  /**
-   * Restore product stock after order cancellation
-   *
-   * @private
-   * @param items - Order items
-   */
-  private async restoreProductStock(items: any[]) {
-    for (const item of items) {
-      const product = await this.productModel.findById(item.productId);
-      if (product) {
-        // Restore stock to main product stock
-        product.stock += item.quantity;
-        await product.save();
-      }
-    }
-  }
-
   /**
    * Calculate estimated delivery date based on order status
    *
@@ -403,8 +622,11 @@ export class OrdersService {
     const businessDays = {
       [OrderStatus.PENDING]: 7,
       [OrderStatus.PROCESSING]: 5,
+      [OrderStatus.PARTIALLY_SHIPPED]: 3,
       [OrderStatus.SHIPPED]: 3,
       [OrderStatus.DELIVERED]: 0,
+      [OrderStatus.PARTIALLY_RETURNED]: 0,
+      [OrderStatus.RETURNED]: 0,
       [OrderStatus.CANCELLED]: undefined,
     };
 
@@ -416,108 +638,30 @@ export class OrdersService {
     return delivery;
   }
 
-  /**
-   * Generate tracking history for order status progression
-   *
-   * @private
-   * @param currentStatus - Current order status
-   * @param orderDate - Order creation date
-   * @returns Tracking history array
-   */
-  private generateTrackingHistory(currentStatus: OrderStatus, orderDate: Date) {
-    const baseHistory = [
-      {
-        status: OrderStatus.PENDING,
-        timestamp: orderDate,
-        description: 'Order received and being processed',
-        completed: true,
-      },
-    ];
-
-    const statusOrder = [
-      OrderStatus.PENDING,
-      OrderStatus.PROCESSING,
-      OrderStatus.SHIPPED,
-      OrderStatus.DELIVERED,
-    ];
-    const currentIndex = statusOrder.indexOf(currentStatus);
-
-    for (let i = 1; i <= currentIndex; i++) {
-      const status = statusOrder[i];
-      const timestamp = new Date(orderDate);
-      timestamp.setDate(timestamp.getDate() + i);
-
-      baseHistory.push({
-        status,
-        timestamp,
-        description: this.getStatusDescription(status),
-        completed: true,
-      });
-    }
-
-    // Add next expected status if not delivered or cancelled
-    if (
-      currentStatus !== OrderStatus.DELIVERED &&
-      currentStatus !== OrderStatus.CANCELLED
-    ) {
-      const nextIndex = currentIndex + 1;
-      if (nextIndex < statusOrder.length) {
-        const nextStatus = statusOrder[nextIndex];
-        const estimatedTimestamp = new Date(orderDate);
-        estimatedTimestamp.setDate(
-          estimatedTimestamp.getDate() + nextIndex + 1,
-        );
-
-        baseHistory.push({
-          status: nextStatus,
-          timestamp: estimatedTimestamp,
-          description: this.getStatusDescription(nextStatus),
-          completed: false,
-        });
-      }
-    }
-
-    return baseHistory;
-  }
-
   /**
    * Get human-readable status description
    *
    * @private
-   * @param status - Order status
+   * @param status - Order or fulfilment group status
    * @returns Status description
    */
-  private getStatusDescription(status: OrderStatus): string {
-    const descriptions = {
+  private getStatusDescription(status: string): string {
+    const descriptions: Record<string, string> = {
       [OrderStatus.PENDING]: 'Order received and being processed',
       [OrderStatus.PROCESSING]: 'Order is being prepared for shipping',
+      [OrderStatus.PARTIALLY_SHIPPED]:
+        'Some items have been shipped, others are being prepared',
       [OrderStatus.SHIPPED]: 'Order has been shipped and is on its way',
       [OrderStatus.DELIVERED]: 'Order has been delivered successfully',
+      [OrderStatus.PARTIALLY_RETURNED]:
+        'Some items have been returned and refunded',
+      [OrderStatus.RETURNED]: 'Order has been returned and refunded',
       [OrderStatus.CANCELLED]: 'Order has been cancelled',
     };
 
     return descriptions[status];
   }
 
-  /**
-   * Get current location based on order status
-   *
-   * @private
-   * @param status - Order status
-   * @returns Current location string
-   */
-  private getCurrentLocation(status: OrderStatus): string {
-    const locations = {
-      [OrderStatus.PENDING]: 'Order Processing Center',
-      [OrderStatus.PROCESSING]: 'Fulfillment Center',
-      [OrderStatus.SHIPPED]: 'In Transit',
-      [OrderStatus.DELIVERED]: 'Delivered',
-      [OrderStatus.CANCELLED]: 'N/A',
-    };
-
-    return locations[status];
-  }
-
   /**
    * Format order details from validated items
    *
@@ -541,17 +685,24 @@ export class OrdersService {
         order.status,
         (order as any).createdAt,
       ),
-      items: validatedItems.map((item) => ({
-        productId: item.productId,
-        productName: item.productName,
-        productImage: item.productImage,
-        sellerId: item.sellerId,
-        sellerName: item.sellerName,
-        quantity: item.quantity,
-        price: item.price,
-        subtotal: item.price * item.quantity,
-      })),
+      items: validatedItems.map((item) =>
+        this.formatItemPricing(item, {
+          productId: item.productId,
+          variantId: item.variantId,
+          variantName: item.variantName,
+          productName: item.productName,
+          productImage: item.productImage,
+          sellerId: item.sellerId,
+          sellerName: item.sellerName,
+        }),
+      ),
+      ...this.formatOrderPricing(order),
       shippingAddress: order.shippingAddress,
+      fulfillments: this.formatFulfillments(order.fulfillments, validatedItems),
+      statusHistory: this.formatStatusHistory(
+        order.statusHistory,
+        validatedItems,
+      ),
       trackingNumber: order.trackingNumber,
       notes: order.notes,
     };
@@ -565,16 +716,17 @@ export class OrdersService {
    * @returns Formatted order details
    */
   private formatOrderDetailsFromPopulated(order: any): OrderDetails {
-    const items = order.items.map((item: any) => ({
-      productId: item.productId._id.toString(),
-      productName: item.productId.name,
-      productImage: item.productId.imageUrls?.[0],
-      sellerId: item.sellerId._id.toString(),
-      sellerName: `${item.sellerId.firstName} ${item.sellerId.lastName}`,
-      quantity: item.quantity,
-      price: item.price,
-      subtotal: item.price * item.quantity,
-    }));
+    const items = order.items.map((item: any) =>
+      this.formatItemPricing(item, {
+        productId: item.productId._id.toString(),
+        variantId: item.variantId?.toString(),
+        variantName: item.variantName,
+        productName: item.productId.name,
+        productImage: item.productId.imageUrls?.[0],
+        sellerId: item.sellerId._id.toString(),
+        sellerName: `${item.sellerId.firstName} ${item.sellerId.lastName}`,
+      }),
+    );
 
     return {
       _id: order._id.toString(),
@@ -588,10 +740,148 @@ export class OrdersService {
         order.createdAt,
       ),
       items,
+      ...this.formatOrderPricing(order),
       shippingAddress: order.shippingAddress,
+      fulfillments: this.formatFulfillments(order.fulfillments, items),
+      statusHistory: this.formatStatusHistory(order.statusHistory, items),
       trackingNumber: order.trackingNumber,
       notes: order.notes,
-      sellerNotes: order.sellerNotes,
     };
   }
+
+  /**
+   * Format the per-seller fulfilment groups for the customer
+   *
+   * Seller notes are internal and are not exposed here.
+   *
+   * @private
+   * @param fulfillments - Fulfilment groups of the order
+   * @param items - Formatted items, used to resolve seller names
+   * @returns Customer-facing fulfilment groups
+   */
+  private formatFulfillments(
+    fulfillments: any[] = [],
+    items: Array<{ sellerId: string; sellerName: string }>,
+  ): OrderDetails['fulfillments'] {
+    return fulfillments.map((fulfillment) => {
+      const sellerId = fulfillment.sellerId.toString();
+
+      return {
+        sellerId,
+        sellerName: items.find((item) => item.sellerId === sellerId)
+          ?.sellerName,
+        status: fulfillment.status,
+        trackingNumber: fulfillment.trackingNumber,
+        shippedAt: fulfillment.shippedAt,
+        deliveredAt: fulfillment.deliveredAt,
+        cancelledAt: fulfillment.cancelledAt,
+      };
+    });
+  }
+
+  /**
+   * Format the recorded status transitions for the customer
+   *
+   * @private
+   * @param statusHistory - Recorded status transitions
+   * @param items - Formatted items, used to resolve seller names
+   * @returns Status history, oldest first
+   */
+  private formatStatusHistory(
+    statusHistory: any[] = [],
+    items: Array<{ sellerId: string; sellerName: string }>,
+  ): OrderDetails['statusHistory'] {
+    return statusHistory.map((change) => {
+      const sellerId = change.sellerId?.toString();
+
+      return {
+        actor: change.actor,
+        sellerId,
+        sellerName: sellerId
+          ? items.find((item) => item.sellerId === sellerId)?.sellerName
+          : undefined,
+        previousStatus: change.previousStatus,
+        status: change.status,
+        description: this.getStatusDescription(change.status),
+        note: change.note,
+        changedAt: change.changedAt,
+      };
+    });
+  }
+
+  /**
+   * Build an order line with its stored pricing snapshot
+   *
+   * @private
+   * @param item - Order item carrying price, quantity and discount
+   * @param details - Product and seller display fields
+   * @returns Order line with subtotal, discount and paid total
+   */
+  private formatItemPricing(
+    item: { price: number; quantity: number; discount?: number },
+    details: {
+      productId: string;
+      variantId?: string;
+      variantName?: string;
+      productName: string;
+      productImage?: string;
+      sellerId: string;
+      sellerName: string;
+    },
+  ): OrderDetails['items'][number] {
+    const subtotal = this.roundAmount(item.price * item.quantity);
+    const discount = item.discount || 0;
+
+    return {
+      ...details,
+      quantity: item.quantity,
+      price: item.price,
+      subtotal,
+      discount,
+      total: this.roundAmount(subtotal - discount),
+    };
+  }
+
+  /**
+   * Extract the order-level pricing snapshot
+   *
+   * Orders created before the snapshot existed fall back to the
+   * undiscounted line sum.
+   *
+   * @private
+   * @param order - Order document or lean object
+   * @returns Subtotal, discount, shipping and applied campaigns
+   */
+  private formatOrderPricing(order: any) {
+    const subtotal =
+      order.subtotal ||
+      this.roundAmount(
+        order.items.reduce(
+          (sum: number, item: any) => sum + item.price * item.quantity,
+          0,
+        ),
+      );
+
+    return {
+      subtotal,
+      totalDiscount: order.totalDiscount || 0,
+      shippingCost: order.shippingCost || 0,
+      appliedCampaigns: (order.appliedCampaigns || []).map((campaign: any) => ({
+        campaignId: campaign.campaignId.toString(),
+        campaignName: campaign.campaignName,
+        discountAmount: campaign.discountAmount,
+        discountType: campaign.discountType,
+        code: campaign.code,
+      })),
+    };
+  }
+
+  /**
+   * Round a monetary amount to two decimals
+   *
+   * @private
+   */
+  private roundAmount(amount: number): number {
+    return Math.max(0, Math.round(amount * 100) / 100);
+  }
 }
@@ -0,0 +1,391 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { ReturnsService } from './returns.service';
+import { OrdersService } from './orders.service';
+import { PaymentsService } from '../payments/payments.service';
+import { MinioService } from '../minio/minio.service';
+import { FulfillmentStatus, Order, OrderStatus } from '../schemas/order.schema';
+import {
+  ReturnReason,
+  ReturnRequest,
+  ReturnStatus,
+} from '../schemas/return-request.schema';
+import { ReturnError, ReturnErrorMessages } from './enums/return-error.enum';
+
+/**
+ * In-memory stand-ins for the Mongo collections
+ *
+ * Every call yields to the event loop first, so concurrent calls
+ * interleave, and then matches and applies its update in one synchronous
+ * step, like MongoDB's single-document atomic updates.
+ */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+const valueAt = (doc: any, path: string) =>
+  path.split('.').reduce((value, key) => value?.[key], doc);
+
+const setValueAt = (doc: any, path: string, value: unknown) => {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  keys.reduce((value, key) => value[key], doc)[last] = value;
+};
+
+const matches = (value: any, condition: any): boolean => {
+  if (condition instanceof Types.ObjectId) {
+    return value?.toString() === condition.toString();
+  }
+  if (condition && typeof condition === 'object') {
+    if ('$lte' in condition) return value <= condition.$lte;
+    if ('$gte' in condition) return value >= condition.$gte;
+    if ('$in' in condition) return condition.$in.includes(value);
+    if ('$exists' in condition) {
+      return (value !== undefined) === condition.$exists;
+    }
+  }
+  return value === condition;
+};
+
+const isMatch = (doc: any, filter: any) =>
+  Object.entries(filter).every(([path, condition]) =>
+    matches(valueAt(doc, path), condition),
+  );
+
+const applyUpdate = (doc: any, update: any) => {
+  Object.entries<any>(update.$set || {}).forEach(([path, value]) =>
+    setValueAt(doc, path, value),
+  );
+  Object.entries<any>(update.$inc || {}).forEach(([path, value]) =>
+    setValueAt(doc, path, valueAt(doc, path) + value),
+  );
+  Object.keys(update.$unset || {}).forEach((path) => delete doc[path]);
+};
+
+const query = (result: () => any) => ({
+  select: () => query(result),
+  populate: () => query(result),
+  sort: () => query(result),
+  lean: async () => {
+    await tick();
+    return result();
+  },
+  then: (resolve: any, reject: any) =>
+    tick().then(result).then(resolve, reject),
+});
+
+function createOrderModel(order: any) {
+  // Documents are snapshots; save() writes the status fields back
+  const snapshot = () => ({
+    ...order,
+    items: order.items.map((item: any) => ({ ...item })),
+    fulfillments: order.fulfillments.map((group: any) => ({ ...group })),
+    statusHistory: [...order.statusHistory],
+    save: async function (this: any) {
+      await tick();
+      order.status = this.status;
+      order.statusHistory = this.statusHistory;
+    },
+  });
+
+  return {
+    findOne: (filter: any) =>
+      query(() => (isMatch(order, filter) ? snapshot() : null)),
+    findById: () => query(snapshot),
+    updateOne: async (filter: any, update: any) => {
+      await tick();
+      if (!isMatch(order, filter)) return { modifiedCount: 0 };
+      applyUpdate(order, update);
+      return { modifiedCount: 1 };
+    },
+  };
+}
+
+function createReturnRequestModel(returnRequests: any[]) {
+  return {
+    insertMany: async (docs: any[]) => {
+      await tick();
+      const inserted = docs.map((doc) => ({
+        _id: new Types.ObjectId(),
+        ...doc,
+      }));
+      returnRequests.push(...inserted);
+      return inserted.map((doc) => ({ toObject: () => ({ ...doc }) }));
+    },
+    find: (filter: any) =>
+      query(() => returnRequests.filter((r) => isMatch(r, filter))),
+    findOne: (filter: any) =>
+      query(() => {
+        const returnRequest = returnRequests.find((r) => isMatch(r, filter));
+        return returnRequest && { ...returnRequest };
+      }),
+    findOneAndUpdate: (filter: any, update: any) =>
+      query(() => {
+        const returnRequest = returnRequests.find((r) => isMatch(r, filter));
+        if (!returnRequest) return null;
+        applyUpdate(returnRequest, update);
+        return { ...returnRequest };
+      }),
+    updateOne: async (filter: any, update: any) => {
+      await tick();
+      const returnRequest = returnRequests.find((r) => isMatch(r, filter));
+      if (!returnRequest) return { modifiedCount: 0 };
+      applyUpdate(returnRequest, update);
+      return { modifiedCount: 1 };
+    },
+  };
+}
+
+describe('ReturnsService', () => {
+  let service: ReturnsService;
+  let order: any;
+  let returnRequests: any[];
+
+  const userId = new Types.ObjectId();
+  const sellerId = new Types.ObjectId();
+  const otherSellerId = new Types.ObjectId();
+  const productId = new Types.ObjectId();
+  const otherProductId = new Types.ObjectId();
+
+  const mockPaymentsService = { refundForOrder: jest.fn() };
+  const mockOrdersService = { restoreProductStock: jest.fn() };
+
+  const createOrder = (otherGroupStatus: FulfillmentStatus) => ({
+    _id: new Types.ObjectId(),
+    userId,
+    status: OrderStatus.PARTIALLY_SHIPPED,
+    items: [
+      { productId, sellerId, price: 50, quantity: 2, discount: 10 },
+      {
+        productId: otherProductId,
+        sellerId: otherSellerId,
+        price: 30,
+        quantity: 1,
+      },
+    ],
+    fulfillments: [
+      {
+        sellerId,
+        status: FulfillmentStatus.DELIVERED,
+        deliveredAt: new Date(),
+      },
+      { sellerId: otherSellerId, status: otherGroupStatus },
+    ],
+    statusHistory: [],
+  });
+
+  const requestReturn = (quantity: number) =>
+    service.createReturn(order._id.toString(), userId.toString(), {
+      items: [
+        {
+          productId: productId.toString(),
+          quantity,
+          reason: ReturnReason.DAMAGED,
+        },
+      ],
+    } as any);
+
+  const returnedQuantity = () => order.items[0].returnedQuantity;
+
+  const setUp = async (otherGroupStatus: FulfillmentStatus) => {
+    order = createOrder(otherGroupStatus);
+    returnRequests = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReturnsService,
+        {
+          provide: getModelToken(ReturnRequest.name),
+          useValue: createReturnRequestModel(returnRequests),
+        },
+        {
+          provide: getModelToken(Order.name),
+          useValue: createOrderModel(order),
+        },
+        { provide: OrdersService, useValue: mockOrdersService },
+        { provide: PaymentsService, useValue: mockPaymentsService },
+        { provide: MinioService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ReturnsService>(ReturnsService);
+  };
+
+  /**
+   * Request and approve a return of every unit of the delivered line
+   */
+  const approvedReturn = async () => {
+    const [returnRequest] = await requestReturn(2);
+    const returnId = (returnRequest._id as Types.ObjectId).toString();
+    await service.approveReturn(returnId, sellerId.toString());
+    return returnId;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentsService.refundForOrder.mockImplementation(
+      async (_orderId: string, amount: number) => {
+        await tick();
+        return amount;
+      },
+    );
+  });
+
+  describe('createReturn', () => {
+    it('never returns more units than were bought', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+
+      const results = await Promise.allSettled([
+        requestReturn(2),
+        requestReturn(1),
+        requestReturn(2),
+      ]);
+
+      const rejected = results.filter(
+        (result): result is PromiseRejectedResult =>
+          result.status === 'rejected',
+      );
+      expect(rejected).toHaveLength(2);
+      rejected.forEach(({ reason }) =>
+        expect(reason.message).toBe(
+          ReturnErrorMessages[ReturnError.RETURN_QUANTITY_EXCEEDED],
+        ),
+      );
+      expect(returnRequests).toHaveLength(1);
+      expect(returnedQuantity()).toBe(2);
+    });
+
+    it('refunds line discounts proportionally', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+
+      const [returnRequest] = await requestReturn(1);
+
+      expect(returnRequest.requestedAmount).toBe(45);
+    });
+
+    it("accepts a delivered group while another seller's is shipped", async () => {
+      await setUp(FulfillmentStatus.SHIPPED);
+
+      await expect(requestReturn(1)).resolves.toHaveLength(1);
+    });
+
+    it('rejects items of a group not delivered yet', async () => {
+      await setUp(FulfillmentStatus.SHIPPED);
+
+      await expect(
+        service.createReturn(order._id.toString(), userId.toString(), {
+          items: [
+            {
+              productId: otherProductId.toString(),
+              quantity: 1,
+              reason: ReturnReason.DAMAGED,
+            },
+          ],
+        } as any),
+      ).rejects.toThrow(ReturnErrorMessages[ReturnError.ORDER_NOT_RETURNABLE]);
+    });
+  });
+
+  describe('rejectReturn', () => {
+    it('hands the units back so they can be requested again', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+      const [returnRequest] = await requestReturn(2);
+
+      await service.rejectReturn(
+        (returnRequest._id as Types.ObjectId).toString(),
+        sellerId.toString(),
+        'Used item',
+      );
+
+      expect(returnedQuantity()).toBe(0);
+      await expect(requestReturn(2)).resolves.toHaveLength(1);
+    });
+  });
+
+  describe('refundReturn', () => {
+    it('refunds and restocks a return only once', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+      const returnId = await approvedReturn();
+
+      const results = await Promise.allSettled([
+        service.refundReturn(returnId, sellerId.toString()),
+        service.refundReturn(returnId, sellerId.toString()),
+      ]);
+
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+      expect(mockPaymentsService.refundForOrder).toHaveBeenCalledTimes(1);
+      expect(mockPaymentsService.refundForOrder).toHaveBeenCalledWith(
+        order._id.toString(),
+        90,
+      );
+      expect(mockOrdersService.restoreProductStock).toHaveBeenCalledTimes(1);
+    });
+
+    it('puts the return back to approved when the refund fails', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+      const returnId = await approvedReturn();
+      mockPaymentsService.refundForOrder.mockRejectedValueOnce(
+        new Error('Provider unavailable'),
+      );
+
+      await expect(
+        service.refundReturn(returnId, sellerId.toString()),
+      ).rejects.toThrow('Provider unavailable');
+
+      expect(returnRequests[0].status).toBe(ReturnStatus.APPROVED);
+      expect(returnRequests[0].refundedAt).toBeUndefined();
+      expect(mockOrdersService.restoreProductStock).not.toHaveBeenCalled();
+
+      await service.refundReturn(returnId, sellerId.toString());
+      expect(returnRequests[0].status).toBe(ReturnStatus.REFUNDED);
+    });
+
+    it('keeps the return approved when nothing is refundable', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+      const returnId = await approvedReturn();
+      mockPaymentsService.refundForOrder.mockResolvedValueOnce(0);
+
+      await expect(
+        service.refundReturn(returnId, sellerId.toString()),
+      ).rejects.toThrow(ReturnErrorMessages[ReturnError.NOTHING_TO_REFUND]);
+
+      expect(returnRequests[0].status).toBe(ReturnStatus.APPROVED);
+    });
+
+    it('records the amount actually refunded', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+      const returnId = await approvedReturn();
+      mockPaymentsService.refundForOrder.mockResolvedValueOnce(60);
+
+      const refunded = await service.refundReturn(
+        returnId,
+        sellerId.toString(),
+      );
+
+      expect(refunded.refundAmount).toBe(60);
+      expect(returnRequests[0].refundAmount).toBe(60);
+    });
+  });
+
+  describe('order status', () => {
+    it('is partially returned while returnable lines remain', async () => {
+      await setUp(FulfillmentStatus.DELIVERED);
+
+      await service.refundReturn(await approvedReturn(), sellerId.toString());
+
+      expect(order.status).toBe(OrderStatus.PARTIALLY_RETURNED);
+      expect(order.statusHistory).toContainEqual(
+        expect.objectContaining({ status: OrderStatus.PARTIALLY_RETURNED }),
+      );
+    });
+
+    it('is returned once every line not cancelled is refunded', async () => {
+      await setUp(FulfillmentStatus.CANCELLED);
+
+      await service.refundReturn(await approvedReturn(), sellerId.toString());
+
+      expect(order.status).toBe(OrderStatus.RETURNED);
+    });
+  });
+});
@@ -0,0 +1,661 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  FulfillmentStatus,
+  Order,
+  OrderDocument,
+  OrderStatus,
+  OrderStatusActor,
+  orderLineKey,
+} from '../schemas/order.schema';
+import {
+  ReturnItem,
+  ReturnRequest,
+  ReturnRequestDocument,
+  ReturnStatus,
+} from '../schemas/return-request.schema';
+import { CreateReturnDto } from './dto/create-return.dto';
+import { ReturnError, ReturnErrorMessages } from './enums/return-error.enum';
+import { OrdersService } from './orders.service';
+import { PaymentsService } from '../payments/payments.service';
+import { MinioService } from '../minio/minio.service';
+
+/**
+ * Days after delivery in which items can be returned
+ */
+const RETURN_WINDOW_DAYS = 14;
+
+/**
+ * Maximum number of photos attached to a return request
+ */
+export const MAX_RETURN_PHOTOS = 5;
+
+const MAX_RETURN_PHOTO_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Units of one order line, by its index in the order's items
+ */
+interface ReturnLine {
+  index: number;
+  quantity: number;
+}
+
+/**
+ * Returns Service
+ *
+ * Handles the return (RMA) workflow of delivered orders:
+ * - Customer return requests with reason codes and photos
+ * - One request per seller, approved or rejected by that seller
+ * - Restocking and full or partial refunds once goods are received
+ * - Order status updates to partially returned / returned
+ */
+@Injectable()
+export class ReturnsService {
+  constructor(
+    @InjectModel(ReturnRequest.name)
+    private returnRequestModel: Model<ReturnRequestDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    private ordersService: OrdersService,
+    private paymentsService: PaymentsService,
+    private minioService: MinioService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Request a return for delivered items of an order
+   *
+   * Items of different sellers are split into one request per seller.
+   * Each seller's fulfilment group must be delivered, whatever the state of
+   * the other groups.
+   *
+   * @param orderId - Order ID
+   * @param userId - Customer user ID
+   * @param createReturnDto - Returned items with quantities and reasons
+   * @param photos - Optional photos of the returned items
+   * @returns Created return requests
+   */
+  async createReturn(
+    orderId: string,
+    userId: string,
+    createReturnDto: CreateReturnDto,
+    photos: Express.Multer.File[] = [],
+  ) {
+    const order = await this.orderModel.findOne({
+      _id: new Types.ObjectId(orderId),
+      userId: new Types.ObjectId(userId),
+    });
+
+    if (!order) {
+      throw new NotFoundException(
+        ReturnErrorMessages[ReturnError.ORDER_NOT_FOUND],
+      );
+    }
+
+    const invalidPhoto = photos.some(
+      (photo) =>
+        !photo.mimetype.startsWith('image/') ||
+        photo.size > MAX_RETURN_PHOTO_SIZE,
+    );
+    if (invalidPhoto) {
+      throw new BadRequestException(
+        ReturnErrorMessages[ReturnError.INVALID_PHOTO],
+      );
+    }
+
+    const itemsBySeller = new Map<string, ReturnItem[]>();
+    const returnLines: ReturnLine[] = [];
+
+    for (const requested of createReturnDto.items) {
+      const lineKey = orderLineKey(requested);
+      const index = order.items.findIndex(
+        (item) => orderLineKey(item) === lineKey,
+      );
+      if (index === -1) {
+        throw new BadRequestException(
+          ReturnErrorMessages[ReturnError.ITEM_NOT_IN_ORDER],
+        );
+      }
+      const orderItem = order.items[index];
+      returnLines.push({ index, quantity: requested.quantity });
+
+      const sellerId = orderItem.sellerId.toString();
+      this.assertReturnable(order, sellerId);
+
+      // Paid amount per unit, so line discounts are returned proportionally
+      const unitPaid =
+        (orderItem.price * orderItem.quantity - (orderItem.discount || 0)) /
+        orderItem.quantity;
+
+      const sellerItems = itemsBySeller.get(sellerId) || [];
+      sellerItems.push({
+        productId: orderItem.productId,
+        variantId: orderItem.variantId,
+        quantity: requested.quantity,
+        reason: requested.reason,
+        comment: requested.comment,
+        amount: this.roundAmount(unitPaid * requested.quantity),
+      });
+      itemsBySeller.set(sellerId, sellerItems);
+    }
+
+    // Take the units before creating the requests; they are handed back if
+    // anything below fails or the return is rejected
+    await this.reserveReturnQuantities(order, returnLines);
+
+    try {
+      const photoUrls = await this.uploadPhotos(photos);
+
+      const returnRequests = await this.returnRequestModel.insertMany(
+        [...itemsBySeller].map(([sellerId, items]) => ({
+          orderId: order._id,
+          userId: order.userId,
+          sellerId: new Types.ObjectId(sellerId),
+          items,
+          photoUrls,
+          status: ReturnStatus.REQUESTED,
+          requestedAmount: this.roundAmount(
+            items.reduce((sum, item) => sum + item.amount, 0),
+          ),
+        })),
+      );
+
+      return returnRequests.map((returnRequest) => returnRequest.toObject());
+    } catch (error) {
+      await this.releaseReturnQuantities(
+        order._id as Types.ObjectId,
+        returnLines,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Get the return requests of a customer's order
+   *
+   * @param orderId - Order ID
+   * @param userId - Customer user ID
+   * @returns Return requests, newest first
+   */
+  async findOrderReturns(orderId: string, userId: string) {
+    return this.returnRequestModel
+      .find({
+        orderId: new Types.ObjectId(orderId),
+        userId: new Types.ObjectId(userId),
+      })
+      .populate('items.productId', 'name imageUrls')
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  /**
+   * Get the return requests addressed to a seller
+   *
+   * @param sellerId - Seller user ID
+   * @param options - Status filter and pagination
+   * @returns Paginated return requests
+   */
+  async findSellerReturns(
+    sellerId: string,
+    options: { page?: number; limit?: number; status?: string },
+  ) {
+    const { page = 1, limit = 10, status } = options;
+
+    const filter: any = { sellerId: new Types.ObjectId(sellerId) };
+    if (status) {
+      filter.status = status;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const [returnRequests, total] = await Promise.all([
+      this.returnRequestModel
+        .find(filter)
+        .populate('items.productId', 'name price imageUrls')
+        .populate('userId', 'firstName lastName email')
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      this.returnRequestModel.countDocuments(filter),
+    ]);
+
+    return {
+      data: returnRequests,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Approve a requested return; the customer can now send the goods back
+   *
+   * @param returnId - Return request ID
+   * @param sellerId - Seller user ID
+   * @param note - Optional note for the customer
+   * @returns Updated return request
+   */
+  async approveReturn(returnId: string, sellerId: string, note?: string) {
+    return this.transition(returnId, sellerId, ReturnStatus.REQUESTED, {
+      status: ReturnStatus.APPROVED,
+      sellerNote: note,
+      approvedAt: new Date(),
+    });
+  }
+
+  /**
+   * Reject a requested return
+   *
+   * @param returnId - Return request ID
+   * @param sellerId - Seller user ID
+   * @param reason - Reason shown to the customer
+   * @returns Updated return request
+   */
+  async rejectReturn(returnId: string, sellerId: string, reason: string) {
+    const rejected = await this.transition(
+      returnId,
+      sellerId,
+      ReturnStatus.REQUESTED,
+      {
+        status: ReturnStatus.REJECTED,
+        rejectionReason: reason,
+        rejectedAt: new Date(),
+      },
+    );
+
+    // The rejected units can be requested again
+    const order = await this.orderModel
+      .findById(rejected.orderId)
+      .select('items');
+    if (order) {
+      await this.releaseReturnQuantities(
+        order._id as Types.ObjectId,
+        rejected.items.map((item) => ({
+          index: order.items.findIndex(
+            (orderItem) => orderLineKey(orderItem) === orderLineKey(item),
+          ),
+          quantity: item.quantity,
+        })),
+      );
+    }
+
+    return rejected;
+  }
+
+  /**
+   * Mark the goods of an approved return as received
+   *
+   * The goods are restocked and the customer is refunded, in full by
+   * default or partially (e.g. for items returned damaged). The return
+   * records what the payment provider actually refunded, which is less
+   * when the order's captured payment does not cover the amount; with
+   * nothing refundable the return stays approved.
+   *
+   * @param returnId - Return request ID
+   * @param sellerId - Seller user ID
+   * @param refundAmount - Amount to refund, defaults to the requested amount
+   * @param note - Optional note for the customer
+   * @returns Updated return request
+   */
+  async refundReturn(
+    returnId: string,
+    sellerId: string,
+    refundAmount?: number,
+    note?: string,
+  ) {
+    const returnRequest = await this.findSellerReturn(returnId, sellerId);
+
+    const amount = this.roundAmount(
+      refundAmount ?? returnRequest.requestedAmount,
+    );
+    if (amount > returnRequest.requestedAmount) {
+      throw new BadRequestException(
+        ReturnErrorMessages[ReturnError.REFUND_EXCEEDS_REQUESTED],
+      );
+    }
+
+    // Claim the return first so concurrent calls cannot refund twice
+    const claimed = await this.transition(
+      returnId,
+      sellerId,
+      ReturnStatus.APPROVED,
+      {
+        status: ReturnStatus.REFUNDED,
+        refundAmount: amount,
+        refundedAt: new Date(),
+        ...(note ? { sellerNote: note } : {}),
+      },
+    );
+
+    const orderId = returnRequest.orderId.toString();
+    let refunded: number;
+    try {
+      refunded = await this.paymentsService.refundForOrder(orderId, amount);
+    } catch (error) {
+      await this.releaseRefundClaim(returnRequest._id as Types.ObjectId);
+      throw error;
+    }
+
+    if (refunded <= 0 && amount > 0) {
+      await this.releaseRefundClaim(returnRequest._id as Types.ObjectId);
+      throw new BadRequestException(
+        ReturnErrorMessages[ReturnError.NOTHING_TO_REFUND],
+      );
+    }
+    if (refunded < amount) {
+      await this.returnRequestModel.updateOne(
+        { _id: returnRequest._id },
+        { $set: { refundAmount: refunded } },
+      );
+      claimed.refundAmount = refunded;
+    }
+
+    await this.ordersService.restoreProductStock(returnRequest.items);
+    await this.syncOrderReturnStatus(orderId, sellerId);
+
+    return claimed;
+  }
+
+  /**
+   * Put a return claimed for refunding back to approved
+   *
+   * @private
+   */
+  private async releaseRefundClaim(returnId: Types.ObjectId): Promise<void> {
+    await this.returnRequestModel.updateOne(
+      { _id: returnId, status: ReturnStatus.REFUNDED },
+      {
+        $set: { status: ReturnStatus.APPROVED },
+        $unset: { refundAmount: '', refundedAt: '' },
+      },
+    );
+  }
+
+  /**
+   * Check that the seller's share of an order can still be returned
+   *
+   * @private
+   */
+  private assertReturnable(order: OrderDocument, sellerId: string): void {
+    const fulfillment = order.fulfillments.find(
+      (group) => group.sellerId.toString() === sellerId,
+    );
+
+    if (!fulfillment || fulfillment.status !== FulfillmentStatus.DELIVERED) {
+      throw new BadRequestException(
+        ReturnErrorMessages[ReturnError.ORDER_NOT_RETURNABLE],
+      );
+    }
+
+    if (fulfillment.deliveredAt) {
+      const windowEnd = new Date(fulfillment.deliveredAt);
+      windowEnd.setDate(windowEnd.getDate() + RETURN_WINDOW_DAYS);
+      if (windowEnd < new Date()) {
+        throw new BadRequestException(
+          ReturnErrorMessages[ReturnError.RETURN_WINDOW_EXPIRED],
+        );
+      }
+    }
+  }
+
+  /**
+   * Sum the quantities per order line already in open or refunded returns
+   *
+   * @private
+   */
+  private async getReturnedQuantities(
+    orderId: string,
+    statuses: ReturnStatus[] = [
+      ReturnStatus.REQUESTED,
+      ReturnStatus.APPROVED,
+      ReturnStatus.REFUNDED,
+    ],
+  ): Promise<Map<string, number>> {
+    const returnRequests = await this.returnRequestModel
+      .find({
+        orderId: new Types.ObjectId(orderId),
+        status: { $in: statuses },
+      })
+      .lean();
+
+    const quantities = new Map<string, number>();
+    returnRequests.forEach((returnRequest) =>
+      returnRequest.items.forEach((item) => {
+        const lineKey = orderLineKey(item);
+        quantities.set(lineKey, (quantities.get(lineKey) || 0) + item.quantity);
+      }),
+    );
+
+    return quantities;
+  }
+
+  /**
+   * Count units towards the returned quantity of their order lines
+   *
+   * Each line is incremented only while the ordered quantity allows it, so
+   * concurrent requests cannot return more than was bought.
+   *
+   * @private
+   * @throws BadRequestException when a line has too few units left
+   */
+  private async reserveReturnQuantities(
+    order: OrderDocument,
+    lines: ReturnLine[],
+  ): Promise<void> {
+    await this.initReturnedQuantities(order);
+
+    const reserved: ReturnLine[] = [];
+    for (const line of lines) {
+      const item = order.items[line.index];
+      const path = `items.${line.index}.returnedQuantity`;
+
+      const result = await this.orderModel.updateOne(
+        {
+          _id: order._id,
+          [`items.${line.index}.productId`]: item.productId,
+          [path]: { $lte: item.quantity - line.quantity },
+        },
+        { $inc: { [path]: line.quantity } },
+      );
+      if (result.modifiedCount !== 1) {
+        await this.releaseReturnQuantities(
+          order._id as Types.ObjectId,
+          reserved,
+        );
+        throw new BadRequestException(
+          ReturnErrorMessages[ReturnError.RETURN_QUANTITY_EXCEEDED],
+        );
+      }
+      reserved.push(line);
+    }
+  }
+
+  /**
+   * Hand back units of order lines, e.g. of a rejected return
+   *
+   * @private
+   */
+  private async releaseReturnQuantities(
+    orderId: Types.ObjectId,
+    lines: ReturnLine[],
+  ): Promise<void> {
+    for (const line of lines) {
+      if (line.index === -1) continue;
+
+      const path = `items.${line.index}.returnedQuantity`;
+      await this.orderModel.updateOne(
+        { _id: orderId, [path]: { $gte: line.quantity } },
+        { $inc: { [path]: -line.quantity } },
+      );
+    }
+  }
+
+  /**
+   * Fill in the returned quantities of orders placed before they were
+   * tracked on the order, from the order's return requests
+   *
+   * @private
+   */
+  private async initReturnedQuantities(order: OrderDocument): Promise<void> {
+    const stored = await this.orderModel
+      .findById(order._id)
+      .select('items.returnedQuantity')
+      .lean<{ items: Array<{ returnedQuantity?: number }> }>();
+    const missing = (stored?.items || [])
+      .map((item, index) => (item.returnedQuantity === undefined ? index : -1))
+      .filter((index) => index !== -1);
+    if (!missing.length) return;
+
+    const returnedQuantities = await this.getReturnedQuantities(
+      (order._id as Types.ObjectId).toString(),
+    );
+    for (const index of missing) {
+      const path = `items.${index}.returnedQuantity`;
+      // Only the first initialization applies; later ones see the field
+      await this.orderModel.updateOne(
+        { _id: order._id, [path]: { $exists: false } },
+        {
+          $set: {
+            [path]:
+              returnedQuantities.get(orderLineKey(order.items[index])) || 0,
+          },
+        },
+      );
+    }
+  }
+
+  /**
+   * Move the order to partially returned / returned after a refund
+   *
+   * Lines of cancelled fulfilment groups cannot be returned and do not keep
+   * the order from being fully returned.
+   *
+   * @private
+   */
+  private async syncOrderReturnStatus(
+    orderId: string,
+    sellerId: string,
+  ): Promise<void> {
+    const order = await this.orderModel.findById(orderId);
+    if (!order) return;
+
+    const refundedQuantities = await this.getReturnedQuantities(orderId, [
+      ReturnStatus.REFUNDED,
+    ]);
+    const cancelledSellerIds = new Set(
+      order.fulfillments
+        .filter((group) => group.status === FulfillmentStatus.CANCELLED)
+        .map((group) => group.sellerId.toString()),
+    );
+    const fullyReturned = order.items
+      .filter((item) => !cancelledSellerIds.has(item.sellerId.toString()))
+      .every(
+        (item) =>
+          (refundedQuantities.get(orderLineKey(item)) || 0) >= item.quantity,
+      );
+    const status = fullyReturned
+      ? OrderStatus.RETURNED
+      : OrderStatus.PARTIALLY_RETURNED;
+    if (order.status === status) return;
+
+    order.statusHistory.push({
+      actor: OrderStatusActor.SELLER,
+      actorId: new Types.ObjectId(sellerId),
+      previousStatus: order.status,
+      status,
+      changedAt: new Date(),
+    });
+    order.status = status;
+    await order.save();
+  }
+
+  /**
+   * Upload return photos to MinIO
+   *
+   * @private
+   * @returns Public URLs of the uploaded photos
+   */
+  private async uploadPhotos(photos: Express.Multer.File[]): Promise<string[]> {
+    const bucketName =
+      this.configService.get<string>('MINIO_BUCKET_NAME') || 'ekotest';
+
+    try {
+      return await Promise.all(
+        photos.map((photo) => this.minioService.uploadFile(photo, bucketName)),
+      );
+    } catch {
+      throw new BadRequestException(
+        ReturnErrorMessages[ReturnError.PHOTO_UPLOAD_FAILED],
+      );
+    }
+  }
+
+  /**
+   * Find a return request addressed to the seller
+   *
+   * @private
+   */
+  private async findSellerReturn(
+    returnId: string,
+    sellerId: string,
+  ): Promise<ReturnRequestDocument> {
+    const returnRequest = await this.returnRequestModel.findOne({
+      _id: new Types.ObjectId(returnId),
+      sellerId: new Types.ObjectId(sellerId),
+    });
+
+    if (!returnRequest) {
+      throw new NotFoundException(
+        ReturnErrorMessages[ReturnError.RETURN_NOT_FOUND],
+      );
+    }
+
+    return returnRequest;
+  }
+
+  /**
+   * Apply a status change only if the return is still in the expected state
+   *
+   * @private
+   */
+  private async transition(
+    returnId: string,
+    sellerId: string,
+    from: ReturnStatus,
+    update: Partial<ReturnRequest>,
+  ) {
+    const returnRequest = await this.findSellerReturn(returnId, sellerId);
+
+    const updated = await this.returnRequestModel
+      .findOneAndUpdate(
+        { _id: returnRequest._id, status: from },
+        { $set: update },
+        { new: true },
+      )
+      .lean();
+
+    if (!updated) {
+      throw new BadRequestException(
+        ReturnErrorMessages[ReturnError.INVALID_RETURN_STATE],
+      );
+    }
+
+    return updated;
+  }
+
+  /**
+   * Round a monetary amount to two decimals
+   *
+   * @private
+   */
+  private roundAmount(amount: number): number {
+    return Math.max(0, Math.round(amount * 100) / 100);
+  }
+}
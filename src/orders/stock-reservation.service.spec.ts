@@ -0,0 +1,346 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { StockReservationService } from './stock-reservation.service';
+import { Product } from '../schemas/product.schema';
+import {
+  StockReservation,
+  StockReservationStatus,
+} from '../schemas/stock-reservation.schema';
+
+/**
+ * In-memory stand-ins for the Mongo collections
+ *
+ * Every write yields to the event loop first, so concurrent calls
+ * interleave, and then matches and applies its update in one synchronous
+ * step, like MongoDB's single-document atomic updates.
+ */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+const matches = (value: any, condition: any): boolean => {
+  if (condition instanceof Types.ObjectId) {
+    return value?.toString() === condition.toString();
+  }
+  if (condition && typeof condition === 'object') {
+    if ('$gte' in condition) return value >= condition.$gte;
+    if ('$lt' in condition) return value < condition.$lt;
+    if ('$in' in condition) return condition.$in.includes(value);
+  }
+  return value === condition;
+};
+
+function createProductModel(products: any[]) {
+  return {
+    updateOne: async (filter: any, update: any) => {
+      await tick();
+      const product = products.find((p) => matches(p._id, filter._id));
+      if (!product) return { modifiedCount: 0 };
+
+      const variantFilter =
+        filter.variants?.$elemMatch ||
+        (filter['variants._id'] && { _id: filter['variants._id'] });
+      if (variantFilter) {
+        const variant = product.variants.find((v: any) =>
+          Object.entries(variantFilter).every(([key, condition]) =>
+            matches(v[key], condition),
+          ),
+        );
+        if (!variant) return { modifiedCount: 0 };
+        variant.stock += update.$inc['variants.$.stock'];
+        return { modifiedCount: 1 };
+      }
+
+      if (filter.stock && !matches(product.stock, filter.stock)) {
+        return { modifiedCount: 0 };
+      }
+      product.stock += update.$inc.stock;
+      return { modifiedCount: 1 };
+    },
+  };
+}
+
+function createReservationModel(reservations: any[]) {
+  const isMatch = (reservation: any, filter: any) =>
+    Object.entries(filter).every(([key, condition]) =>
+      matches(reservation[key], condition),
+    );
+
+  return {
+    create: async (doc: any) => {
+      await tick();
+      const reservation = { _id: new Types.ObjectId(), ...doc };
+      reservations.push(reservation);
+      return reservation;
+    },
+    updateOne: async (filter: any, update: any) => {
+      await tick();
+      const reservation = reservations.find((r) => isMatch(r, filter));
+      if (!reservation) return { modifiedCount: 0 };
+      reservation.items = [...reservation.items, update.$push.items];
+      return { modifiedCount: 1 };
+    },
+    findOneAndUpdate: async (filter: any, update: any) => {
+      await tick();
+      const reservation = reservations.find((r) => isMatch(r, filter));
+      if (!reservation) return null;
+      const before = { ...reservation };
+      Object.assign(reservation, update.$set);
+      return before;
+    },
+    find: (filter: any) => ({
+      select: () => ({
+        lean: async () => {
+          await tick();
+          return reservations.filter((r) => isMatch(r, filter));
+        },
+      }),
+    }),
+  };
+}
+
+describe('StockReservationService', () => {
+  let service: StockReservationService;
+
+  const userId = new Types.ObjectId().toString();
+  const productId = new Types.ObjectId();
+  const otherProductId = new Types.ObjectId();
+  const variantId = new Types.ObjectId();
+  const reservationId = new Types.ObjectId();
+
+  const mockProductModel = { updateOne: jest.fn() };
+  const mockReservationModel = {
+    create: jest.fn(),
+    updateOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+    find: jest.fn(),
+  };
+
+  const expiredReservations = (reservations: unknown[]) =>
+    mockReservationModel.find.mockReturnValue({
+      select: () => ({ lean: jest.fn().mockResolvedValue(reservations) }),
+    });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    expiredReservations([]);
+    mockReservationModel.create.mockResolvedValue({ _id: reservationId });
+    mockReservationModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    mockProductModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockReservationService,
+        {
+          provide: getModelToken(Product.name),
+          useValue: mockProductModel,
+        },
+        {
+          provide: getModelToken(StockReservation.name),
+          useValue: mockReservationModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StockReservationService>(StockReservationService);
+  });
+
+  describe('reserve', () => {
+    it('takes product stock only while enough is left', async () => {
+      await expect(
+        service.reserve(userId, [{ productId, quantity: 2 }]),
+      ).resolves.toBe(reservationId.toString());
+
+      expect(mockProductModel.updateOne).toHaveBeenCalledTimes(1);
+      expect(mockProductModel.updateOne).toHaveBeenCalledWith(
+        { _id: productId, stock: { $gte: 2 } },
+        { $inc: { stock: -2 } },
+      );
+      expect(mockReservationModel.updateOne).toHaveBeenCalledWith(
+        { _id: reservationId, status: StockReservationStatus.RESERVED },
+        {
+          $push: {
+            items: { productId, variantId: undefined, quantity: 2 },
+          },
+        },
+      );
+    });
+
+    it('takes variant stock only while enough is left', async () => {
+      await service.reserve(userId, [{ productId, variantId, quantity: 2 }]);
+
+      expect(mockProductModel.updateOne).toHaveBeenCalledWith(
+        {
+          _id: productId,
+          variants: {
+            $elemMatch: { _id: variantId, stock: { $gte: 2 } },
+          },
+        },
+        { $inc: { 'variants.$.stock': -2 } },
+      );
+    });
+
+    it('hands back stock taken when a later line is short', async () => {
+      mockProductModel.updateOne
+        .mockResolvedValueOnce({ modifiedCount: 1 })
+        .mockResolvedValueOnce({ modifiedCount: 0 });
+      mockReservationModel.findOneAndUpdate.mockResolvedValue({
+        items: [{ productId, quantity: 1 }],
+      });
+
+      await expect(
+        service.reserve(userId, [
+          { productId, quantity: 1 },
+          { productId: otherProductId, quantity: 1 },
+        ]),
+      ).resolves.toBeNull();
+
+      expect(mockProductModel.updateOne).toHaveBeenNthCalledWith(
+        2,
+        { _id: otherProductId, stock: { $gte: 1 } },
+        { $inc: { stock: -1 } },
+      );
+      expect(mockReservationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: reservationId,
+          status: {
+            $in: [
+              StockReservationStatus.RESERVED,
+              StockReservationStatus.COMMITTED,
+            ],
+          },
+        },
+        { $set: { status: StockReservationStatus.RELEASED } },
+      );
+      expect(mockProductModel.updateOne).toHaveBeenLastCalledWith(
+        { _id: productId },
+        { $inc: { stock: 1 } },
+      );
+    });
+  });
+
+  describe('release', () => {
+    it('restocks only when it claims the reservation', async () => {
+      mockReservationModel.findOneAndUpdate
+        .mockResolvedValueOnce({
+          items: [
+            { productId, quantity: 2 },
+            { productId, variantId, quantity: 3 },
+          ],
+        })
+        .mockResolvedValueOnce(null);
+
+      await service.release(reservationId.toString());
+      await service.release(reservationId.toString());
+
+      expect(mockProductModel.updateOne).toHaveBeenCalledTimes(2);
+      expect(mockProductModel.updateOne).toHaveBeenCalledWith(
+        { _id: productId },
+        { $inc: { stock: 2 } },
+      );
+      expect(mockProductModel.updateOne).toHaveBeenCalledWith(
+        { _id: productId, 'variants._id': variantId },
+        { $inc: { 'variants.$.stock': 3 } },
+      );
+    });
+  });
+
+  describe('releaseExpired', () => {
+    it('claims only reservations still reserved and expired', async () => {
+      expiredReservations([{ _id: reservationId }]);
+      mockReservationModel.findOneAndUpdate.mockResolvedValue({
+        items: [{ productId, quantity: 2 }],
+      });
+
+      await expect(service.releaseExpired()).resolves.toBe(1);
+
+      expect(mockReservationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        {
+          _id: reservationId,
+          status: StockReservationStatus.RESERVED,
+          expiresAt: { $lt: expect.any(Date) },
+        },
+        { $set: { status: StockReservationStatus.RELEASED } },
+      );
+      expect(mockProductModel.updateOne).toHaveBeenCalledWith(
+        { _id: productId },
+        { $inc: { stock: 2 } },
+      );
+    });
+  });
+
+  describe('commit', () => {
+    it('commits only a reserved reservation', async () => {
+      const orderId = new Types.ObjectId();
+      mockReservationModel.findOneAndUpdate.mockResolvedValue(null);
+
+      await expect(
+        service.commit(reservationId.toString(), orderId),
+      ).resolves.toBe(false);
+
+      expect(mockReservationModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: reservationId, status: StockReservationStatus.RESERVED },
+        { $set: { status: StockReservationStatus.COMMITTED, orderId } },
+      );
+    });
+  });
+
+  describe('under concurrent checkouts', () => {
+    let products: any[];
+
+    const stock = 7;
+    const quantity = 2;
+
+    beforeEach(async () => {
+      products = [
+        {
+          _id: productId,
+          stock,
+          variants: [{ _id: variantId, stock, price: 10 }],
+        },
+      ];
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          StockReservationService,
+          {
+            provide: getModelToken(Product.name),
+            useValue: createProductModel(products),
+          },
+          {
+            provide: getModelToken(StockReservation.name),
+            useValue: createReservationModel([]),
+          },
+        ],
+      }).compile();
+
+      service = module.get<StockReservationService>(StockReservationService);
+    });
+
+    it('never takes product stock below zero', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 20 }, () =>
+          service.reserve(userId, [{ productId, quantity }]),
+        ),
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(
+        Math.floor(stock / quantity),
+      );
+      expect(products[0].stock).toBe(stock % quantity);
+    });
+
+    it('never takes variant stock below zero', async () => {
+      const results = await Promise.all(
+        Array.from({ length: 20 }, () =>
+          service.reserve(userId, [{ productId, variantId, quantity }]),
+        ),
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(
+        Math.floor(stock / quantity),
+      );
+      expect(products[0].variants[0].stock).toBe(stock % quantity);
+      expect(products[0].stock).toBe(stock);
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Product, ProductDocument } from '../schemas/product.schema';
+import {
+  StockReservation,
+  StockReservationDocument,
+  StockReservationStatus,
+} from '../schemas/stock-reservation.schema';
+
+/**
+ * Minutes a checkout may hold stock before it is handed back
+ */
+export const STOCK_RESERVATION_TTL_MINUTES = 15;
+
+export interface StockLine {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+  quantity: number;
+}
+
+/**
+ * Stock Reservation Service
+ *
+ * Takes stock for checkouts with conditional atomic decrements:
+ * - A decrement only succeeds while enough stock is left, so concurrent
+ *   checkouts can never push a product or variant below zero
+ * - Reservations are committed to the order they were placed for
+ * - Failed checkouts release their stock immediately; abandoned ones
+ *   expire after STOCK_RESERVATION_TTL_MINUTES
+ */
+@Injectable()
+export class StockReservationService {
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(StockReservation.name)
+    private reservationModel: Model<StockReservationDocument>,
+  ) {}
+
+  /**
+   * Reserve stock for every line
+   *
+   * If any line is short, stock already taken is handed back.
+   *
+   * @param userId - Customer user ID
+   * @param items - Products or variants with quantities
+   * @returns Reservation ID, or null when stock is insufficient
+   */
+  async reserve(userId: string, items: StockLine[]): Promise<string | null> {
+    // Give back stock of abandoned checkouts before turning anyone away
+    await this.releaseExpired();
+
+    const reservation = await this.reservationModel.create({
+      userId: new Types.ObjectId(userId),
+      items: [],
+      status: StockReservationStatus.RESERVED,
+      expiresAt: new Date(
+        Date.now() + STOCK_RESERVATION_TTL_MINUTES * 60 * 1000,
+      ),
+    });
+    const reservationId = (reservation._id as Types.ObjectId).toString();
+
+    for (const item of items) {
+      if (!(await this.decrementStock(item))) {
+        await this.release(reservationId);
+        return null;
+      }
+
+      // Record the line only once its stock was taken
+      const recorded = await this.reservationModel.updateOne(
+        { _id: reservation._id, status: StockReservationStatus.RESERVED },
+        {
+          $push: {
+            items: {
+              productId: new Types.ObjectId(item.productId),
+              variantId: item.variantId
+                ? new Types.ObjectId(item.variantId)
+                : undefined,
+              quantity: item.quantity,
+            },
+          },
+        },
+      );
+      if (recorded.modifiedCount !== 1) {
+        await this.restock([item]);
+        await this.release(reservationId);
+        return null;
+      }
+    }
+
+    return reservationId;
+  }
+
+  /**
+   * Hand a reservation over to the order it was placed for
+   *
+   * @param reservationId - Reservation ID
+   * @param orderId - Order taking over the stock
+   * @returns False when the reservation expired or was released
+   */
+  async commit(
+    reservationId: string,
+    orderId: Types.ObjectId | string,
+  ): Promise<boolean> {
+    const reservation = await this.reservationModel.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(reservationId),
+        status: StockReservationStatus.RESERVED,
+      },
+      {
+        $set: {
+          status: StockReservationStatus.COMMITTED,
+          orderId: new Types.ObjectId(orderId),
+        },
+      },
+    );
+
+    return !!reservation;
+  }
+
+  /**
+   * Hand back the stock of a failed checkout
+   *
+   * Committed reservations are released too, for orders that could not be
+   * saved; stock of placed orders is restored through their items instead.
+   * Releasing twice is a no-op.
+   *
+   * @param reservationId - Reservation ID
+   */
+  async release(reservationId: string): Promise<void> {
+    await this.claimAndRestock({
+      _id: new Types.ObjectId(reservationId),
+      status: {
+        $in: [
+          StockReservationStatus.RESERVED,
+          StockReservationStatus.COMMITTED,
+        ],
+      },
+    });
+  }
+
+  /**
+   * Release every reservation that expired before being committed
+   *
+   * @returns Number of released reservations
+   */
+  async releaseExpired(): Promise<number> {
+    const expired = await this.reservationModel
+      .find({
+        status: StockReservationStatus.RESERVED,
+        expiresAt: { $lt: new Date() },
+      })
+      .select('_id')
+      .lean();
+
+    let released = 0;
+    for (const reservation of expired) {
+      // Re-check the state: the checkout may have committed it meanwhile
+      const claimed = await this.claimAndRestock({
+        _id: reservation._id,
+        status: StockReservationStatus.RESERVED,
+        expiresAt: { $lt: new Date() },
+      });
+      if (claimed) released++;
+    }
+
+    return released;
+  }
+
+  /**
+   * Add stock back to products or variants
+   *
+   * @param items - Products or variants with quantities
+   */
+  async restock(items: StockLine[]): Promise<void> {
+    for (const item of items) {
+      if (item.variantId) {
+        await this.productModel.updateOne(
+          {
+            _id: new Types.ObjectId(item.productId),
+            'variants._id': new Types.ObjectId(item.variantId),
+          },
+          { $inc: { 'variants.$.stock': item.quantity } },
+        );
+      } else {
+        await this.productModel.updateOne(
+          { _id: new Types.ObjectId(item.productId) },
+          { $inc: { stock: item.quantity } },
+        );
+      }
+    }
+  }
+
+  /**
+   * Take stock only if enough is left
+   *
+   * @private
+   * @returns True when the stock was decremented
+   */
+  private async decrementStock(item: StockLine): Promise<boolean> {
+    const result = item.variantId
+      ? await this.productModel.updateOne(
+          {
+            _id: new Types.ObjectId(item.productId),
+            variants: {
+              $elemMatch: {
+                _id: new Types.ObjectId(item.variantId),
+                stock: { $gte: item.quantity },
+              },
+            },
+          },
+          { $inc: { 'variants.$.stock': -item.quantity } },
+        )
+      : await this.productModel.updateOne(
+          {
+            _id: new Types.ObjectId(item.productId),
+            stock: { $gte: item.quantity },
+          },
+          { $inc: { stock: -item.quantity } },
+        );
+
+    return result.modifiedCount === 1;
+  }
+
+  /**
+   * Mark a matching reservation released and restock its items
+   *
+   * @private
+   * @returns True when this call released the reservation
+   */
+  private async claimAndRestock(filter: Record<string, any>): Promise<boolean> {
+    const reservation = await this.reservationModel.findOneAndUpdate(filter, {
+      $set: { status: StockReservationStatus.RELEASED },
+    });
+    if (!reservation) return false;
+
+    await this.restock(reservation.items);
+    return true;
+  }
+}
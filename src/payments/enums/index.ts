@@ -0,0 +1 @@
+export * from './payment-error.enum';
@@ -0,0 +1,23 @@
+export enum PaymentError {
+  PAYMENT_NOT_FOUND = 'PAYMENT_NOT_FOUND',
+  INVALID_PAYMENT_STATE = 'INVALID_PAYMENT_STATE',
+  REFUND_EXCEEDS_CAPTURED = 'REFUND_EXCEEDS_CAPTURED',
+  REFUND_FAILED = 'REFUND_FAILED',
+  VOID_FAILED = 'VOID_FAILED',
+  UNKNOWN_PROVIDER = 'UNKNOWN_PROVIDER',
+  INVALID_WEBHOOK_SIGNATURE = 'INVALID_WEBHOOK_SIGNATURE',
+  INVALID_WEBHOOK_PAYLOAD = 'INVALID_WEBHOOK_PAYLOAD',
+}
+
+export const PaymentErrorMessages = {
+  [PaymentError.PAYMENT_NOT_FOUND]: 'Payment not found',
+  [PaymentError.INVALID_PAYMENT_STATE]:
+    'This operation is not allowed in the current payment state',
+  [PaymentError.REFUND_EXCEEDS_CAPTURED]:
+    'Refund amount exceeds the captured amount',
+  [PaymentError.REFUND_FAILED]: 'Refund was rejected by the payment provider',
+  [PaymentError.VOID_FAILED]: 'Void was rejected by the payment provider',
+  [PaymentError.UNKNOWN_PROVIDER]: 'Unknown payment provider',
+  [PaymentError.INVALID_WEBHOOK_SIGNATURE]: 'Invalid webhook signature',
+  [PaymentError.INVALID_WEBHOOK_PAYLOAD]: 'Invalid webhook payload',
+};
@@ -0,0 +1,7 @@
+import { Inject } from '@nestjs/common';
+
+export const PAYMENT_PROVIDER_TOKEN = 'PAYMENT_PROVIDER_INJECT_TOKEN';
+
+export function InjectPaymentProvider(): ParameterDecorator {
+  return Inject(PAYMENT_PROVIDER_TOKEN);
+}
@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Post,
+  Param,
+  Req,
+  HttpCode,
+  HttpStatus,
+  RawBodyRequest,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { PaymentsService } from './payments.service';
+import { PaymentErrorMessages } from './enums/payment-error.enum';
+import { SANDBOX_SIGNATURE_HEADER } from './providers/sandbox-payment.provider';
+
+@ApiTags('Payments')
+@Controller('payments')
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  /**
+   * Receive payment provider webhook
+   */
+  @Post('webhook/:provider')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Payment provider webhook',
+    description:
+      'Receives signed payment events from the payment provider. Events are deduplicated by provider event ID, so redeliveries are acknowledged without being applied twice',
+  })
+  @ApiParam({
+    name: 'provider',
+    description: 'Payment provider name',
+    example: 'sandbox',
+  })
+  @ApiHeader({
+    name: SANDBOX_SIGNATURE_HEADER,
+    description: 'Sandbox provider: hex HMAC-SHA256 of the raw request body',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Event received',
+    schema: {
+      type: 'object',
+      properties: {
+        received: { type: 'boolean', example: true },
+        duplicate: { type: 'boolean', example: false },
+        status: {
+          type: 'string',
+          enum: ['processing', 'processed', 'ignored', 'failed'],
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: PaymentErrorMessages.INVALID_WEBHOOK_PAYLOAD,
+  })
+  @ApiResponse({
+    status: 401,
+    description: PaymentErrorMessages.INVALID_WEBHOOK_SIGNATURE,
+  })
+  @ApiResponse({
+    status: 404,
+    description: PaymentErrorMessages.UNKNOWN_PROVIDER,
+  })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    return this.paymentsService.handleWebhook(
+      provider,
+      req.rawBody,
+      req.headers,
+    );
+  }
+}
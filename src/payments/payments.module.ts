@@ -0,0 +1,59 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Payment, PaymentSchema } from '../schemas/payment.schema';
+import { Order, OrderSchema } from '../schemas/order.schema';
+import {
+  PaymentWebhookEvent,
+  PaymentWebhookEventSchema,
+} from '../schemas/payment-webhook-event.schema';
+import { PaymentsController } from './payments.controller';
+import { PaymentsService } from './payments.service';
+import { PAYMENT_PROVIDER_TOKEN } from './payment-provider.decorator';
+import { SandboxPaymentProvider } from './providers/sandbox-payment.provider';
+import { PaymentProvider } from './types/payment-provider.types';
+
+/**
+ * Payments Module
+ *
+ * Provides payment processing through a pluggable PaymentProvider:
+ * - Provider selected by the `PAYMENT_PROVIDER` setting (default: sandbox)
+ * - Authorize, capture, refund and void operations
+ * - Payment attempt history linked to orders
+ * - Signed, idempotent provider webhooks
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Payment.name, schema: PaymentSchema },
+      { name: Order.name, schema: OrderSchema },
+      { name: PaymentWebhookEvent.name, schema: PaymentWebhookEventSchema },
+    ]),
+  ],
+  controllers: [PaymentsController],
+  providers: [
+    SandboxPaymentProvider,
+    {
+      inject: [ConfigService, SandboxPaymentProvider],
+      provide: PAYMENT_PROVIDER_TOKEN,
+      useFactory: (
+        configService: ConfigService,
+        sandboxProvider: SandboxPaymentProvider,
+      ): PaymentProvider => {
+        const provider = configService.get<string>(
+          'app.payment.provider',
+          'sandbox',
+        );
+        switch (provider) {
+          case 'sandbox':
+            return sandboxProvider;
+          default:
+            throw new Error(`Unsupported payment provider: ${provider}`);
+        }
+      },
+    },
+    PaymentsService,
+  ],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
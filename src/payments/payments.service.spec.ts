@@ -0,0 +1,525 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Types } from 'mongoose';
+import { createHmac } from 'crypto';
+import { PaymentsService } from './payments.service';
+import { PAYMENT_PROVIDER_TOKEN } from './payment-provider.decorator';
+import {
+  SANDBOX_SIGNATURE_HEADER,
+  SANDBOX_TEST_CARDS,
+  SandboxPaymentProvider,
+} from './providers/sandbox-payment.provider';
+import { PaymentMethodDetails } from './types/payment-provider.types';
+import { PaymentError, PaymentErrorMessages } from './enums/payment-error.enum';
+import { Payment, PaymentTransactionStatus } from '../schemas/payment.schema';
+import { Order, PaymentStatus } from '../schemas/order.schema';
+import {
+  PaymentWebhookEvent,
+  WebhookEventStatus,
+} from '../schemas/payment-webhook-event.schema';
+
+/**
+ * In-memory stand-ins for the Mongo collections
+ *
+ * Every call yields to the event loop first, so concurrent calls
+ * interleave, and then matches and applies its update in one synchronous
+ * step, like MongoDB's single-document atomic updates. Only the query and
+ * aggregation operators the payment service sends are understood.
+ */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+const evaluate = (doc: any, expression: any): any => {
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return doc[expression.slice(1)];
+  }
+  if (Array.isArray(expression)) {
+    return expression.map((item) => evaluate(doc, item));
+  }
+  if (
+    !expression ||
+    typeof expression !== 'object' ||
+    expression instanceof Types.ObjectId ||
+    expression instanceof Date
+  ) {
+    return expression;
+  }
+
+  const [[operator, args]] = Object.entries<any>(expression);
+  if (operator === '$literal') return args;
+  if (operator === '$switch') {
+    const branch = args.branches.find((candidate: any) =>
+      evaluate(doc, candidate.case),
+    );
+    return evaluate(doc, branch ? branch.then : args.default);
+  }
+
+  const values = evaluate(doc, args);
+  switch (operator) {
+    case '$subtract':
+      return values[0] - values[1];
+    case '$round':
+      return Math.round(values[0] * 10 ** values[1]) / 10 ** values[1];
+    case '$gte':
+      return values[0] >= values[1];
+    case '$gt':
+      return values[0] > values[1];
+    case '$ifNull':
+      return values[0] ?? values[1];
+    case '$concatArrays':
+      return values.flat();
+    default:
+      throw new Error(`Unsupported operator ${operator}`);
+  }
+};
+
+const matches = (value: any, condition: any): boolean => {
+  if (condition instanceof Types.ObjectId) {
+    return value?.toString() === condition.toString();
+  }
+  if (condition && typeof condition === 'object' && '$in' in condition) {
+    return condition.$in.includes(value);
+  }
+  return value === condition;
+};
+
+const isMatch = (doc: any, filter: any) =>
+  Object.entries(filter).every(([key, condition]) =>
+    key === '$expr' ? evaluate(doc, condition) : matches(doc[key], condition),
+  );
+
+const applyUpdate = (doc: any, update: any) => {
+  if (Array.isArray(update)) {
+    update.forEach((stage) =>
+      Object.entries(stage.$set).forEach(([key, expression]) => {
+        doc[key] = evaluate(doc, expression);
+      }),
+    );
+    return;
+  }
+  Object.assign(doc, update.$set);
+  Object.entries<any>(update.$inc || {}).forEach(([key, value]) => {
+    doc[key] += value;
+  });
+  Object.keys(update.$unset || {}).forEach((key) => delete doc[key]);
+};
+
+const query = (result: () => any) => ({
+  sort: () => query(result),
+  lean: async () => {
+    await tick();
+    return result();
+  },
+  then: (resolve: any, reject: any) =>
+    tick().then(result).then(resolve, reject),
+});
+
+/**
+ * Documents are snapshots; save() writes their fields back, like a
+ * read-modify-write through Mongoose
+ */
+function createCollection(defaults: Record<string, unknown> = {}) {
+  const docs: any[] = [];
+
+  const snapshot = (doc: any) => {
+    const copy = { ...doc, refundIds: doc.refundIds && [...doc.refundIds] };
+    return {
+      ...copy,
+      toObject: () => ({ ...copy }),
+      save: async function (this: any) {
+        await tick();
+        const fields = { ...this };
+        delete fields.save;
+        delete fields.toObject;
+        Object.assign(doc, fields);
+        return snapshot(doc);
+      },
+    };
+  };
+  const find = (filter: any) => docs.find((doc) => isMatch(doc, filter));
+
+  return {
+    docs,
+    create: async (fields: any) => {
+      await tick();
+      const doc = { _id: new Types.ObjectId(), ...defaults, ...fields };
+      docs.push(doc);
+      return snapshot(doc);
+    },
+    findById: (id: any) =>
+      query(() => {
+        const doc = find({ _id: new Types.ObjectId(String(id)) });
+        return doc && snapshot(doc);
+      }),
+    findOne: (filter: any) =>
+      query(() => {
+        const doc = find(filter);
+        return doc && snapshot(doc);
+      }),
+    find: (filter: any) =>
+      query(() =>
+        docs
+          .filter((doc) => isMatch(doc, filter))
+          .reverse()
+          .map((doc) => ({ ...doc })),
+      ),
+    updateOne: async (filter: any, update: any) => {
+      await tick();
+      const doc = find(filter);
+      if (!doc) return { modifiedCount: 0 };
+      applyUpdate(doc, update);
+      return { modifiedCount: 1 };
+    },
+    findOneAndUpdate: async (filter: any, update: any, options: any = {}) => {
+      await tick();
+      const doc = find(filter);
+      if (!doc) {
+        if (!options.upsert) return null;
+        docs.push({
+          _id: new Types.ObjectId(),
+          ...filter,
+          ...update.$setOnInsert,
+        });
+        return null;
+      }
+      const before = snapshot(doc);
+      if (!update.$setOnInsert) applyUpdate(doc, update);
+      return options.new ? snapshot(doc) : before;
+    },
+  };
+}
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let provider: SandboxPaymentProvider;
+  let payments: ReturnType<typeof createCollection>;
+  let orders: ReturnType<typeof createCollection>;
+  let webhookEvents: ReturnType<typeof createCollection>;
+  let order: any;
+
+  const userId = new Types.ObjectId().toString();
+  const card = (cardNumber: string): PaymentMethodDetails => ({
+    type: 'credit_card',
+    cardNumber,
+    cardHolderName: 'Test Customer',
+  });
+  const VALID_CARD = '4242 4242 4242 4242';
+
+  const paymentOf = (paymentId: string) =>
+    payments.docs.find((doc) => doc._id.toString() === paymentId);
+
+  /**
+   * Authorize and capture a payment linked to the test order
+   */
+  const capturedPayment = async (amount = 100) => {
+    const payment = await service.authorize(userId, amount, card(VALID_CARD));
+    const paymentId = String(payment._id);
+    await service.attachToOrder(paymentId, order._id.toString());
+    await service.capture(paymentId);
+    return paymentId;
+  };
+
+  beforeEach(async () => {
+    payments = createCollection({
+      status: PaymentTransactionStatus.PENDING,
+      capturedAmount: 0,
+      refundedAmount: 0,
+      refundIds: [],
+    });
+    orders = createCollection();
+    webhookEvents = createCollection();
+    order = await orders.create({ paymentStatus: PaymentStatus.PENDING });
+
+    const configService = {
+      get: (key: string, defaultValue?: unknown) =>
+        key === 'app.payment.webhookSecret' ? 'webhook-secret' : defaultValue,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        SandboxPaymentProvider,
+        {
+          provide: PAYMENT_PROVIDER_TOKEN,
+          useExisting: SandboxPaymentProvider,
+        },
+        { provide: ConfigService, useValue: configService },
+        { provide: getModelToken(Payment.name), useValue: payments },
+        { provide: getModelToken(Order.name), useValue: orders },
+        {
+          provide: getModelToken(PaymentWebhookEvent.name),
+          useValue: webhookEvents,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+    provider = module.get<SandboxPaymentProvider>(SandboxPaymentProvider);
+  });
+
+  describe('authorize', () => {
+    it('holds the amount on a valid card', async () => {
+      const payment = await service.authorize(userId, 100, card(VALID_CARD));
+
+      expect(payment.status).toBe(PaymentTransactionStatus.AUTHORIZED);
+      expect(payment.providerTransactionId).toMatch(/^SBX_/);
+      expect(payment.cardLast4).toBe('4242');
+    });
+
+    it.each([
+      ['DECLINED', 'Payment declined by bank'],
+      ['INSUFFICIENT_FUNDS', 'Insufficient funds'],
+    ] as const)('fails a %s test card', async (testCard, reason) => {
+      const payment = await service.authorize(
+        userId,
+        100,
+        card(SANDBOX_TEST_CARDS[testCard]),
+      );
+
+      expect(payment.status).toBe(PaymentTransactionStatus.FAILED);
+      expect(payment.failureReason).toBe(reason);
+      expect(payment.providerTransactionId).toBeUndefined();
+    });
+  });
+
+  describe('capture', () => {
+    it('captures the authorized amount and marks the order paid', async () => {
+      const paymentId = await capturedPayment();
+
+      expect(paymentOf(paymentId)).toMatchObject({
+        status: PaymentTransactionStatus.CAPTURED,
+        capturedAmount: 100,
+      });
+      expect(orders.docs[0].paymentStatus).toBe(PaymentStatus.PAID);
+    });
+
+    it('keeps the hold when the CAPTURE_FAILS card is rejected', async () => {
+      const payment = await service.authorize(
+        userId,
+        100,
+        card(SANDBOX_TEST_CARDS.CAPTURE_FAILS),
+      );
+      await service.attachToOrder(String(payment._id), order._id.toString());
+
+      const captured = await service.capture(String(payment._id));
+
+      expect(captured.status).toBe(PaymentTransactionStatus.AUTHORIZED);
+      expect(captured.failureReason).toBe('Capture rejected by bank');
+      expect(orders.docs[0].paymentStatus).toBe(PaymentStatus.AUTHORIZED);
+    });
+  });
+
+  describe('void', () => {
+    it('releases a held authorization', async () => {
+      const payment = await service.authorize(userId, 100, card(VALID_CARD));
+      await service.attachToOrder(String(payment._id), order._id.toString());
+
+      const voided = await service.void(String(payment._id));
+
+      expect(voided.status).toBe(PaymentTransactionStatus.VOIDED);
+      expect(orders.docs[0].paymentStatus).toBe(PaymentStatus.VOIDED);
+    });
+
+    it('refuses a captured payment', async () => {
+      const paymentId = await capturedPayment();
+
+      await expect(service.void(paymentId)).rejects.toThrow(
+        PaymentErrorMessages[PaymentError.INVALID_PAYMENT_STATE],
+      );
+    });
+  });
+
+  describe('refund', () => {
+    it('refunds partially, then the rest', async () => {
+      const paymentId = await capturedPayment();
+
+      const partial = await service.refund(paymentId, 40);
+      expect(partial.status).toBe(PaymentTransactionStatus.PARTIALLY_REFUNDED);
+      expect(partial.refundedAmount).toBe(40);
+      expect(orders.docs[0].paymentStatus).toBe(
+        PaymentStatus.PARTIALLY_REFUNDED,
+      );
+
+      const rest = await service.refund(paymentId);
+      expect(rest.status).toBe(PaymentTransactionStatus.REFUNDED);
+      expect(rest.refundedAmount).toBe(100);
+      expect(rest.refundIds).toHaveLength(2);
+      expect(orders.docs[0].paymentStatus).toBe(PaymentStatus.REFUNDED);
+    });
+
+    it('refuses more than was captured', async () => {
+      const paymentId = await capturedPayment();
+
+      await expect(service.refund(paymentId, 100.01)).rejects.toThrow(
+        PaymentErrorMessages[PaymentError.REFUND_EXCEEDS_CAPTURED],
+      );
+      expect(paymentOf(paymentId).refundedAmount).toBe(0);
+    });
+
+    it('lets only one of two concurrent refunds reach the provider', async () => {
+      const paymentId = await capturedPayment();
+      const providerRefund = jest.spyOn(provider, 'refund');
+
+      const results = await Promise.allSettled([
+        service.refund(paymentId, 60),
+        service.refund(paymentId, 60),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(providerRefund).toHaveBeenCalledTimes(1);
+      expect(paymentOf(paymentId)).toMatchObject({
+        status: PaymentTransactionStatus.PARTIALLY_REFUNDED,
+        refundedAmount: 60,
+      });
+    });
+
+    it('releases the reserved amount when the provider refuses', async () => {
+      const paymentId = await capturedPayment();
+      // Refunded in the gateway directly, so our records still allow it
+      await provider.refund(paymentOf(paymentId).providerTransactionId, 30);
+
+      await expect(service.refund(paymentId)).rejects.toThrow(
+        'Refund exceeds captured amount',
+      );
+
+      expect(paymentOf(paymentId)).toMatchObject({
+        status: PaymentTransactionStatus.CAPTURED,
+        refundedAmount: 0,
+      });
+      await expect(service.refund(paymentId, 70)).resolves.toMatchObject({
+        refundedAmount: 70,
+      });
+    });
+
+    it('releases the reserved amount when the provider is unreachable', async () => {
+      const paymentId = await capturedPayment();
+      jest
+        .spyOn(provider, 'refund')
+        .mockRejectedValueOnce(new Error('Gateway timeout'));
+
+      await expect(service.refund(paymentId, 50)).rejects.toThrow(
+        'Gateway timeout',
+      );
+
+      expect(paymentOf(paymentId)).toMatchObject({
+        status: PaymentTransactionStatus.CAPTURED,
+        refundedAmount: 0,
+      });
+    });
+  });
+
+  describe('syncOrderPaymentStatus', () => {
+    it('lets a successful attempt win over earlier failed ones', async () => {
+      const declined = await service.authorize(
+        userId,
+        100,
+        card(SANDBOX_TEST_CARDS.DECLINED),
+      );
+      await service.attachToOrder(String(declined._id), order._id.toString());
+      expect(orders.docs[0].paymentStatus).toBe(PaymentStatus.FAILED);
+
+      await capturedPayment();
+
+      expect(orders.docs[0].paymentStatus).toBe(PaymentStatus.PAID);
+    });
+  });
+
+  describe('handleWebhook', () => {
+    const deliver = (payload: object, secret = 'webhook-secret') => {
+      const rawBody = Buffer.from(JSON.stringify(payload));
+      const signature = createHmac('sha256', secret)
+        .update(rawBody)
+        .digest('hex');
+      return service.handleWebhook('sandbox', rawBody, {
+        [SANDBOX_SIGNATURE_HEADER]: signature,
+      });
+    };
+
+    const refundEvent = (paymentId: string) => ({
+      id: 'evt_refund',
+      type: 'payment.refunded',
+      data: {
+        transactionId: paymentOf(paymentId).providerTransactionId,
+        amount: 30,
+      },
+    });
+
+    it('rejects a delivery with a bad or missing signature', async () => {
+      const paymentId = await capturedPayment();
+      const event = refundEvent(paymentId);
+
+      await expect(deliver(event, 'other-secret')).rejects.toThrow(
+        PaymentErrorMessages[PaymentError.INVALID_WEBHOOK_SIGNATURE],
+      );
+      await expect(
+        service.handleWebhook(
+          'sandbox',
+          Buffer.from(JSON.stringify(event)),
+          {},
+        ),
+      ).rejects.toThrow(
+        PaymentErrorMessages[PaymentError.INVALID_WEBHOOK_SIGNATURE],
+      );
+
+      expect(webhookEvents.docs).toHaveLength(0);
+      expect(paymentOf(paymentId).refundedAmount).toBe(0);
+    });
+
+    it('applies a redelivered event ID only once', async () => {
+      const paymentId = await capturedPayment();
+      const event = refundEvent(paymentId);
+
+      const results = await Promise.all([deliver(event), deliver(event)]);
+      const redelivered = await deliver(event);
+
+      expect(results.map((result) => result.duplicate).sort()).toEqual([
+        false,
+        true,
+      ]);
+      expect(redelivered).toEqual({
+        received: true,
+        duplicate: true,
+        status: WebhookEventStatus.PROCESSED,
+      });
+      expect(webhookEvents.docs).toHaveLength(1);
+      expect(paymentOf(paymentId)).toMatchObject({
+        status: PaymentTransactionStatus.PARTIALLY_REFUNDED,
+        refundedAmount: 30,
+      });
+    });
+
+    it('retries an event whose earlier processing failed', async () => {
+      const payment = await service.authorize(userId, 100, card(VALID_CARD));
+      const paymentId = String(payment._id);
+      const event = {
+        id: 'evt_capture',
+        type: 'payment.captured',
+        data: { transactionId: payment.providerTransactionId, amount: 100 },
+      };
+      jest.spyOn(payments, 'findOne').mockImplementationOnce(() => {
+        throw new Error('Connection reset');
+      });
+
+      await expect(deliver(event)).rejects.toThrow('Connection reset');
+      expect(webhookEvents.docs[0]).toMatchObject({
+        status: WebhookEventStatus.FAILED,
+        error: 'Connection reset',
+      });
+
+      await expect(deliver(event)).resolves.toEqual({
+        received: true,
+        duplicate: false,
+        status: WebhookEventStatus.PROCESSED,
+      });
+      expect(webhookEvents.docs[0].status).toBe(WebhookEventStatus.PROCESSED);
+      expect(webhookEvents.docs[0].error).toBeUndefined();
+      expect(paymentOf(paymentId)).toMatchObject({
+        status: PaymentTransactionStatus.CAPTURED,
+        capturedAmount: 100,
+      });
+    });
+  });
+});
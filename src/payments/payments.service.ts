@@ -0,0 +1,760 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  Payment,
+  PaymentDocument,
+  PaymentTransactionStatus,
+} from '../schemas/payment.schema';
+import { Order, OrderDocument, PaymentStatus } from '../schemas/order.schema';
+import {
+  PaymentWebhookEvent as PaymentWebhookEventLog,
+  PaymentWebhookEventDocument,
+  WebhookEventStatus,
+} from '../schemas/payment-webhook-event.schema';
+import { InjectPaymentProvider } from './payment-provider.decorator';
+import {
+  PaymentMethodDetails,
+  PaymentProvider,
+  PaymentProviderResult,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+} from './types/payment-provider.types';
+import { PaymentError, PaymentErrorMessages } from './enums/payment-error.enum';
+
+/**
+ * Allowed payment attempt state transitions; anything else is rejected
+ * (direct calls) or ignored (webhooks), so a redelivered or out-of-order
+ * event can never capture or refund twice
+ */
+const PAYMENT_TRANSITIONS: Record<
+  PaymentTransactionStatus,
+  PaymentTransactionStatus[]
+> = {
+  [PaymentTransactionStatus.PENDING]: [
+    PaymentTransactionStatus.AUTHORIZED,
+    PaymentTransactionStatus.CAPTURED,
+    PaymentTransactionStatus.FAILED,
+  ],
+  [PaymentTransactionStatus.AUTHORIZED]: [
+    PaymentTransactionStatus.CAPTURED,
+    PaymentTransactionStatus.VOIDED,
+    PaymentTransactionStatus.FAILED,
+  ],
+  [PaymentTransactionStatus.CAPTURED]: [
+    PaymentTransactionStatus.PARTIALLY_REFUNDED,
+    PaymentTransactionStatus.REFUNDED,
+  ],
+  [PaymentTransactionStatus.PARTIALLY_REFUNDED]: [
+    PaymentTransactionStatus.PARTIALLY_REFUNDED,
+    PaymentTransactionStatus.REFUNDED,
+  ],
+  [PaymentTransactionStatus.FAILED]: [],
+  [PaymentTransactionStatus.VOIDED]: [],
+  [PaymentTransactionStatus.REFUNDED]: [],
+};
+
+/**
+ * Payment attempt states whose captured funds can be refunded
+ */
+const REFUNDABLE_STATUSES = [
+  PaymentTransactionStatus.CAPTURED,
+  PaymentTransactionStatus.PARTIALLY_REFUNDED,
+];
+
+/**
+ * Refund state of a captured payment, computed from its stored amounts
+ */
+const REFUND_STATUS_EXPRESSION = {
+  $switch: {
+    branches: [
+      {
+        case: {
+          $gte: [{ $round: ['$refundedAmount', 2] }, '$capturedAmount'],
+        },
+        then: PaymentTransactionStatus.REFUNDED,
+      },
+      {
+        case: { $gt: [{ $round: ['$refundedAmount', 2] }, 0] },
+        then: PaymentTransactionStatus.PARTIALLY_REFUNDED,
+      },
+    ],
+    default: PaymentTransactionStatus.CAPTURED,
+  },
+};
+
+/**
+ * Payment attempt state each webhook event type moves to
+ */
+const WEBHOOK_EVENT_TARGETS: Record<
+  PaymentWebhookEventType,
+  PaymentTransactionStatus
+> = {
+  [PaymentWebhookEventType.AUTHORIZED]: PaymentTransactionStatus.AUTHORIZED,
+  [PaymentWebhookEventType.CAPTURED]: PaymentTransactionStatus.CAPTURED,
+  [PaymentWebhookEventType.FAILED]: PaymentTransactionStatus.FAILED,
+  [PaymentWebhookEventType.VOIDED]: PaymentTransactionStatus.VOIDED,
+  [PaymentWebhookEventType.REFUNDED]: PaymentTransactionStatus.REFUNDED,
+};
+
+/**
+ * Payments Service
+ *
+ * Runs payment operations against the configured PaymentProvider:
+ * - Stores every attempt as a Payment document linked to its order
+ * - Authorizes at checkout, captures once the order exists
+ * - Voids held authorizations and refunds captured funds
+ * - Derives Order.paymentStatus from the order's payment attempts
+ * - Applies signed provider webhooks exactly once through an event log
+ */
+@Injectable()
+export class PaymentsService {
+  constructor(
+    @InjectModel(Payment.name) private paymentModel: Model<PaymentDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(PaymentWebhookEventLog.name)
+    private webhookEventModel: Model<PaymentWebhookEventDocument>,
+    @InjectPaymentProvider() private readonly paymentProvider: PaymentProvider,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Authorize (hold) an amount on the customer's payment method
+   *
+   * @param userId - Customer user ID
+   * @param amount - Amount to authorize
+   * @param paymentMethod - Payment method details from checkout
+   * @returns Payment attempt, AUTHORIZED or FAILED
+   */
+  async authorize(
+    userId: string,
+    amount: number,
+    paymentMethod: PaymentMethodDetails,
+  ): Promise<PaymentDocument> {
+    const payment = await this.paymentModel.create({
+      userId: new Types.ObjectId(userId),
+      provider: this.paymentProvider.name,
+      amount,
+      currency: this.configService.get<string>('app.payment.currency', 'TRY'),
+      method: paymentMethod.type,
+      cardLast4: paymentMethod.cardNumber?.replace(/\s+/g, '').slice(-4),
+    });
+
+    const result = await this.paymentProvider.authorize({
+      reference: (payment._id as any).toString(),
+      amount,
+      currency: payment.currency,
+      paymentMethod,
+    });
+
+    if (result.success) {
+      payment.status = PaymentTransactionStatus.AUTHORIZED;
+      payment.providerTransactionId = result.transactionId;
+    } else {
+      payment.status = PaymentTransactionStatus.FAILED;
+      payment.failureReason = result.failureReason;
+    }
+
+    return payment.save();
+  }
+
+  /**
+   * Link a payment attempt to its order
+   *
+   * @param paymentId - Payment ID
+   * @param orderId - Order ID
+   */
+  async attachToOrder(paymentId: string, orderId: string): Promise<void> {
+    await this.paymentModel.updateOne(
+      { _id: new Types.ObjectId(paymentId) },
+      { $set: { orderId: new Types.ObjectId(orderId) } },
+    );
+    await this.syncOrderPaymentStatus(orderId);
+  }
+
+  /**
+   * Capture the full authorized amount
+   *
+   * A rejected capture leaves the payment AUTHORIZED with a failure reason.
+   *
+   * @param paymentId - Payment ID
+   * @returns Updated payment attempt
+   */
+  async capture(paymentId: string): Promise<PaymentDocument> {
+    const payment = await this.findPayment(paymentId);
+    this.assertTransition(payment, PaymentTransactionStatus.CAPTURED);
+
+    const result = await this.paymentProvider.capture(
+      payment.providerTransactionId!,
+      payment.amount,
+    );
+
+    if (result.success) {
+      payment.status = PaymentTransactionStatus.CAPTURED;
+      payment.capturedAmount = payment.amount;
+      payment.failureReason = undefined;
+    } else {
+      payment.failureReason = result.failureReason;
+    }
+
+    const savedPayment = await payment.save();
+    await this.syncPaymentOrder(savedPayment);
+
+    return savedPayment;
+  }
+
+  /**
+   * Refund captured funds
+   *
+   * The amount is reserved on the payment before the provider is called, so
+   * concurrent refunds cannot together exceed the captured funds; it is
+   * handed back if the provider refuses.
+   *
+   * @param paymentId - Payment ID
+   * @param amount - Amount to refund, defaults to everything not yet refunded
+   * @returns Updated payment attempt
+   */
+  async refund(paymentId: string, amount?: number): Promise<PaymentDocument> {
+    const payment = await this.findPayment(paymentId);
+    this.assertTransition(payment, PaymentTransactionStatus.REFUNDED);
+
+    const refundAmount = this.roundAmount(
+      amount ?? payment.capturedAmount - payment.refundedAmount,
+    );
+    if (refundAmount <= 0) {
+      throw new BadRequestException(
+        PaymentErrorMessages[PaymentError.REFUND_EXCEEDS_CAPTURED],
+      );
+    }
+
+    const reserved = await this.paymentModel.updateOne(
+      {
+        _id: payment._id,
+        status: { $in: REFUNDABLE_STATUSES },
+        $expr: {
+          $gte: [
+            {
+              $round: [
+                { $subtract: ['$capturedAmount', '$refundedAmount'] },
+                2,
+              ],
+            },
+            refundAmount,
+          ],
+        },
+      },
+      { $inc: { refundedAmount: refundAmount } },
+    );
+    if (reserved.modifiedCount !== 1) {
+      throw new BadRequestException(
+        PaymentErrorMessages[PaymentError.REFUND_EXCEEDS_CAPTURED],
+      );
+    }
+
+    let result: PaymentProviderResult;
+    try {
+      result = await this.paymentProvider.refund(
+        payment.providerTransactionId!,
+        refundAmount,
+      );
+    } catch (error) {
+      await this.releaseRefund(payment._id as Types.ObjectId, refundAmount);
+      throw error;
+    }
+
+    if (!result.success) {
+      await this.releaseRefund(payment._id as Types.ObjectId, refundAmount);
+      throw new BadRequestException(
+        result.failureReason ||
+          PaymentErrorMessages[PaymentError.REFUND_FAILED],
+      );
+    }
+
+    const savedPayment = await this.updateRefundState(
+      payment._id as Types.ObjectId,
+      result.operationId
+        ? {
+            refundIds: {
+              $concatArrays: [
+                { $ifNull: ['$refundIds', []] },
+                [{ $literal: result.operationId }],
+              ],
+            },
+          }
+        : undefined,
+    );
+    await this.syncPaymentOrder(savedPayment);
+
+    return savedPayment;
+  }
+
+  /**
+   * Release a held authorization without capturing it
+   *
+   * @param paymentId - Payment ID
+   * @returns Updated payment attempt
+   */
+  async void(paymentId: string): Promise<PaymentDocument> {
+    const payment = await this.findPayment(paymentId);
+    this.assertTransition(payment, PaymentTransactionStatus.VOIDED);
+
+    const result = await this.paymentProvider.void(
+      payment.providerTransactionId!,
+    );
+    if (!result.success) {
+      throw new BadRequestException(
+        result.failureReason || PaymentErrorMessages[PaymentError.VOID_FAILED],
+      );
+    }
+
+    payment.status = PaymentTransactionStatus.VOIDED;
+
+    const savedPayment = await payment.save();
+    await this.syncPaymentOrder(savedPayment);
+
+    return savedPayment;
+  }
+
+  /**
+   * Give the customer's money back for an order (e.g. on cancellation)
+   *
+   * Held authorizations are voided and captured funds refunded in full.
+   *
+   * @param orderId - Order ID
+   */
+  async reverseForOrder(orderId: string): Promise<void> {
+    const payments = await this.paymentModel.find({
+      orderId: new Types.ObjectId(orderId),
+      status: {
+        $in: [
+          PaymentTransactionStatus.AUTHORIZED,
+          PaymentTransactionStatus.CAPTURED,
+          PaymentTransactionStatus.PARTIALLY_REFUNDED,
+        ],
+      },
+    });
+
+    for (const payment of payments) {
+      const paymentId = (payment._id as any).toString();
+      if (payment.status === PaymentTransactionStatus.AUTHORIZED) {
+        await this.void(paymentId);
+      } else {
+        await this.refund(paymentId);
+      }
+    }
+  }
+
+  /**
+   * Refund part of an order's captured funds (e.g. one seller's items)
+   *
+   * Refunds at most what is still refundable; an order whose payment is
+   * not captured yet has nothing to refund.
+   *
+   * @param orderId - Order ID
+   * @param amount - Amount to refund
+   * @returns Amount actually refunded, 0 when nothing was refundable
+   */
+  async refundForOrder(orderId: string, amount: number): Promise<number> {
+    const payment = await this.paymentModel.findOne({
+      orderId: new Types.ObjectId(orderId),
+      status: {
+        $in: [
+          PaymentTransactionStatus.CAPTURED,
+          PaymentTransactionStatus.PARTIALLY_REFUNDED,
+        ],
+      },
+    });
+    if (!payment) return 0;
+
+    const refundAmount = Math.min(
+      this.roundAmount(amount),
+      this.roundAmount(payment.capturedAmount - payment.refundedAmount),
+    );
+    if (refundAmount <= 0) return 0;
+
+    await this.refund((payment._id as any).toString(), refundAmount);
+    return refundAmount;
+  }
+
+  /**
+   * Get the payment attempts of an order, newest first
+   *
+   * @param orderId - Order ID
+   * @returns Payment attempts
+   */
+  async findOrderPayments(orderId: string) {
+    return this.paymentModel
+      .find({ orderId: new Types.ObjectId(orderId) })
+      .sort({ createdAt: -1 })
+      .lean();
+  }
+
+  /**
+   * Recompute Order.paymentStatus from the order's payment attempts
+   *
+   * @param orderId - Order ID
+   */
+  async syncOrderPaymentStatus(orderId: string): Promise<void> {
+    const payments = await this.findOrderPayments(orderId);
+    const successful = payments.find(
+      (payment) =>
+        payment.status !== PaymentTransactionStatus.FAILED &&
+        payment.status !== PaymentTransactionStatus.PENDING,
+    );
+
+    await this.orderModel.updateOne(
+      { _id: new Types.ObjectId(orderId) },
+      {
+        $set: {
+          paymentStatus: this.derivePaymentStatus(
+            payments.map((payment) => payment.status),
+          ),
+          ...(successful?.providerTransactionId && {
+            paymentTransactionId: successful.providerTransactionId,
+          }),
+        },
+      },
+    );
+  }
+
+  /**
+   * Handle a webhook delivery from a payment provider
+   *
+   * The signature is checked against the raw body, then the event is claimed
+   * in the event log. Redeliveries of claimed events are acknowledged without
+   * being applied again; events that failed earlier are retried.
+   *
+   * @param providerName - Provider from the webhook URL
+   * @param rawBody - Raw request body the signature was computed over
+   * @param headers - Request headers
+   * @returns Acknowledgement with the event's processing status
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | string[] | undefined>,
+  ): Promise<{ received: boolean; duplicate: boolean; status: string }> {
+    if (providerName !== this.paymentProvider.name) {
+      throw new NotFoundException(
+        PaymentErrorMessages[PaymentError.UNKNOWN_PROVIDER],
+      );
+    }
+
+    if (
+      !rawBody ||
+      !this.paymentProvider.verifyWebhookSignature(rawBody, headers)
+    ) {
+      throw new UnauthorizedException(
+        PaymentErrorMessages[PaymentError.INVALID_WEBHOOK_SIGNATURE],
+      );
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException(
+        PaymentErrorMessages[PaymentError.INVALID_WEBHOOK_PAYLOAD],
+      );
+    }
+
+    const event = this.paymentProvider.parseWebhookEvent(payload);
+    if (!event) {
+      throw new BadRequestException(
+        PaymentErrorMessages[PaymentError.INVALID_WEBHOOK_PAYLOAD],
+      );
+    }
+
+    const claimed = await this.claimWebhookEvent(providerName, event, payload);
+    if (!claimed) {
+      const logged = await this.webhookEventModel
+        .findOne({ provider: providerName, eventId: event.eventId })
+        .lean();
+      return {
+        received: true,
+        duplicate: true,
+        status: logged?.status || WebhookEventStatus.PROCESSING,
+      };
+    }
+
+    try {
+      const { status, paymentId } = await this.applyWebhookEvent(event);
+      await this.webhookEventModel.updateOne(
+        { _id: claimed._id },
+        {
+          $set: { status, paymentId, processedAt: new Date() },
+          $unset: { error: '' },
+        },
+      );
+      return { received: true, duplicate: false, status };
+    } catch (error) {
+      await this.webhookEventModel.updateOne(
+        { _id: claimed._id },
+        {
+          $set: {
+            status: WebhookEventStatus.FAILED,
+            error: error instanceof Error ? error.message : String(error),
+          },
+        },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Take ownership of a webhook event in the event log
+   *
+   * @returns The claimed log entry, or null if it is already processed or
+   * being processed by another delivery
+   * @private
+   */
+  private async claimWebhookEvent(
+    provider: string,
+    event: PaymentWebhookEvent,
+    payload: any,
+  ): Promise<PaymentWebhookEventDocument | null> {
+    try {
+      const existing = await this.webhookEventModel.findOneAndUpdate(
+        { provider, eventId: event.eventId },
+        {
+          $setOnInsert: {
+            type: event.type,
+            transactionId: event.transactionId,
+            payload,
+            status: WebhookEventStatus.PROCESSING,
+          },
+        },
+        { upsert: true, new: false },
+      );
+
+      if (!existing) {
+        return this.webhookEventModel.findOne({
+          provider,
+          eventId: event.eventId,
+        });
+      }
+    } catch (error: any) {
+      // Concurrent first deliveries race on the unique index
+      if (error?.code === 11000) return null;
+      throw error;
+    }
+
+    // Retry events whose earlier processing failed
+    return this.webhookEventModel.findOneAndUpdate(
+      { provider, eventId: event.eventId, status: WebhookEventStatus.FAILED },
+      { $set: { status: WebhookEventStatus.PROCESSING } },
+      { new: true },
+    );
+  }
+
+  /**
+   * Move the payment attempt named by a webhook event to its new state
+   *
+   * @private
+   */
+  private async applyWebhookEvent(
+    event: PaymentWebhookEvent,
+  ): Promise<{ status: WebhookEventStatus; paymentId?: Types.ObjectId }> {
+    const payment = await this.paymentModel.findOne({
+      provider: this.paymentProvider.name,
+      providerTransactionId: event.transactionId,
+    });
+    if (!payment) return { status: WebhookEventStatus.IGNORED };
+
+    const paymentId = payment._id as Types.ObjectId;
+    if (!this.canTransition(payment, WEBHOOK_EVENT_TARGETS[event.type])) {
+      return { status: WebhookEventStatus.IGNORED, paymentId };
+    }
+
+    switch (event.type) {
+      case PaymentWebhookEventType.CAPTURED:
+        payment.capturedAmount = this.roundAmount(
+          event.amount ?? payment.amount,
+        );
+        payment.failureReason = undefined;
+        break;
+
+      case PaymentWebhookEventType.FAILED:
+        payment.failureReason = event.failureReason;
+        break;
+
+      case PaymentWebhookEventType.REFUNDED: {
+        const refundable = this.roundAmount(
+          payment.capturedAmount - payment.refundedAmount,
+        );
+        if (
+          refundable <= 0 ||
+          (event.operationId && payment.refundIds.includes(event.operationId))
+        ) {
+          return { status: WebhookEventStatus.IGNORED, paymentId };
+        }
+        this.recordRefund(
+          payment,
+          Math.min(this.roundAmount(event.amount ?? refundable), refundable),
+          event.operationId,
+        );
+        break;
+      }
+    }
+
+    if (event.type !== PaymentWebhookEventType.REFUNDED) {
+      payment.status = WEBHOOK_EVENT_TARGETS[event.type];
+    }
+
+    const savedPayment = await payment.save();
+    await this.syncPaymentOrder(savedPayment);
+
+    return { status: WebhookEventStatus.PROCESSED, paymentId };
+  }
+
+  /**
+   * Add a refund to a payment and set its refunded state
+   *
+   * @private
+   */
+  private recordRefund(
+    payment: PaymentDocument,
+    amount: number,
+    operationId?: string,
+  ): void {
+    payment.refundedAmount = this.roundAmount(payment.refundedAmount + amount);
+    if (operationId) {
+      payment.refundIds = [...(payment.refundIds || []), operationId];
+    }
+    payment.status =
+      payment.refundedAmount >= payment.capturedAmount
+        ? PaymentTransactionStatus.REFUNDED
+        : PaymentTransactionStatus.PARTIALLY_REFUNDED;
+  }
+
+  /**
+   * Hand back a refund amount reserved for a refund the provider did not make
+   *
+   * @private
+   */
+  private async releaseRefund(
+    paymentId: Types.ObjectId,
+    amount: number,
+  ): Promise<void> {
+    await this.updateRefundState(paymentId, {
+      refundedAmount: { $subtract: ['$refundedAmount', amount] },
+    });
+  }
+
+  /**
+   * Apply a refund bookkeeping change and set the refund state it results in
+   *
+   * @private
+   * @param paymentId - Payment ID
+   * @param fields - Aggregation expressions of the fields to change, if any
+   * @returns Updated payment attempt
+   */
+  private async updateRefundState(
+    paymentId: Types.ObjectId,
+    fields?: Record<string, unknown>,
+  ): Promise<PaymentDocument> {
+    const payment = await this.paymentModel.findOneAndUpdate(
+      { _id: paymentId },
+      [
+        ...(fields ? [{ $set: fields }] : []),
+        { $set: { status: REFUND_STATUS_EXPRESSION } },
+      ],
+      { new: true },
+    );
+    return payment!;
+  }
+
+  /**
+   * Check a payment attempt state transition
+   *
+   * @private
+   */
+  private canTransition(
+    payment: PaymentDocument,
+    target: PaymentTransactionStatus,
+  ): boolean {
+    return PAYMENT_TRANSITIONS[payment.status].includes(target);
+  }
+
+  /**
+   * Reject an operation the payment's current state does not allow
+   *
+   * @private
+   */
+  private assertTransition(
+    payment: PaymentDocument,
+    target: PaymentTransactionStatus,
+  ): void {
+    if (!this.canTransition(payment, target)) {
+      throw new BadRequestException(
+        PaymentErrorMessages[PaymentError.INVALID_PAYMENT_STATE],
+      );
+    }
+  }
+
+  /**
+   * Map payment attempt states to the order-level payment status
+   *
+   * Money taken wins over holds, holds over voids and voids over failures.
+   *
+   * @private
+   */
+  private derivePaymentStatus(
+    statuses: PaymentTransactionStatus[],
+  ): PaymentStatus {
+    const has = (status: PaymentTransactionStatus) => statuses.includes(status);
+
+    if (has(PaymentTransactionStatus.CAPTURED)) return PaymentStatus.PAID;
+    if (has(PaymentTransactionStatus.PARTIALLY_REFUNDED)) {
+      return PaymentStatus.PARTIALLY_REFUNDED;
+    }
+    if (has(PaymentTransactionStatus.REFUNDED)) return PaymentStatus.REFUNDED;
+    if (has(PaymentTransactionStatus.AUTHORIZED)) {
+      return PaymentStatus.AUTHORIZED;
+    }
+    if (has(PaymentTransactionStatus.VOIDED)) return PaymentStatus.VOIDED;
+    if (has(PaymentTransactionStatus.FAILED)) return PaymentStatus.FAILED;
+    return PaymentStatus.PENDING;
+  }
+
+  /**
+   * Find a payment attempt or throw
+   *
+   * @private
+   */
+  private async findPayment(paymentId: string): Promise<PaymentDocument> {
+    const payment = await this.paymentModel.findById(paymentId);
+    if (!payment) {
+      throw new NotFoundException(
+        PaymentErrorMessages[PaymentError.PAYMENT_NOT_FOUND],
+      );
+    }
+    return payment;
+  }
+
+  /**
+   * Re-sync the order a payment belongs to, if any
+   *
+   * @private
+   */
+  private async syncPaymentOrder(payment: PaymentDocument): Promise<void> {
+    if (payment.orderId) {
+      await this.syncOrderPaymentStatus(payment.orderId.toString());
+    }
+  }
+
+  /**
+   * Round a monetary amount to two decimals
+   *
+   * @private
+   */
+  private roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
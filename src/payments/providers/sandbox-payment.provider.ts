@@ -0,0 +1,205 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  AuthorizePaymentRequest,
+  PaymentProvider,
+  PaymentProviderResult,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+} from '../types/payment-provider.types';
+
+/**
+ * Header carrying the hex HMAC-SHA256 of the raw webhook body
+ */
+export const SANDBOX_SIGNATURE_HEADER = 'x-sandbox-signature';
+
+/**
+ * Card numbers with a fixed sandbox outcome; any other card authorizes
+ */
+export const SANDBOX_TEST_CARDS = {
+  DECLINED: '4000000000000002',
+  INSUFFICIENT_FUNDS: '4000000000009995',
+  CAPTURE_FAILS: '4000000000000341',
+};
+
+interface SandboxTransaction {
+  authorized: number;
+  captured: number;
+  refunded: number;
+  voided: boolean;
+  failCapture: boolean;
+}
+
+/**
+ * Sandbox Payment Provider
+ *
+ * Deterministic in-memory gateway for development and tests: outcomes depend
+ * only on the card number, never on chance or timing. Transaction state lives
+ * in memory, so transactions unknown after a restart are accepted as-is.
+ * Webhooks are signed with the `PAYMENT_WEBHOOK_SECRET` setting.
+ */
+@Injectable()
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'sandbox';
+
+  private readonly transactions = new Map<string, SandboxTransaction>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  authorize(request: AuthorizePaymentRequest): Promise<PaymentProviderResult> {
+    return Promise.resolve(this.authorizeTransaction(request));
+  }
+
+  capture(
+    transactionId: string,
+    amount: number,
+  ): Promise<PaymentProviderResult> {
+    return Promise.resolve(this.captureTransaction(transactionId, amount));
+  }
+
+  refund(
+    transactionId: string,
+    amount: number,
+  ): Promise<PaymentProviderResult> {
+    return Promise.resolve(this.refundTransaction(transactionId, amount));
+  }
+
+  void(transactionId: string): Promise<PaymentProviderResult> {
+    return Promise.resolve(this.voidTransaction(transactionId));
+  }
+
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): boolean {
+    const secret = this.configService.get<string>('app.payment.webhookSecret');
+    const signature = headers[SANDBOX_SIGNATURE_HEADER];
+    if (!secret || typeof signature !== 'string') return false;
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest();
+    const received = Buffer.from(signature, 'hex');
+
+    return (
+      received.length === expected.length && timingSafeEqual(received, expected)
+    );
+  }
+
+  parseWebhookEvent(payload: any): PaymentWebhookEvent | null {
+    const type = Object.values(PaymentWebhookEventType).find(
+      (eventType) => eventType === payload?.type,
+    );
+    if (!type || !payload.id || !payload.data?.transactionId) return null;
+
+    return {
+      eventId: String(payload.id),
+      type,
+      transactionId: String(payload.data.transactionId),
+      operationId: payload.data.refundId,
+      amount:
+        typeof payload.data.amount === 'number'
+          ? payload.data.amount
+          : undefined,
+      failureReason: payload.data.failureReason,
+    };
+  }
+
+  private authorizeTransaction(
+    request: AuthorizePaymentRequest,
+  ): PaymentProviderResult {
+    const { paymentMethod, amount } = request;
+    const cardNumber = paymentMethod.cardNumber?.replace(/\s+/g, '');
+
+    if (paymentMethod.type !== 'paypal' && !cardNumber) {
+      return { success: false, failureReason: 'Card number is required' };
+    }
+
+    if (cardNumber === SANDBOX_TEST_CARDS.DECLINED) {
+      return { success: false, failureReason: 'Payment declined by bank' };
+    }
+
+    if (cardNumber === SANDBOX_TEST_CARDS.INSUFFICIENT_FUNDS) {
+      return { success: false, failureReason: 'Insufficient funds' };
+    }
+
+    const transactionId = `SBX_${randomUUID()}`;
+    this.transactions.set(transactionId, {
+      authorized: amount,
+      captured: 0,
+      refunded: 0,
+      voided: false,
+      failCapture: cardNumber === SANDBOX_TEST_CARDS.CAPTURE_FAILS,
+    });
+
+    return { success: true, transactionId, amount };
+  }
+
+  private captureTransaction(
+    transactionId: string,
+    amount: number,
+  ): PaymentProviderResult {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) return { success: true, transactionId, amount };
+
+    if (transaction.voided) {
+      return { success: false, failureReason: 'Authorization was voided' };
+    }
+    if (transaction.failCapture) {
+      return { success: false, failureReason: 'Capture rejected by bank' };
+    }
+    if (transaction.captured + amount > transaction.authorized) {
+      return {
+        success: false,
+        failureReason: 'Capture exceeds authorized amount',
+      };
+    }
+
+    transaction.captured += amount;
+    return { success: true, transactionId, amount };
+  }
+
+  private refundTransaction(
+    transactionId: string,
+    amount: number,
+  ): PaymentProviderResult {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) {
+      return {
+        success: true,
+        transactionId,
+        operationId: `SBX_RF_${randomUUID()}`,
+        amount,
+      };
+    }
+
+    if (transaction.refunded + amount > transaction.captured) {
+      return {
+        success: false,
+        failureReason: 'Refund exceeds captured amount',
+      };
+    }
+
+    transaction.refunded += amount;
+    return {
+      success: true,
+      transactionId,
+      operationId: `SBX_RF_${randomUUID()}`,
+      amount,
+    };
+  }
+
+  private voidTransaction(transactionId: string): PaymentProviderResult {
+    const transaction = this.transactions.get(transactionId);
+    if (!transaction) return { success: true, transactionId };
+
+    if (transaction.captured > 0) {
+      return {
+        success: false,
+        failureReason: 'Captured payments must be refunded',
+      };
+    }
+
+    transaction.voided = true;
+    return { success: true, transactionId };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Payment method details collected at checkout
+ */
+export interface PaymentMethodDetails {
+  type: 'credit_card' | 'debit_card' | 'paypal';
+  cardNumber?: string;
+  cardHolderName?: string;
+  expiryDate?: string;
+  cvv?: string;
+}
+
+export interface AuthorizePaymentRequest {
+  /** Our Payment document ID, sent to the gateway as merchant reference */
+  reference: string;
+  amount: number;
+  currency: string;
+  paymentMethod: PaymentMethodDetails;
+}
+
+export interface PaymentProviderResult {
+  success: boolean;
+  transactionId?: string;
+  /** Gateway ID of the individual operation (e.g. a refund) */
+  operationId?: string;
+  amount?: number;
+  failureReason?: string;
+}
+
+export enum PaymentWebhookEventType {
+  AUTHORIZED = 'payment.authorized',
+  CAPTURED = 'payment.captured',
+  FAILED = 'payment.failed',
+  VOIDED = 'payment.voided',
+  REFUNDED = 'payment.refunded',
+}
+
+/**
+ * Provider webhook event normalized to our event types
+ */
+export interface PaymentWebhookEvent {
+  eventId: string;
+  type: PaymentWebhookEventType;
+  transactionId: string;
+  operationId?: string;
+  amount?: number;
+  failureReason?: string;
+}
+
+/**
+ * Payment Provider
+ *
+ * Contract every payment gateway integration implements. Funds are first
+ * authorized (held), then captured once the order exists; a held
+ * authorization is voided and captured funds are refunded.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+
+  authorize(request: AuthorizePaymentRequest): Promise<PaymentProviderResult>;
+
+  capture(
+    transactionId: string,
+    amount: number,
+  ): Promise<PaymentProviderResult>;
+
+  refund(transactionId: string, amount: number): Promise<PaymentProviderResult>;
+
+  void(transactionId: string): Promise<PaymentProviderResult>;
+
+  /**
+   * Check the signature a webhook delivery was sent with
+   */
+  verifyWebhookSignature(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): boolean;
+
+  /**
+   * Translate a webhook payload, or return null if it is not understood
+   */
+  parseWebhookEvent(payload: any): PaymentWebhookEvent | null;
+}
@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { productFacetFiltersSchema } from '../../search/dto/search.dto';
+
+export const filterOptionsSchema = productFacetFiltersSchema.extend({
+  search: z.string().optional(),
+});
+
+export type FilterOptionsDto = z.infer<typeof filterOptionsSchema>;
@@ -25,7 +25,13 @@ export const findAllProductsSchema = z.object({
     .number()
     .min(0, 'Maximum price must be 0 or greater')
     .optional(),
+  minRating: z.coerce
+    .number()
+    .min(1, 'Minimum rating must be between 1 and 5')
+    .max(5, 'Minimum rating must be between 1 and 5')
+    .optional(),
   tags: z.string().optional(), // Comma-separated tags
+  attributes: z.string().optional(), // color:red|blue,screen_size:13..16
   hasDiscount: z.coerce.boolean().optional(),
   inStock: z.coerce.boolean().optional(),
   campaignId: z.string().optional(), // Kampanya ID'si ile filtreleme
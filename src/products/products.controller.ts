@@ -9,6 +9,7 @@ import {
 import { ProductsService } from './products.service';
 import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
 import { findAllProductsSchema } from './dto/find-all-products.dto';
+import { filterOptionsSchema } from './dto/filter-options.dto';
 
 @ApiTags('Products')
 @Controller('products')
@@ -41,11 +42,22 @@ export class ProductsController {
   })
   @ApiQuery({ name: 'minPrice', required: false, description: 'Minimum price' })
   @ApiQuery({ name: 'maxPrice', required: false, description: 'Maximum price' })
+  @ApiQuery({
+    name: 'minRating',
+    required: false,
+    description: 'Minimum average rating (1-5)',
+  })
   @ApiQuery({
     name: 'tags',
     required: false,
     description: 'Comma-separated tags',
   })
+  @ApiQuery({
+    name: 'attributes',
+    required: false,
+    description:
+      'Category attribute filters, e.g. color:red|blue,screen_size:13..16',
+  })
   @ApiQuery({
     name: 'hasDiscount',
     required: false,
@@ -102,7 +114,36 @@ export class ProductsController {
   @ApiOperation({
     summary: 'Get filter options',
     description:
-      'Get available filter options for products (categories, price ranges, tags, etc.)',
+      'Get available filter options for products (categories, price ranges, tags, etc.) with counts for the current search and filters',
+  })
+  @ApiQuery({ name: 'search', required: false, description: 'Search term' })
+  @ApiQuery({
+    name: 'category',
+    required: false,
+    description: 'Category ID; adds facets for its filterable attributes',
+  })
+  @ApiQuery({
+    name: 'seller',
+    required: false,
+    description: 'Comma-separated seller IDs',
+  })
+  @ApiQuery({ name: 'minPrice', required: false, description: 'Minimum price' })
+  @ApiQuery({ name: 'maxPrice', required: false, description: 'Maximum price' })
+  @ApiQuery({
+    name: 'minRating',
+    required: false,
+    description: 'Minimum average rating (1-5)',
+  })
+  @ApiQuery({
+    name: 'tags',
+    required: false,
+    description: 'Comma-separated tags',
+  })
+  @ApiQuery({
+    name: 'hasDiscount',
+    required: false,
+    enum: ['true', 'false'],
+    description: 'Filter by discount availability',
   })
   @ApiResponse({
     status: 200,
@@ -127,12 +168,30 @@ export class ProductsController {
             type: 'object',
             properties: {
               min: { type: 'number' },
-              max: { type: 'number' },
+              max: { type: 'number', nullable: true },
               label: { type: 'string' },
               productCount: { type: 'number' },
             },
           },
         },
+        ratings: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              minRating: { type: 'number' },
+              label: { type: 'string', example: '4+' },
+              productCount: { type: 'number' },
+            },
+          },
+        },
+        discount: {
+          type: 'object',
+          properties: {
+            discounted: { type: 'number' },
+            notDiscounted: { type: 'number' },
+          },
+        },
         tags: {
           type: 'array',
           items: {
@@ -155,11 +214,46 @@ export class ProductsController {
             },
           },
         },
+        attributes: {
+          type: 'array',
+          description: 'Filterable attributes of the requested category',
+          items: {
+            type: 'object',
+            properties: {
+              key: { type: 'string' },
+              label: { type: 'string' },
+              type: {
+                type: 'string',
+                enum: ['enum', 'number', 'boolean', 'text'],
+              },
+              unit: { type: 'string' },
+              values: {
+                type: 'array',
+                description: 'Value counts (non-number attributes)',
+                items: {
+                  type: 'object',
+                  properties: {
+                    value: {},
+                    count: { type: 'number' },
+                  },
+                },
+              },
+              min: { type: 'number', description: 'Number attributes only' },
+              max: { type: 'number', description: 'Number attributes only' },
+              productCount: {
+                type: 'number',
+                description: 'Number attributes only',
+              },
+            },
+          },
+        },
       },
     },
   })
-  async getFilterOptions() {
-    return this.productsService.getFilterOptions();
+  async getFilterOptions(
+    @Query(new ZodValidationPipe(filterOptionsSchema)) query: any,
+  ) {
+    return this.productsService.getFilterOptions(query);
   }
 
   /**
@@ -221,7 +315,37 @@ export class ProductsController {
         tags: { type: 'array', items: { type: 'string' } },
         isActive: { type: 'boolean' },
         isFeatured: { type: 'boolean' },
-        variants: { type: 'array' },
+        breadcrumbs: {
+          type: 'array',
+          description: 'Category path from the root to the product category',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string' },
+              name: { type: 'string' },
+            },
+          },
+        },
+        variants: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: {
+                type: 'string',
+                description: 'Variant ID to add to the cart',
+              },
+              color: { type: 'string' },
+              size: { type: 'string' },
+              price: { type: 'number' },
+              stock: { type: 'number' },
+              isPurchasable: {
+                type: 'boolean',
+                description: 'Whether the variant can be added to the cart',
+              },
+            },
+          },
+        },
         createdAt: { type: 'string' },
         updatedAt: { type: 'string' },
       },
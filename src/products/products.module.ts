@@ -4,6 +4,8 @@ import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
 import { Product, ProductSchema } from '../schemas/product.schema';
 import { Campaign, CampaignSchema } from '../schemas/campaign.schema';
+import { CategoriesModule } from '../categories/categories.module';
+import { SearchModule } from '../search/search.module';
 
 @Module({
   imports: [
@@ -11,6 +13,8 @@ import { Campaign, CampaignSchema } from '../schemas/campaign.schema';
       { name: Product.name, schema: ProductSchema },
       { name: Campaign.name, schema: CampaignSchema },
     ]),
+    CategoriesModule,
+    SearchModule,
   ],
   controllers: [ProductsController],
   providers: [ProductsService],
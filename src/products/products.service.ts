@@ -9,12 +9,19 @@ import { Product, ProductDocument } from '../schemas/product.schema';
 import { UserRole } from '../schemas/user.schema';
 import { FindAllProductsDto } from './dto/find-all-products.dto';
 import { Campaign, CampaignDocument } from '../schemas/campaign.schema';
+import { CategoriesService } from '../categories/categories.service';
+import { AttributeType } from '../schemas/category.schema';
+import { ProductSearchService } from '../search/product-search.service';
+import { buildSearchRegex } from '../search/search-query.util';
+import { FilterOptionsDto } from './dto/filter-options.dto';
 
 @Injectable()
 export class ProductsService {
   constructor(
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
+    private categoriesService: CategoriesService,
+    private productSearchService: ProductSearchService,
   ) {}
 
   // Kampanyalı fiyat hesaplama fonksiyonu
@@ -26,6 +33,7 @@ export class ProductsService {
         isActive: true,
         startDate: { $lte: now },
         endDate: { $gte: now },
+        requiresCode: { $ne: true },
         $or: [
           { productIds: product._id },
           { categoryIds: product.category },
@@ -67,7 +75,9 @@ export class ProductsService {
       isFeatured,
       minPrice,
       maxPrice,
+      minRating,
       tags,
+      attributes,
       hasDiscount,
       inStock,
       // campaignId,
@@ -79,16 +89,19 @@ export class ProductsService {
 
     // Arama filtresi
     if (search) {
+      const searchRegex = buildSearchRegex(search);
       query.$or = [
-        { name: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-        { tags: { $in: [new RegExp(search, 'i')] } },
+        { name: searchRegex },
+        { description: searchRegex },
+        { tags: searchRegex },
       ];
     }
 
-    // Kategori filtresi
+    // Kategori filtresi (alt kategoriler dahil)
     if (category) {
-      query.category = new Types.ObjectId(category);
+      query.category = {
+        $in: await this.categoriesService.findSubtreeIds(category),
+      };
     }
 
     // Satıcı filtresi
@@ -97,8 +110,6 @@ export class ProductsService {
       try {
         query.sellerId = new Types.ObjectId(seller);
         console.log('Query with seller:', JSON.stringify(query));
-
-
       } catch (error) {
         console.error('Invalid ObjectId:', seller, error);
         return {
@@ -130,12 +141,22 @@ export class ProductsService {
       if (maxPrice !== undefined) query.price.$lte = maxPrice;
     }
 
+    // Puan filtresi
+    if (minRating !== undefined) {
+      query.averageRating = { $gte: minRating };
+    }
+
     // Tag filtresi
     if (tags) {
       const tagArray = tags.split(',').map((tag) => tag.trim());
       query.tags = { $in: tagArray };
     }
 
+    // Özellik filtresi (color:red|blue,screen_size:13..16)
+    if (attributes) {
+      Object.assign(query, this.parseAttributeFilters(attributes));
+    }
+
     // Stok filtresi
     if (inStock !== undefined) {
       if (inStock) {
@@ -218,7 +239,15 @@ export class ProductsService {
       throw new NotFoundException('Product not found');
     }
     const discountedPrice = await this.getDiscountedPrice(product);
-    return { ...product, discountedPrice };
+    const breadcrumbs = product.category
+      ? await this.categoriesService.findBreadcrumbs(product.category._id)
+      : [];
+    // Variants are bought individually; only those in stock can be added
+    const variants = (product.variants || []).map((variant) => ({
+      ...variant,
+      isPurchasable: product.isActive && variant.stock > 0,
+    }));
+    return { ...product, variants, discountedPrice, breadcrumbs };
   }
 
   async update(
@@ -304,135 +333,145 @@ export class ProductsService {
 
   /**
    * Get filter options for products
+   *
+   * Counts are computed against the search term and the selected filters;
+   * with a category, facets for its filterable attributes are added.
+   *
+   * @param filters - Search term and facet selections
    */
-  async getFilterOptions() {
-    // Kategoriler
-    const categories = await this.productModel.aggregate([
-      { $match: { isActive: true } },
-      {
-        $group: {
-          _id: '$category',
-          productCount: { $sum: 1 },
-        },
-      },
-      {
-        $lookup: {
-          from: 'categories',
-          localField: '_id',
-          foreignField: '_id',
-          as: 'categoryInfo',
-        },
-      },
-      { $unwind: '$categoryInfo' },
-      {
-        $project: {
-          _id: '$categoryInfo._id',
-          name: '$categoryInfo.name',
-          productCount: 1,
-        },
-      },
-      { $sort: { name: 1 } },
+  async getFilterOptions(filters: FilterOptionsDto = {}) {
+    const { search, ...selections } = filters;
+    const [facets, attributes] = await Promise.all([
+      this.productSearchService.getFacets({ ...selections, query: search }),
+      selections.category ? this.getAttributeFacets(selections.category) : [],
     ]);
 
-    // Fiyat aralıkları
-    const priceStats = await this.productModel.aggregate([
-      { $match: { isActive: true } },
+    return {
+      ...facets,
+      attributes,
+    };
+  }
+
+  /**
+   * Build facets for the filterable attributes of a category
+   *
+   * Number attributes report their value range, the others the count of
+   * active products per value, across the category and its subcategories.
+   *
+   * @private
+   */
+  private async getAttributeFacets(category: string) {
+    const attributes = (
+      await this.categoriesService.findAttributeSet(category)
+    ).filter((attribute) => attribute.filterable);
+    if (attributes.length === 0) return [];
+
+    const facets: Record<string, any[]> = {};
+    attributes.forEach((attribute) => {
+      const field = `specifications.${attribute.key}`;
+      facets[attribute.key] =
+        attribute.type === AttributeType.NUMBER
+          ? [
+              { $match: { [field]: { $type: 'number' } } },
+              {
+                $group: {
+                  _id: null,
+                  min: { $min: `$${field}` },
+                  max: { $max: `$${field}` },
+                  productCount: { $sum: 1 },
+                },
+              },
+            ]
+          : [
+              { $match: { [field]: { $exists: true, $ne: '' } } },
+              { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+              { $sort: { count: -1 } },
+              { $limit: 50 },
+            ];
+    });
+
+    const [result] = await this.productModel.aggregate([
       {
-        $group: {
-          _id: null,
-          minPrice: { $min: '$price' },
-          maxPrice: { $max: '$price' },
+        $match: {
+          isActive: true,
+          category: {
+            $in: await this.categoriesService.findSubtreeIds(category),
+          },
         },
       },
+      { $facet: facets },
     ]);
 
-    const priceRanges: Array<{
-      min: number;
-      max: number;
-      label: string;
-      productCount: number;
-    }> = [];
-    if (priceStats.length > 0) {
-      const { minPrice, maxPrice } = priceStats[0];
-      const range = maxPrice - minPrice;
-      const step = range / 5;
-
-      for (let i = 0; i < 5; i++) {
-        const min = Math.round(minPrice + i * step);
-        const max = Math.round(minPrice + (i + 1) * step);
-
-        const productCount = await this.productModel.countDocuments({
-          isActive: true,
-          price: { $gte: min, $lte: max },
-        });
+    return attributes.map((attribute) => {
+      const buckets: any[] = result?.[attribute.key] || [];
+      const base = {
+        key: attribute.key,
+        label: attribute.label,
+        type: attribute.type,
+        unit: attribute.unit,
+      };
 
-        priceRanges.push({
-          min,
-          max,
-          label: `${min} TL - ${max} TL`,
-          productCount,
-        });
+      if (attribute.type === AttributeType.NUMBER) {
+        return {
+          ...base,
+          min: buckets[0]?.min ?? null,
+          max: buckets[0]?.max ?? null,
+          productCount: buckets[0]?.productCount ?? 0,
+        };
       }
-    }
+      return {
+        ...base,
+        values: buckets.map((bucket) => ({
+          value: bucket._id,
+          count: bucket.count,
+        })),
+      };
+    });
+  }
 
-    // Tag'ler
-    const tags = await this.productModel.aggregate([
-      { $match: { isActive: true, tags: { $exists: true, $ne: [] } } },
-      { $unwind: '$tags' },
-      {
-        $group: {
-          _id: '$tags',
-          count: { $sum: 1 },
-        },
-      },
-      { $sort: { count: -1 } },
-      { $limit: 20 },
-      {
-        $project: {
-          name: '$_id',
-          count: 1,
-          _id: 0,
-        },
-      },
-    ]);
+  /**
+   * Turn an attribute filter string into specification conditions
+   *
+   * Format: `key:value1|value2` for values, `key:min..max` for ranges
+   * (either bound may be left out), several filters separated by commas.
+   *
+   * @private
+   */
+  private parseAttributeFilters(attributes: string) {
+    const conditions: Record<string, any> = {};
+
+    attributes.split(',').forEach((filter) => {
+      const separator = filter.indexOf(':');
+      if (separator === -1) return;
+
+      const key = filter.slice(0, separator).trim().toLowerCase();
+      const value = filter.slice(separator + 1).trim();
+      if (!/^[a-z0-9_]+$/.test(key) || !value) return;
+
+      const field = `specifications.${key}`;
+      if (value.includes('..')) {
+        const [min, max] = value.split('..').map((bound) => bound.trim());
+        const range: Record<string, number> = {};
+        if (min && Number.isFinite(Number(min))) range.$gte = Number(min);
+        if (max && Number.isFinite(Number(max))) range.$lte = Number(max);
+        if (Object.keys(range).length > 0) conditions[field] = range;
+        return;
+      }
 
-    // Satıcılar
-    const sellers = await this.productModel.aggregate([
-      { $match: { isActive: true } },
-      {
-        $group: {
-          _id: '$sellerId',
-          productCount: { $sum: 1 },
-        },
-      },
-      {
-        $lookup: {
-          from: 'users',
-          localField: '_id',
-          foreignField: '_id',
-          as: 'sellerInfo',
-        },
-      },
-      { $unwind: '$sellerInfo' },
-      {
-        $project: {
-          _id: '$sellerInfo._id',
-          name: {
-            $concat: ['$sellerInfo.firstName', ' ', '$sellerInfo.lastName'],
-          },
-          storeName: '$sellerInfo.storeName',
-          productCount: 1,
-        },
-      },
-      { $sort: { name: 1 } },
-    ]);
+      // Values are stored typed; match the text and its number/boolean form
+      const values = value
+        .split('|')
+        .map((item) => item.trim())
+        .filter(Boolean)
+        .flatMap((item): Array<string | number | boolean> => {
+          if (item === 'true') return [item, true];
+          if (item === 'false') return [item, false];
+          return Number.isFinite(Number(item)) ? [item, Number(item)] : [item];
+        });
+      conditions[field] = { $in: values };
+    });
 
-    return {
-      categories,
-      priceRanges,
-      tags,
-      sellers,
-    };
+    return conditions;
   }
 
   async getProductsByCampaign(campaignId: string, page = 1, limit = 10) {
@@ -23,6 +23,14 @@ export interface ProductVector {
   };
 }
 
+/**
+ * A purchase weighs as much as this many views in product popularity
+ */
+export const PURCHASE_POPULARITY_WEIGHT = 3;
+
+const POPULARITY_CACHE_KEY = 'product_popularity';
+const POPULARITY_CACHE_TTL_MS = 10 * 60 * 1000; // 10 dakika
+
 export interface UserVector {
   userId: string;
   vector: number[];
@@ -35,6 +43,8 @@ export interface UserVector {
 
 @Injectable()
 export class RecommendationsService {
+  private pendingPopularity?: Promise<Record<string, number>>;
+
   constructor(
     @Inject(CACHE_MANAGER) private cacheManager: Cache,
     @InjectModel(UserActivity.name)
@@ -506,22 +516,10 @@ export class RecommendationsService {
    * Popüler ürünleri getir
    */
   async getPopularProducts(limit: number = 10): Promise<any[]> {
-    // Tüm kullanıcı aktivitelerini topla
-    const allActivities = await this.userActivityModel.find().exec();
-
-    // Ürün görüntülenme sayılarını hesapla
-    const productViewCounts: { [key: string]: number } = {};
-
-    allActivities.forEach((activity) => {
-      activity.viewedProducts.forEach((productId) => {
-        const productIdStr = productId.toString();
-        productViewCounts[productIdStr] =
-          (productViewCounts[productIdStr] || 0) + 1;
-      });
-    });
+    const popularity = await this.getProductPopularity();
 
     // En popüler ürünleri bul
-    const popularProductIds = Object.entries(productViewCounts)
+    const popularProductIds = Object.entries(popularity)
       .sort(([, a], [, b]) => b - a)
       .slice(0, limit)
       .map(([productId]) => new Types.ObjectId(productId));
@@ -546,7 +544,7 @@ export class RecommendationsService {
           const product = productMap.get(id.toString());
           if (product) {
             const productObj = product.toObject();
-            productObj.popularity = productViewCounts[id.toString()];
+            productObj.popularity = popularity[id.toString()];
             return productObj;
           }
           return null;
@@ -572,6 +570,60 @@ export class RecommendationsService {
     return products;
   }
 
+  /**
+   * Ürün popülerlik puanları
+   *
+   * Each customer who viewed a product adds one point, each customer who
+   * bought it PURCHASE_POPULARITY_WEIGHT points. Cached for ten minutes;
+   * concurrent cache misses share one computation.
+   *
+   * @returns Popularity by product ID; products without activity are omitted
+   */
+  async getProductPopularity(): Promise<Record<string, number>> {
+    const cached =
+      await this.cacheManager.get<Record<string, number>>(POPULARITY_CACHE_KEY);
+    if (cached) return cached;
+
+    if (!this.pendingPopularity) {
+      this.pendingPopularity = this.computeProductPopularity().finally(() => {
+        this.pendingPopularity = undefined;
+      });
+    }
+    return this.pendingPopularity;
+  }
+
+  /**
+   * Count product views and purchases over all user activity and cache them
+   */
+  private async computeProductPopularity(): Promise<Record<string, number>> {
+    const countBy = (field: 'viewedProducts' | 'purchasedProducts') =>
+      this.userActivityModel.aggregate<{ _id: Types.ObjectId; count: number }>([
+        { $unwind: `$${field}` },
+        { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+      ]);
+    const [views, purchases] = await Promise.all([
+      countBy('viewedProducts'),
+      countBy('purchasedProducts'),
+    ]);
+
+    const popularity: Record<string, number> = {};
+    views.forEach(({ _id, count }) => {
+      popularity[_id.toString()] = count;
+    });
+    purchases.forEach(({ _id, count }) => {
+      const productId = _id.toString();
+      popularity[productId] =
+        (popularity[productId] || 0) + count * PURCHASE_POPULARITY_WEIGHT;
+    });
+
+    await this.cacheManager.set(
+      POPULARITY_CACHE_KEY,
+      popularity,
+      POPULARITY_CACHE_TTL_MS,
+    );
+    return popularity;
+  }
+
   /**
    * Kategori bazlı öneriler
    */
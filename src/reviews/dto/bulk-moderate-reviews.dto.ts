@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { Types } from 'mongoose';
+import { rejectReviewSchema } from './reject-review.dto';
+
+export const bulkModerateReviewsSchema = z
+  .object({
+    action: z.enum(['approve', 'reject']),
+    reviewIds: z
+      .array(
+        z
+          .string()
+          .refine(
+            (value) => Types.ObjectId.isValid(value),
+            'Invalid review ID',
+          ),
+      )
+      .min(1, 'At least one review ID is required')
+      .max(100, 'At most 100 reviews can be moderated at once'),
+    /** Required when rejecting; emailed to every author */
+    reason: rejectReviewSchema.shape.reason.optional(),
+  })
+  .refine((data) => data.action !== 'reject' || !!data.reason, {
+    message: 'A reason is required to reject reviews',
+    path: ['reason'],
+  });
+
+export type BulkModerateReviewsDto = z.infer<typeof bulkModerateReviewsSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Types } from 'mongoose';
 
 /**
  * Create Review Request Schema
@@ -8,6 +9,8 @@ import { z } from 'zod';
  *
  * @description Validation rules:
  * - productId: Required MongoDB ObjectId string
+ * - orderItemId: Optional order line ObjectId string; defaults to a
+ *   delivered, not yet reviewed purchase of the product
  * - rating: Integer between 1-5 (inclusive)
  * - comment: String between 10-1000 characters
  *
@@ -26,6 +29,12 @@ export const createReviewSchema = z.object({
   /** MongoDB ObjectId of the product being reviewed */
   productId: z.string().min(1, 'Product ID is required'),
 
+  /** Order line the review is for, from the awaiting-review list */
+  orderItemId: z
+    .string()
+    .refine((value) => Types.ObjectId.isValid(value), 'Invalid order item ID')
+    .optional(),
+
   /** Rating score from 1 (worst) to 5 (best) */
   rating: z
     .number()
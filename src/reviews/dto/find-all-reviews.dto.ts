@@ -20,7 +20,21 @@ export const findAllReviewsSchema = z.object({
     .max(5, 'Rating cannot exceed 5')
     .optional(),
   isApproved: z.boolean().optional(),
-  sortBy: z.enum(['rating', 'createdAt', 'updatedAt']).default('createdAt'),
+  /** Moderation state; the admin list shows the pending queue by default */
+  status: z.enum(['pending', 'approved', 'rejected']).optional(),
+  verifiedPurchase: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  sortBy: z
+    .enum([
+      'rating',
+      'createdAt',
+      'updatedAt',
+      'verifiedPurchase',
+      'helpfulCount',
+    ])
+    .default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
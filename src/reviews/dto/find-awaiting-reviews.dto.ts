@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const findAwaitingReviewsSchema = z.object({
+  page: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page number must be 1 or greater')
+    .default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be 1 or greater')
+    .max(100, 'Limit cannot exceed 100')
+    .default(10),
+});
+
+export type FindAwaitingReviewsDto = z.infer<typeof findAwaitingReviewsSchema>;
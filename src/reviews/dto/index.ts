@@ -1,3 +1,7 @@
 export * from './create-review.dto';
 export * from './update-review.dto';
 export * from './find-all-reviews.dto';
+export * from './find-awaiting-reviews.dto';
+export * from './vote-review.dto';
+export * from './reject-review.dto';
+export * from './bulk-moderate-reviews.dto';
@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const rejectReviewSchema = z.object({
+  /** Explanation emailed to the review author */
+  reason: z
+    .string()
+    .trim()
+    .min(3, 'Rejection reason must be at least 3 characters')
+    .max(500, 'Rejection reason cannot exceed 500 characters'),
+});
+
+export type RejectReviewDto = z.infer<typeof rejectReviewSchema>;
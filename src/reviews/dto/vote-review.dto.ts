@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+export const voteReviewSchema = z.object({
+  /** True for helpful, false for unhelpful */
+  helpful: z.boolean(),
+});
+
+export type VoteReviewDto = z.infer<typeof voteReviewSchema>;
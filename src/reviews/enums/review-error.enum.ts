@@ -5,13 +5,28 @@ export enum ReviewError {
   INVALID_RATING = 'INVALID_RATING',
   UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
   REVIEW_NOT_APPROVED = 'REVIEW_NOT_APPROVED',
+  PURCHASE_REQUIRED = 'PURCHASE_REQUIRED',
+  NO_IMAGES = 'NO_IMAGES',
+  INVALID_IMAGE = 'INVALID_IMAGE',
+  TOO_MANY_IMAGES = 'TOO_MANY_IMAGES',
+  IMAGE_UPLOAD_FAILED = 'IMAGE_UPLOAD_FAILED',
+  CANNOT_VOTE_OWN_REVIEW = 'CANNOT_VOTE_OWN_REVIEW',
+  ALREADY_VOTED = 'ALREADY_VOTED',
 }
 
 export const ReviewErrorMessages = {
   [ReviewError.REVIEW_NOT_FOUND]: 'Review not found',
   [ReviewError.PRODUCT_NOT_FOUND]: 'Product not found',
-  [ReviewError.ALREADY_REVIEWED]: 'You have already reviewed this product',
+  [ReviewError.ALREADY_REVIEWED]: 'You have already reviewed this purchase',
   [ReviewError.INVALID_RATING]: 'Rating must be between 1 and 5',
   [ReviewError.UNAUTHORIZED_ACCESS]: 'Unauthorized access to this review',
   [ReviewError.REVIEW_NOT_APPROVED]: 'Review is not approved yet',
+  [ReviewError.PURCHASE_REQUIRED]:
+    'You can only review products delivered to you',
+  [ReviewError.NO_IMAGES]: 'At least one image is required',
+  [ReviewError.INVALID_IMAGE]: 'Review images must be images of at most 5MB',
+  [ReviewError.TOO_MANY_IMAGES]: 'A review can have at most 5 images',
+  [ReviewError.IMAGE_UPLOAD_FAILED]: 'Failed to upload review images',
+  [ReviewError.CANNOT_VOTE_OWN_REVIEW]: 'You cannot vote on your own review',
+  [ReviewError.ALREADY_VOTED]: 'You have already voted on this review',
 };
@@ -0,0 +1,185 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import { createHash } from 'crypto';
+import {
+  Review,
+  ReviewDocument,
+  ReviewModerationReason,
+  ReviewModerationStatus,
+} from '../schemas/review.schema';
+import {
+  escapeRegExp,
+  normalizeSearchQuery,
+  normalizeSearchText,
+} from '../search/search-query.util';
+
+/**
+ * Short comments like "great product" are legitimately posted by many
+ * customers, so only longer texts count as duplicates
+ */
+const MIN_DUPLICATE_LENGTH = 30;
+
+/**
+ * Caps are only judged on comments with at least this many letters
+ */
+const MIN_CAPS_LETTERS = 10;
+
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|info|biz|io|co|me|shop|store|xyz|tr)\b/i;
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+// Ten or more digits, optionally separated by spaces, dots, dashes or brackets
+const PHONE_PATTERN = /(?:\+?\d[\s.\-()]*){10,}/;
+
+export interface ReviewScreeningResult {
+  isApproved: boolean;
+  moderationStatus: ReviewModerationStatus;
+  moderationReasons: ReviewModerationReason[];
+  commentHash: string;
+}
+
+/**
+ * Review Screening Service
+ *
+ * Runs the automated checks configured under app.reviewModeration before a
+ * review goes live:
+ * - Banned words
+ * - Links, email addresses and phone numbers
+ * - Excessive capital letters
+ * - The same text already posted from another account
+ *
+ * Reviews with findings wait in the admin moderation queue.
+ */
+@Injectable()
+export class ReviewScreeningService {
+  constructor(
+    @InjectModel(Review.name) private reviewModel: Model<ReviewDocument>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Screen a review comment and decide its moderation state
+   *
+   * @param comment - Review comment
+   * @param userId - Review author
+   * @param extraReasons - Findings known beforehand, e.g. new images
+   */
+  async screen(
+    comment: string,
+    userId: Types.ObjectId | string,
+    extraReasons: ReviewModerationReason[] = [],
+  ): Promise<ReviewScreeningResult> {
+    const commentHash = this.hashComment(comment);
+    const reasons = new Set<ReviewModerationReason>([
+      ...extraReasons,
+      ...this.findTextIssues(comment),
+    ]);
+
+    if (
+      this.configService.get<boolean>(
+        'app.reviewModeration.detectDuplicates',
+      ) &&
+      (await this.isDuplicate(comment, commentHash, userId))
+    ) {
+      reasons.add(ReviewModerationReason.DUPLICATE_TEXT);
+    }
+
+    const autoApprove = this.configService.get<boolean>(
+      'app.reviewModeration.autoApprove',
+    );
+    const isApproved = !!autoApprove && reasons.size === 0;
+
+    return {
+      isApproved,
+      moderationStatus: isApproved
+        ? ReviewModerationStatus.APPROVED
+        : ReviewModerationStatus.PENDING,
+      moderationReasons: [...reasons],
+      commentHash,
+    };
+  }
+
+  /**
+   * Checks that only need the text itself
+   *
+   * @private
+   */
+  private findTextIssues(comment: string): ReviewModerationReason[] {
+    const reasons: ReviewModerationReason[] = [];
+
+    const bannedWords =
+      this.configService.get<string[]>('app.reviewModeration.bannedWords') ??
+      [];
+    const normalizedComment = ` ${normalizeSearchQuery(comment)} `;
+    const hasBannedWord = bannedWords.some((word) => {
+      const normalizedWord = normalizeSearchQuery(word);
+      return (
+        normalizedWord &&
+        new RegExp(` ${escapeRegExp(normalizedWord)} `).test(normalizedComment)
+      );
+    });
+    if (hasBannedWord) {
+      reasons.push(ReviewModerationReason.BANNED_WORDS);
+    }
+
+    if (
+      this.configService.get<boolean>('app.reviewModeration.detectContactInfo')
+    ) {
+      // Check emails first: their domain would also pass as a link
+      if (EMAIL_PATTERN.test(comment)) {
+        reasons.push(ReviewModerationReason.CONTAINS_EMAIL);
+      } else if (LINK_PATTERN.test(comment)) {
+        reasons.push(ReviewModerationReason.CONTAINS_LINK);
+      }
+      if (PHONE_PATTERN.test(comment)) {
+        reasons.push(ReviewModerationReason.CONTAINS_PHONE);
+      }
+    }
+
+    const maxCapsRatio =
+      this.configService.get<number>('app.reviewModeration.maxCapsRatio') ?? 1;
+    const letters = comment.replace(/[^\p{L}]/gu, '');
+    const capitals = letters.replace(/[^\p{Lu}]/gu, '');
+    if (
+      letters.length >= MIN_CAPS_LETTERS &&
+      capitals.length / letters.length > maxCapsRatio
+    ) {
+      reasons.push(ReviewModerationReason.EXCESSIVE_CAPS);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Whether another account already posted the same text
+   *
+   * @private
+   */
+  private async isDuplicate(
+    comment: string,
+    commentHash: string,
+    userId: Types.ObjectId | string,
+  ): Promise<boolean> {
+    if (normalizeSearchText(comment).trim().length < MIN_DUPLICATE_LENGTH) {
+      return false;
+    }
+
+    const duplicate = await this.reviewModel.exists({
+      commentHash,
+      userId: { $ne: new Types.ObjectId(userId) },
+    });
+    return !!duplicate;
+  }
+
+  /**
+   * Hash of the comment ignoring case, accents, punctuation and spacing
+   *
+   * @private
+   */
+  private hashComment(comment: string): string {
+    return createHash('sha256')
+      .update(normalizeSearchQuery(comment))
+      .digest('hex');
+  }
+}
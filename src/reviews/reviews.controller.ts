@@ -8,7 +8,10 @@ import {
   Param,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFiles,
 } from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -17,17 +20,26 @@ import {
   ApiQuery,
   ApiBearerAuth,
   ApiBody,
+  ApiConsumes,
 } from '@nestjs/swagger';
-import { ReviewsService } from './reviews.service';
+import { MAX_REVIEW_IMAGES, ReviewsService } from './reviews.service';
 import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
 import { createReviewSchema } from './dto/create-review.dto';
 import { updateReviewSchema } from './dto/update-review.dto';
 import { findAllReviewsSchema } from './dto/find-all-reviews.dto';
+import { findAwaitingReviewsSchema } from './dto/find-awaiting-reviews.dto';
+import { voteReviewSchema } from './dto/vote-review.dto';
+import { rejectReviewSchema } from './dto/reject-review.dto';
+import { bulkModerateReviewsSchema } from './dto/bulk-moderate-reviews.dto';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { UserRole } from '../schemas/user.schema';
+import {
+  ReviewModerationReason,
+  ReviewModerationStatus,
+} from '../schemas/review.schema';
 
 @ApiTags('Reviews')
 @Controller('reviews')
@@ -72,6 +84,19 @@ export class ReviewsController {
               title: { type: 'string' },
               comment: { type: 'string' },
               isApproved: { type: 'boolean' },
+              verifiedPurchase: { type: 'boolean' },
+              imageUrls: { type: 'array', items: { type: 'string' } },
+              helpfulCount: { type: 'number' },
+              unhelpfulCount: { type: 'number' },
+              sellerReply: {
+                type: 'object',
+                properties: {
+                  sellerId: { type: 'string' },
+                  comment: { type: 'string' },
+                  repliedAt: { type: 'string', format: 'date-time' },
+                  editedAt: { type: 'string', format: 'date-time' },
+                },
+              },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
               product: {
@@ -99,6 +124,64 @@ export class ReviewsController {
     return this.reviewsService.getCustomerReviews(userId, query);
   }
 
+  /**
+   * Get customer's delivered purchases awaiting a review
+   */
+  @Get('customer/awaiting-review')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CUSTOMER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get products awaiting review',
+    description:
+      'Retrieve delivered order items the authenticated customer has not reviewed yet (Customer only)',
+  })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiResponse({
+    status: 200,
+    description: 'Products awaiting review retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              orderId: { type: 'string' },
+              orderItemId: {
+                type: 'string',
+                description: 'Send when creating the review',
+              },
+              productId: { type: 'string' },
+              variantName: { type: 'string' },
+              orderedAt: { type: 'string', format: 'date-time' },
+              product: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  imageUrls: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+          },
+        },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getAwaitingReviews(
+    @CurrentUser('id') userId: string,
+    @Query(new ZodValidationPipe(findAwaitingReviewsSchema)) query: any,
+  ) {
+    return this.reviewsService.getAwaitingReviews(userId, query);
+  }
+
   /**
    * Get all reviews (admin only)
    */
@@ -109,7 +192,7 @@ export class ReviewsController {
   @ApiOperation({
     summary: 'Get all reviews (Admin)',
     description:
-      'Retrieve all reviews with filtering and pagination (Admin only)',
+      'Retrieve all reviews with filtering and pagination (Admin only). Without status or isApproved, returns the moderation queue of pending reviews with the screening reasons that held them',
   })
   @ApiQuery({ name: 'page', required: false, description: 'Page number' })
   @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
@@ -124,6 +207,12 @@ export class ReviewsController {
     required: false,
     description: 'Approval status filter',
   })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['pending', 'approved', 'rejected'],
+    description: 'Moderation status filter (default: pending)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Reviews retrieved successfully',
@@ -142,6 +231,34 @@ export class ReviewsController {
               title: { type: 'string' },
               comment: { type: 'string' },
               isApproved: { type: 'boolean' },
+              moderationStatus: {
+                type: 'string',
+                enum: Object.values(ReviewModerationStatus),
+              },
+              moderationReasons: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: Object.values(ReviewModerationReason),
+                },
+                description: 'Screening findings that held the review',
+              },
+              rejectionReason: { type: 'string' },
+              moderatedBy: { type: 'string' },
+              moderatedAt: { type: 'string', format: 'date-time' },
+              verifiedPurchase: { type: 'boolean' },
+              imageUrls: { type: 'array', items: { type: 'string' } },
+              helpfulCount: { type: 'number' },
+              unhelpfulCount: { type: 'number' },
+              sellerReply: {
+                type: 'object',
+                properties: {
+                  sellerId: { type: 'string' },
+                  comment: { type: 'string' },
+                  repliedAt: { type: 'string', format: 'date-time' },
+                  editedAt: { type: 'string', format: 'date-time' },
+                },
+              },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
               user: {
@@ -191,6 +308,26 @@ export class ReviewsController {
   @ApiQuery({ name: 'page', required: false, description: 'Page number' })
   @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
   @ApiQuery({ name: 'rating', required: false, description: 'Rating filter' })
+  @ApiQuery({
+    name: 'verifiedPurchase',
+    required: false,
+    enum: ['true', 'false'],
+    description: 'Only verified (or unverified) purchase reviews',
+  })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    enum: [
+      'rating',
+      'createdAt',
+      'updatedAt',
+      'verifiedPurchase',
+      'helpfulCount',
+    ],
+    description:
+      'Sort field; verifiedPurchase lists verified reviews first, helpfulCount the most helpful',
+  })
+  @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'] })
   @ApiResponse({
     status: 200,
     description: 'Product reviews retrieved successfully',
@@ -209,6 +346,19 @@ export class ReviewsController {
               title: { type: 'string' },
               comment: { type: 'string' },
               isApproved: { type: 'boolean' },
+              verifiedPurchase: { type: 'boolean' },
+              imageUrls: { type: 'array', items: { type: 'string' } },
+              helpfulCount: { type: 'number' },
+              unhelpfulCount: { type: 'number' },
+              sellerReply: {
+                type: 'object',
+                properties: {
+                  sellerId: { type: 'string' },
+                  comment: { type: 'string' },
+                  repliedAt: { type: 'string', format: 'date-time' },
+                  editedAt: { type: 'string', format: 'date-time' },
+                },
+              },
               createdAt: { type: 'string', format: 'date-time' },
               updatedAt: { type: 'string', format: 'date-time' },
               user: {
@@ -268,6 +418,7 @@ export class ReviewsController {
       },
     },
   })
+  @ApiResponse({ status: 404, description: 'Product not found' })
   async getProductReviewStats(@Param('productId') productId: string) {
     return this.reviewsService.getProductReviewStats(productId);
   }
@@ -294,6 +445,19 @@ export class ReviewsController {
         title: { type: 'string' },
         comment: { type: 'string' },
         isApproved: { type: 'boolean' },
+        verifiedPurchase: { type: 'boolean' },
+        imageUrls: { type: 'array', items: { type: 'string' } },
+        helpfulCount: { type: 'number' },
+        unhelpfulCount: { type: 'number' },
+        sellerReply: {
+          type: 'object',
+          properties: {
+            sellerId: { type: 'string' },
+            comment: { type: 'string' },
+            repliedAt: { type: 'string', format: 'date-time' },
+            editedAt: { type: 'string', format: 'date-time' },
+          },
+        },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
         user: {
@@ -339,6 +503,11 @@ export class ReviewsController {
           description: 'Product ID to review',
           example: '507f1f77bcf86cd799439011',
         },
+        orderItemId: {
+          type: 'string',
+          description:
+            'Delivered order item to review; defaults to one not yet reviewed',
+        },
         rating: {
           type: 'number',
           minimum: 1,
@@ -376,12 +545,29 @@ export class ReviewsController {
         title: { type: 'string' },
         comment: { type: 'string' },
         isApproved: { type: 'boolean' },
+        verifiedPurchase: { type: 'boolean' },
+        imageUrls: { type: 'array', items: { type: 'string' } },
+        helpfulCount: { type: 'number' },
+        unhelpfulCount: { type: 'number' },
+        sellerReply: {
+          type: 'object',
+          properties: {
+            sellerId: { type: 'string' },
+            comment: { type: 'string' },
+            repliedAt: { type: 'string', format: 'date-time' },
+            editedAt: { type: 'string', format: 'date-time' },
+          },
+        },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
       },
     },
   })
-  @ApiResponse({ status: 400, description: 'Invalid data or already reviewed' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Invalid data, product not delivered to the user or purchase already reviewed',
+  })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 404, description: 'Product not found' })
   async createReview(
@@ -444,6 +630,19 @@ export class ReviewsController {
         title: { type: 'string' },
         comment: { type: 'string' },
         isApproved: { type: 'boolean' },
+        verifiedPurchase: { type: 'boolean' },
+        imageUrls: { type: 'array', items: { type: 'string' } },
+        helpfulCount: { type: 'number' },
+        unhelpfulCount: { type: 'number' },
+        sellerReply: {
+          type: 'object',
+          properties: {
+            sellerId: { type: 'string' },
+            comment: { type: 'string' },
+            repliedAt: { type: 'string', format: 'date-time' },
+            editedAt: { type: 'string', format: 'date-time' },
+          },
+        },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
       },
@@ -460,6 +659,98 @@ export class ReviewsController {
     return this.reviewsService.updateReview(id, userId, updateReviewDto);
   }
 
+  /**
+   * Attach images to a review
+   *
+   * @param reviewId - Review ID
+   * @param userId - Authenticated review author ID
+   * @param images - Images uploaded to MinIO
+   * @returns Updated review, waiting for approval again
+   */
+  @Post(':id/images')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(FilesInterceptor('images', MAX_REVIEW_IMAGES))
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Upload review images',
+    description: `Attach images to a review (only by the review author, at most ${MAX_REVIEW_IMAGES} per review). The review needs approval again.`,
+  })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['images'],
+      properties: {
+        images: {
+          type: 'array',
+          maxItems: MAX_REVIEW_IMAGES,
+          items: { type: 'string', format: 'binary' },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Images uploaded successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'No images, invalid images or image limit exceeded',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Not the review author' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async addReviewImages(
+    @Param('id') reviewId: string,
+    @CurrentUser('id') userId: string,
+    @UploadedFiles() images: Express.Multer.File[] = [],
+  ) {
+    return this.reviewsService.addReviewImages(reviewId, userId, images);
+  }
+
+  /**
+   * Vote a review helpful or unhelpful
+   */
+  @Post(':id/vote')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Vote on review',
+    description:
+      'Vote an approved review helpful or unhelpful; one vote per user, voting the other way changes it',
+  })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['helpful'],
+      properties: { helpful: { type: 'boolean', example: true } },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Vote recorded',
+    schema: {
+      type: 'object',
+      properties: {
+        helpful: { type: 'boolean' },
+        helpfulCount: { type: 'number' },
+        unhelpfulCount: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Review not approved, own review or already voted',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async voteReview(
+    @Param('id') reviewId: string,
+    @CurrentUser('id') userId: string,
+    @Body(new ZodValidationPipe(voteReviewSchema)) body: any,
+  ) {
+    return this.reviewsService.voteReview(reviewId, userId, body.helpful);
+  }
+
   /**
    * Delete review
    */
@@ -500,7 +791,7 @@ export class ReviewsController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Approve review (Admin)',
-    description: 'Approve a review (Admin only)',
+    description: 'Approve a review and publish it (Admin only)',
   })
   @ApiParam({ name: 'id', description: 'Review ID' })
   @ApiResponse({
@@ -516,6 +807,9 @@ export class ReviewsController {
         title: { type: 'string' },
         comment: { type: 'string' },
         isApproved: { type: 'boolean', example: true },
+        moderationStatus: { type: 'string', example: 'approved' },
+        moderatedBy: { type: 'string' },
+        moderatedAt: { type: 'string', format: 'date-time' },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
       },
@@ -527,8 +821,11 @@ export class ReviewsController {
     description: 'Forbidden - Admin access required',
   })
   @ApiResponse({ status: 404, description: 'Review not found' })
-  async approveReview(@Param('id') id: string) {
-    return this.reviewsService.approveReview(id);
+  async approveReview(
+    @Param('id') id: string,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.reviewsService.approveReview(id, adminId);
   }
 
   /**
@@ -540,9 +837,22 @@ export class ReviewsController {
   @ApiBearerAuth()
   @ApiOperation({
     summary: 'Reject review (Admin)',
-    description: 'Reject a review (Admin only)',
+    description:
+      'Reject a review; the reason is emailed to the review author (Admin only)',
   })
   @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['reason'],
+      properties: {
+        reason: {
+          type: 'string',
+          example: 'Reviews must not contain contact details',
+        },
+      },
+    },
+  })
   @ApiResponse({
     status: 200,
     description: 'Review rejected successfully',
@@ -556,18 +866,78 @@ export class ReviewsController {
         title: { type: 'string' },
         comment: { type: 'string' },
         isApproved: { type: 'boolean', example: false },
+        moderationStatus: { type: 'string', example: 'rejected' },
+        rejectionReason: { type: 'string' },
+        moderatedBy: { type: 'string' },
+        moderatedAt: { type: 'string', format: 'date-time' },
         createdAt: { type: 'string', format: 'date-time' },
         updatedAt: { type: 'string', format: 'date-time' },
       },
     },
   })
+  @ApiResponse({ status: 400, description: 'Rejection reason missing' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
     status: 403,
     description: 'Forbidden - Admin access required',
   })
   @ApiResponse({ status: 404, description: 'Review not found' })
-  async rejectReview(@Param('id') id: string) {
-    return this.reviewsService.rejectReview(id);
+  async rejectReview(
+    @Param('id') id: string,
+    @CurrentUser('id') adminId: string,
+    @Body(new ZodValidationPipe(rejectReviewSchema)) body: any,
+  ) {
+    return this.reviewsService.rejectReview(id, adminId, body.reason);
+  }
+
+  /**
+   * Approve or reject several reviews (admin only)
+   */
+  @Post('admin/bulk-moderate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Bulk moderate reviews (Admin)',
+    description:
+      'Approve or reject up to 100 reviews at once; rejection reasons are emailed to the authors (Admin only)',
+  })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['action', 'reviewIds'],
+      properties: {
+        action: { type: 'string', enum: ['approve', 'reject'] },
+        reviewIds: { type: 'array', items: { type: 'string' } },
+        reason: {
+          type: 'string',
+          description: 'Required when rejecting',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Reviews moderated',
+    schema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['approve', 'reject'] },
+        moderated: { type: 'number' },
+        notFound: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Validation error' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async bulkModerateReviews(
+    @CurrentUser('id') adminId: string,
+    @Body(new ZodValidationPipe(bulkModerateReviewsSchema)) body: any,
+  ) {
+    return this.reviewsService.bulkModerateReviews(adminId, body);
   }
 }
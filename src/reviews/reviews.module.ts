@@ -2,18 +2,30 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Review, ReviewSchema } from '../schemas/review.schema';
 import { Product, ProductSchema } from '../schemas/product.schema';
+import { Order, OrderSchema } from '../schemas/order.schema';
+import { ReviewVote, ReviewVoteSchema } from '../schemas/review-vote.schema';
 import { ReviewsController } from './reviews.controller';
 import { ReviewsService } from './reviews.service';
+import { MinioService } from '../minio/minio.service';
+import { EmailService } from '../common/services/email.service';
+import { ReviewScreeningService } from './review-screening.service';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Review.name, schema: ReviewSchema },
       { name: Product.name, schema: ProductSchema },
+      { name: Order.name, schema: OrderSchema },
+      { name: ReviewVote.name, schema: ReviewVoteSchema },
     ]),
   ],
   controllers: [ReviewsController],
-  providers: [ReviewsService],
+  providers: [
+    ReviewsService,
+    ReviewScreeningService,
+    MinioService,
+    EmailService,
+  ],
   exports: [ReviewsService],
 })
 export class ReviewsModule {}
@@ -5,19 +5,55 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
 import { Model, Types } from 'mongoose';
-import { Review, ReviewDocument } from '../schemas/review.schema';
+import {
+  PENDING_REVIEW_FILTER,
+  Review,
+  ReviewDocument,
+  ReviewModerationReason,
+  ReviewModerationStatus,
+} from '../schemas/review.schema';
+import { ReviewVote, ReviewVoteDocument } from '../schemas/review-vote.schema';
 import { Product, ProductDocument } from '../schemas/product.schema';
+import {
+  isOrderItemDelivered,
+  Order,
+  ORDER_ITEM_DELIVERED,
+  OrderDocument,
+  OrderItem,
+} from '../schemas/order.schema';
 import { CreateReviewDto } from './dto/create-review.dto';
 import { UpdateReviewDto } from './dto/update-review.dto';
 import { FindAllReviewsDto } from './dto/find-all-reviews.dto';
+import { FindAwaitingReviewsDto } from './dto/find-awaiting-reviews.dto';
+import { BulkModerateReviewsDto } from './dto/bulk-moderate-reviews.dto';
 import { ReviewError, ReviewErrorMessages } from './enums/review-error.enum';
+import { MinioService } from '../minio/minio.service';
+import { EmailService } from '../common/services/email.service';
+import { ReviewScreeningService } from './review-screening.service';
+
+/**
+ * Maximum number of images attached to a review
+ */
+export const MAX_REVIEW_IMAGES = 5;
+
+const MAX_REVIEW_IMAGE_SIZE = 5 * 1024 * 1024;
+
+type ReviewStatusFilter = 'pending' | 'approved' | 'rejected';
 
 @Injectable()
 export class ReviewsService {
   constructor(
     @InjectModel(Review.name) private reviewModel: Model<ReviewDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
+    @InjectModel(ReviewVote.name)
+    private reviewVoteModel: Model<ReviewVoteDocument>,
+    private readonly minioService: MinioService,
+    private readonly configService: ConfigService,
+    private readonly emailService: EmailService,
+    private readonly reviewScreeningService: ReviewScreeningService,
   ) {}
 
   /**
@@ -29,6 +65,7 @@ export class ReviewsService {
       limit = 10,
       rating,
       isApproved,
+      status,
       sortBy = 'createdAt',
       sortOrder = 'desc',
     } = options;
@@ -41,7 +78,9 @@ export class ReviewsService {
       query.rating = rating;
     }
 
-    if (isApproved !== undefined) {
+    if (status) {
+      Object.assign(query, this.buildStatusFilter(status));
+    } else if (isApproved !== undefined) {
       query.isApproved = Boolean(isApproved);
     }
 
@@ -70,8 +109,75 @@ export class ReviewsService {
     };
   }
 
+  /**
+   * Get delivered order lines the customer has not reviewed yet
+   */
+  async getAwaitingReviews(userId: string, options: FindAwaitingReviewsDto) {
+    const { page = 1, limit = 10 } = options;
+
+    const [result] = await this.orderModel.aggregate<{
+      data: any[];
+      total: Array<{ count: number }>;
+    }>([
+      { $match: { userId: new Types.ObjectId(userId) } },
+      { $unwind: '$items' },
+      { $match: { $expr: ORDER_ITEM_DELIVERED } },
+      {
+        $lookup: {
+          from: 'reviews',
+          localField: 'items._id',
+          foreignField: 'orderItemId',
+          as: 'reviews',
+        },
+      },
+      { $match: { reviews: { $size: 0 } } },
+      { $sort: { updatedAt: -1, 'items._id': 1 } },
+      {
+        $facet: {
+          data: [
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+            {
+              $lookup: {
+                from: 'products',
+                localField: 'items.productId',
+                foreignField: '_id',
+                pipeline: [{ $project: { name: 1, imageUrls: 1 } }],
+                as: 'product',
+              },
+            },
+            {
+              $project: {
+                _id: 0,
+                orderId: '$_id',
+                orderItemId: '$items._id',
+                productId: '$items.productId',
+                variantName: '$items.variantName',
+                orderedAt: '$createdAt',
+                product: { $arrayElemAt: ['$product', 0] },
+              },
+            },
+          ],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ]);
+
+    const total = result.total[0]?.count ?? 0;
+    return {
+      data: result.data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
   /**
    * Get all reviews with filtering and pagination
+   *
+   * Without a status or approval filter this is the moderation queue of
+   * pending reviews, with the screening reasons that held them.
    */
   async findAllReviews(options: FindAllReviewsDto) {
     const {
@@ -80,6 +186,8 @@ export class ReviewsService {
       productId,
       rating,
       isApproved,
+      status,
+      verifiedPurchase,
       sortBy = 'createdAt',
       sortOrder = 'desc',
     } = options;
@@ -94,17 +202,32 @@ export class ReviewsService {
       query.rating = rating;
     }
 
-    // isApproved parametresi gönderilirse true, gönderilmezse false
-    if (isApproved !== undefined) {
+    // isApproved parametresi gönderilirse true, gönderilmezse bekleyenler
+    if (status) {
+      Object.assign(query, this.buildStatusFilter(status));
+    } else if (isApproved !== undefined) {
       query.isApproved = true; // Parametre gönderildi, true olarak algıla
     } else {
-      query.isApproved = false; // Parametre gönderilmedi, false olarak algıla
+      Object.assign(query, PENDING_REVIEW_FILTER); // Moderasyon kuyruğu
+    }
+    console.log(
+      'Filtering by isApproved:',
+      isApproved,
+      'Query isApproved:',
+      query.isApproved,
+    );
+
+    if (verifiedPurchase !== undefined) {
+      query.verifiedPurchase = verifiedPurchase;
     }
-    console.log('Filtering by isApproved:', isApproved, 'Query isApproved:', query.isApproved);
 
     console.log('Final query:', JSON.stringify(query));
     const sortOptions: any = {};
     sortOptions[sortBy] = sortOrder === 'desc' ? -1 : 1;
+    // Eşit olanlar kendi içinde en yeniden eskiye
+    if (sortBy === 'verifiedPurchase' || sortBy === 'helpfulCount') {
+      sortOptions.createdAt = -1;
+    }
 
     const skip = (page - 1) * limit;
 
@@ -148,6 +271,7 @@ export class ReviewsService {
       ...options,
       productId,
       isApproved: true, // Only show approved reviews for public
+      status: 'approved' as const,
     };
 
     return this.findAllReviews(queryOptions);
@@ -174,9 +298,12 @@ export class ReviewsService {
 
   /**
    * Create a new review
+   *
+   * Reviews are tied to a delivered order line of the product and marked as
+   * verified purchases; each line can be reviewed once.
    */
   async createReview(userId: string, createReviewDto: CreateReviewDto) {
-    const { productId, rating, comment } = createReviewDto;
+    const { productId, orderItemId, rating, comment } = createReviewDto;
 
     // Validate product exists
     const product = await this.productModel.findById(productId).exec();
@@ -186,30 +313,39 @@ export class ReviewsService {
       );
     }
 
-    // Check if user already reviewed this product
-    const existingReview = await this.reviewModel
-      .findOne({
-        productId: new Types.ObjectId(productId),
-        userId: new Types.ObjectId(userId),
-      })
-      .exec();
+    const purchase = await this.findReviewablePurchase(
+      userId,
+      productId,
+      orderItemId,
+    );
 
-    if (existingReview) {
-      throw new BadRequestException(
-        ReviewErrorMessages[ReviewError.ALREADY_REVIEWED],
-      );
-    }
+    // Clean reviews go live, the rest wait for an admin
+    const screening = await this.reviewScreeningService.screen(comment, userId);
 
     // Create review
     const review = new this.reviewModel({
       productId: new Types.ObjectId(productId),
       userId: new Types.ObjectId(userId),
+      orderId: purchase.orderId,
+      orderItemId: purchase.orderItemId,
+      verifiedPurchase: true,
       rating,
       comment,
-      isApproved: false, // Reviews require admin approval
+      ...screening,
     });
 
-    await review.save();
+    try {
+      await review.save();
+    } catch (error: any) {
+      // Concurrent reviews of the same line race on the unique index
+      if (error?.code === 11000) {
+        throw new BadRequestException(
+          ReviewErrorMessages[ReviewError.ALREADY_REVIEWED],
+        );
+      }
+      throw error;
+    }
+    await this.refreshProductRating(productId);
 
     // Populate and return
     return this.reviewModel
@@ -242,17 +378,28 @@ export class ReviewsService {
       );
     }
 
+    // Screen the edited text again
+    const screening = await this.reviewScreeningService.screen(
+      updateReviewDto.comment ?? review.comment,
+      userId,
+    );
+
     // Update review
     const updatedReview = await this.reviewModel
       .findByIdAndUpdate(
         reviewId,
-        { ...updateReviewDto, isApproved: false }, // Reset approval status after update
+        {
+          $set: { ...updateReviewDto, ...screening },
+          $unset: { rejectionReason: 1, moderatedBy: 1, moderatedAt: 1 },
+        },
         { new: true },
       )
       .populate('productId', 'name imageUrls')
       .populate('userId', 'firstName lastName')
       .exec();
 
+    await this.refreshProductRating(review.productId);
+
     return updatedReview;
   }
 
@@ -276,6 +423,9 @@ export class ReviewsService {
     }
 
     await this.reviewModel.findByIdAndDelete(reviewId).exec();
+    await this.reviewVoteModel.deleteMany({ reviewId: review._id });
+    await this.refreshProductRating(review.productId);
+    await this.deleteImages(review.imageUrls);
 
     return {
       message: 'Review deleted successfully',
@@ -283,19 +433,169 @@ export class ReviewsService {
   }
 
   /**
-   * Approve review (admin only)
+   * Attach images to a review (only by the review author)
+   *
+   * Images cannot be screened automatically, so the review waits for an
+   * admin again.
    */
-  async approveReview(reviewId: string) {
+  async addReviewImages(
+    reviewId: string,
+    userId: string,
+    images: Express.Multer.File[],
+  ) {
+    if (images.length === 0) {
+      throw new BadRequestException(ReviewErrorMessages[ReviewError.NO_IMAGES]);
+    }
+    const invalidImage = images.some(
+      (image) =>
+        !image.mimetype.startsWith('image/') ||
+        image.size > MAX_REVIEW_IMAGE_SIZE,
+    );
+    if (invalidImage) {
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.INVALID_IMAGE],
+      );
+    }
+
     const review = await this.reviewModel.findById(reviewId).exec();
+    if (!review) {
+      throw new NotFoundException(
+        ReviewErrorMessages[ReviewError.REVIEW_NOT_FOUND],
+      );
+    }
+    if (review.userId.toString() !== userId) {
+      throw new ForbiddenException(
+        ReviewErrorMessages[ReviewError.UNAUTHORIZED_ACCESS],
+      );
+    }
+    if (review.imageUrls.length + images.length > MAX_REVIEW_IMAGES) {
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.TOO_MANY_IMAGES],
+      );
+    }
+
+    const screening = await this.reviewScreeningService.screen(
+      review.comment,
+      userId,
+      [ReviewModerationReason.NEW_IMAGES],
+    );
+    const imageUrls = await this.uploadImages(images);
+
+    // Re-check the limit atomically against concurrent uploads
+    const updatedReview = await this.reviewModel
+      .findOneAndUpdate(
+        {
+          _id: review._id,
+          [`imageUrls.${MAX_REVIEW_IMAGES - images.length}`]: {
+            $exists: false,
+          },
+        },
+        {
+          $push: { imageUrls: { $each: imageUrls } },
+          $set: screening,
+          $unset: { rejectionReason: 1, moderatedBy: 1, moderatedAt: 1 },
+        },
+        { new: true },
+      )
+      .populate('productId', 'name imageUrls')
+      .populate('userId', 'firstName lastName')
+      .exec();
 
+    if (!updatedReview) {
+      await this.deleteImages(imageUrls);
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.TOO_MANY_IMAGES],
+      );
+    }
+
+    await this.refreshProductRating(review.productId);
+
+    return updatedReview;
+  }
+
+  /**
+   * Vote a review helpful or unhelpful
+   *
+   * Each user has one vote per review; voting the other way changes it.
+   */
+  async voteReview(reviewId: string, userId: string, helpful: boolean) {
+    const review = await this.reviewModel.findById(reviewId).exec();
     if (!review) {
       throw new NotFoundException(
         ReviewErrorMessages[ReviewError.REVIEW_NOT_FOUND],
       );
     }
+    if (!review.isApproved) {
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.REVIEW_NOT_APPROVED],
+      );
+    }
+    if (review.userId.toString() === userId) {
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.CANNOT_VOTE_OWN_REVIEW],
+      );
+    }
+
+    let previousVote: ReviewVoteDocument | null;
+    try {
+      previousVote = await this.reviewVoteModel.findOneAndUpdate(
+        { reviewId: review._id, userId: new Types.ObjectId(userId) },
+        { $set: { helpful } },
+        { upsert: true, new: false },
+      );
+    } catch (error: any) {
+      // Concurrent first votes race on the unique index
+      if (error?.code === 11000) {
+        throw new BadRequestException(
+          ReviewErrorMessages[ReviewError.ALREADY_VOTED],
+        );
+      }
+      throw error;
+    }
+
+    if (previousVote?.helpful === helpful) {
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.ALREADY_VOTED],
+      );
+    }
+
+    const counts: Record<string, number> = {
+      [helpful ? 'helpfulCount' : 'unhelpfulCount']: 1,
+    };
+    if (previousVote) {
+      counts[previousVote.helpful ? 'helpfulCount' : 'unhelpfulCount'] = -1;
+    }
 
-    review.isApproved = true;
-    await review.save();
+    const updatedReview = await this.reviewModel
+      .findByIdAndUpdate(
+        review._id,
+        { $inc: counts },
+        { new: true, timestamps: false },
+      )
+      .select('helpfulCount unhelpfulCount')
+      .lean();
+
+    return {
+      helpful,
+      helpfulCount: updatedReview?.helpfulCount ?? 0,
+      unhelpfulCount: updatedReview?.unhelpfulCount ?? 0,
+    };
+  }
+
+  /**
+   * Approve review (admin only)
+   */
+  async approveReview(reviewId: string, adminId: string) {
+    const [review] = await this.moderateReviews(
+      [reviewId],
+      adminId,
+      ReviewModerationStatus.APPROVED,
+    );
+    if (!review) {
+      throw new NotFoundException(
+        ReviewErrorMessages[ReviewError.REVIEW_NOT_FOUND],
+      );
+    }
 
     return this.reviewModel
       .findById(reviewId)
@@ -306,19 +606,22 @@ export class ReviewsService {
 
   /**
    * Reject review (admin only)
+   *
+   * The reason is emailed to the review author.
    */
-  async rejectReview(reviewId: string) {
-    const review = await this.reviewModel.findById(reviewId).exec();
-
+  async rejectReview(reviewId: string, adminId: string, reason: string) {
+    const [review] = await this.moderateReviews(
+      [reviewId],
+      adminId,
+      ReviewModerationStatus.REJECTED,
+      reason,
+    );
     if (!review) {
       throw new NotFoundException(
         ReviewErrorMessages[ReviewError.REVIEW_NOT_FOUND],
       );
     }
 
-    review.isApproved = false;
-    await review.save();
-
     return this.reviewModel
       .findById(reviewId)
       .populate('productId', 'name imageUrls')
@@ -326,55 +629,319 @@ export class ReviewsService {
       .exec();
   }
 
+  /**
+   * Approve or reject several reviews at once (admin only)
+   */
+  async bulkModerateReviews(adminId: string, dto: BulkModerateReviewsDto) {
+    const reviewIds = [...new Set(dto.reviewIds)];
+    const reviews =
+      dto.action === 'approve'
+        ? await this.moderateReviews(
+            reviewIds,
+            adminId,
+            ReviewModerationStatus.APPROVED,
+          )
+        : await this.moderateReviews(
+            reviewIds,
+            adminId,
+            ReviewModerationStatus.REJECTED,
+            dto.reason,
+          );
+
+    const moderatedIds = reviews.map((review) => review._id.toString());
+    return {
+      action: dto.action,
+      moderated: moderatedIds.length,
+      notFound: reviewIds.filter((id) => !moderatedIds.includes(id)),
+    };
+  }
+
   /**
    * Get product review statistics
+   *
+   * Read from the rating aggregates stored on the product
    */
   async getProductReviewStats(productId: string) {
-    const stats = await this.reviewModel.aggregate([
+    const product = await this.productModel
+      .findById(productId)
+      .select('averageRating reviewCount ratingHistogram')
+      .lean();
+    if (!product) {
+      throw new NotFoundException(
+        ReviewErrorMessages[ReviewError.PRODUCT_NOT_FOUND],
+      );
+    }
+
+    const histogram = product.ratingHistogram ?? [];
+    return {
+      averageRating: product.averageRating ?? 0,
+      totalReviews: product.reviewCount ?? 0,
+      ratingDistribution: Object.fromEntries(
+        [1, 2, 3, 4, 5].map((star) => [star, histogram[star - 1] ?? 0]),
+      ),
+    };
+  }
+
+  /**
+   * Recompute a product's rating aggregates from its approved reviews
+   *
+   * Called after every change to a review's rating or approval; recomputing
+   * instead of adjusting keeps the aggregates correct if a call is missed.
+   */
+  async refreshProductRating(productId: Types.ObjectId | string) {
+    const counts = await this.reviewModel.aggregate<{
+      _id: number;
+      count: number;
+    }>([
       {
         $match: {
           productId: new Types.ObjectId(productId),
           isApproved: true,
         },
       },
+      { $group: { _id: '$rating', count: { $sum: 1 } } },
+    ]);
+
+    const ratingHistogram = [0, 0, 0, 0, 0];
+    let reviewCount = 0;
+    let ratingSum = 0;
+    for (const { _id: rating, count } of counts) {
+      ratingHistogram[rating - 1] += count;
+      reviewCount += count;
+      ratingSum += rating * count;
+    }
+
+    await this.productModel.updateOne(
+      { _id: new Types.ObjectId(productId) },
       {
-        $group: {
-          _id: null,
-          averageRating: { $avg: '$rating' },
-          totalReviews: { $sum: 1 },
-          ratingDistribution: {
-            $push: '$rating',
-          },
+        $set: {
+          averageRating: reviewCount
+            ? Math.round((ratingSum / reviewCount) * 10) / 10
+            : 0,
+          reviewCount,
+          ratingHistogram,
         },
       },
-    ]);
+      { timestamps: false },
+    );
+  }
 
-    if (stats.length === 0) {
-      return {
-        averageRating: 0,
-        totalReviews: 0,
-        ratingDistribution: {
-          1: 0,
-          2: 0,
-          3: 0,
-          4: 0,
-          5: 0,
-        },
-      };
+  /**
+   * Query matching reviews in a moderation state
+   *
+   * @private
+   */
+  private buildStatusFilter(status: ReviewStatusFilter) {
+    switch (status) {
+      case 'pending':
+        return PENDING_REVIEW_FILTER;
+      case 'approved':
+        return { isApproved: true };
+      case 'rejected':
+        return { moderationStatus: ReviewModerationStatus.REJECTED };
     }
+  }
 
-    const ratingDistribution = stats[0].ratingDistribution.reduce(
-      (acc: any, rating: number) => {
-        acc[rating] = (acc[rating] || 0) + 1;
-        return acc;
+  /**
+   * Record an admin decision on reviews
+   *
+   * Updates the affected products' ratings and emails the authors of
+   * rejected reviews.
+   *
+   * @private
+   * @returns The reviews that exist
+   */
+  private async moderateReviews(
+    reviewIds: string[],
+    adminId: string,
+    status: ReviewModerationStatus.APPROVED | ReviewModerationStatus.REJECTED,
+    reason?: string,
+  ) {
+    const reviews = await this.reviewModel
+      .find({ _id: { $in: reviewIds.map((id) => new Types.ObjectId(id)) } })
+      .select('productId userId')
+      .lean<
+        Array<{
+          _id: Types.ObjectId;
+          productId: Types.ObjectId;
+          userId: Types.ObjectId;
+        }>
+      >();
+    if (reviews.length === 0) return reviews;
+
+    const approved = status === ReviewModerationStatus.APPROVED;
+    await this.reviewModel.updateMany(
+      { _id: { $in: reviews.map((review) => review._id) } },
+      {
+        $set: {
+          isApproved: approved,
+          moderationStatus: status,
+          moderatedBy: new Types.ObjectId(adminId),
+          moderatedAt: new Date(),
+          ...(!approved && { rejectionReason: reason }),
+        },
+        ...(approved && { $unset: { rejectionReason: 1 } }),
       },
-      {},
     );
 
-    return {
-      averageRating: Math.round(stats[0].averageRating * 10) / 10,
-      totalReviews: stats[0].totalReviews,
-      ratingDistribution,
-    };
+    const productIds = [
+      ...new Set(reviews.map((review) => review.productId.toString())),
+    ];
+    for (const productId of productIds) {
+      await this.refreshProductRating(productId);
+    }
+
+    if (!approved && reason) {
+      await this.notifyRejectedAuthors(reviews, reason);
+    }
+
+    return reviews;
+  }
+
+  /**
+   * Email review authors why their review was rejected
+   *
+   * Best effort: a failed email never undoes the rejection.
+   *
+   * @private
+   */
+  private async notifyRejectedAuthors(
+    reviews: Array<{ _id: Types.ObjectId }>,
+    reason: string,
+  ): Promise<void> {
+    const populated = await this.reviewModel
+      .find({ _id: { $in: reviews.map((review) => review._id) } })
+      .select('productId userId')
+      .populate('productId', 'name')
+      .populate('userId', 'email firstName')
+      .lean<
+        Array<{
+          productId: { name: string } | null;
+          userId: { email: string; firstName: string } | null;
+        }>
+      >();
+
+    for (const review of populated) {
+      if (!review.userId?.email) continue;
+      try {
+        await this.emailService.sendReviewRejectedEmail(
+          review.userId.email,
+          review.userId.firstName,
+          review.productId?.name ?? 'a product',
+          reason,
+        );
+      } catch (error) {
+        console.warn('Failed to send review rejection email:', error);
+      }
+    }
+  }
+
+  /**
+   * Delivered, not yet reviewed order line of a product bought by the user
+   *
+   * @private
+   * @throws BadRequestException when the user never received the product
+   * or already reviewed every purchase of it
+   */
+  private async findReviewablePurchase(
+    userId: string,
+    productId: string,
+    orderItemId?: string,
+  ): Promise<{ orderId: Types.ObjectId; orderItemId: Types.ObjectId }> {
+    const orders = await this.orderModel
+      .find({
+        userId: new Types.ObjectId(userId),
+        'items.productId': new Types.ObjectId(productId),
+        ...(orderItemId && { 'items._id': new Types.ObjectId(orderItemId) }),
+      })
+      .select('items fulfillments status')
+      .sort({ createdAt: 1 })
+      .lean<
+        Array<
+          Omit<Order, 'items'> & {
+            _id: Types.ObjectId;
+            items: Array<OrderItem & { _id: Types.ObjectId }>;
+          }
+        >
+      >();
+
+    const purchases = orders.flatMap((order) =>
+      order.items
+        .filter(
+          (item) =>
+            item.productId.equals(productId) &&
+            (!orderItemId || item._id.equals(orderItemId)) &&
+            isOrderItemDelivered(order, item),
+        )
+        .map((item) => ({
+          orderId: order._id,
+          orderItemId: item._id,
+        })),
+    );
+    if (purchases.length === 0) {
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.PURCHASE_REQUIRED],
+      );
+    }
+
+    const reviewed: Types.ObjectId[] = await this.reviewModel.distinct(
+      'orderItemId',
+      { orderItemId: { $in: purchases.map((p) => p.orderItemId) } },
+    );
+    const purchase = purchases.find(
+      (p) => !reviewed.some((id) => id.equals(p.orderItemId)),
+    );
+    if (!purchase) {
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.ALREADY_REVIEWED],
+      );
+    }
+
+    return purchase;
+  }
+
+  /**
+   * Upload review images to MinIO
+   *
+   * @private
+   * @returns Public URLs of the uploaded images
+   */
+  private async uploadImages(images: Express.Multer.File[]): Promise<string[]> {
+    const bucketName =
+      this.configService.get<string>('MINIO_BUCKET_NAME') || 'ekotest';
+
+    try {
+      return await Promise.all(
+        images.map((image) => this.minioService.uploadFile(image, bucketName)),
+      );
+    } catch (error) {
+      // Keep the file type message of MinioService
+      if (error instanceof BadRequestException) throw error;
+      throw new BadRequestException(
+        ReviewErrorMessages[ReviewError.IMAGE_UPLOAD_FAILED],
+      );
+    }
+  }
+
+  /**
+   * Delete review images from MinIO
+   *
+   * @private
+   */
+  private async deleteImages(imageUrls: string[]): Promise<void> {
+    const bucketName =
+      this.configService.get<string>('MINIO_BUCKET_NAME') || 'ekotest';
+
+    for (const imageUrl of imageUrls) {
+      try {
+        await this.minioService.deleteFile(
+          bucketName,
+          imageUrl.split('/').pop() || '',
+        );
+      } catch (error) {
+        // Log error but don't throw - file might already be deleted
+        console.warn('Failed to delete review image:', error);
+      }
+    }
   }
 }
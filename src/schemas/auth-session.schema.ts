@@ -0,0 +1,63 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type AuthSessionDocument = AuthSession & Document;
+
+export enum AuthSessionRevokeReason {
+  LOGOUT = 'logout',
+  USER = 'user',
+  ADMIN = 'admin',
+  TOKEN_REUSE = 'token_reuse',
+  PASSWORD_RESET = 'password_reset',
+  ACCOUNT_DEACTIVATED = 'account_deactivated',
+}
+
+/**
+ * Auth Session Schema
+ *
+ * One login on one device. Every refresh token issued for the session
+ * belongs to its family; only the latest one (currentTokenId) may be
+ * exchanged, and presenting an older one revokes the session. Sessions are
+ * removed once their last refresh token expires.
+ */
+@Schema({ timestamps: true })
+export class AuthSession {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true, index: true })
+  userId: Types.ObjectId;
+
+  /**
+   * JWT ID of the refresh token that may be used next
+   */
+  @Prop({ required: true, select: false })
+  currentTokenId: string;
+
+  @Prop({ required: true })
+  platform: string;
+
+  @Prop()
+  deviceName?: string;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  /**
+   * Last login or token refresh
+   */
+  @Prop({ required: true })
+  lastSeenAt: Date;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+
+  @Prop()
+  revokedAt?: Date;
+
+  @Prop({ enum: AuthSessionRevokeReason })
+  revokedReason?: AuthSessionRevokeReason;
+}
+
+export const AuthSessionSchema = SchemaFactory.createForClass(AuthSession);
+AuthSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -3,20 +3,25 @@ import { Document } from 'mongoose';
 
 export type BlacklistedTokenDocument = BlacklistedToken & Document;
 
+/**
+ * Blacklisted Token Schema
+ *
+ * Revoked JWTs, stored as SHA-256 hashes so a database leak exposes no
+ * usable tokens. MongoDB removes entries once the token would have expired
+ * anyway.
+ */
 @Schema({ timestamps: true })
 export class BlacklistedToken {
   @Prop({ required: true, unique: true })
-  token: string;
+  tokenHash: string;
 
-  @Prop({ required: true })
+  @Prop({ required: true, index: true })
   userId: string;
 
   @Prop({ required: true })
   expiresAt: Date;
-
-  @Prop({ default: Date.now })
-  createdAt: Date;
 }
 
 export const BlacklistedTokenSchema =
   SchemaFactory.createForClass(BlacklistedToken);
+BlacklistedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
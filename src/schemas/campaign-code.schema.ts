@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CampaignCodeDocument = CampaignCode & Document;
+
+/**
+ * Campaign Code Schema
+ *
+ * Single-use coupon code generated in bulk for a code-only campaign.
+ * A code is consumed by the first order that redeems it.
+ */
+@Schema({ timestamps: true })
+export class CampaignCode {
+  @Prop({ type: Types.ObjectId, ref: 'Campaign', required: true })
+  campaignId: Types.ObjectId;
+
+  @Prop({ required: true, trim: true, uppercase: true })
+  code: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  usedBy?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order' })
+  orderId?: Types.ObjectId;
+
+  @Prop()
+  usedAt?: Date;
+}
+
+export const CampaignCodeSchema = SchemaFactory.createForClass(CampaignCode);
+CampaignCodeSchema.index({ code: 1 }, { unique: true });
+CampaignCodeSchema.index({ campaignId: 1, usedAt: 1 });
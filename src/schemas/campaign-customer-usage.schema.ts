@@ -0,0 +1,32 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CampaignCustomerUsageDocument = CampaignCustomerUsage & Document;
+
+/**
+ * Campaign Customer Usage Schema
+ *
+ * Usage slots a customer holds on a campaign with a per-customer limit.
+ * Checkouts increment the count only while it is below the limit, so
+ * parallel checkouts of the same customer cannot exceed it; the
+ * redemption ledger remains the record of what was redeemed.
+ */
+@Schema({ timestamps: true })
+export class CampaignCustomerUsage {
+  @Prop({ type: Types.ObjectId, ref: 'Campaign', required: true })
+  campaignId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true, min: 0, default: 0 })
+  count: number;
+}
+
+export const CampaignCustomerUsageSchema = SchemaFactory.createForClass(
+  CampaignCustomerUsage,
+);
+CampaignCustomerUsageSchema.index(
+  { campaignId: 1, userId: 1 },
+  { unique: true },
+);
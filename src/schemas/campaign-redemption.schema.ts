@@ -0,0 +1,45 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type CampaignRedemptionDocument = CampaignRedemption & Document;
+
+export enum RedemptionStatus {
+  REDEEMED = 'redeemed',
+  RELEASED = 'released',
+}
+
+/**
+ * Campaign Redemption Schema
+ *
+ * Ledger entry written for every campaign applied to a placed order.
+ * Released entries (cancelled orders) no longer count towards usage limits.
+ */
+@Schema({ timestamps: true })
+export class CampaignRedemption {
+  @Prop({ type: Types.ObjectId, ref: 'Campaign', required: true })
+  campaignId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ required: true, min: 0 })
+  discountAmount: number;
+
+  @Prop()
+  code?: string;
+
+  @Prop({
+    required: true,
+    enum: RedemptionStatus,
+    default: RedemptionStatus.REDEEMED,
+  })
+  status: RedemptionStatus;
+}
+
+export const CampaignRedemptionSchema =
+  SchemaFactory.createForClass(CampaignRedemption);
+CampaignRedemptionSchema.index({ campaignId: 1, orderId: 1 }, { unique: true });
+CampaignRedemptionSchema.index({ campaignId: 1, userId: 1, status: 1 });
@@ -54,8 +54,32 @@ export class Campaign {
   @Prop({ type: Number })
   maxUsage?: number;
 
+  @Prop({ type: Number })
+  maxUsagePerCustomer?: number;
+
+  /**
+   * Redemptions currently held against maxUsage, maintained atomically
+   * alongside the CampaignRedemption ledger
+   */
+  @Prop({ type: Number, default: 0, min: 0 })
+  usageCount: number;
+
   @Prop({ type: Number, default: 0 })
   minOrderAmount?: number;
+
+  /**
+   * Shared coupon code customers enter at checkout; stored upper-case
+   */
+  @Prop({ trim: true, uppercase: true })
+  code?: string;
+
+  /**
+   * Only applied through a coupon code (shared `code` or generated
+   * single-use CampaignCode entries), never automatically
+   */
+  @Prop({ default: false })
+  requiresCode: boolean;
 }
 
 export const CampaignSchema = SchemaFactory.createForClass(Campaign);
+CampaignSchema.index({ code: 1 }, { unique: true, sparse: true });
@@ -8,6 +8,9 @@ export class CartItem {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   productId: Types.ObjectId;
 
+  @Prop({ type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
   @Prop({ required: true, min: 1 })
   quantity: number;
 }
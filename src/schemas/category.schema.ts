@@ -1,8 +1,50 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document } from 'mongoose';
+import { Document, Types } from 'mongoose';
 
 export type CategoryDocument = Category & Document;
 
+export enum AttributeType {
+  ENUM = 'enum',
+  NUMBER = 'number',
+  BOOLEAN = 'boolean',
+  TEXT = 'text',
+}
+
+/**
+ * Typed product attribute defined for a category
+ *
+ * Products store attribute values in `specifications` under `key`.
+ */
+@Schema({ _id: false })
+export class CategoryAttribute {
+  @Prop({ required: true })
+  key: string;
+
+  @Prop({ required: true })
+  label: string;
+
+  @Prop({ required: true, enum: AttributeType })
+  type: AttributeType;
+
+  /**
+   * Allowed values of an enum attribute
+   */
+  @Prop({ type: [String], default: [] })
+  options: string[];
+
+  @Prop()
+  unit?: string;
+
+  @Prop({ default: false })
+  required: boolean;
+
+  /**
+   * Whether the attribute is offered as a product filter
+   */
+  @Prop({ default: true })
+  filterable: boolean;
+}
+
 @Schema({ timestamps: true })
 export class Category {
   @Prop({ required: true })
@@ -16,6 +58,27 @@ export class Category {
 
   @Prop({ default: true })
   isActive: boolean;
+
+  /**
+   * Parent category; root categories have none
+   */
+  @Prop({ type: Types.ObjectId, ref: 'Category', default: null })
+  parentId?: Types.ObjectId | null;
+
+  /**
+   * Materialized path of ancestor IDs, root first
+   */
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Category' }], default: [] })
+  ancestors: Types.ObjectId[];
+
+  /**
+   * Attributes of products in this category; subcategories inherit them
+   */
+  @Prop({ type: [CategoryAttribute], default: [] })
+  attributes: CategoryAttribute[];
 }
 
 export const CategorySchema = SchemaFactory.createForClass(Category);
+
+CategorySchema.index({ parentId: 1, name: 1 });
+CategorySchema.index({ ancestors: 1 });
@@ -6,15 +6,44 @@ export type OrderDocument = Order & Document;
 export enum OrderStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
+  PARTIALLY_SHIPPED = 'partially_shipped',
   SHIPPED = 'shipped',
   DELIVERED = 'delivered',
+  PARTIALLY_RETURNED = 'partially_returned',
+  RETURNED = 'returned',
   CANCELLED = 'cancelled',
 }
 
+/**
+ * Status of one seller's share of an order
+ */
+export enum FulfillmentStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  SHIPPED = 'shipped',
+  DELIVERED = 'delivered',
+  CANCELLED = 'cancelled',
+}
+
+/**
+ * Who caused an order status change
+ */
+export enum OrderStatusActor {
+  CUSTOMER = 'customer',
+  SELLER = 'seller',
+  ADMIN = 'admin',
+  SYSTEM = 'system',
+}
+
 export enum PaymentStatus {
   PAID = 'paid',
   UNPAID = 'unpaid',
   PENDING = 'pending',
+  AUTHORIZED = 'authorized',
+  FAILED = 'failed',
+  VOIDED = 'voided',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
 }
 
 @Schema({ timestamps: true })
@@ -22,14 +51,116 @@ export class OrderItem {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
   productId: Types.ObjectId;
 
+  /**
+   * Ordered variant of the product, if it has variants
+   */
+  @Prop({ type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  /**
+   * Variant name at the time of ordering, e.g. "Red / M"
+   */
+  @Prop()
+  variantName?: string;
+
   @Prop({ required: true, min: 1 })
   quantity: number;
 
   @Prop({ required: true, min: 0 })
   price: number;
 
+  @Prop({ type: Number, min: 0, default: 0 })
+  discount: number;
+
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   sellerId: Types.ObjectId;
+
+  /**
+   * Units in requested, approved or refunded returns; incremented with a
+   * guard so concurrent return requests cannot exceed the ordered quantity
+   */
+  @Prop({ type: Number, min: 0, default: 0 })
+  returnedQuantity: number;
+}
+
+@Schema({ _id: false })
+export class AppliedCampaign {
+  @Prop({ type: Types.ObjectId, ref: 'Campaign', required: true })
+  campaignId: Types.ObjectId;
+
+  @Prop({ required: true })
+  campaignName: string;
+
+  @Prop({ required: true, min: 0 })
+  discountAmount: number;
+
+  @Prop({ required: true, enum: ['percentage', 'fixed'] })
+  discountType: 'percentage' | 'fixed';
+
+  @Prop()
+  code?: string;
+}
+
+/**
+ * One seller's fulfilment group (sub-order) within an order
+ */
+@Schema({ timestamps: true })
+export class OrderFulfillment {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  sellerId: Types.ObjectId;
+
+  @Prop({
+    required: true,
+    enum: FulfillmentStatus,
+    default: FulfillmentStatus.PENDING,
+  })
+  status: FulfillmentStatus;
+
+  @Prop()
+  trackingNumber?: string;
+
+  @Prop()
+  sellerNotes?: string;
+
+  @Prop()
+  processingAt?: Date;
+
+  @Prop()
+  shippedAt?: Date;
+
+  @Prop()
+  deliveredAt?: Date;
+
+  @Prop()
+  cancelledAt?: Date;
+}
+
+/**
+ * One recorded status transition of an order or of a seller's fulfilment
+ * group (when `sellerId` is set)
+ */
+@Schema({ _id: false })
+export class OrderStatusChange {
+  @Prop({ required: true, enum: OrderStatusActor })
+  actor: OrderStatusActor;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  actorId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  sellerId?: Types.ObjectId;
+
+  @Prop({ type: String })
+  previousStatus?: OrderStatus | FulfillmentStatus;
+
+  @Prop({ type: String, required: true })
+  status: OrderStatus | FulfillmentStatus;
+
+  @Prop()
+  note?: string;
+
+  @Prop({ required: true, default: Date.now })
+  changedAt: Date;
 }
 
 @Schema({ timestamps: true })
@@ -70,18 +201,57 @@ export class Order {
   @Prop({ type: [OrderItem], required: true })
   items: OrderItem[];
 
+  @Prop({ type: Number, min: 0, default: 0 })
+  subtotal: number;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  totalDiscount: number;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  shippingCost: number;
+
+  /**
+   * Grand total actually charged: subtotal - totalDiscount + shippingCost
+   */
   @Prop({ required: true, min: 0 })
   totalPrice: number;
 
+  @Prop({ type: [AppliedCampaign], default: [] })
+  appliedCampaigns: AppliedCampaign[];
+
   @Prop({ type: ShippingAddress, required: true })
   shippingAddress: ShippingAddress;
 
+  /**
+   * One fulfilment group per seller in the order
+   */
+  @Prop({ type: [OrderFulfillment], default: [] })
+  fulfillments: OrderFulfillment[];
+
+  /**
+   * Customer-facing status, derived from the fulfilment groups
+   */
   @Prop({ required: true, enum: OrderStatus, default: OrderStatus.PENDING })
   status: OrderStatus;
 
+  /**
+   * Every status transition of the order and its fulfilment groups, oldest first
+   */
+  @Prop({ type: [OrderStatusChange], default: [] })
+  statusHistory: OrderStatusChange[];
+
+  /**
+   * Derived from the order's Payment attempts by PaymentsService
+   */
   @Prop({ required: true, enum: PaymentStatus, default: PaymentStatus.PENDING })
   paymentStatus: PaymentStatus;
 
+  @Prop()
+  paymentTransactionId?: string;
+
+  /**
+   * Tracking number of orders placed before fulfilment groups existed
+   */
   @Prop()
   trackingNumber?: string;
 
@@ -90,3 +260,176 @@ export class Order {
 }
 
 export const OrderSchema = SchemaFactory.createForClass(Order);
+
+OrderSchema.index({ 'fulfillments.sellerId': 1, 'fulfillments.status': 1 });
+
+/**
+ * Aggregation expression for the amount paid for an unwound order line
+ * (unit price * quantity minus the line's campaign discount)
+ */
+export const ORDER_ITEM_NET_TOTAL = {
+  $subtract: [
+    { $multiply: ['$items.price', '$items.quantity'] },
+    { $ifNull: ['$items.discount', 0] },
+  ],
+};
+
+/**
+ * Aggregation expression telling whether an unwound order line was
+ * delivered: its seller's fulfilment group is delivered, or, for orders
+ * without fulfilment groups, the whole order is
+ */
+export const ORDER_ITEM_DELIVERED = {
+  $or: [
+    {
+      $anyElementTrue: {
+        $map: {
+          input: { $ifNull: ['$fulfillments', []] },
+          as: 'fulfillment',
+          in: {
+            $and: [
+              { $eq: ['$$fulfillment.sellerId', '$items.sellerId'] },
+              { $eq: ['$$fulfillment.status', FulfillmentStatus.DELIVERED] },
+            ],
+          },
+        },
+      },
+    },
+    {
+      $and: [
+        { $eq: [{ $size: { $ifNull: ['$fulfillments', []] } }, 0] },
+        { $eq: ['$status', OrderStatus.DELIVERED] },
+      ],
+    },
+  ],
+};
+
+/**
+ * Whether an order line was delivered; see ORDER_ITEM_DELIVERED
+ */
+export function isOrderItemDelivered(
+  order: Pick<Order, 'fulfillments' | 'status'>,
+  item: Pick<OrderItem, 'sellerId'>,
+): boolean {
+  if (!order.fulfillments?.length) {
+    return order.status === OrderStatus.DELIVERED;
+  }
+
+  return order.fulfillments.some(
+    (fulfillment) =>
+      fulfillment.sellerId.equals(item.sellerId) &&
+      fulfillment.status === FulfillmentStatus.DELIVERED,
+  );
+}
+
+/**
+ * Key identifying an order, cart or return line: the same product in two
+ * variants makes two lines
+ */
+export function orderLineKey(item: {
+  productId: Types.ObjectId | string;
+  variantId?: Types.ObjectId | string;
+}): string {
+  return `${item.productId.toString()}:${item.variantId?.toString() || ''}`;
+}
+
+/**
+ * Build one pending fulfilment group per distinct seller of the given items
+ */
+export function buildOrderFulfillments(
+  items: Array<{ sellerId: Types.ObjectId | string }>,
+  status: FulfillmentStatus = FulfillmentStatus.PENDING,
+): OrderFulfillment[] {
+  const sellerIds = [...new Set(items.map((item) => item.sellerId.toString()))];
+
+  return sellerIds.map((sellerId) => ({
+    sellerId: new Types.ObjectId(sellerId),
+    status,
+  }));
+}
+
+/**
+ * Round an order amount to cents, never below zero
+ */
+function roundOrderAmount(amount: number): number {
+  return Math.max(0, Math.round(amount * 100) / 100);
+}
+
+/**
+ * Discount stored on an order line: rounded and capped at the line amount
+ */
+export function orderLineDiscount(item: {
+  price: number;
+  quantity: number;
+  discount?: number;
+}): number {
+  return roundOrderAmount(
+    Math.min(item.discount || 0, item.price * item.quantity),
+  );
+}
+
+/**
+ * Price an order from its lines, exactly as the order snapshot stores it
+ *
+ * Checkout authorizes this total, so it must match what the order saves.
+ */
+export function calculateOrderTotals(
+  items: Array<{ price: number; quantity: number; discount?: number }>,
+  shippingCost = 0,
+): {
+  subtotal: number;
+  totalDiscount: number;
+  shippingCost: number;
+  totalPrice: number;
+} {
+  const subtotal = roundOrderAmount(
+    items.reduce((sum, item) => sum + item.price * item.quantity, 0),
+  );
+  const totalDiscount = roundOrderAmount(
+    items.reduce((sum, item) => sum + orderLineDiscount(item), 0),
+  );
+  const shipping = roundOrderAmount(shippingCost);
+
+  return {
+    subtotal,
+    totalDiscount,
+    shippingCost: shipping,
+    totalPrice: roundOrderAmount(subtotal - totalDiscount + shipping),
+  };
+}
+
+/**
+ * Derive the customer-facing order status from its fulfilment groups
+ *
+ * Cancelled groups are ignored unless every group is cancelled; the order
+ * is partially shipped while only some of the remaining groups have left.
+ */
+export function deriveOrderStatus(
+  fulfillments: Array<{ status: FulfillmentStatus }>,
+): OrderStatus {
+  const active = fulfillments
+    .map((fulfillment) => fulfillment.status)
+    .filter((status) => status !== FulfillmentStatus.CANCELLED);
+
+  if (active.length === 0) {
+    return fulfillments.length > 0
+      ? OrderStatus.CANCELLED
+      : OrderStatus.PENDING;
+  }
+
+  const dispatched = active.filter(
+    (status) =>
+      status === FulfillmentStatus.SHIPPED ||
+      status === FulfillmentStatus.DELIVERED,
+  );
+
+  if (active.every((status) => status === FulfillmentStatus.DELIVERED)) {
+    return OrderStatus.DELIVERED;
+  }
+  if (dispatched.length === active.length) return OrderStatus.SHIPPED;
+  if (dispatched.length > 0) return OrderStatus.PARTIALLY_SHIPPED;
+  if (active.includes(FulfillmentStatus.PROCESSING)) {
+    return OrderStatus.PROCESSING;
+  }
+  return OrderStatus.PENDING;
+}
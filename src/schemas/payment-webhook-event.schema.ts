@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PaymentWebhookEventDocument = PaymentWebhookEvent & Document;
+
+export enum WebhookEventStatus {
+  PROCESSING = 'processing',
+  PROCESSED = 'processed',
+  IGNORED = 'ignored',
+  FAILED = 'failed',
+}
+
+/**
+ * Payment Webhook Event Schema
+ *
+ * Log of every verified webhook delivery, unique per provider event ID.
+ * Redelivered events are answered from this log instead of being applied
+ * again; only events that failed while processing are retried.
+ */
+@Schema({ timestamps: true })
+export class PaymentWebhookEvent {
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop({ required: true })
+  eventId: string;
+
+  @Prop({ required: true })
+  type: string;
+
+  @Prop()
+  transactionId?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Payment' })
+  paymentId?: Types.ObjectId;
+
+  @Prop({ type: Object })
+  payload: Record<string, any>;
+
+  @Prop({
+    required: true,
+    enum: WebhookEventStatus,
+    default: WebhookEventStatus.PROCESSING,
+  })
+  status: WebhookEventStatus;
+
+  @Prop()
+  error?: string;
+
+  @Prop()
+  processedAt?: Date;
+}
+
+export const PaymentWebhookEventSchema =
+  SchemaFactory.createForClass(PaymentWebhookEvent);
+PaymentWebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type PaymentDocument = Payment & Document;
+
+export enum PaymentTransactionStatus {
+  PENDING = 'pending',
+  AUTHORIZED = 'authorized',
+  CAPTURED = 'captured',
+  FAILED = 'failed',
+  VOIDED = 'voided',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  REFUNDED = 'refunded',
+}
+
+/**
+ * Payment Schema
+ *
+ * One document per payment attempt against the configured payment provider.
+ * The order's paymentStatus is derived from its payment attempts.
+ */
+@Schema({ timestamps: true })
+export class Payment {
+  @Prop({ type: Types.ObjectId, ref: 'Order' })
+  orderId?: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  provider: string;
+
+  @Prop()
+  providerTransactionId?: string;
+
+  @Prop({ required: true, min: 0 })
+  amount: number;
+
+  @Prop({ required: true, default: 'TRY' })
+  currency: string;
+
+  @Prop({
+    required: true,
+    enum: PaymentTransactionStatus,
+    default: PaymentTransactionStatus.PENDING,
+  })
+  status: PaymentTransactionStatus;
+
+  @Prop({ required: true, enum: ['credit_card', 'debit_card', 'paypal'] })
+  method: 'credit_card' | 'debit_card' | 'paypal';
+
+  @Prop()
+  cardLast4?: string;
+
+  @Prop({ default: 0, min: 0 })
+  capturedAmount: number;
+
+  @Prop({ default: 0, min: 0 })
+  refundedAmount: number;
+
+  /**
+   * Gateway IDs of recorded refunds, so a refund reported both by our own
+   * call and by a webhook is only counted once
+   */
+  @Prop({ type: [String], default: [] })
+  refundIds: string[];
+
+  @Prop()
+  failureReason?: string;
+}
+
+export const PaymentSchema = SchemaFactory.createForClass(Payment);
+PaymentSchema.index({ orderId: 1, createdAt: -1 });
+PaymentSchema.index({ provider: 1, providerTransactionId: 1 });
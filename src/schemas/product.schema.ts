@@ -1,5 +1,9 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
-import { Document, Types } from 'mongoose';
+import { Document, Types, UpdateQuery } from 'mongoose';
+import {
+  normalizeSearchText,
+  tokenizeSearchText,
+} from '../search/search-query.util';
 
 export type ProductDocument = Product & Document;
 
@@ -18,6 +22,28 @@ export class ProductVariant {
   price: number;
 }
 
+/**
+ * Normalized copies of the searchable fields, kept in sync by the schema
+ * hooks below; backs the weighted text index and prefix/typo matching
+ */
+@Schema({ _id: false })
+export class ProductSearchFields {
+  @Prop()
+  name: string;
+
+  @Prop()
+  tags: string;
+
+  @Prop()
+  description: string;
+
+  /**
+   * Unique words of name, tags and description
+   */
+  @Prop({ type: [String], default: [] })
+  tokens: string[];
+}
+
 @Schema({ timestamps: true })
 export class Product {
   @Prop({ required: true })
@@ -38,8 +64,11 @@ export class Product {
   @Prop({ type: [String], default: [] })
   imageUrls: string[];
 
+  /**
+   * Attribute values keyed by the category's attribute keys
+   */
   @Prop({ type: Object, default: {} })
-  specifications: Record<string, string>;
+  specifications: Record<string, string | number | boolean>;
 
   @Prop({ type: [String], default: [] })
   tags: string[];
@@ -55,6 +84,107 @@ export class Product {
 
   @Prop({ default: true })
   isActive: boolean;
+
+  /**
+   * Rating aggregates of approved reviews, kept in sync by ReviewsService
+   */
+  @Prop({ min: 0, max: 5, default: 0 })
+  averageRating: number;
+
+  @Prop({ min: 0, default: 0 })
+  reviewCount: number;
+
+  /**
+   * Approved review counts per star; index 0 holds the 1-star reviews
+   */
+  @Prop({ type: [Number], default: [0, 0, 0, 0, 0] })
+  ratingHistogram: number[];
+
+  @Prop({ type: ProductSearchFields, select: false })
+  search?: ProductSearchFields;
 }
 
 export const ProductSchema = SchemaFactory.createForClass(Product);
+
+ProductSchema.index(
+  {
+    'search.name': 'text',
+    'search.tags': 'text',
+    'search.description': 'text',
+  },
+  {
+    name: 'product_search_text',
+    weights: { 'search.name': 10, 'search.tags': 5, 'search.description': 1 },
+    // Catalog is bilingual: no stemming, words are already folded
+    default_language: 'none',
+  },
+);
+ProductSchema.index({ 'search.tokens': 1 });
+ProductSchema.index({ isActive: 1, averageRating: -1, reviewCount: -1 });
+
+const SEARCHABLE_FIELDS = ['name', 'description', 'tags'] as const;
+
+ProductSchema.pre('save', function () {
+  if (this.isNew || SEARCHABLE_FIELDS.some((field) => this.isModified(field))) {
+    this.search = buildProductSearchFields(this);
+  }
+});
+
+ProductSchema.pre('findOneAndUpdate', async function () {
+  const update = this.getUpdate() as UpdateQuery<Product> | null;
+  if (!update || Array.isArray(update)) return;
+
+  const changes = { ...update, ...update.$set };
+  if (SEARCHABLE_FIELDS.every((field) => changes[field] === undefined)) return;
+
+  const current = await this.model
+    .findOne(this.getQuery())
+    .select(SEARCHABLE_FIELDS.join(' '))
+    .lean<Pick<Product, 'name' | 'description' | 'tags'>>();
+  if (!current) return;
+
+  this.set(
+    'search',
+    buildProductSearchFields({
+      name: changes.name ?? current.name,
+      description: changes.description ?? current.description,
+      tags: changes.tags ?? current.tags,
+    }),
+  );
+});
+
+/**
+ * Normalized search fields of a product
+ */
+export function buildProductSearchFields(
+  product: Pick<Product, 'name' | 'description' | 'tags'>,
+): ProductSearchFields {
+  const tags = (product.tags || []).join(' ');
+  return {
+    name: normalizeSearchText(product.name || ''),
+    tags: normalizeSearchText(tags),
+    description: normalizeSearchText(product.description || ''),
+    tokens: tokenizeSearchText(
+      [product.name, tags, product.description].join(' '),
+    ),
+  };
+}
+
+/**
+ * Find a variant of a product by its subdocument id
+ */
+export function findProductVariant(
+  product: Pick<Product, 'variants'>,
+  variantId: string,
+): (ProductVariant & { _id: Types.ObjectId }) | undefined {
+  return (
+    product.variants as Array<ProductVariant & { _id: Types.ObjectId }>
+  )?.find((variant) => variant._id.toString() === variantId);
+}
+
+/**
+ * Display name of a variant, e.g. "Red / M"
+ */
+export function formatVariantName(variant: ProductVariant): string {
+  return [variant.color, variant.size].filter(Boolean).join(' / ');
+}
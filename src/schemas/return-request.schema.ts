@@ -0,0 +1,97 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ReturnRequestDocument = ReturnRequest & Document;
+
+export enum ReturnStatus {
+  REQUESTED = 'requested',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  REFUNDED = 'refunded',
+}
+
+export enum ReturnReason {
+  DAMAGED = 'damaged',
+  DEFECTIVE = 'defective',
+  WRONG_ITEM = 'wrong_item',
+  NOT_AS_DESCRIBED = 'not_as_described',
+  NO_LONGER_NEEDED = 'no_longer_needed',
+  OTHER = 'other',
+}
+
+@Schema({ _id: false })
+export class ReturnItem {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  productId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+
+  @Prop({ required: true, enum: ReturnReason })
+  reason: ReturnReason;
+
+  @Prop()
+  comment?: string;
+
+  /**
+   * Amount the customer paid for the returned units
+   */
+  @Prop({ required: true, min: 0 })
+  amount: number;
+}
+
+/**
+ * Return request (RMA) for one seller's items of a delivered order
+ */
+@Schema({ timestamps: true })
+export class ReturnRequest {
+  @Prop({ type: Types.ObjectId, ref: 'Order', required: true })
+  orderId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  sellerId: Types.ObjectId;
+
+  @Prop({ type: [ReturnItem], required: true })
+  items: ReturnItem[];
+
+  @Prop({ type: [String], default: [] })
+  photoUrls: string[];
+
+  @Prop({ required: true, enum: ReturnStatus, default: ReturnStatus.REQUESTED })
+  status: ReturnStatus;
+
+  /**
+   * Sum of the returned items' paid amounts
+   */
+  @Prop({ required: true, min: 0 })
+  requestedAmount: number;
+
+  @Prop({ type: Number, min: 0, default: 0 })
+  refundAmount: number;
+
+  @Prop()
+  sellerNote?: string;
+
+  @Prop()
+  rejectionReason?: string;
+
+  @Prop()
+  approvedAt?: Date;
+
+  @Prop()
+  rejectedAt?: Date;
+
+  @Prop()
+  refundedAt?: Date;
+}
+
+export const ReturnRequestSchema = SchemaFactory.createForClass(ReturnRequest);
+
+ReturnRequestSchema.index({ orderId: 1 });
+ReturnRequestSchema.index({ sellerId: 1, status: 1, createdAt: -1 });
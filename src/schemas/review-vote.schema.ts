@@ -0,0 +1,22 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type ReviewVoteDocument = ReviewVote & Document;
+
+/**
+ * A user's helpfulness vote on a review; one per user and review
+ */
+@Schema({ timestamps: true })
+export class ReviewVote {
+  @Prop({ type: Types.ObjectId, ref: 'Review', required: true })
+  reviewId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ required: true })
+  helpful: boolean;
+}
+
+export const ReviewVoteSchema = SchemaFactory.createForClass(ReviewVote);
+ReviewVoteSchema.index({ reviewId: 1, userId: 1 }, { unique: true });
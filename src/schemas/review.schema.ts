@@ -3,6 +3,43 @@ import { Document, Types } from 'mongoose';
 
 export type ReviewDocument = Review & Document;
 
+export enum ReviewModerationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Why automated screening held a review for an admin
+ */
+export enum ReviewModerationReason {
+  BANNED_WORDS = 'banned_words',
+  CONTAINS_LINK = 'contains_link',
+  CONTAINS_EMAIL = 'contains_email',
+  CONTAINS_PHONE = 'contains_phone',
+  EXCESSIVE_CAPS = 'excessive_caps',
+  DUPLICATE_TEXT = 'duplicate_text',
+  NEW_IMAGES = 'new_images',
+}
+
+/**
+ * Public reply of the product's seller to a review
+ */
+@Schema({ _id: false })
+export class ReviewReply {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  sellerId: Types.ObjectId;
+
+  @Prop({ required: true })
+  comment: string;
+
+  @Prop({ required: true, default: Date.now })
+  repliedAt: Date;
+
+  @Prop()
+  editedAt?: Date;
+}
+
 @Schema({ timestamps: true })
 export class Review {
   @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
@@ -11,14 +48,99 @@ export class Review {
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   userId: Types.ObjectId;
 
+  /**
+   * Delivered order the reviewed product was bought in
+   */
+  @Prop({ type: Types.ObjectId, ref: 'Order' })
+  orderId?: Types.ObjectId;
+
+  /**
+   * Reviewed order line; a purchased item can be reviewed once
+   */
+  @Prop({ type: Types.ObjectId })
+  orderItemId?: Types.ObjectId;
+
+  /**
+   * Written by a customer who received the product; false for reviews
+   * from before purchases were checked
+   */
+  @Prop({ default: false })
+  verifiedPurchase: boolean;
+
   @Prop({ required: true, min: 1, max: 5 })
   rating: number;
 
   @Prop({ required: true })
   comment: string;
 
-  @Prop({ default: true })
+  /**
+   * Whether the review is public; true exactly when moderationStatus is
+   * approved (reviews from before moderation have no status)
+   */
+  @Prop({ default: false })
   isApproved: boolean;
+
+  @Prop({
+    enum: ReviewModerationStatus,
+    default: ReviewModerationStatus.PENDING,
+  })
+  moderationStatus: ReviewModerationStatus;
+
+  /**
+   * Screening findings that kept the review in the queue
+   */
+  @Prop({ type: [String], enum: ReviewModerationReason, default: [] })
+  moderationReasons: ReviewModerationReason[];
+
+  /**
+   * Told to the author by email when an admin rejects the review
+   */
+  @Prop()
+  rejectionReason?: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  moderatedBy?: Types.ObjectId;
+
+  @Prop()
+  moderatedAt?: Date;
+
+  /**
+   * Hash of the normalized comment, to spot the same text posted from
+   * several accounts
+   */
+  @Prop({ select: false })
+  commentHash?: string;
+
+  @Prop({ type: [String], default: [] })
+  imageUrls: string[];
+
+  /**
+   * Helpful and unhelpful votes, kept in sync with ReviewVote documents
+   */
+  @Prop({ min: 0, default: 0 })
+  helpfulCount: number;
+
+  @Prop({ min: 0, default: 0 })
+  unhelpfulCount: number;
+
+  @Prop({ type: ReviewReply })
+  sellerReply?: ReviewReply;
 }
 
+/**
+ * Reviews waiting for an admin decision; includes unapproved reviews from
+ * before moderation, which have no status
+ */
+export const PENDING_REVIEW_FILTER = {
+  isApproved: false,
+  moderationStatus: { $ne: ReviewModerationStatus.REJECTED },
+};
+
 export const ReviewSchema = SchemaFactory.createForClass(Review);
+ReviewSchema.index(
+  { orderItemId: 1 },
+  { unique: true, partialFilterExpression: { orderItemId: { $exists: true } } },
+);
+ReviewSchema.index({ productId: 1, isApproved: 1, verifiedPurchase: -1 });
+ReviewSchema.index({ isApproved: 1, moderationStatus: 1, createdAt: 1 });
+ReviewSchema.index({ commentHash: 1 });
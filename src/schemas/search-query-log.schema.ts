@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SearchQueryLogDocument = SearchQueryLog & Document;
+
+export enum SearchQueryType {
+  ALL = 'all',
+  PRODUCTS = 'products',
+  CATEGORIES = 'categories',
+  SELLERS = 'sellers',
+  CAMPAIGNS = 'campaigns',
+}
+
+/**
+ * One search made by a customer, for search analytics
+ */
+@Schema({ timestamps: true })
+export class SearchQueryLog {
+  @Prop({ required: true })
+  query: string;
+
+  /**
+   * Query folded for grouping: lower-case, Turkish letters and diacritics
+   * folded, punctuation and repeated spaces collapsed
+   */
+  @Prop({ required: true })
+  normalizedQuery: string;
+
+  @Prop({ required: true, enum: SearchQueryType })
+  type: SearchQueryType;
+
+  @Prop({ required: true, min: 0 })
+  resultCount: number;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  @Prop({ default: false })
+  clicked: boolean;
+
+  /**
+   * First result the customer opened (product, category, seller or campaign)
+   */
+  @Prop({ type: Types.ObjectId })
+  clickedResultId?: Types.ObjectId;
+
+  @Prop()
+  clickedAt?: Date;
+}
+
+export const SearchQueryLogSchema =
+  SchemaFactory.createForClass(SearchQueryLog);
+
+SearchQueryLogSchema.index({ createdAt: -1 });
+SearchQueryLogSchema.index({ normalizedQuery: 1, createdAt: -1 });
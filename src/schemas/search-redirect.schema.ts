@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SearchRedirectDocument = SearchRedirect & Document;
+
+export enum SearchRedirectTarget {
+  PRODUCT = 'product',
+  CATEGORY = 'category',
+  SELLER = 'seller',
+  CAMPAIGN = 'campaign',
+  URL = 'url',
+}
+
+/**
+ * Sends customers searching for a query straight to a page, e.g.
+ * "black friday" to the Black Friday campaign
+ */
+@Schema({ timestamps: true })
+export class SearchRedirect {
+  @Prop({ required: true })
+  query: string;
+
+  /**
+   * Query folded like search queries; a search redirects when its folded
+   * form is exactly this
+   */
+  @Prop({ required: true, unique: true })
+  normalizedQuery: string;
+
+  @Prop({ required: true, enum: SearchRedirectTarget })
+  targetType: SearchRedirectTarget;
+
+  /**
+   * Product, category, seller (user) or campaign ID; unset for URL targets
+   */
+  @Prop({ type: Types.ObjectId })
+  targetId?: Types.ObjectId;
+
+  /**
+   * Destination of URL targets, a site path or an absolute URL
+   */
+  @Prop()
+  url?: string;
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const SearchRedirectSchema =
+  SchemaFactory.createForClass(SearchRedirect);
@@ -0,0 +1,26 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SearchSynonymDocument = SearchSynonym & Document;
+
+/**
+ * Search terms that mean the same, e.g. "tshirt, t-shirt, tişört"; a search
+ * for any of them also matches the others
+ */
+@Schema({ timestamps: true })
+export class SearchSynonym {
+  @Prop({ type: [String], required: true })
+  terms: string[];
+
+  /**
+   * Terms folded like search queries, for lookup while searching
+   */
+  @Prop({ type: [String], required: true })
+  normalizedTerms: string[];
+
+  @Prop({ default: true })
+  isActive: boolean;
+}
+
+export const SearchSynonymSchema = SchemaFactory.createForClass(SearchSynonym);
+SearchSynonymSchema.index({ normalizedTerms: 1 });
@@ -0,0 +1,97 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SecurityEventDocument = SecurityEvent & Document;
+
+export enum SecurityEventType {
+  REGISTERED = 'registered',
+  LOGIN_SUCCEEDED = 'login_succeeded',
+  LOGIN_FAILED = 'login_failed',
+  LOGIN_BLOCKED = 'login_blocked',
+  ACCOUNT_LOCKED = 'account_locked',
+  ACCOUNT_UNLOCKED = 'account_unlocked',
+  TOKEN_REFRESHED = 'token_refreshed',
+  TOKEN_REUSE_DETECTED = 'token_reuse_detected',
+  LOGOUT = 'logout',
+  SESSION_REVOKED = 'session_revoked',
+  EMAIL_VERIFIED = 'email_verified',
+  PASSWORD_RESET_REQUESTED = 'password_reset_requested',
+  PASSWORD_RESET = 'password_reset',
+  TWO_FACTOR_ENABLED = 'two_factor_enabled',
+  TWO_FACTOR_DISABLED = 'two_factor_disabled',
+  RECOVERY_CODES_REGENERATED = 'recovery_codes_regenerated',
+}
+
+/**
+ * Why a login failed or was blocked
+ */
+export enum LoginFailureReason {
+  UNKNOWN_EMAIL = 'unknown_email',
+  INVALID_PASSWORD = 'invalid_password',
+  INVALID_TWO_FACTOR_CODE = 'invalid_two_factor_code',
+  INSUFFICIENT_PERMISSIONS = 'insufficient_permissions',
+  ACCOUNT_LOCKED = 'account_locked',
+  RETRY_TOO_SOON = 'retry_too_soon',
+}
+
+/**
+ * Security Event Schema
+ *
+ * Audit log of authentication events. Entries expire after the configured
+ * retention period.
+ */
+@Schema({ timestamps: { createdAt: true, updatedAt: false } })
+export class SecurityEvent {
+  @Prop({ required: true, enum: SecurityEventType })
+  type: SecurityEventType;
+
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  userId?: Types.ObjectId;
+
+  /**
+   * Email tried, for failed logins of unknown accounts
+   */
+  @Prop({ lowercase: true, trim: true })
+  email?: string;
+
+  @Prop()
+  platform?: string;
+
+  @Prop()
+  ipAddress?: string;
+
+  @Prop()
+  userAgent?: string;
+
+  /**
+   * Device derived from the user agent, used to spot logins from new devices
+   */
+  @Prop()
+  deviceName?: string;
+
+  /**
+   * Failure reason or session revoke reason
+   */
+  @Prop()
+  reason?: string;
+
+  /**
+   * Set on successful logins from a device or IP not seen before
+   */
+  @Prop()
+  newDevice?: boolean;
+
+  /**
+   * Admin who performed the action, for admin actions
+   */
+  @Prop({ type: Types.ObjectId, ref: 'User' })
+  actorId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const SecurityEventSchema = SchemaFactory.createForClass(SecurityEvent);
+SecurityEventSchema.index({ userId: 1, type: 1, createdAt: -1 });
+SecurityEventSchema.index({ type: 1, createdAt: -1 });
+SecurityEventSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type SecuritySettingsDocument = SecuritySettings & Document;
+
+/**
+ * Key of the single settings document
+ */
+export const SECURITY_SETTINGS_KEY = 'global';
+
+/**
+ * Security Settings Schema
+ *
+ * Platform-wide authentication policy managed by admins, stored as a single
+ * document.
+ */
+@Schema({ timestamps: true })
+export class SecuritySettings {
+  @Prop({ required: true, unique: true, default: SECURITY_SETTINGS_KEY })
+  key: string;
+
+  /**
+   * Whether admin and seller platform logins need two-factor authentication
+   */
+  @Prop({ default: false })
+  requireTwoFactor: boolean;
+}
+
+export const SecuritySettingsSchema =
+  SchemaFactory.createForClass(SecuritySettings);
@@ -0,0 +1,56 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type StockReservationDocument = StockReservation & Document;
+
+export enum StockReservationStatus {
+  RESERVED = 'reserved',
+  COMMITTED = 'committed',
+  RELEASED = 'released',
+}
+
+@Schema({ _id: false })
+export class ReservedStockItem {
+  @Prop({ type: Types.ObjectId, ref: 'Product', required: true })
+  productId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId })
+  variantId?: Types.ObjectId;
+
+  @Prop({ required: true, min: 1 })
+  quantity: number;
+}
+
+/**
+ * Stock Reservation Schema
+ *
+ * Stock taken from products for a checkout in progress. Items are only
+ * recorded once their stock was actually decremented, so releasing a
+ * reservation never hands back more than it took. Reservations that are
+ * neither committed to an order nor released expire and are released.
+ */
+@Schema({ timestamps: true })
+export class StockReservation {
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: [ReservedStockItem], default: [] })
+  items: ReservedStockItem[];
+
+  @Prop({
+    required: true,
+    enum: StockReservationStatus,
+    default: StockReservationStatus.RESERVED,
+  })
+  status: StockReservationStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'Order' })
+  orderId?: Types.ObjectId;
+
+  @Prop({ required: true })
+  expiresAt: Date;
+}
+
+export const StockReservationSchema =
+  SchemaFactory.createForClass(StockReservation);
+StockReservationSchema.index({ status: 1, expiresAt: 1 });
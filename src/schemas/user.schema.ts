@@ -79,6 +79,48 @@ export class User {
 
   @Prop()
   lastLogoutAt?: Date;
+
+  @Prop({ default: false })
+  twoFactorEnabled: boolean;
+
+  /**
+   * Base32 TOTP secret of the enrolled authenticator
+   */
+  @Prop({ select: false })
+  twoFactorSecret?: string;
+
+  /**
+   * Secret handed out by setup, until a code from it confirms enrollment
+   */
+  @Prop({ select: false })
+  twoFactorPendingSecret?: string;
+
+  /**
+   * SHA-256 hashes of the unused recovery codes
+   */
+  @Prop({ type: [String], select: false, default: undefined })
+  twoFactorRecoveryCodes?: string[];
+
+  /**
+   * Time step of the last accepted code, so a code works only once
+   */
+  @Prop({ select: false })
+  twoFactorLastUsedStep?: number;
+
+  /**
+   * Wrong passwords or 2FA codes since the last successful login or lockout
+   */
+  @Prop({ default: 0 })
+  failedLoginAttempts: number;
+
+  @Prop()
+  lastFailedLoginAt?: Date;
+
+  /**
+   * Logins are refused until then; admins can unlock earlier
+   */
+  @Prop({ index: true })
+  lockedUntil?: Date;
 }
 
 export const UserSchema = SchemaFactory.createForClass(User);
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { Types } from 'mongoose';
 
 export const searchSchema = z.object({
   query: z.string().min(1, 'Arama terimi gereklidir'),
@@ -17,3 +18,69 @@ export const searchSchema = z.object({
 });
 
 export type SearchDto = z.infer<typeof searchSchema>;
+
+/**
+ * Facet selections that narrow a product search
+ */
+export const productFacetFiltersSchema = z.object({
+  category: z
+    .string()
+    .refine((value) => Types.ObjectId.isValid(value), 'Geçersiz kategori ID')
+    .optional(),
+  seller: z.string().optional(), // Virgülle ayrılmış satıcı ID'leri
+  minPrice: z.coerce
+    .number()
+    .min(0, 'Minimum fiyat 0 veya daha büyük olmalıdır')
+    .optional(),
+  maxPrice: z.coerce
+    .number()
+    .min(0, 'Maksimum fiyat 0 veya daha büyük olmalıdır')
+    .optional(),
+  minRating: z.coerce
+    .number()
+    .min(1, 'Minimum puan 1 ile 5 arasında olmalıdır')
+    .max(5, 'Minimum puan 1 ile 5 arasında olmalıdır')
+    .optional(),
+  tags: z.string().optional(), // Virgülle ayrılmış etiketler
+  hasDiscount: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+});
+
+export type ProductFacetFiltersDto = z.infer<typeof productFacetFiltersSchema>;
+
+export const searchProductsSchema = searchSchema
+  .omit({ type: true })
+  .extend(productFacetFiltersSchema.shape)
+  .extend({
+    sortBy: z
+      .enum(['relevance', 'price_asc', 'price_desc', 'newest', 'rating'])
+      .default('relevance'),
+  });
+
+export type SearchProductsDto = z.infer<typeof searchProductsSchema>;
+
+export const suggestSchema = z.object({
+  q: z
+    .string()
+    .trim()
+    .min(1, 'Arama terimi gereklidir')
+    .max(100, 'Arama terimi 100 karakteri geçemez'),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit 1 veya daha büyük olmalıdır')
+    .max(10, "Limit 10'u geçemez")
+    .default(5),
+});
+
+export type SuggestDto = z.infer<typeof suggestSchema>;
+
+export const recordClickSchema = z.object({
+  resultId: z
+    .string()
+    .refine((value) => Types.ObjectId.isValid(value), 'Geçersiz sonuç ID'),
+});
+
+export type RecordClickDto = z.infer<typeof recordClickSchema>;
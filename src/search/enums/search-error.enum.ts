@@ -0,0 +1,7 @@
+export enum SearchError {
+  SEARCH_NOT_FOUND = 'SEARCH_NOT_FOUND',
+}
+
+export const SearchErrorMessages = {
+  [SearchError.SEARCH_NOT_FOUND]: 'Search not found',
+};
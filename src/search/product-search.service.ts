@@ -0,0 +1,565 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage, Types } from 'mongoose';
+import { Product, ProductDocument } from '../schemas/product.schema';
+import {
+  Campaign,
+  CampaignDocument,
+  CampaignType,
+  DiscountType,
+} from '../schemas/campaign.schema';
+import { CategoriesService } from '../categories/categories.service';
+import { ProductFacetFiltersDto } from './dto/search.dto';
+import { SearchRulesService } from './search-rules.service';
+import {
+  editDistance,
+  escapeRegExp,
+  tokenizeSearchText,
+} from './search-query.util';
+
+/**
+ * Lower bounds of the price facet buckets (TL); the last bucket is open-ended
+ */
+export const PRICE_BUCKET_BOUNDARIES = [
+  0, 100, 250, 500, 1000, 2500, 5000, 10000, 25000,
+];
+
+/**
+ * Minimum average ratings offered as rating facet buckets
+ */
+export const RATING_BUCKETS = [4, 3, 2, 1];
+
+export type ProductSearchSort =
+  | 'relevance'
+  | 'price_asc'
+  | 'price_desc'
+  | 'newest'
+  | 'rating';
+
+export type ProductSearchFilters = ProductFacetFiltersDto & {
+  query?: string;
+};
+
+export interface ProductFacets {
+  categories: Array<{ _id: string; name: string; productCount: number }>;
+  priceRanges: Array<{
+    min: number;
+    max: number | null;
+    label: string;
+    productCount: number;
+  }>;
+  sellers: Array<{
+    _id: string;
+    name: string;
+    storeName?: string;
+    productCount: number;
+  }>;
+  ratings: Array<{ minRating: number; label: string; productCount: number }>;
+  tags: Array<{ name: string; count: number }>;
+  discount: { discounted: number; notDiscounted: number };
+}
+
+type FacetName =
+  | 'category'
+  | 'price'
+  | 'seller'
+  | 'rating'
+  | 'tags'
+  | 'discount';
+
+/**
+ * Words a single search word may expand to through prefix and typo matching
+ */
+const MAX_EXPANSIONS_PER_WORD = 10;
+
+/**
+ * Products scanned when collecting indexed words for a prefix
+ */
+const TOKEN_SCAN_LIMIT = 2000;
+
+/**
+ * Every sort ends on _id so pages never overlap or skip products
+ */
+const SORT_STAGES: Record<ProductSearchSort, Record<string, 1 | -1>> = {
+  relevance: { isFeatured: -1, averageRating: -1, createdAt: -1, _id: 1 },
+  price_asc: { price: 1, _id: 1 },
+  price_desc: { price: -1, _id: 1 },
+  newest: { createdAt: -1, _id: 1 },
+  rating: { averageRating: -1, reviewCount: -1, _id: 1 },
+};
+
+/**
+ * Product Search Service
+ *
+ * Faceted product search over active products:
+ * - Free-text query ranked by a weighted text index (name > tags >
+ *   description), diacritic-insensitive for Turkish letters
+ * - Partial words complete to indexed words; words with no match are
+ *   corrected to indexed words a small typo away
+ * - Admin-defined synonyms of the query's words are searched as well
+ * - Facet selections (category subtree, price, seller, rating, tags,
+ *   discount) combined with the query
+ * - Facet counts computed against the current query and every other
+ *   selection, so choosing a value never hides the alternatives of its
+ *   own facet
+ */
+@Injectable()
+export class ProductSearchService {
+  constructor(
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
+    private categoriesService: CategoriesService,
+    private searchRulesService: SearchRulesService,
+  ) {}
+
+  /**
+   * Search products and compute facets for the result set
+   *
+   * @param filters - Free-text query and facet selections
+   * @param options - Page, page size and sort order
+   * @returns Page of products with discount info, total and facets
+   */
+  async search(
+    filters: ProductSearchFilters,
+    options: { page: number; limit: number; sortBy?: ProductSearchSort },
+  ) {
+    const { page, limit, sortBy = 'relevance' } = options;
+    const campaigns = await this.findAutomaticCampaigns();
+    const selections = await this.buildSelections(filters);
+    const baseStages = await this.buildBaseStages(filters, campaigns);
+    const hasTextQuery = !!filters.query?.trim();
+
+    const [result] = await this.productModel.aggregate<Record<string, any[]>>([
+      ...baseStages,
+      {
+        $facet: {
+          results: [
+            this.matchSelections(selections),
+            {
+              $sort:
+                sortBy === 'relevance' && hasTextQuery
+                  ? { relevance: -1, ...SORT_STAGES.relevance }
+                  : SORT_STAGES[sortBy],
+            },
+            { $skip: (page - 1) * limit },
+            { $limit: limit },
+          ],
+          total: [this.matchSelections(selections), { $count: 'count' }],
+          ...this.buildFacetStages(selections),
+        },
+      },
+    ]);
+
+    const products = await this.productModel.populate(result.results, [
+      { path: 'category', select: 'name' },
+      { path: 'sellerId', select: 'firstName lastName storeName' },
+    ]);
+
+    return {
+      products: products.map((product: any) => {
+        const discountedPrice = this.getDiscountedPrice(product, campaigns);
+        return {
+          ...product,
+          discountedPrice,
+          hasDiscount:
+            discountedPrice !== null && discountedPrice < product.price,
+        };
+      }),
+      total: (result.total[0]?.count as number) ?? 0,
+      facets: this.formatFacets(result),
+    };
+  }
+
+  /**
+   * Compute facets without fetching products
+   *
+   * @param filters - Free-text query and facet selections
+   */
+  async getFacets(filters: ProductSearchFilters): Promise<ProductFacets> {
+    const campaigns = await this.findAutomaticCampaigns();
+    const selections = await this.buildSelections(filters);
+
+    const [result] = await this.productModel.aggregate<Record<string, any[]>>([
+      ...(await this.buildBaseStages(filters, campaigns)),
+      { $facet: this.buildFacetStages(selections) },
+    ]);
+
+    return this.formatFacets(result);
+  }
+
+  /**
+   * Active campaigns that apply without a coupon code
+   *
+   * @private
+   */
+  private async findAutomaticCampaigns() {
+    const now = new Date();
+    return this.campaignModel
+      .find({
+        isActive: true,
+        startDate: { $lte: now },
+        endDate: { $gte: now },
+        requiresCode: { $ne: true },
+      })
+      .lean();
+  }
+
+  /**
+   * Match the query and derive the fields facets are computed on
+   *
+   * @private
+   */
+  private async buildBaseStages(
+    filters: ProductSearchFilters,
+    campaigns: Campaign[],
+  ): Promise<PipelineStage[]> {
+    const match: Record<string, any> = { isActive: true };
+    const hasTextQuery = !!filters.query?.trim();
+    if (hasTextQuery) {
+      const terms = await this.expandSearchTerms(filters.query!);
+      // A query without any word (e.g. only punctuation) matches nothing
+      if (terms.length > 0) {
+        match.$text = { $search: terms.join(' ') };
+      } else {
+        match._id = { $in: [] };
+      }
+    }
+
+    const platformWide = campaigns.some(
+      (campaign) => campaign.type === CampaignType.PLATFORM,
+    );
+    const productIds = campaigns.flatMap((campaign) => campaign.productIds);
+    const categoryIds = campaigns.flatMap((campaign) => campaign.categoryIds);
+
+    return [
+      { $match: match },
+      {
+        $addFields: {
+          hasDiscount: platformWide
+            ? true
+            : {
+                $or: [
+                  { $in: ['$_id', productIds] },
+                  { $in: ['$category', categoryIds] },
+                ],
+              },
+          ...(match.$text && { relevance: { $meta: 'textScore' } }),
+        },
+      },
+      { $project: { search: 0 } },
+    ];
+  }
+
+  /**
+   * Expand the words of a query with the indexed words they stand for and
+   * the words of its synonym variants
+   *
+   * @private
+   * @returns Text search terms, the query's own words first
+   */
+  private async expandSearchTerms(query: string): Promise<string[]> {
+    const [, ...variants] = await this.searchRulesService.expandQuery(query);
+    const words = tokenizeSearchText(query);
+    const terms = new Set(words);
+
+    // Single letters of split synonyms (the "t" of "t-shirt") match too much
+    variants
+      .flatMap((variant) => tokenizeSearchText(variant))
+      .filter((word) => word.length > 1)
+      .forEach((word) => terms.add(word));
+
+    for (const word of words) {
+      (await this.findSimilarTokens(word)).forEach((term) => terms.add(term));
+    }
+
+    return [...terms];
+  }
+
+  /**
+   * Indexed words completing a partial word, or a small typo away from it
+   *
+   * Typo matching allows one edit for words of 4-7 letters and two for
+   * longer ones. Candidates are looked up by first letter through the token
+   * index, so typos in the first letter are not corrected.
+   *
+   * @private
+   */
+  private async findSimilarTokens(word: string): Promise<string[]> {
+    const completions = await this.findTokensByPrefix(word);
+    if (completions.length > 0) {
+      return completions
+        .sort((a, b) => a.length - b.length)
+        .slice(0, MAX_EXPANSIONS_PER_WORD);
+    }
+
+    const maxDistance = word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0;
+    if (maxDistance === 0) return [];
+
+    return (await this.findTokensByPrefix(word[0]))
+      .filter((token) => Math.abs(token.length - word.length) <= maxDistance)
+      .map((token) => ({ token, distance: editDistance(word, token) }))
+      .filter(({ distance }) => distance <= maxDistance)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_EXPANSIONS_PER_WORD)
+      .map(({ token }) => token);
+  }
+
+  /**
+   * Distinct indexed words of active products starting with a prefix
+   *
+   * @private
+   */
+  private async findTokensByPrefix(prefix: string): Promise<string[]> {
+    const pattern = new RegExp(`^${escapeRegExp(prefix)}`);
+    const tokens = await this.productModel.aggregate<{ _id: string }>([
+      { $match: { isActive: true, 'search.tokens': pattern } },
+      { $limit: TOKEN_SCAN_LIMIT },
+      { $project: { token: '$search.tokens' } },
+      { $unwind: '$token' },
+      { $match: { token: pattern } },
+      { $group: { _id: '$token' } },
+    ]);
+
+    return tokens.map((token) => token._id);
+  }
+
+  /**
+   * Turn facet selections into match conditions, one per facet
+   *
+   * @private
+   */
+  private async buildSelections(
+    filters: ProductSearchFilters,
+  ): Promise<Partial<Record<FacetName, Record<string, any>>>> {
+    const selections: Partial<Record<FacetName, Record<string, any>>> = {};
+
+    if (filters.category) {
+      selections.category = {
+        category: {
+          $in: await this.categoriesService.findSubtreeIds(filters.category),
+        },
+      };
+    }
+
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      const price: Record<string, number> = {};
+      if (filters.minPrice !== undefined) price.$gte = filters.minPrice;
+      if (filters.maxPrice !== undefined) price.$lte = filters.maxPrice;
+      selections.price = { price };
+    }
+
+    if (filters.seller) {
+      // Invalid IDs match no products
+      const sellerIds = filters.seller
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => Types.ObjectId.isValid(id))
+        .map((id) => new Types.ObjectId(id));
+      selections.seller = { sellerId: { $in: sellerIds } };
+    }
+
+    if (filters.minRating !== undefined) {
+      selections.rating = { averageRating: { $gte: filters.minRating } };
+    }
+
+    if (filters.tags) {
+      const tags = filters.tags
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+      if (tags.length > 0) selections.tags = { tags: { $in: tags } };
+    }
+
+    if (filters.hasDiscount !== undefined) {
+      selections.discount = { hasDiscount: filters.hasDiscount };
+    }
+
+    return selections;
+  }
+
+  /**
+   * Match every selection, optionally leaving out one facet's own
+   *
+   * @private
+   */
+  private matchSelections(
+    selections: Partial<Record<FacetName, Record<string, any>>>,
+    except?: FacetName,
+  ): PipelineStage.Match {
+    const conditions = Object.entries(selections)
+      .filter(([facet]) => facet !== except)
+      .map(([, condition]) => condition);
+
+    return { $match: conditions.length > 0 ? { $and: conditions } : {} };
+  }
+
+  /**
+   * Sub-pipelines counting products per facet value
+   *
+   * @private
+   */
+  private buildFacetStages(
+    selections: Partial<Record<FacetName, Record<string, any>>>,
+  ): Record<string, PipelineStage.FacetPipelineStage[]> {
+    return {
+      categories: [
+        this.matchSelections(selections, 'category'),
+        { $group: { _id: '$category', productCount: { $sum: 1 } } },
+        {
+          $lookup: {
+            from: 'categories',
+            localField: '_id',
+            foreignField: '_id',
+            as: 'categoryInfo',
+          },
+        },
+        { $unwind: '$categoryInfo' },
+        {
+          $project: {
+            _id: '$categoryInfo._id',
+            name: '$categoryInfo.name',
+            productCount: 1,
+          },
+        },
+        { $sort: { name: 1 } },
+      ],
+      priceRanges: [
+        this.matchSelections(selections, 'price'),
+        {
+          $bucket: {
+            groupBy: '$price',
+            boundaries: [...PRICE_BUCKET_BOUNDARIES, Number.MAX_VALUE],
+            default: 'other',
+            output: { productCount: { $sum: 1 } },
+          },
+        },
+      ],
+      sellers: [
+        this.matchSelections(selections, 'seller'),
+        { $group: { _id: '$sellerId', productCount: { $sum: 1 } } },
+        {
+          $lookup: {
+            from: 'users',
+            localField: '_id',
+            foreignField: '_id',
+            as: 'sellerInfo',
+          },
+        },
+        { $unwind: '$sellerInfo' },
+        {
+          $project: {
+            _id: '$sellerInfo._id',
+            name: {
+              $concat: ['$sellerInfo.firstName', ' ', '$sellerInfo.lastName'],
+            },
+            storeName: '$sellerInfo.storeName',
+            productCount: 1,
+          },
+        },
+        { $sort: { productCount: -1, name: 1 } },
+      ],
+      ratings: [
+        this.matchSelections(selections, 'rating'),
+        {
+          $group: {
+            _id: null,
+            ...Object.fromEntries(
+              RATING_BUCKETS.map((rating) => [
+                `rating${rating}`,
+                {
+                  $sum: { $cond: [{ $gte: ['$averageRating', rating] }, 1, 0] },
+                },
+              ]),
+            ),
+          },
+        },
+      ],
+      tags: [
+        this.matchSelections(selections, 'tags'),
+        { $unwind: '$tags' },
+        { $group: { _id: '$tags', count: { $sum: 1 } } },
+        { $sort: { count: -1, _id: 1 } },
+        { $limit: 20 },
+        { $project: { name: '$_id', count: 1, _id: 0 } },
+      ],
+      discount: [
+        this.matchSelections(selections, 'discount'),
+        { $group: { _id: '$hasDiscount', count: { $sum: 1 } } },
+      ],
+    };
+  }
+
+  /**
+   * Shape the raw facet buckets for the response
+   *
+   * @private
+   */
+  private formatFacets(result: Record<string, any[]>): ProductFacets {
+    const priceRanges = result.priceRanges
+      .filter((bucket) => bucket._id !== 'other')
+      .map((bucket) => {
+        const min = bucket._id as number;
+        const index = PRICE_BUCKET_BOUNDARIES.indexOf(min);
+        const max = PRICE_BUCKET_BOUNDARIES[index + 1] ?? null;
+        return {
+          min,
+          max,
+          label: max === null ? `${min} TL+` : `${min} TL - ${max} TL`,
+          productCount: bucket.productCount as number,
+        };
+      });
+
+    const ratingCounts = result.ratings[0] || {};
+    const discountCount = (value: boolean): number =>
+      result.discount.find((bucket) => bucket._id === value)?.count ?? 0;
+
+    return {
+      categories: result.categories,
+      priceRanges,
+      sellers: result.sellers,
+      ratings: RATING_BUCKETS.map((rating) => ({
+        minRating: rating,
+        label: `${rating}+`,
+        productCount: ratingCounts[`rating${rating}`] ?? 0,
+      })).filter((bucket) => bucket.productCount > 0),
+      tags: result.tags,
+      discount: {
+        discounted: discountCount(true),
+        notDiscounted: discountCount(false),
+      },
+    };
+  }
+
+  /**
+   * Best price among the automatic campaigns that apply to a product
+   *
+   * @private
+   * @returns Discounted price, or null when no campaign applies
+   */
+  private getDiscountedPrice(
+    product: Product & { _id: Types.ObjectId; category: any },
+    campaigns: Campaign[],
+  ): number | null {
+    const categoryId: Types.ObjectId =
+      product.category?._id ?? product.category;
+    const applicable = campaigns.filter(
+      (campaign) =>
+        campaign.type === CampaignType.PLATFORM ||
+        campaign.productIds.some((id) => id.equals(product._id)) ||
+        campaign.categoryIds.some((id) => id.equals(categoryId)),
+    );
+    if (applicable.length === 0) return null;
+
+    let minPrice = product.price;
+    for (const campaign of applicable) {
+      let discounted = product.price;
+      if (campaign.discountType === DiscountType.PERCENTAGE) {
+        discounted = product.price * (1 - campaign.discountValue / 100);
+      } else if (campaign.discountType === DiscountType.AMOUNT) {
+        discounted = product.price - campaign.discountValue;
+      }
+      if (discounted < minPrice) minPrice = discounted;
+    }
+    return Math.max(0, Math.round(minPrice * 100) / 100);
+  }
+}
@@ -0,0 +1,82 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  SearchQueryLog,
+  SearchQueryLogDocument,
+  SearchQueryType,
+} from '../schemas/search-query-log.schema';
+import { SearchError, SearchErrorMessages } from './enums';
+import { normalizeSearchQuery } from './search-query.util';
+
+/**
+ * Search Analytics Service
+ *
+ * Records what customers search for and whether they opened a result, for
+ * the admin search analytics report.
+ */
+@Injectable()
+export class SearchAnalyticsService {
+  constructor(
+    @InjectModel(SearchQueryLog.name)
+    private searchQueryLogModel: Model<SearchQueryLogDocument>,
+  ) {}
+
+  /**
+   * Log a search
+   *
+   * Logging is best effort: a failure is reported but never fails the
+   * search itself.
+   *
+   * @returns Search ID for click tracking, or undefined when not logged
+   */
+  async logQuery(entry: {
+    query: string;
+    type: SearchQueryType;
+    resultCount: number;
+    userId?: string;
+  }): Promise<string | undefined> {
+    try {
+      const log = await this.searchQueryLogModel.create({
+        query: entry.query.trim(),
+        normalizedQuery: normalizeSearchQuery(entry.query),
+        type: entry.type,
+        resultCount: entry.resultCount,
+        userId: entry.userId ? new Types.ObjectId(entry.userId) : undefined,
+      });
+      return (log._id as Types.ObjectId).toString();
+    } catch (error) {
+      console.error('Search query could not be logged:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record that a result of a search was opened
+   *
+   * Only the first click of a search is kept, so repeated clicks do not
+   * inflate the click-through rate.
+   *
+   * @param searchId - Search ID returned with the results
+   * @param resultId - ID of the opened product, category, seller or campaign
+   */
+  async recordClick(searchId: string, resultId: string): Promise<void> {
+    const log = await this.searchQueryLogModel.findById(searchId);
+    if (!log) {
+      throw new NotFoundException(
+        SearchErrorMessages[SearchError.SEARCH_NOT_FOUND],
+      );
+    }
+
+    await this.searchQueryLogModel.updateOne(
+      { _id: log._id, clicked: false },
+      {
+        $set: {
+          clicked: true,
+          clickedResultId: new Types.ObjectId(resultId),
+          clickedAt: new Date(),
+        },
+      },
+    );
+  }
+}
@@ -0,0 +1,109 @@
+const TURKISH_FOLDING: Record<string, string> = {
+  ı: 'i',
+  İ: 'i',
+  ş: 's',
+  Ş: 's',
+  ğ: 'g',
+  Ğ: 'g',
+  ç: 'c',
+  Ç: 'c',
+  ö: 'o',
+  Ö: 'o',
+  ü: 'u',
+  Ü: 'u',
+};
+
+/**
+ * Character classes matching a folded letter in any of its Turkish forms
+ */
+const FOLDED_LETTER_CLASSES: Record<string, string> = {
+  i: '[iIıİ]',
+  s: '[sSşŞ]',
+  g: '[gGğĞ]',
+  c: '[cCçÇ]',
+  o: '[oOöÖ]',
+  u: '[uUüÜ]',
+};
+
+/**
+ * Escape characters with a special meaning in regular expressions
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Fold text for matching: Turkish letters become their ASCII counterparts
+ * (ı/i, ş/s, ğ/g, ç/c, ö/o, ü/u), other diacritics are stripped and the
+ * result is lower-cased
+ */
+export function normalizeSearchText(value: string): string {
+  return value
+    .replace(/[ıİşŞğĞçÇöÖüÜ]/g, (letter) => TURKISH_FOLDING[letter])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Fold a query to its words separated by single spaces, so "T-Shirt",
+ * "t shirt" and "T  SHIRT" compare equal
+ */
+export function normalizeSearchQuery(query: string): string {
+  return normalizeSearchText(query)
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Split text into unique normalized words
+ */
+export function tokenizeSearchText(value: string): string[] {
+  return [
+    ...new Set(
+      normalizeSearchText(value)
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean),
+    ),
+  ];
+}
+
+/**
+ * Case- and diacritic-insensitive regex that matches the user's search term
+ * literally, e.g. "sik" also matches "Şık"
+ */
+export function buildSearchRegex(query: string): RegExp {
+  const pattern = [...normalizeSearchText(query.trim())]
+    .map((letter) => FOLDED_LETTER_CLASSES[letter] ?? escapeRegExp(letter))
+    .join('');
+  return new RegExp(pattern, 'i');
+}
+
+/**
+ * Like buildSearchRegex, but only matches at the start of a word
+ */
+export function buildPrefixRegex(query: string): RegExp {
+  return new RegExp(`(^|\\s)${buildSearchRegex(query).source}`, 'i');
+}
+
+/**
+ * Levenshtein distance between two words
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  SearchSynonym,
+  SearchSynonymDocument,
+} from '../schemas/search-synonym.schema';
+import {
+  SearchRedirect,
+  SearchRedirectDocument,
+  SearchRedirectTarget,
+} from '../schemas/search-redirect.schema';
+import { normalizeSearchQuery } from './search-query.util';
+
+/**
+ * Longest phrase, in words, looked up as a synonym term
+ */
+const MAX_SYNONYM_PHRASE_WORDS = 3;
+
+/**
+ * Upper bound on query variants, so large synonym groups stay cheap
+ */
+const MAX_QUERY_VARIANTS = 10;
+
+export interface SearchRedirectResult {
+  type: SearchRedirectTarget;
+  targetId?: string;
+  url?: string;
+}
+
+/**
+ * Search Rules Service
+ *
+ * Applies the synonyms and redirects admins define for search:
+ * - Synonyms rewrite a query into variants that are searched as well
+ * - Redirects send an exact query to a page
+ */
+@Injectable()
+export class SearchRulesService {
+  constructor(
+    @InjectModel(SearchSynonym.name)
+    private synonymModel: Model<SearchSynonymDocument>,
+    @InjectModel(SearchRedirect.name)
+    private redirectModel: Model<SearchRedirectDocument>,
+  ) {}
+
+  /**
+   * Rewrite a query with the synonyms of its words and phrases
+   *
+   * "siyah tshirt" with the group "tshirt, t-shirt, tişört" yields
+   * "siyah t shirt" and "siyah tisort".
+   *
+   * @param query - Search query as entered
+   * @returns The query itself first, then its normalized variants
+   */
+  async expandQuery(query: string): Promise<string[]> {
+    const normalized = normalizeSearchQuery(query);
+    if (!normalized) return [query];
+
+    const words = normalized.split(' ');
+    const phrases = new Set<string>();
+    for (let size = 1; size <= MAX_SYNONYM_PHRASE_WORDS; size++) {
+      for (let start = 0; start + size <= words.length; start++) {
+        phrases.add(words.slice(start, start + size).join(' '));
+      }
+    }
+
+    const groups = await this.synonymModel
+      .find({ isActive: true, normalizedTerms: { $in: [...phrases] } })
+      .select('normalizedTerms')
+      .lean();
+
+    const variants = new Set<string>();
+    for (const group of groups) {
+      for (const term of group.normalizedTerms.filter((t) => phrases.has(t))) {
+        for (const synonym of group.normalizedTerms) {
+          if (synonym === term) continue;
+          variants.add(
+            ` ${normalized} `.replace(` ${term} `, ` ${synonym} `).trim(),
+          );
+        }
+      }
+    }
+    variants.delete(normalized);
+
+    return [query, ...variants].slice(0, MAX_QUERY_VARIANTS);
+  }
+
+  /**
+   * Active redirect for a query, matched on its normalized form
+   *
+   * @param query - Search query as entered
+   */
+  async findRedirect(query: string): Promise<SearchRedirectResult | null> {
+    const normalizedQuery = normalizeSearchQuery(query);
+    if (!normalizedQuery) return null;
+
+    const redirect = await this.redirectModel
+      .findOne({ normalizedQuery, isActive: true })
+      .lean();
+    if (!redirect) return null;
+
+    return {
+      type: redirect.targetType,
+      targetId: redirect.targetId?.toString(),
+      url: redirect.url,
+    };
+  }
+}
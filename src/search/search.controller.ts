@@ -1,8 +1,32 @@
-import { Controller, Get, Query } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiQuery } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBody,
+} from '@nestjs/swagger';
 import { SearchService } from './search.service';
 import { ZodValidationPipe } from '../common/pipes/zod-validation.pipe';
-import { searchSchema } from './dto/search.dto';
+import {
+  recordClickSchema,
+  searchProductsSchema,
+  searchSchema,
+  suggestSchema,
+} from './dto/search.dto';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { OptionalJwtAuthGuard } from '../common/guards/optional-jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { ParseMongoIdPipe } from '../common/pipes/mongo-id.pipe';
 
 /**
  * Search Controller
@@ -11,14 +35,18 @@ import { searchSchema } from './dto/search.dto';
  * - Global search across products, categories, sellers, and campaigns
  * - Type-specific search (products only, categories only, etc.)
  * - Pagination and result limiting
- * - Real-time search suggestions
+ * - Type-ahead suggestions for a typed prefix
  *
- * No authentication required for these endpoints.
+ * No authentication required for these endpoints. Searches are logged for
+ * search analytics, attributed to the user when a valid token is sent.
  */
 @ApiTags('Search')
 @Controller('search')
 export class SearchController {
-  constructor(private readonly searchService: SearchService) {}
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly searchAnalyticsService: SearchAnalyticsService,
+  ) {}
 
   /**
    * Global search - search all types
@@ -27,6 +55,7 @@ export class SearchController {
    * If type parameter is specified, only searches that type.
    */
   @Get()
+  @UseGuards(OptionalJwtAuthGuard)
   @ApiOperation({
     summary: 'Global search',
     description: 'Search across products, categories, sellers, and campaigns',
@@ -154,6 +183,111 @@ export class SearchController {
             campaigns: { type: 'number' },
           },
         },
+        searchId: {
+          type: 'string',
+          description: 'Send with result clicks for search analytics',
+        },
+        redirect: {
+          type: 'object',
+          description:
+            'Present when an admin redirect matches the query; navigate to the target instead of showing results',
+          properties: {
+            type: {
+              type: 'string',
+              enum: ['product', 'category', 'seller', 'campaign', 'url'],
+            },
+            targetId: { type: 'string' },
+            url: { type: 'string' },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid search parameters',
+  })
+  async search(
+    @Query(new ZodValidationPipe(searchSchema)) searchDto: any,
+    @CurrentUser('id') userId?: string,
+  ) {
+    return this.searchService.searchAll(searchDto, userId);
+  }
+
+  /**
+   * Type-ahead suggestions
+   *
+   * Returns product names ranked by popularity, plus categories, stores and
+   * active campaigns matching the typed prefix. Results are cached briefly.
+   */
+  @Get('suggest')
+  @ApiOperation({
+    summary: 'Search suggestions',
+    description:
+      'Autocomplete product names, categories, stores and campaigns for a prefix',
+  })
+  @ApiQuery({
+    name: 'q',
+    required: true,
+    type: String,
+    description: 'Typed prefix',
+    example: 'iph',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Suggestions per group (default: 5, max: 10)',
+    example: 5,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Suggestions retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        products: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string' },
+              name: { type: 'string' },
+              imageUrl: { type: 'string' },
+            },
+          },
+        },
+        categories: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string' },
+              name: { type: 'string' },
+            },
+          },
+        },
+        sellers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string', description: 'Seller user ID' },
+              storeName: { type: 'string' },
+              logoUrl: { type: 'string' },
+            },
+          },
+        },
+        campaigns: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              _id: { type: 'string' },
+              name: { type: 'string' },
+            },
+          },
+        },
       },
     },
   })
@@ -161,17 +295,22 @@ export class SearchController {
     status: 400,
     description: 'Invalid search parameters',
   })
-  async search(@Query(new ZodValidationPipe(searchSchema)) searchDto: any) {
-    return this.searchService.searchAll(searchDto);
+  async suggest(@Query(new ZodValidationPipe(suggestSchema)) suggestDto: any) {
+    return this.searchService.suggest(suggestDto);
   }
 
   /**
    * Product search only
+   *
+   * Facet selections are combined with the search term; facet counts are
+   * computed against the search term and all other selections.
    */
   @Get('products')
+  @UseGuards(OptionalJwtAuthGuard)
   @ApiOperation({
     summary: 'Product search',
-    description: 'Search only in products',
+    description:
+      'Search only in products, with facet filters and counts per category, price range, seller, rating, tag and discount',
   })
   @ApiQuery({
     name: 'query',
@@ -194,18 +333,180 @@ export class SearchController {
     description: 'Items per page (default: 10, max: 100)',
     example: 10,
   })
+  @ApiQuery({
+    name: 'category',
+    required: false,
+    type: String,
+    description: 'Category ID (subcategories included)',
+  })
+  @ApiQuery({
+    name: 'seller',
+    required: false,
+    type: String,
+    description: 'Comma-separated seller IDs',
+  })
+  @ApiQuery({
+    name: 'minPrice',
+    required: false,
+    type: Number,
+    description: 'Minimum price',
+  })
+  @ApiQuery({
+    name: 'maxPrice',
+    required: false,
+    type: Number,
+    description: 'Maximum price',
+  })
+  @ApiQuery({
+    name: 'minRating',
+    required: false,
+    type: Number,
+    description: 'Minimum average rating (1-5)',
+    example: 4,
+  })
+  @ApiQuery({
+    name: 'tags',
+    required: false,
+    type: String,
+    description: 'Comma-separated tags',
+  })
+  @ApiQuery({
+    name: 'hasDiscount',
+    required: false,
+    enum: ['true', 'false'],
+    description: 'Only discounted / not discounted products',
+  })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    enum: ['relevance', 'price_asc', 'price_desc', 'newest', 'rating'],
+    description: 'Sort order (default: relevance)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Product search results retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        products: { type: 'array', items: { type: 'object' } },
+        categories: { type: 'array', items: { type: 'object' } },
+        sellers: { type: 'array', items: { type: 'object' } },
+        campaigns: { type: 'array', items: { type: 'object' } },
+        facets: {
+          type: 'object',
+          properties: {
+            categories: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  _id: { type: 'string' },
+                  name: { type: 'string' },
+                  productCount: { type: 'number' },
+                },
+              },
+            },
+            priceRanges: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  min: { type: 'number' },
+                  max: { type: 'number', nullable: true },
+                  label: { type: 'string' },
+                  productCount: { type: 'number' },
+                },
+              },
+            },
+            sellers: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  _id: { type: 'string' },
+                  name: { type: 'string' },
+                  storeName: { type: 'string' },
+                  productCount: { type: 'number' },
+                },
+              },
+            },
+            ratings: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  minRating: { type: 'number' },
+                  label: { type: 'string', example: '4+' },
+                  productCount: { type: 'number' },
+                },
+              },
+            },
+            tags: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  name: { type: 'string' },
+                  count: { type: 'number' },
+                },
+              },
+            },
+            discount: {
+              type: 'object',
+              properties: {
+                discounted: { type: 'number' },
+                notDiscounted: { type: 'number' },
+              },
+            },
+          },
+        },
+        totalResults: { type: 'object' },
+        searchId: {
+          type: 'string',
+          description: 'Send with result clicks for search analytics',
+        },
+      },
+    },
   })
   async searchProducts(
-    @Query(new ZodValidationPipe(searchSchema)) searchDto: any,
+    @Query(new ZodValidationPipe(searchProductsSchema)) searchDto: any,
+    @CurrentUser('id') userId?: string,
   ) {
-    return this.searchService.searchProducts(
-      searchDto.query,
-      searchDto.page,
-      searchDto.limit,
-    );
+    return this.searchService.searchProducts(searchDto, userId);
+  }
+
+  /**
+   * Record a search result click
+   *
+   * Called by the client when the customer opens a result of a search;
+   * feeds the click-through rate of the admin search analytics.
+   */
+  @Post(':searchId/click')
+  @ApiOperation({
+    summary: 'Record search result click',
+    description: 'Mark a search as clicked through to one of its results',
+  })
+  @ApiParam({ name: 'searchId', description: 'Search ID from the results' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['resultId'],
+      properties: {
+        resultId: {
+          type: 'string',
+          description: 'Opened product, category, seller or campaign ID',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Click recorded' })
+  @ApiResponse({ status: 404, description: 'Search not found' })
+  async recordClick(
+    @Param('searchId', ParseMongoIdPipe) searchId: string,
+    @Body(new ZodValidationPipe(recordClickSchema)) body: any,
+  ) {
+    await this.searchAnalyticsService.recordClick(searchId, body.resultId);
+    return { message: 'Click recorded' };
   }
 
   /**
@@ -1,5 +1,8 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { CacheModule } from '@nestjs/cache-manager';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import * as redisStore from 'cache-manager-redis-store';
 import { SearchController } from './search.controller';
 import { SearchService } from './search.service';
 import { Product, ProductSchema } from '../schemas/product.schema';
@@ -9,18 +12,56 @@ import {
   SellerProfileSchema,
 } from '../schemas/seller-profile.schema';
 import { Campaign, CampaignSchema } from '../schemas/campaign.schema';
+import {
+  SearchQueryLog,
+  SearchQueryLogSchema,
+} from '../schemas/search-query-log.schema';
+import {
+  SearchSynonym,
+  SearchSynonymSchema,
+} from '../schemas/search-synonym.schema';
+import {
+  SearchRedirect,
+  SearchRedirectSchema,
+} from '../schemas/search-redirect.schema';
+import { CategoriesModule } from '../categories/categories.module';
+import { ProductSearchService } from './product-search.service';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { SearchRulesService } from './search-rules.service';
+import { RecommendationsModule } from '../recommendations/recommendations.module';
 
 @Module({
   imports: [
+    CacheModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) => ({
+        store: redisStore,
+        host: configService.get('REDIS_HOST', 'localhost'),
+        port: configService.get('REDIS_PORT', 6379),
+        password: configService.get('REDIS_PASSWORD'),
+        ttl: 60 * 5, // 5 minutes
+      }),
+      inject: [ConfigService],
+    }),
     MongooseModule.forFeature([
       { name: Product.name, schema: ProductSchema },
       { name: Category.name, schema: CategorySchema },
       { name: SellerProfile.name, schema: SellerProfileSchema },
       { name: Campaign.name, schema: CampaignSchema },
+      { name: SearchQueryLog.name, schema: SearchQueryLogSchema },
+      { name: SearchSynonym.name, schema: SearchSynonymSchema },
+      { name: SearchRedirect.name, schema: SearchRedirectSchema },
     ]),
+    CategoriesModule,
+    RecommendationsModule,
   ],
   controllers: [SearchController],
-  providers: [SearchService],
-  exports: [SearchService],
+  providers: [
+    SearchService,
+    ProductSearchService,
+    SearchAnalyticsService,
+    SearchRulesService,
+  ],
+  exports: [SearchService, ProductSearchService],
 })
 export class SearchModule {}
@@ -1,6 +1,8 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import { Cache } from 'cache-manager';
+import { Model, mongo } from 'mongoose';
 import { Product, ProductDocument } from '../schemas/product.schema';
 import { Category, CategoryDocument } from '../schemas/category.schema';
 import {
@@ -8,7 +10,64 @@ import {
   SellerProfileDocument,
 } from '../schemas/seller-profile.schema';
 import { Campaign, CampaignDocument } from '../schemas/campaign.schema';
-import { SearchDto } from './dto/search.dto';
+import { SearchQueryType } from '../schemas/search-query-log.schema';
+import { SearchDto, SearchProductsDto, SuggestDto } from './dto/search.dto';
+import {
+  ProductFacets,
+  ProductSearchFilters,
+  ProductSearchService,
+} from './product-search.service';
+import {
+  buildPrefixRegex,
+  buildSearchRegex,
+  escapeRegExp,
+  normalizeSearchText,
+  tokenizeSearchText,
+} from './search-query.util';
+import { RecommendationsService } from '../recommendations/recommendations.service';
+import { SearchAnalyticsService } from './search-analytics.service';
+import {
+  SearchRedirectResult,
+  SearchRulesService,
+} from './search-rules.service';
+
+/**
+ * Per-query time limit of the suggestion lookups; groups that exceed it are
+ * left empty rather than delaying the response
+ */
+const SUGGEST_TIME_BUDGET_MS = 250;
+
+/**
+ * Matching products ranked by popularity for product suggestions
+ */
+const SUGGEST_PRODUCT_CANDIDATES = 50;
+
+const SUGGEST_CACHE_TTL_MS = 5 * 60 * 1000; // 5 dakika
+
+/**
+ * Cache lifetime of suggestions with a group cut short by the time budget,
+ * long enough to spare the database but not to keep a prefix blank
+ */
+const SUGGEST_DEGRADED_CACHE_TTL_MS = 5 * 1000;
+
+/**
+ * Time budget shared by the lookups of one suggestion request
+ */
+interface SuggestBudget {
+  exceeded: boolean;
+}
+
+/**
+ * MongoDB error code of queries stopped by maxTimeMS
+ */
+const MAX_TIME_MS_EXPIRED = 50;
+
+export interface SuggestResult {
+  products: Array<{ _id: string; name: string; imageUrl?: string }>;
+  categories: Array<{ _id: string; name: string }>;
+  sellers: Array<{ _id: string; storeName: string; logoUrl?: string }>;
+  campaigns: Array<{ _id: string; name: string }>;
+}
 
 export interface SearchResult {
   products: Array<{
@@ -67,6 +126,15 @@ export interface SearchResult {
     sellers: number;
     campaigns: number;
   };
+  /**
+   * Identifies the search when reporting a result click
+   */
+  searchId?: string;
+  /**
+   * Page the query is redirected to by an admin rule; the frontend should
+   * navigate there instead of showing the results
+   */
+  redirect?: SearchRedirectResult;
 }
 
 @Injectable()
@@ -77,33 +145,82 @@ export class SearchService {
     @InjectModel(SellerProfile.name)
     private sellerProfileModel: Model<SellerProfileDocument>,
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
+    @Inject(CACHE_MANAGER) private cacheManager: Cache,
+    private productSearchService: ProductSearchService,
+    private recommendationsService: RecommendationsService,
+    private searchAnalyticsService: SearchAnalyticsService,
+    private searchRulesService: SearchRulesService,
   ) {}
 
   /**
    * Genel arama yapar - ürünler, kategoriler, satıcılar ve kampanyalar
+   *
+   * Sorgu için bir yönlendirme tanımlıysa sonuçlarla birlikte döner
+   */
+  async searchAll(
+    searchDto: SearchDto,
+    userId?: string,
+  ): Promise<SearchResult> {
+    const [result, redirect] = await Promise.all([
+      this.searchAndLog(searchDto, userId),
+      this.searchRulesService.findRedirect(searchDto.query),
+    ]);
+
+    return redirect ? { ...result, redirect } : result;
+  }
+
+  /**
+   * Aramayı yapar ve kaydını tutar (internal)
+   */
+  private async searchAndLog(
+    searchDto: SearchDto,
+    userId?: string,
+  ): Promise<SearchResult> {
+    const { query, page = 1, limit = 10, type } = searchDto;
+
+    // Ürün araması kendi kaydını tutar
+    if (type === 'products') {
+      return this.searchProducts(
+        { query, page, limit, sortBy: 'relevance' },
+        userId,
+      );
+    }
+
+    const result = await this.searchByType(searchDto);
+    const { totalResults } = result;
+    const searchId = await this.searchAnalyticsService.logQuery({
+      query,
+      type: (type as SearchQueryType) ?? SearchQueryType.ALL,
+      resultCount:
+        totalResults.products +
+        totalResults.categories +
+        totalResults.sellers +
+        totalResults.campaigns,
+      userId,
+    });
+
+    return { ...result, searchId };
+  }
+
+  /**
+   * Belirtilen tipte, tip yoksa tüm tiplerde arama (internal)
    */
-  async searchAll(searchDto: SearchDto): Promise<SearchResult> {
+  private async searchByType(searchDto: SearchDto): Promise<SearchResult> {
     const { query, page = 1, limit = 10, type } = searchDto;
 
     // Eğer belirli bir tip belirtilmişse sadece o tipi ara
-    if (type) {
-      switch (type) {
-        case 'products':
-          return this.searchProducts(query, page, limit);
-        case 'categories':
-          return this.searchCategories(query, page, limit);
-        case 'sellers':
-          return this.searchSellers(query, page, limit);
-        case 'campaigns':
-          return this.searchCampaigns(query, page, limit);
-        default:
-          return this.searchAll(searchDto);
-      }
+    switch (type) {
+      case 'categories':
+        return this.searchCategories(query, page, limit);
+      case 'sellers':
+        return this.searchSellers(query, page, limit);
+      case 'campaigns':
+        return this.searchCampaigns(query, page, limit);
     }
 
     // Tüm tipleri paralel olarak ara
-    const [products, categories, sellers, campaigns] = await Promise.all([
-      this.searchProductsInternal(query, limit),
+    const [{ products }, categories, sellers, campaigns] = await Promise.all([
+      this.searchProductsInternal({ query }, 1, limit),
       this.searchCategoriesInternal(query, limit),
       this.searchSellersInternal(query, limit),
       this.searchCampaignsInternal(query, limit),
@@ -124,18 +241,30 @@ export class SearchService {
   }
 
   /**
-   * Sadece ürün araması
+   * Sadece ürün araması (facet seçimleri ve sayılarıyla)
    */
-  async searchProducts(query: string, page: number = 1, limit: number = 10) {
-    const products = await this.searchProductsInternal(
-      query,
+  async searchProducts(
+    searchProductsDto: SearchProductsDto,
+    userId?: string,
+  ): Promise<SearchResult & { facets: ProductFacets }> {
+    const { page = 1, limit = 10, sortBy, ...filters } = searchProductsDto;
+    const { products, total, facets } = await this.searchProductsInternal(
+      filters,
+      page,
       limit,
-      (page - 1) * limit,
+      sortBy,
     );
-    const total = await this.getProductSearchCount(query);
+    const searchId = await this.searchAnalyticsService.logQuery({
+      query: filters.query,
+      type: SearchQueryType.PRODUCTS,
+      resultCount: total,
+      userId,
+    });
 
     return {
+      searchId,
       products,
+      facets,
       categories: [],
       sellers: [],
       campaigns: [],
@@ -224,62 +353,222 @@ export class SearchService {
   }
 
   /**
-   * Ürün arama (internal)
+   * Yazarken öneriler (type-ahead)
+   *
+   * Products whose words start with the typed words, ranked by popularity,
+   * and categories, stores and active campaigns with a word starting with
+   * the typed text. Results are cached per normalized prefix.
    */
-  private async searchProductsInternal(
+  async suggest(suggestDto: SuggestDto): Promise<SuggestResult> {
+    const { q, limit = 5 } = suggestDto;
+    const cacheKey = `search_suggest:${limit}:${normalizeSearchText(q)}`;
+    const cached = await this.cacheManager.get<SuggestResult>(cacheKey);
+    if (cached) return cached;
+
+    const prefixRegex = buildPrefixRegex(q);
+    const now = new Date();
+    const budget: SuggestBudget = { exceeded: false };
+
+    const [products, categories, sellers, campaigns] = await Promise.all([
+      this.suggestProducts(q, limit, budget),
+      this.withinBudget(
+        this.categoryModel
+          .find({ isActive: true, name: prefixRegex })
+          .select('name')
+          .sort({ name: 1 })
+          .limit(limit)
+          .maxTimeMS(SUGGEST_TIME_BUDGET_MS)
+          .lean(),
+        budget,
+      ),
+      this.withinBudget(
+        this.sellerProfileModel
+          .find({ isActive: true, storeName: prefixRegex })
+          .select('sellerId storeName logoUrl')
+          .sort({ storeName: 1 })
+          .limit(limit)
+          .maxTimeMS(SUGGEST_TIME_BUDGET_MS)
+          .lean(),
+        budget,
+      ),
+      this.withinBudget(
+        this.campaignModel
+          .find({
+            isActive: true,
+            startDate: { $lte: now },
+            endDate: { $gte: now },
+            name: prefixRegex,
+          })
+          .select('name')
+          .sort({ discountValue: -1 })
+          .limit(limit)
+          .maxTimeMS(SUGGEST_TIME_BUDGET_MS)
+          .lean(),
+        budget,
+      ),
+    ]);
+
+    const result: SuggestResult = {
+      products,
+      categories: categories.map((category) => ({
+        _id: (category._id as any).toString(),
+        name: category.name,
+      })),
+      sellers: sellers.map((seller) => ({
+        _id: seller.sellerId.toString(),
+        storeName: seller.storeName!,
+        logoUrl: seller.logoUrl,
+      })),
+      campaigns: campaigns.map((campaign) => ({
+        _id: (campaign._id as any).toString(),
+        name: campaign.name,
+      })),
+    };
+
+    await this.cacheManager.set(
+      cacheKey,
+      result,
+      budget.exceeded ? SUGGEST_DEGRADED_CACHE_TTL_MS : SUGGEST_CACHE_TTL_MS,
+    );
+    return result;
+  }
+
+  /**
+   * Ürün önerileri (internal)
+   */
+  private async suggestProducts(
     query: string,
     limit: number,
-    skip: number = 0,
+    budget: SuggestBudget,
   ) {
-    const searchRegex = new RegExp(query, 'i');
+    const words = tokenizeSearchText(query);
+    if (words.length === 0) return [];
+
+    const [candidates, popularity] = await Promise.all([
+      this.withinBudget(
+        this.productModel
+          .find({
+            isActive: true,
+            $and: words.map((word) => ({
+              'search.tokens': new RegExp(`^${escapeRegExp(word)}`),
+            })),
+          })
+          .select('name imageUrls')
+          .limit(SUGGEST_PRODUCT_CANDIDATES)
+          .maxTimeMS(SUGGEST_TIME_BUDGET_MS)
+          .lean(),
+        budget,
+      ),
+      this.popularityWithinBudget(budget),
+    ]);
 
-    const products = await this.productModel
-      .find({
-        isActive: true,
-        $or: [
-          { name: searchRegex },
-          { description: searchRegex },
-          { tags: { $in: [searchRegex] } },
-        ],
-      })
-      .populate('category', 'name')
-      .populate('sellerId', 'firstName lastName storeName')
-      .sort({ isFeatured: -1, averageRating: -1, createdAt: -1 })
-      .skip(skip)
-      .limit(limit)
-      .lean();
+    return candidates
+      .map((product) => ({
+        _id: (product._id as any).toString() as string,
+        name: product.name,
+        imageUrl: product.imageUrls?.[0],
+      }))
+      .sort(
+        (a, b) =>
+          (popularity[b._id] || 0) - (popularity[a._id] || 0) ||
+          a.name.localeCompare(b.name, 'tr'),
+      )
+      .slice(0, limit);
+  }
 
-    return products.map((product) => ({
-      _id: (product._id as any).toString(),
-      name: product.name,
-      description: product.description,
-      price: product.price,
-      discountedPrice: (product as any).discountedPrice,
-      imageUrls: product.imageUrls || [],
-      averageRating: (product as any).averageRating || 0,
-      reviewCount: (product as any).reviewCount || 0,
-      category: {
-        _id: (product.category as any)?._id?.toString(),
-        name: (product.category as any)?.name,
-      },
-      seller: {
-        _id: (product.sellerId as any)?._id?.toString(),
-        name: `${(product.sellerId as any)?.firstName} ${(product.sellerId as any)?.lastName}`,
-        storeName: (product.sellerId as any)?.storeName,
-      },
-      hasDiscount:
-        !!(product as any).discountedPrice &&
-        (product as any).discountedPrice < product.price,
-      discountPercentage:
-        (product as any).discountedPrice &&
-        (product as any).discountedPrice < product.price
+  /**
+   * Give up on a lookup that ran out of its time budget
+   */
+  private async withinBudget<T>(
+    query: Promise<T[]>,
+    budget: SuggestBudget,
+  ): Promise<T[]> {
+    try {
+      return await query;
+    } catch (error) {
+      if (
+        error instanceof mongo.MongoServerError &&
+        error.code === MAX_TIME_MS_EXPIRED
+      ) {
+        budget.exceeded = true;
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Product popularity, or none when it is not ready within the time budget
+   *
+   * Without popularity, product suggestions fall back to name order. A slow
+   * computation keeps running and fills the popularity cache for later
+   * requests.
+   */
+  private async popularityWithinBudget(
+    budget: SuggestBudget,
+  ): Promise<Record<string, number>> {
+    const popularity = this.recommendationsService.getProductPopularity();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<null>((resolve) => {
+      timer = setTimeout(() => resolve(null), SUGGEST_TIME_BUDGET_MS);
+    });
+
+    try {
+      const result = await Promise.race([popularity, timeout]);
+      if (result) return result;
+
+      // A failure of the abandoned computation is retried by a later request
+      popularity.catch(() => undefined);
+      budget.exceeded = true;
+      return {};
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Ürün arama (internal)
+   */
+  private async searchProductsInternal(
+    filters: ProductSearchFilters,
+    page: number,
+    limit: number,
+    sortBy: SearchProductsDto['sortBy'] = 'relevance',
+  ) {
+    const { products, total, facets } = await this.productSearchService.search(
+      filters,
+      { page, limit, sortBy },
+    );
+
+    return {
+      products: products.map((product) => ({
+        _id: product._id.toString(),
+        name: product.name,
+        description: product.description,
+        price: product.price,
+        discountedPrice: product.discountedPrice ?? undefined,
+        imageUrls: product.imageUrls || [],
+        averageRating: product.averageRating || 0,
+        reviewCount: product.reviewCount || 0,
+        category: {
+          _id: product.category?._id?.toString(),
+          name: product.category?.name,
+        },
+        seller: {
+          _id: product.sellerId?._id?.toString(),
+          name: `${product.sellerId?.firstName} ${product.sellerId?.lastName}`,
+          storeName: product.sellerId?.storeName,
+        },
+        hasDiscount: product.hasDiscount,
+        discountPercentage: product.hasDiscount
           ? Math.round(
-              ((product.price - (product as any).discountedPrice) /
-                product.price) *
-                100,
+              ((product.price - product.discountedPrice) / product.price) * 100,
             )
           : undefined,
-    }));
+      })),
+      total,
+      facets,
+    };
   }
 
   /**
@@ -290,12 +579,12 @@ export class SearchService {
     limit: number,
     skip: number = 0,
   ) {
-    const searchRegex = new RegExp(query, 'i');
+    const searchMatch = await this.buildQueryMatch(query);
 
     const categories = await this.categoryModel
       .find({
         isActive: true,
-        $or: [{ name: searchRegex }, { description: searchRegex }],
+        $or: [{ name: searchMatch }, { description: searchMatch }],
       })
       .sort({ name: 1 })
       .skip(skip)
@@ -331,12 +620,12 @@ export class SearchService {
     limit: number,
     skip: number = 0,
   ) {
-    const searchRegex = new RegExp(query, 'i');
+    const searchMatch = await this.buildQueryMatch(query);
 
     const sellers = await this.sellerProfileModel
       .find({
         isActive: true,
-        $or: [{ storeName: searchRegex }, { description: searchRegex }],
+        $or: [{ storeName: searchMatch }, { description: searchMatch }],
       })
       .populate('sellerId', 'firstName lastName')
       .sort({ storeName: 1 })
@@ -377,7 +666,7 @@ export class SearchService {
     limit: number,
     skip: number = 0,
   ) {
-    const searchRegex = new RegExp(query, 'i');
+    const searchMatch = await this.buildQueryMatch(query);
     const now = new Date();
 
     const campaigns = await this.campaignModel
@@ -385,7 +674,7 @@ export class SearchService {
         isActive: true,
         startDate: { $lte: now },
         endDate: { $gte: now },
-        $or: [{ name: searchRegex }, { description: searchRegex }],
+        $or: [{ name: searchMatch }, { description: searchMatch }],
       })
       .sort({ discountValue: -1, startDate: -1 })
       .skip(skip)
@@ -407,31 +696,15 @@ export class SearchService {
     }));
   }
 
-  /**
-   * Ürün arama sayısı
-   */
-  private async getProductSearchCount(query: string): Promise<number> {
-    const searchRegex = new RegExp(query, 'i');
-
-    return this.productModel.countDocuments({
-      isActive: true,
-      $or: [
-        { name: searchRegex },
-        { description: searchRegex },
-        { tags: { $in: [searchRegex] } },
-      ],
-    });
-  }
-
   /**
    * Kategori arama sayısı
    */
   private async getCategorySearchCount(query: string): Promise<number> {
-    const searchRegex = new RegExp(query, 'i');
+    const searchMatch = await this.buildQueryMatch(query);
 
     return this.categoryModel.countDocuments({
       isActive: true,
-      $or: [{ name: searchRegex }, { description: searchRegex }],
+      $or: [{ name: searchMatch }, { description: searchMatch }],
     });
   }
 
@@ -439,11 +712,11 @@ export class SearchService {
    * Satıcı arama sayısı
    */
   private async getSellerSearchCount(query: string): Promise<number> {
-    const searchRegex = new RegExp(query, 'i');
+    const searchMatch = await this.buildQueryMatch(query);
 
     return this.sellerProfileModel.countDocuments({
       isActive: true,
-      $or: [{ storeName: searchRegex }, { description: searchRegex }],
+      $or: [{ storeName: searchMatch }, { description: searchMatch }],
     });
   }
 
@@ -451,14 +724,22 @@ export class SearchService {
    * Kampanya arama sayısı
    */
   private async getCampaignSearchCount(query: string): Promise<number> {
-    const searchRegex = new RegExp(query, 'i');
+    const searchMatch = await this.buildQueryMatch(query);
     const now = new Date();
 
     return this.campaignModel.countDocuments({
       isActive: true,
       startDate: { $lte: now },
       endDate: { $gte: now },
-      $or: [{ name: searchRegex }, { description: searchRegex }],
+      $or: [{ name: searchMatch }, { description: searchMatch }],
     });
   }
+
+  /**
+   * Sorgu ve eş anlamlı varyantlarından herhangi birini içeren alan koşulu
+   */
+  private async buildQueryMatch(query: string) {
+    const variants = await this.searchRulesService.expandQuery(query);
+    return { $in: variants.map((variant) => buildSearchRegex(variant)) };
+  }
 }
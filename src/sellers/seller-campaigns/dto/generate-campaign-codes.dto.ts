@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+export const generateCampaignCodesSchema = z.object({
+  count: z
+    .number()
+    .int()
+    .min(1, 'At least one code must be generated')
+    .max(1000, 'Cannot generate more than 1000 codes at once'),
+  prefix: z
+    .string()
+    .trim()
+    .max(10, 'Prefix cannot exceed 10 characters')
+    .regex(/^[A-Za-z0-9]*$/, 'Prefix can only contain letters and numbers')
+    .optional(),
+});
+
+export const findCampaignCodesSchema = z.object({
+  page: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page number must be 1 or greater')
+    .default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be 1 or greater')
+    .max(100, 'Limit cannot exceed 100')
+    .default(50),
+});
+
+export type GenerateCampaignCodesDto = z.infer<
+  typeof generateCampaignCodesSchema
+>;
+export type FindCampaignCodesDto = z.infer<typeof findCampaignCodesSchema>;
@@ -2,3 +2,4 @@ export * from './create-campaign.dto';
 export * from './update-campaign.dto';
 export * from './find-all-campaigns.dto';
 export * from './upload-campaign-image.dto';
+export * from './generate-campaign-codes.dto';
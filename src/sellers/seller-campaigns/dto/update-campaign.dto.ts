@@ -37,11 +37,27 @@ export const updateCampaignSchema = z.object({
     ),
   isActive: z.boolean().optional(),
   maxUsage: z.number().int().min(1, 'Max usage must be at least 1').optional(),
+  maxUsagePerCustomer: z
+    .number()
+    .int()
+    .min(1, 'Max usage per customer must be at least 1')
+    .optional(),
   minOrderAmount: z
     .number()
     .min(0, 'Minimum order amount cannot be negative')
     .optional(),
   imageUrl: z.string().optional(),
+  code: z
+    .string()
+    .trim()
+    .min(3, 'Coupon code must be at least 3 characters')
+    .max(30, 'Coupon code cannot exceed 30 characters')
+    .regex(
+      /^[A-Za-z0-9_-]+$/,
+      'Coupon code can only contain letters, numbers, dashes and underscores',
+    )
+    .optional(),
+  requiresCode: z.boolean().optional(),
 });
 
 export type UpdateCampaignDto = z.infer<typeof updateCampaignSchema>;
@@ -13,6 +13,7 @@ export enum CampaignError {
   INVALID_IMAGE_FORMAT = 'INVALID_IMAGE_FORMAT',
   IMAGE_TOO_LARGE = 'IMAGE_TOO_LARGE',
   UPLOAD_FAILED = 'UPLOAD_FAILED',
+  CODE_ALREADY_EXISTS = 'CODE_ALREADY_EXISTS',
 }
 
 export const CampaignErrorMessages = {
@@ -35,4 +36,5 @@ export const CampaignErrorMessages = {
     'Invalid image format. Only image files are accepted',
   [CampaignError.IMAGE_TOO_LARGE]: 'Image file too large. Maximum 5MB',
   [CampaignError.UPLOAD_FAILED]: 'Image upload failed',
+  [CampaignError.CODE_ALREADY_EXISTS]: 'This coupon code is already in use',
 };
@@ -33,6 +33,10 @@ import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
 import { findAllCampaignsSchema } from './dto/find-all-campaigns.dto';
 import { createCampaignSchema } from './dto/create-campaign.dto';
 import { updateCampaignSchema } from './dto/update-campaign.dto';
+import {
+  generateCampaignCodesSchema,
+  findCampaignCodesSchema,
+} from './dto/generate-campaign-codes.dto';
 
 @ApiTags('Seller Campaigns')
 @Controller('seller/campaigns')
@@ -134,6 +138,7 @@ export class SellerCampaignsController {
         productIds: { type: 'array' },
         imageUrl: { type: 'string' },
         maxUsage: { type: 'number' },
+        maxUsagePerCustomer: { type: 'number' },
         minOrderAmount: { type: 'number' },
         createdAt: { type: 'string' },
         updatedAt: { type: 'string' },
@@ -169,7 +174,16 @@ export class SellerCampaignsController {
         productIds: { type: 'array', items: { type: 'string' } },
         isActive: { type: 'boolean' },
         maxUsage: { type: 'number' },
+        maxUsagePerCustomer: { type: 'number' },
         minOrderAmount: { type: 'number' },
+        code: {
+          type: 'string',
+          description: 'Shared coupon code, makes the campaign code-only',
+        },
+        requiresCode: {
+          type: 'boolean',
+          description: 'Only apply through coupon codes',
+        },
       },
     },
   })
@@ -193,7 +207,10 @@ export class SellerCampaignsController {
       },
     },
   })
-  @ApiResponse({ status: 400, description: 'Invalid campaign data' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid campaign data or coupon code already in use',
+  })
   async createCampaign(
     @Body(new ZodValidationPipe(createCampaignSchema)) createDto: any,
     @CurrentUser('id') sellerId: string,
@@ -223,7 +240,16 @@ export class SellerCampaignsController {
         productIds: { type: 'array', items: { type: 'string' } },
         isActive: { type: 'boolean' },
         maxUsage: { type: 'number' },
+        maxUsagePerCustomer: { type: 'number' },
         minOrderAmount: { type: 'number' },
+        code: {
+          type: 'string',
+          description: 'Shared coupon code, makes the campaign code-only',
+        },
+        requiresCode: {
+          type: 'boolean',
+          description: 'Only apply through coupon codes',
+        },
       },
     },
   })
@@ -247,7 +273,10 @@ export class SellerCampaignsController {
       },
     },
   })
-  @ApiResponse({ status: 400, description: 'Invalid campaign data' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid campaign data or coupon code already in use',
+  })
   @ApiResponse({ status: 404, description: 'Campaign not found' })
   async updateCampaign(
     @Param('id') campaignId: string,
@@ -375,13 +404,110 @@ export class SellerCampaignsController {
     );
   }
 
+  /**
+   * Generate single-use coupon codes
+   */
+  @Post(':id/codes')
+  @ApiOperation({
+    summary: 'Generate single-use coupon codes',
+    description:
+      'Bulk-generate single-use coupon codes for the campaign. The campaign then only applies through a code',
+  })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['count'],
+      properties: {
+        count: { type: 'number', minimum: 1, maximum: 1000 },
+        prefix: { type: 'string', maxLength: 10 },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Coupon codes generated successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        campaignId: { type: 'string' },
+        count: { type: 'number' },
+        codes: { type: 'array', items: { type: 'string' } },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  async generateCampaignCodes(
+    @Param('id') campaignId: string,
+    @Body(new ZodValidationPipe(generateCampaignCodesSchema)) generateDto: any,
+    @CurrentUser('id') sellerId: string,
+  ) {
+    return this.sellerCampaignsService.generateCampaignCodes(
+      campaignId,
+      sellerId,
+      generateDto,
+    );
+  }
+
+  /**
+   * Get generated coupon codes
+   */
+  @Get(':id/codes')
+  @ApiOperation({
+    summary: 'Get generated coupon codes',
+    description: 'List single-use coupon codes of the campaign with usage',
+  })
+  @ApiParam({ name: 'id', description: 'Campaign ID' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Coupon codes retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              code: { type: 'string' },
+              isUsed: { type: 'boolean' },
+              usedAt: { type: 'string' },
+              usedBy: { type: 'string' },
+              orderId: { type: 'string' },
+            },
+          },
+        },
+        total: { type: 'number' },
+        used: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Campaign not found' })
+  async findCampaignCodes(
+    @Param('id') campaignId: string,
+    @Query(new ZodValidationPipe(findCampaignCodesSchema)) query: any,
+    @CurrentUser('id') sellerId: string,
+  ) {
+    return this.sellerCampaignsService.findCampaignCodes(
+      campaignId,
+      sellerId,
+      query,
+    );
+  }
+
   /**
    * Get campaign statistics for seller
    */
   @Get('stats/overview')
   @ApiOperation({
     summary: 'Get campaign statistics for seller',
-    description: 'Retrieve campaign statistics including counts by status',
+    description:
+      'Retrieve campaign statistics including counts by status and redemptions',
   })
   @ApiResponse({
     status: 200,
@@ -394,6 +520,10 @@ export class SellerCampaignsController {
         inactiveCampaigns: { type: 'number' },
         expiredCampaigns: { type: 'number' },
         upcomingCampaigns: { type: 'number' },
+        exhaustedCampaigns: { type: 'number' },
+        totalRedemptions: { type: 'number' },
+        totalDiscountGiven: { type: 'number' },
+        uniqueCustomers: { type: 'number' },
       },
     },
   })
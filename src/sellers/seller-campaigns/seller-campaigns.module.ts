@@ -2,16 +2,23 @@ import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { Campaign, CampaignSchema } from '../../schemas/campaign.schema';
 import { Product, ProductSchema } from '../../schemas/product.schema';
+import {
+  CampaignRedemption,
+  CampaignRedemptionSchema,
+} from '../../schemas/campaign-redemption.schema';
 import { SellerCampaignsController } from './seller-campaigns.controller';
 import { SellerCampaignsService } from './seller-campaigns.service';
 import { MinioService } from '../../minio/minio.service';
+import { CampaignsModule } from '../../campaigns/campaigns.module';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Campaign.name, schema: CampaignSchema },
       { name: Product.name, schema: ProductSchema },
+      { name: CampaignRedemption.name, schema: CampaignRedemptionSchema },
     ]),
+    CampaignsModule,
   ],
   controllers: [SellerCampaignsController],
   providers: [SellerCampaignsService, MinioService],
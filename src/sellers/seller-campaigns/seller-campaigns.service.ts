@@ -12,22 +12,35 @@ import {
   CampaignType,
 } from '../../schemas/campaign.schema';
 import { Product, ProductDocument } from '../../schemas/product.schema';
+import {
+  CampaignRedemption,
+  CampaignRedemptionDocument,
+  RedemptionStatus,
+} from '../../schemas/campaign-redemption.schema';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
 import { FindAllCampaignsDto } from './dto/find-all-campaigns.dto';
+import {
+  GenerateCampaignCodesDto,
+  FindCampaignCodesDto,
+} from './dto/generate-campaign-codes.dto';
 import {
   CampaignError,
   CampaignErrorMessages,
 } from './enums/campaign-error.enum';
 import { MinioService } from '../../minio/minio.service';
+import { CouponCodeService } from '../../campaigns/services/coupon-code.service';
 
 @Injectable()
 export class SellerCampaignsService {
   constructor(
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    @InjectModel(CampaignRedemption.name)
+    private redemptionModel: Model<CampaignRedemptionDocument>,
     private readonly minioService: MinioService,
     private readonly configService: ConfigService,
+    private readonly couponCodeService: CouponCodeService,
   ) {}
 
   /**
@@ -208,11 +221,25 @@ export class SellerCampaignsService {
       );
     }
 
+    // Coupon codes must be unique across all campaigns
+    if (
+      createDto.code &&
+      (await this.couponCodeService.isCodeTaken(createDto.code))
+    ) {
+      throw new BadRequestException(
+        CampaignErrorMessages[CampaignError.CODE_ALREADY_EXISTS],
+      );
+    }
+
     const campaign = new this.campaignModel({
       ...createDto,
       type: CampaignType.SELLER,
       sellerId: new Types.ObjectId(sellerId),
       productIds: productIds,
+      code: createDto.code
+        ? this.couponCodeService.normalizeCode(createDto.code)
+        : undefined,
+      requiresCode: !!createDto.code || !!createDto.requiresCode,
     });
 
     const savedCampaign = await campaign.save();
@@ -331,12 +358,27 @@ export class SellerCampaignsService {
       }
     }
 
+    // Check coupon code uniqueness if provided
+    if (updateDto.code) {
+      if (
+        await this.couponCodeService.isCodeTaken(updateDto.code, campaignId)
+      ) {
+        throw new BadRequestException(
+          CampaignErrorMessages[CampaignError.CODE_ALREADY_EXISTS],
+        );
+      }
+    }
+
     const updateData: any = { ...updateDto };
     if (updateDto.productIds) {
       updateData.productIds = updateDto.productIds.map(
         (id) => new Types.ObjectId(id),
       );
     }
+    if (updateDto.code) {
+      updateData.code = this.couponCodeService.normalizeCode(updateDto.code);
+      updateData.requiresCode = true;
+    }
 
     const updatedCampaign = await this.campaignModel
       .findByIdAndUpdate(campaignId, updateData, { new: true })
@@ -386,10 +428,69 @@ export class SellerCampaignsService {
     }
 
     await this.campaignModel.findByIdAndDelete(campaignId);
+    await this.couponCodeService.deleteCodes(campaignId);
 
     return { message: 'Campaign deleted successfully' };
   }
 
+  /**
+   * Generate single-use coupon codes for campaign
+   */
+  async generateCampaignCodes(
+    campaignId: string,
+    sellerId: string,
+    generateDto: GenerateCampaignCodesDto,
+  ) {
+    const campaign = await this.campaignModel.findOne({
+      _id: new Types.ObjectId(campaignId),
+      sellerId: new Types.ObjectId(sellerId),
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(
+        CampaignErrorMessages[CampaignError.CAMPAIGN_NOT_FOUND],
+      );
+    }
+
+    const codes = await this.couponCodeService.generateCodes(
+      campaignId,
+      generateDto.count,
+      generateDto.prefix,
+    );
+
+    return {
+      campaignId,
+      count: codes.length,
+      codes,
+    };
+  }
+
+  /**
+   * Get generated coupon codes of campaign
+   */
+  async findCampaignCodes(
+    campaignId: string,
+    sellerId: string,
+    options: FindCampaignCodesDto,
+  ) {
+    const campaign = await this.campaignModel.findOne({
+      _id: new Types.ObjectId(campaignId),
+      sellerId: new Types.ObjectId(sellerId),
+    });
+
+    if (!campaign) {
+      throw new NotFoundException(
+        CampaignErrorMessages[CampaignError.CAMPAIGN_NOT_FOUND],
+      );
+    }
+
+    return this.couponCodeService.findCodes(
+      campaignId,
+      options.page,
+      options.limit,
+    );
+  }
+
   /**
    * Upload campaign image
    */
@@ -485,6 +586,11 @@ export class SellerCampaignsService {
    */
   async getCampaignStats(sellerId: string) {
     const now = new Date();
+    const sellerCampaignIds = (
+      await this.campaignModel
+        .find({ sellerId: new Types.ObjectId(sellerId) })
+        .select('_id')
+    ).map((campaign) => campaign._id);
 
     const [
       totalCampaigns,
@@ -492,6 +598,8 @@ export class SellerCampaignsService {
       inactiveCampaigns,
       expiredCampaigns,
       upcomingCampaigns,
+      exhaustedCampaigns,
+      redemptionStats,
     ] = await Promise.all([
       this.campaignModel.countDocuments({
         sellerId: new Types.ObjectId(sellerId),
@@ -514,6 +622,27 @@ export class SellerCampaignsService {
         sellerId: new Types.ObjectId(sellerId),
         startDate: { $gt: now },
       }),
+      this.campaignModel.countDocuments({
+        sellerId: new Types.ObjectId(sellerId),
+        maxUsage: { $gt: 0 },
+        $expr: { $gte: ['$usageCount', '$maxUsage'] },
+      }),
+      this.redemptionModel.aggregate([
+        {
+          $match: {
+            campaignId: { $in: sellerCampaignIds },
+            status: RedemptionStatus.REDEEMED,
+          },
+        },
+        {
+          $group: {
+            _id: null,
+            totalRedemptions: { $sum: 1 },
+            totalDiscountGiven: { $sum: '$discountAmount' },
+            customers: { $addToSet: '$userId' },
+          },
+        },
+      ]),
     ]);
 
     return {
@@ -522,6 +651,10 @@ export class SellerCampaignsService {
       inactiveCampaigns,
       expiredCampaigns,
       upcomingCampaigns,
+      exhaustedCampaigns,
+      totalRedemptions: redemptionStats[0]?.totalRedemptions || 0,
+      totalDiscountGiven: redemptionStats[0]?.totalDiscountGiven || 0,
+      uniqueCustomers: redemptionStats[0]?.customers?.length || 0,
     };
   }
 }
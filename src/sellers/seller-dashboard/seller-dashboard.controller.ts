@@ -114,6 +114,14 @@ export class SellerDashboardController {
             thisMonth: { type: 'number', description: 'Reviews this month' },
             avgRating: { type: 'number', description: 'Average rating' },
             pending: { type: 'number', description: 'Pending reviews' },
+            replied: {
+              type: 'number',
+              description: 'Reviews with a seller reply',
+            },
+            awaitingReply: {
+              type: 'number',
+              description: 'Approved reviews without a seller reply',
+            },
             ratingDistribution: {
               type: 'object',
               properties: {
@@ -147,6 +155,27 @@ export class SellerDashboardController {
             },
           },
         },
+        returns: {
+          type: 'object',
+          properties: {
+            total: { type: 'number', description: 'Total return requests' },
+            requested: {
+              type: 'number',
+              description: 'Return requests awaiting a decision',
+            },
+            approved: { type: 'number', description: 'Approved returns' },
+            rejected: { type: 'number', description: 'Rejected returns' },
+            refunded: { type: 'number', description: 'Refunded returns' },
+            refundedAmount: {
+              type: 'number',
+              description: 'Total amount refunded for returns',
+            },
+            returnRate: {
+              type: 'number',
+              description: 'Percentage of orders with a return request',
+            },
+          },
+        },
         alerts: {
           type: 'object',
           properties: {
@@ -158,6 +187,10 @@ export class SellerDashboardController {
               type: 'number',
               description: 'Orders waiting for processing',
             },
+            pendingReturns: {
+              type: 'number',
+              description: 'Return requests waiting for a decision',
+            },
             expiringSoonCampaigns: {
               type: 'number',
               description: 'Campaigns expiring within a week',
@@ -6,6 +6,10 @@ import { Product, ProductSchema } from '../../schemas/product.schema';
 import { Order, OrderSchema } from '../../schemas/order.schema';
 import { Campaign, CampaignSchema } from '../../schemas/campaign.schema';
 import { Review, ReviewSchema } from '../../schemas/review.schema';
+import {
+  ReturnRequest,
+  ReturnRequestSchema,
+} from '../../schemas/return-request.schema';
 
 @Module({
   imports: [
@@ -14,6 +18,7 @@ import { Review, ReviewSchema } from '../../schemas/review.schema';
       { name: Order.name, schema: OrderSchema },
       { name: Campaign.name, schema: CampaignSchema },
       { name: Review.name, schema: ReviewSchema },
+      { name: ReturnRequest.name, schema: ReturnRequestSchema },
     ]),
   ],
   controllers: [SellerDashboardController],
@@ -2,9 +2,23 @@ import { Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Product, ProductDocument } from '../../schemas/product.schema';
-import { Order, OrderDocument, OrderStatus } from '../../schemas/order.schema';
+import {
+  FulfillmentStatus,
+  Order,
+  OrderDocument,
+  ORDER_ITEM_NET_TOTAL,
+} from '../../schemas/order.schema';
 import { Campaign, CampaignDocument } from '../../schemas/campaign.schema';
-import { Review, ReviewDocument } from '../../schemas/review.schema';
+import {
+  PENDING_REVIEW_FILTER,
+  Review,
+  ReviewDocument,
+} from '../../schemas/review.schema';
+import {
+  ReturnRequest,
+  ReturnRequestDocument,
+  ReturnStatus,
+} from '../../schemas/return-request.schema';
 
 export interface SellerDashboardStats {
   products: ProductStats;
@@ -12,6 +26,7 @@ export interface SellerDashboardStats {
   campaigns: CampaignStats;
   reviews: ReviewStats;
   revenue: RevenueStats;
+  returns: ReturnStats;
   alerts: AlertStats;
 }
 
@@ -53,6 +68,11 @@ interface ReviewStats {
   thisMonth: number;
   avgRating: number;
   pending: number;
+  /**
+   * Approved reviews the seller replied to / has not replied to yet
+   */
+  replied: number;
+  awaitingReply: number;
   ratingDistribution: {
     5: number;
     4: number;
@@ -75,14 +95,34 @@ interface RevenueStats {
   } | null;
 }
 
+interface ReturnStats {
+  total: number;
+  requested: number;
+  approved: number;
+  rejected: number;
+  refunded: number;
+  refundedAmount: number;
+  returnRate: number;
+}
+
 interface AlertStats {
   lowStockProducts: number;
   pendingOrders: number;
+  pendingReturns: number;
   expiringSoonCampaigns: number;
   negativeReviews: number;
   totalAlerts: number;
 }
 
+/**
+ * Statuses of a seller's fulfilment group that count towards revenue
+ */
+const REVENUE_FULFILLMENT_STATUSES = [
+  FulfillmentStatus.PROCESSING,
+  FulfillmentStatus.SHIPPED,
+  FulfillmentStatus.DELIVERED,
+];
+
 /**
  * Seller Dashboard Service
  *
@@ -96,6 +136,8 @@ export class SellerDashboardService {
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     @InjectModel(Campaign.name) private campaignModel: Model<CampaignDocument>,
     @InjectModel(Review.name) private reviewModel: Model<ReviewDocument>,
+    @InjectModel(ReturnRequest.name)
+    private returnRequestModel: Model<ReturnRequestDocument>,
   ) {}
 
   /**
@@ -122,6 +164,7 @@ export class SellerDashboardService {
       campaignStats,
       reviewStats,
       revenueStats,
+      returnStats,
       alertStats,
     ] = await Promise.all([
       this.getProductStats(sellerObjectId),
@@ -139,6 +182,7 @@ export class SellerDashboardService {
         startOfWeek,
         startOfToday,
       ),
+      this.getReturnStats(sellerObjectId),
       this.getAlertStats(sellerObjectId),
     ]);
 
@@ -148,6 +192,7 @@ export class SellerDashboardService {
       campaigns: campaignStats,
       reviews: reviewStats,
       revenue: revenueStats,
+      returns: returnStats,
       alerts: alertStats,
     };
   }
@@ -231,7 +276,9 @@ export class SellerDashboardService {
       }),
       this.orderModel.aggregate([
         { $match: sellerOrdersFilter },
-        { $group: { _id: '$status', count: { $sum: 1 } } },
+        { $unwind: '$fulfillments' },
+        { $match: { 'fulfillments.sellerId': sellerId } },
+        { $group: { _id: '$fulfillments.status', count: { $sum: 1 } } },
       ]),
       this.orderModel.aggregate([
         { $match: sellerOrdersFilter },
@@ -241,7 +288,7 @@ export class SellerDashboardService {
           $group: {
             _id: null,
             avgValue: {
-              $avg: { $multiply: ['$items.price', '$items.quantity'] },
+              $avg: ORDER_ITEM_NET_TOTAL,
             },
           },
         },
@@ -258,11 +305,11 @@ export class SellerDashboardService {
       today: todayOrders,
       thisWeek: weekOrders,
       thisMonth: monthOrders,
-      pending: statusCountMap[OrderStatus.PENDING] || 0,
-      processing: statusCountMap[OrderStatus.PROCESSING] || 0,
-      shipped: statusCountMap[OrderStatus.SHIPPED] || 0,
-      delivered: statusCountMap[OrderStatus.DELIVERED] || 0,
-      cancelled: statusCountMap[OrderStatus.CANCELLED] || 0,
+      pending: statusCountMap[FulfillmentStatus.PENDING] || 0,
+      processing: statusCountMap[FulfillmentStatus.PROCESSING] || 0,
+      shipped: statusCountMap[FulfillmentStatus.SHIPPED] || 0,
+      delivered: statusCountMap[FulfillmentStatus.DELIVERED] || 0,
+      cancelled: statusCountMap[FulfillmentStatus.CANCELLED] || 0,
       avgOrderValue: avgOrderValue[0]?.avgValue || 0,
     };
   }
@@ -338,6 +385,8 @@ export class SellerDashboardService {
         thisMonth: 0,
         avgRating: 0,
         pending: 0,
+        replied: 0,
+        awaitingReply: 0,
         ratingDistribution: { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 },
       };
     }
@@ -347,6 +396,8 @@ export class SellerDashboardService {
       monthReviews,
       avgRatingResult,
       pendingReviews,
+      repliedReviews,
+      awaitingReplyReviews,
       ratingDistribution,
     ] = await Promise.all([
       this.reviewModel.countDocuments({ productId: { $in: productIds } }),
@@ -360,7 +411,16 @@ export class SellerDashboardService {
       ]),
       this.reviewModel.countDocuments({
         productId: { $in: productIds },
-        isApproved: false,
+        ...PENDING_REVIEW_FILTER,
+      }),
+      this.reviewModel.countDocuments({
+        productId: { $in: productIds },
+        sellerReply: { $exists: true },
+      }),
+      this.reviewModel.countDocuments({
+        productId: { $in: productIds },
+        isApproved: true,
+        sellerReply: { $exists: false },
       }),
       this.reviewModel.aggregate([
         { $match: { productId: { $in: productIds } } },
@@ -378,6 +438,8 @@ export class SellerDashboardService {
       thisMonth: monthReviews,
       avgRating: avgRatingResult[0]?.avgRating || 0,
       pending: pendingReviews,
+      replied: repliedReviews,
+      awaitingReply: awaitingReplyReviews,
       ratingDistribution: {
         5: distributionMap[5] || 0,
         4: distributionMap[4] || 0,
@@ -398,13 +460,11 @@ export class SellerDashboardService {
     startOfToday: Date,
   ): Promise<RevenueStats> {
     const sellerOrdersFilter = {
-      'items.sellerId': sellerId,
-      status: {
-        $in: [
-          OrderStatus.DELIVERED,
-          OrderStatus.PROCESSING,
-          OrderStatus.SHIPPED,
-        ],
+      fulfillments: {
+        $elemMatch: {
+          sellerId,
+          status: { $in: REVENUE_FULFILLMENT_STATUSES },
+        },
       },
     };
 
@@ -423,7 +483,7 @@ export class SellerDashboardService {
         {
           $group: {
             _id: null,
-            total: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+            total: { $sum: ORDER_ITEM_NET_TOTAL },
           },
         },
       ]),
@@ -439,7 +499,7 @@ export class SellerDashboardService {
         {
           $group: {
             _id: null,
-            total: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+            total: { $sum: ORDER_ITEM_NET_TOTAL },
           },
         },
       ]),
@@ -455,7 +515,7 @@ export class SellerDashboardService {
         {
           $group: {
             _id: null,
-            total: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+            total: { $sum: ORDER_ITEM_NET_TOTAL },
           },
         },
       ]),
@@ -471,7 +531,7 @@ export class SellerDashboardService {
         {
           $group: {
             _id: null,
-            total: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+            total: { $sum: ORDER_ITEM_NET_TOTAL },
           },
         },
       ]),
@@ -505,7 +565,7 @@ export class SellerDashboardService {
             _id: '$items.productId',
             name: { $first: '$product.name' },
             totalRevenue: {
-              $sum: { $multiply: ['$items.price', '$items.quantity'] },
+              $sum: ORDER_ITEM_NET_TOTAL,
             },
             totalQuantity: { $sum: '$items.quantity' },
           },
@@ -534,6 +594,53 @@ export class SellerDashboardService {
     };
   }
 
+  /**
+   * Get seller's return statistics
+   *
+   * The return rate is the share of the seller's orders with at least one
+   * return request that was not rejected.
+   */
+  private async getReturnStats(sellerId: Types.ObjectId): Promise<ReturnStats> {
+    const [statusCounts, returnedOrderIds, totalOrders] = await Promise.all([
+      this.returnRequestModel.aggregate([
+        { $match: { sellerId } },
+        {
+          $group: {
+            _id: '$status',
+            count: { $sum: 1 },
+            refundedAmount: { $sum: '$refundAmount' },
+          },
+        },
+      ]),
+      this.returnRequestModel.distinct('orderId', {
+        sellerId,
+        status: { $ne: ReturnStatus.REJECTED },
+      }),
+      this.orderModel.countDocuments({ 'fulfillments.sellerId': sellerId }),
+    ]);
+
+    const statusCountMap = statusCounts.reduce((acc, item) => {
+      acc[item._id] = item;
+      return acc;
+    }, {});
+    const countOf = (status: ReturnStatus) =>
+      statusCountMap[status]?.count || 0;
+
+    return {
+      total: statusCounts.reduce((sum, item) => sum + item.count, 0),
+      requested: countOf(ReturnStatus.REQUESTED),
+      approved: countOf(ReturnStatus.APPROVED),
+      rejected: countOf(ReturnStatus.REJECTED),
+      refunded: countOf(ReturnStatus.REFUNDED),
+      refundedAmount:
+        statusCountMap[ReturnStatus.REFUNDED]?.refundedAmount || 0,
+      returnRate:
+        totalOrders > 0
+          ? Math.round((returnedOrderIds.length / totalOrders) * 10000) / 100
+          : 0,
+    };
+  }
+
   /**
    * Get seller's alert statistics
    */
@@ -550,6 +657,7 @@ export class SellerDashboardService {
     const [
       lowStockProducts,
       pendingOrders,
+      pendingReturns,
       expiringSoonCampaigns,
       negativeReviews,
     ] = await Promise.all([
@@ -559,8 +667,13 @@ export class SellerDashboardService {
         stock: { $lte: 5, $gt: 0 },
       }),
       this.orderModel.countDocuments({
-        'items.sellerId': sellerId,
-        status: OrderStatus.PENDING,
+        fulfillments: {
+          $elemMatch: { sellerId, status: FulfillmentStatus.PENDING },
+        },
+      }),
+      this.returnRequestModel.countDocuments({
+        sellerId,
+        status: ReturnStatus.REQUESTED,
       }),
       this.campaignModel.countDocuments({
         sellerId,
@@ -579,12 +692,14 @@ export class SellerDashboardService {
     const totalAlerts =
       lowStockProducts +
       pendingOrders +
+      pendingReturns +
       expiringSoonCampaigns +
       negativeReviews;
 
     return {
       lowStockProducts,
       pendingOrders,
+      pendingReturns,
       expiringSoonCampaigns,
       negativeReviews,
       totalAlerts,
@@ -637,7 +752,11 @@ export class SellerDashboardService {
         description: `Order from ${(order.userId as any)?.firstName} ${(order.userId as any)?.lastName}`,
         amount: order.items
           .filter((item) => item.sellerId.toString() === sellerId)
-          .reduce((sum, item) => sum + item.price * item.quantity, 0),
+          .reduce(
+            (sum, item) =>
+              sum + item.price * item.quantity - (item.discount || 0),
+            0,
+          ),
         status: order.status,
         createdAt: (order as any).createdAt,
         orderId: order._id,
@@ -678,15 +797,13 @@ export class SellerDashboardService {
     const dailySales = await this.orderModel.aggregate([
       {
         $match: {
-          'items.sellerId': sellerObjectId,
-          createdAt: { $gte: startDate },
-          status: {
-            $in: [
-              OrderStatus.DELIVERED,
-              OrderStatus.PROCESSING,
-              OrderStatus.SHIPPED,
-            ],
+          fulfillments: {
+            $elemMatch: {
+              sellerId: sellerObjectId,
+              status: { $in: REVENUE_FULFILLMENT_STATUSES },
+            },
           },
+          createdAt: { $gte: startDate },
         },
       },
       { $unwind: '$items' },
@@ -701,7 +818,7 @@ export class SellerDashboardService {
               },
             },
           },
-          revenue: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+          revenue: { $sum: ORDER_ITEM_NET_TOTAL },
           orders: { $addToSet: '$_id' },
         },
       },
@@ -719,15 +836,13 @@ export class SellerDashboardService {
     const productPerformance = await this.orderModel.aggregate([
       {
         $match: {
-          'items.sellerId': sellerObjectId,
-          createdAt: { $gte: startDate },
-          status: {
-            $in: [
-              OrderStatus.DELIVERED,
-              OrderStatus.PROCESSING,
-              OrderStatus.SHIPPED,
-            ],
+          fulfillments: {
+            $elemMatch: {
+              sellerId: sellerObjectId,
+              status: { $in: REVENUE_FULFILLMENT_STATUSES },
+            },
           },
+          createdAt: { $gte: startDate },
         },
       },
       { $unwind: '$items' },
@@ -745,7 +860,7 @@ export class SellerDashboardService {
         $group: {
           _id: '$items.productId',
           name: { $first: '$product.name' },
-          revenue: { $sum: { $multiply: ['$items.price', '$items.quantity'] } },
+          revenue: { $sum: ORDER_ITEM_NET_TOTAL },
           quantity: { $sum: '$items.quantity' },
         },
       },
@@ -767,15 +882,13 @@ export class SellerDashboardService {
       this.orderModel.aggregate([
         {
           $match: {
-            'items.sellerId': sellerObjectId,
-            createdAt: { $gte: currentMonthStart },
-            status: {
-              $in: [
-                OrderStatus.DELIVERED,
-                OrderStatus.PROCESSING,
-                OrderStatus.SHIPPED,
-              ],
+            fulfillments: {
+              $elemMatch: {
+                sellerId: sellerObjectId,
+                status: { $in: REVENUE_FULFILLMENT_STATUSES },
+              },
             },
+            createdAt: { $gte: currentMonthStart },
           },
         },
         { $unwind: '$items' },
@@ -784,7 +897,7 @@ export class SellerDashboardService {
           $group: {
             _id: null,
             revenue: {
-              $sum: { $multiply: ['$items.price', '$items.quantity'] },
+              $sum: ORDER_ITEM_NET_TOTAL,
             },
             orders: { $addToSet: '$_id' },
           },
@@ -793,15 +906,13 @@ export class SellerDashboardService {
       this.orderModel.aggregate([
         {
           $match: {
-            'items.sellerId': sellerObjectId,
-            createdAt: { $gte: previousMonthStart, $lte: previousMonthEnd },
-            status: {
-              $in: [
-                OrderStatus.DELIVERED,
-                OrderStatus.PROCESSING,
-                OrderStatus.SHIPPED,
-              ],
+            fulfillments: {
+              $elemMatch: {
+                sellerId: sellerObjectId,
+                status: { $in: REVENUE_FULFILLMENT_STATUSES },
+              },
             },
+            createdAt: { $gte: previousMonthStart, $lte: previousMonthEnd },
           },
         },
         { $unwind: '$items' },
@@ -810,7 +921,7 @@ export class SellerDashboardService {
           $group: {
             _id: null,
             revenue: {
-              $sum: { $multiply: ['$items.price', '$items.quantity'] },
+              $sum: ORDER_ITEM_NET_TOTAL,
             },
             orders: { $addToSet: '$_id' },
           },
@@ -1,2 +1,3 @@
 export * from './find-all-orders.dto';
 export * from './update-order-status.dto';
+export * from './update-return.dto';
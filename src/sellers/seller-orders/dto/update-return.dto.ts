@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const findReturnsSchema = z.object({
+  page: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page number must be 1 or greater')
+    .default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be 1 or greater')
+    .max(100, 'Limit cannot exceed 100')
+    .default(10),
+  status: z.enum(['requested', 'approved', 'rejected', 'refunded']).optional(),
+});
+
+export const approveReturnSchema = z.object({
+  note: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+export const rejectReturnSchema = z.object({
+  reason: z
+    .string()
+    .min(1, 'Rejection reason is required')
+    .max(500, 'Rejection reason cannot exceed 500 characters'),
+});
+
+export const refundReturnSchema = z.object({
+  refundAmount: z
+    .number()
+    .min(0.01, 'Refund amount must be positive')
+    .optional(),
+  note: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+export type FindReturnsDto = z.infer<typeof findReturnsSchema>;
+export type ApproveReturnDto = z.infer<typeof approveReturnSchema>;
+export type RejectReturnDto = z.infer<typeof rejectReturnSchema>;
+export type RefundReturnDto = z.infer<typeof refundReturnSchema>;
@@ -26,6 +26,17 @@ import { UserRole } from '../../schemas/user.schema';
 import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
 import { findAllOrdersSchema } from './dto/find-all-orders.dto';
 import { updateOrderStatusSchema } from './dto/update-order-status.dto';
+import {
+  approveReturnSchema,
+  ApproveReturnDto,
+  findReturnsSchema,
+  FindReturnsDto,
+  refundReturnSchema,
+  RefundReturnDto,
+  rejectReturnSchema,
+  RejectReturnDto,
+} from './dto/update-return.dto';
+import { ReturnsService } from '../../orders/returns.service';
 
 @ApiTags('Seller Orders')
 @Controller('seller/orders')
@@ -33,7 +44,10 @@ import { updateOrderStatusSchema } from './dto/update-order-status.dto';
 @Roles(UserRole.SELLER)
 @ApiBearerAuth()
 export class SellerOrdersController {
-  constructor(private readonly sellerOrdersService: SellerOrdersService) {}
+  constructor(
+    private readonly sellerOrdersService: SellerOrdersService,
+    private readonly returnsService: ReturnsService,
+  ) {}
 
   /**
    * Get all orders for seller
@@ -50,7 +64,7 @@ export class SellerOrdersController {
   @ApiQuery({
     name: 'status',
     required: false,
-    description: 'Order status filter',
+    description: "Status filter for the seller's fulfilment group",
   })
   @ApiQuery({
     name: 'startDate',
@@ -77,10 +91,22 @@ export class SellerOrdersController {
             properties: {
               _id: { type: 'string' },
               orderNumber: { type: 'string' },
-              status: { type: 'string' },
+              status: {
+                type: 'string',
+                description: "Status of the seller's fulfilment group",
+              },
+              orderStatus: {
+                type: 'string',
+                description: 'Customer-facing order status',
+              },
               totalAmount: { type: 'number' },
+              sellerTotal: {
+                type: 'number',
+                description: "Amount paid for the seller's items",
+              },
               customer: { type: 'object' },
-              items: { type: 'array' },
+              items: { type: 'array', description: "Seller's items only" },
+              fulfillment: { type: 'object' },
               createdAt: { type: 'string' },
               updatedAt: { type: 'string' },
             },
@@ -100,13 +126,163 @@ export class SellerOrdersController {
     return this.sellerOrdersService.findAllOrders(sellerId, query);
   }
 
+  /**
+   * Get return requests for seller
+   */
+  @Get('returns')
+  @ApiOperation({
+    summary: 'Get return requests',
+    description:
+      "Retrieve customers' return requests for the seller's items with status filter and pagination",
+  })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ['requested', 'approved', 'rejected', 'refunded'],
+    description: 'Return status filter',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Return requests retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        data: { type: 'array', items: { type: 'object' } },
+        total: { type: 'number' },
+        page: { type: 'number' },
+        limit: { type: 'number' },
+        totalPages: { type: 'number' },
+      },
+    },
+  })
+  async findReturns(
+    @Query(new ZodValidationPipe(findReturnsSchema)) query: FindReturnsDto,
+    @CurrentUser('id') sellerId: string,
+  ) {
+    return this.returnsService.findSellerReturns(sellerId, query);
+  }
+
+  /**
+   * Approve a return request
+   */
+  @Put('returns/:returnId/approve')
+  @ApiOperation({
+    summary: 'Approve return request',
+    description: 'Approve a requested return so the customer can send it back',
+  })
+  @ApiParam({ name: 'returnId', description: 'Return request ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        note: { type: 'string', description: 'Note for the customer' },
+      },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Return request approved' })
+  @ApiResponse({ status: 400, description: 'Return is not requested' })
+  @ApiResponse({ status: 404, description: 'Return request not found' })
+  async approveReturn(
+    @Param('returnId') returnId: string,
+    @Body(new ZodValidationPipe(approveReturnSchema))
+    approveDto: ApproveReturnDto,
+    @CurrentUser('id') sellerId: string,
+  ) {
+    return this.returnsService.approveReturn(
+      returnId,
+      sellerId,
+      approveDto.note,
+    );
+  }
+
+  /**
+   * Reject a return request
+   */
+  @Put('returns/:returnId/reject')
+  @ApiOperation({
+    summary: 'Reject return request',
+    description: 'Reject a requested return with a reason for the customer',
+  })
+  @ApiParam({ name: 'returnId', description: 'Return request ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'Rejection reason' },
+      },
+      required: ['reason'],
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Return request rejected' })
+  @ApiResponse({ status: 400, description: 'Return is not requested' })
+  @ApiResponse({ status: 404, description: 'Return request not found' })
+  async rejectReturn(
+    @Param('returnId') returnId: string,
+    @Body(new ZodValidationPipe(rejectReturnSchema))
+    rejectDto: RejectReturnDto,
+    @CurrentUser('id') sellerId: string,
+  ) {
+    return this.returnsService.rejectReturn(
+      returnId,
+      sellerId,
+      rejectDto.reason,
+    );
+  }
+
+  /**
+   * Receive returned goods and refund the customer
+   */
+  @Put('returns/:returnId/refund')
+  @ApiOperation({
+    summary: 'Receive return and refund',
+    description:
+      "Mark the goods of an approved return as received: items are restocked and the customer is refunded in full or partially. The returned refundAmount is what was actually refunded, at most the order's remaining captured payment",
+  })
+  @ApiParam({ name: 'returnId', description: 'Return request ID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        refundAmount: {
+          type: 'number',
+          description:
+            'Amount to refund, defaults to the amount paid for the returned items',
+        },
+        note: { type: 'string', description: 'Note for the customer' },
+      },
+    },
+  })
+  @ApiResponse({ status: 200, description: 'Return refunded' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Return is not approved, refund amount is too high or the order has no captured payment left to refund',
+  })
+  @ApiResponse({ status: 404, description: 'Return request not found' })
+  async refundReturn(
+    @Param('returnId') returnId: string,
+    @Body(new ZodValidationPipe(refundReturnSchema))
+    refundDto: RefundReturnDto,
+    @CurrentUser('id') sellerId: string,
+  ) {
+    return this.returnsService.refundReturn(
+      returnId,
+      sellerId,
+      refundDto.refundAmount,
+      refundDto.note,
+    );
+  }
+
   /**
    * Get order by ID for seller
    */
   @Get(':id')
   @ApiOperation({
     summary: 'Get order by ID for seller',
-    description: 'Retrieve a specific order containing seller products',
+    description:
+      "Retrieve the seller's items and fulfilment group of a specific order",
   })
   @ApiParam({ name: 'id', description: 'Order ID' })
   @ApiResponse({
@@ -118,9 +294,32 @@ export class SellerOrdersController {
         _id: { type: 'string' },
         orderNumber: { type: 'string' },
         status: { type: 'string' },
+        orderStatus: { type: 'string' },
         totalAmount: { type: 'number' },
+        sellerTotal: { type: 'number' },
         customer: { type: 'object' },
         items: { type: 'array' },
+        fulfillment: { type: 'object' },
+        statusHistory: {
+          type: 'array',
+          description:
+            "Audit trail of order status changes and the seller's own group changes",
+          items: {
+            type: 'object',
+            properties: {
+              actor: {
+                type: 'string',
+                enum: ['customer', 'seller', 'admin', 'system'],
+              },
+              actorId: { type: 'string' },
+              sellerId: { type: 'string' },
+              previousStatus: { type: 'string' },
+              status: { type: 'string' },
+              note: { type: 'string' },
+              changedAt: { type: 'string', format: 'date-time' },
+            },
+          },
+        },
         shippingAddress: { type: 'object' },
         billingAddress: { type: 'object' },
         paymentMethod: { type: 'string' },
@@ -146,7 +345,7 @@ export class SellerOrdersController {
   @ApiOperation({
     summary: 'Update order status',
     description:
-      'Update the status of an order (pending, processing, shipped, delivered, cancelled)',
+      "Update the status of the seller's fulfilment group (pending, processing, shipped, delivered, cancelled); other sellers' groups are not affected",
   })
   @ApiParam({ name: 'id', description: 'Order ID' })
   @ApiBody({
@@ -178,8 +377,10 @@ export class SellerOrdersController {
         _id: { type: 'string' },
         orderNumber: { type: 'string' },
         status: { type: 'string' },
+        orderStatus: { type: 'string' },
         trackingNumber: { type: 'string' },
         sellerNotes: { type: 'string' },
+        fulfillment: { type: 'object' },
         updatedAt: { type: 'string' },
       },
     },
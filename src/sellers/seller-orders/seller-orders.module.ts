@@ -4,6 +4,9 @@ import { Order, OrderSchema } from '../../schemas/order.schema';
 import { Product, ProductSchema } from '../../schemas/product.schema';
 import { SellerOrdersController } from './seller-orders.controller';
 import { SellerOrdersService } from './seller-orders.service';
+import { CampaignsModule } from '../../campaigns/campaigns.module';
+import { PaymentsModule } from '../../payments/payments.module';
+import { OrdersModule } from '../../orders/orders.module';
 
 @Module({
   imports: [
@@ -11,6 +14,9 @@ import { SellerOrdersService } from './seller-orders.service';
       { name: Order.name, schema: OrderSchema },
       { name: Product.name, schema: ProductSchema },
     ]),
+    CampaignsModule,
+    PaymentsModule,
+    OrdersModule,
   ],
   controllers: [SellerOrdersController],
   providers: [SellerOrdersService],
@@ -0,0 +1,235 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SellerOrdersService } from './seller-orders.service';
+import {
+  FulfillmentStatus,
+  Order,
+  OrderStatus,
+  PaymentStatus,
+} from '../../schemas/order.schema';
+import { Product } from '../../schemas/product.schema';
+import { CampaignRedemptionService } from '../../campaigns/services/campaign-redemption.service';
+import { PaymentsService } from '../../payments/payments.service';
+import { OrdersService } from '../../orders/orders.service';
+
+/**
+ * In-memory stand-in for the orders collection
+ *
+ * Only the filters and updates the service sends are understood. Every
+ * write bumps `updatedAt` unless timestamps are turned off, like the
+ * timestamped Order schema. Every call yields to the event loop first,
+ * like a database round trip.
+ */
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+function createOrderModel(order: any) {
+  const clone = () => ({
+    ...order,
+    items: order.items.map((item: any) => ({ ...item })),
+    fulfillments: order.fulfillments.map((group: any) => ({ ...group })),
+    statusHistory: [...order.statusHistory],
+  });
+
+  const matchesGroup = (group: any, condition: any) =>
+    group.sellerId.toString() === condition.sellerId.toString() &&
+    (condition.status === undefined || group.status === condition.status);
+
+  const matches = (filter: any) =>
+    filter._id.toString() === order._id.toString() &&
+    (filter.status === undefined || filter.status === order.status) &&
+    (filter.updatedAt === undefined ||
+      filter.updatedAt.getTime() === order.updatedAt.getTime()) &&
+    (!filter.fulfillments ||
+      order.fulfillments.some((group: any) =>
+        matchesGroup(group, filter.fulfillments.$elemMatch),
+      )) &&
+    (filter.$and || []).every((condition: any) =>
+      order.fulfillments.some((group: any) =>
+        matchesGroup(group, condition.fulfillments.$elemMatch),
+      ),
+    );
+
+  const apply = (filter: any, update: any, options: any = {}) => {
+    const group = filter.fulfillments
+      ? order.fulfillments.find((candidate: any) =>
+          matchesGroup(candidate, filter.fulfillments.$elemMatch),
+        )
+      : undefined;
+
+    for (const [path, value] of Object.entries<any>(update.$set || {})) {
+      if (path.startsWith('fulfillments.$.')) {
+        group[path.slice('fulfillments.$.'.length)] = value;
+      } else {
+        order[path] = value;
+      }
+    }
+    if (update.$push?.statusHistory) {
+      order.statusHistory.push(update.$push.statusHistory);
+    }
+    if (options.timestamps !== false) {
+      order.updatedAt = new Date(order.updatedAt.getTime() + 1);
+    }
+  };
+
+  const query = (result: () => any) => ({
+    select: () => query(result),
+    populate: () => query(result),
+    lean: async () => {
+      await tick();
+      return result();
+    },
+    then: (resolve: any, reject: any) =>
+      tick().then(result).then(resolve, reject),
+  });
+
+  return {
+    findOne: (filter: any) => query(() => (matches(filter) ? clone() : null)),
+    findById: () => query(clone),
+    findOneAndUpdate: async (filter: any, update: any) => {
+      await tick();
+      if (!matches(filter)) return null;
+      apply(filter, update);
+      return clone();
+    },
+    updateOne: async (filter: any, update: any, options?: any) => {
+      await tick();
+      if (!matches(filter)) return { modifiedCount: 0 };
+      apply(filter, update, options);
+      return { modifiedCount: 1 };
+    },
+  };
+}
+
+describe('SellerOrdersService', () => {
+  let service: SellerOrdersService;
+  let order: any;
+
+  const sellerId = new Types.ObjectId();
+  const otherSellerId = new Types.ObjectId();
+
+  // Like the real service, the payment step writes the order's payment
+  // status, which moves its `updatedAt`
+  const syncPaymentStatus = (paymentStatus: PaymentStatus) => async () => {
+    await tick();
+    order.paymentStatus = paymentStatus;
+    order.updatedAt = new Date(order.updatedAt.getTime() + 1);
+  };
+
+  const mockPaymentsService = {
+    reverseForOrder: jest.fn(),
+    refundForOrder: jest.fn(),
+  };
+  const mockOrdersService = { restoreProductStock: jest.fn() };
+  const mockCampaignRedemptionService = { releaseForOrder: jest.fn() };
+
+  const createOrder = (otherGroupStatus: FulfillmentStatus) => ({
+    _id: new Types.ObjectId(),
+    status:
+      otherGroupStatus === FulfillmentStatus.SHIPPED
+        ? OrderStatus.PARTIALLY_SHIPPED
+        : OrderStatus.PENDING,
+    paymentStatus: PaymentStatus.PAID,
+    items: [
+      {
+        productId: new Types.ObjectId(),
+        sellerId,
+        price: 20,
+        quantity: 2,
+      },
+      {
+        productId: new Types.ObjectId(),
+        sellerId: otherSellerId,
+        price: 15,
+        quantity: 1,
+      },
+    ],
+    fulfillments: [
+      { sellerId, status: FulfillmentStatus.PENDING },
+      { sellerId: otherSellerId, status: otherGroupStatus },
+    ],
+    statusHistory: [],
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  const cancel = () =>
+    service.updateOrderStatus(order._id.toString(), sellerId.toString(), {
+      status: FulfillmentStatus.CANCELLED,
+    } as any);
+
+  const setUp = async (otherGroupStatus: FulfillmentStatus) => {
+    order = createOrder(otherGroupStatus);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SellerOrdersService,
+        {
+          provide: getModelToken(Order.name),
+          useValue: createOrderModel(order),
+        },
+        { provide: getModelToken(Product.name), useValue: {} },
+        {
+          provide: CampaignRedemptionService,
+          useValue: mockCampaignRedemptionService,
+        },
+        { provide: PaymentsService, useValue: mockPaymentsService },
+        { provide: OrdersService, useValue: mockOrdersService },
+      ],
+    }).compile();
+
+    service = module.get<SellerOrdersService>(SellerOrdersService);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPaymentsService.reverseForOrder.mockImplementation(
+      syncPaymentStatus(PaymentStatus.REFUNDED),
+    );
+    mockPaymentsService.refundForOrder.mockImplementation(
+      syncPaymentStatus(PaymentStatus.PARTIALLY_REFUNDED),
+    );
+  });
+
+  it('cancels a paid order when the last open group is cancelled', async () => {
+    await setUp(FulfillmentStatus.CANCELLED);
+
+    const result = await cancel();
+
+    expect(mockPaymentsService.reverseForOrder).toHaveBeenCalledWith(
+      order._id.toString(),
+    );
+    expect(order.status).toBe(OrderStatus.CANCELLED);
+    expect(result.orderStatus).toBe(OrderStatus.CANCELLED);
+    expect(order.statusHistory).toContainEqual(
+      expect.objectContaining({
+        previousStatus: OrderStatus.PENDING,
+        status: OrderStatus.CANCELLED,
+      }),
+    );
+    expect(mockOrdersService.restoreProductStock).toHaveBeenCalled();
+    expect(mockCampaignRedemptionService.releaseForOrder).toHaveBeenCalledWith(
+      order._id.toString(),
+    );
+  });
+
+  it('derives the order status after refunding a cancelled group', async () => {
+    await setUp(FulfillmentStatus.SHIPPED);
+
+    await cancel();
+
+    expect(mockPaymentsService.refundForOrder).toHaveBeenCalledWith(
+      order._id.toString(),
+      40,
+    );
+    expect(order.status).toBe(OrderStatus.SHIPPED);
+    expect(order.statusHistory).toContainEqual(
+      expect.objectContaining({
+        previousStatus: OrderStatus.PARTIALLY_SHIPPED,
+        status: OrderStatus.SHIPPED,
+      }),
+    );
+    expect(
+      mockCampaignRedemptionService.releaseForOrder,
+    ).not.toHaveBeenCalled();
+  });
+});
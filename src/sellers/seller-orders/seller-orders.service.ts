@@ -5,32 +5,62 @@ import {
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
-import { Order, OrderDocument, OrderStatus } from '../../schemas/order.schema';
+import {
+  deriveOrderStatus,
+  FulfillmentStatus,
+  Order,
+  OrderDocument,
+  OrderFulfillment,
+  OrderStatus,
+  OrderStatusActor,
+  ORDER_ITEM_NET_TOTAL,
+} from '../../schemas/order.schema';
 import { Product, ProductDocument } from '../../schemas/product.schema';
 import { FindAllOrdersDto } from './dto/find-all-orders.dto';
 import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
 import { OrderError, OrderErrorMessages } from './enums/order-error.enum';
+import { CampaignRedemptionService } from '../../campaigns/services/campaign-redemption.service';
+import { PaymentsService } from '../../payments/payments.service';
+import { OrdersService } from '../../orders/orders.service';
+
+/**
+ * Timestamp field set when a fulfilment group enters each status
+ */
+const FULFILLMENT_STATUS_TIMESTAMPS: Partial<
+  Record<FulfillmentStatus, string>
+> = {
+  [FulfillmentStatus.PROCESSING]: 'processingAt',
+  [FulfillmentStatus.SHIPPED]: 'shippedAt',
+  [FulfillmentStatus.DELIVERED]: 'deliveredAt',
+  [FulfillmentStatus.CANCELLED]: 'cancelledAt',
+};
 
 /**
  * Seller Orders Service
  *
  * Handles comprehensive order management for sellers including:
  * - Order listing with advanced filtering and search
- * - Order status management and transitions
+ * - Per-seller fulfilment group (sub-order) status management
  * - Seller-specific order analytics and statistics
  * - Order fulfillment and shipping management
  * - Customer communication and order notes
  */
+
 @Injectable()
 export class SellerOrdersService {
   constructor(
     @InjectModel(Order.name) private orderModel: Model<OrderDocument>,
     @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+    private campaignRedemptionService: CampaignRedemptionService,
+    private paymentsService: PaymentsService,
+    private ordersService: OrdersService,
   ) {}
 
   /**
    * Get all orders containing seller's products with advanced filtering
    *
+   * Only the seller's own items and fulfilment group are returned.
+   *
    * @param sellerId - Seller user ID
    * @param options - Filtering and pagination options
    * @returns Paginated list of orders with seller's products
@@ -47,15 +77,7 @@ export class SellerOrdersService {
       sortOrder = 'desc',
     } = options;
 
-    // Get seller's product IDs
-    const sellerProducts = await this.productModel
-      .find({ sellerId: new Types.ObjectId(sellerId) })
-      .select('_id');
-    const sellerProductIds = sellerProducts.map((product) => product._id);
-
-    const query: any = {
-      'items.productId': { $in: sellerProductIds },
-    };
+    const query: any = this.sellerOrderFilter(sellerId, status);
 
     if (search) {
       query.$or = [
@@ -66,10 +88,6 @@ export class SellerOrdersService {
       ];
     }
 
-    if (status) {
-      query.status = status;
-    }
-
     if (startDate || endDate) {
       query.createdAt = {};
       if (startDate) query.createdAt.$gte = new Date(startDate);
@@ -94,7 +112,7 @@ export class SellerOrdersService {
     ]);
 
     return {
-      data: orders,
+      data: orders.map((order) => this.toSellerOrder(order, sellerId)),
       total,
       page,
       limit,
@@ -105,8 +123,8 @@ export class SellerOrdersService {
   /**
    * Get detailed order information for a seller
    *
-   * Retrieves comprehensive order details including customer information,
-   * product details, and shipping status for orders containing seller's products.
+   * Retrieves the seller's share of an order: their items, their fulfilment
+   * group and the customer's shipping information.
    *
    * @param orderId - Order ID to retrieve
    * @param sellerId - Seller user ID for access control
@@ -114,16 +132,10 @@ export class SellerOrdersService {
    * @throws NotFoundException when order not found or doesn't contain seller's products
    */
   async findOneOrder(orderId: string, sellerId: string) {
-    // Get seller's product IDs
-    const sellerProducts = await this.productModel
-      .find({ sellerId: new Types.ObjectId(sellerId) })
-      .select('_id');
-    const sellerProductIds = sellerProducts.map((product) => product._id);
-
     const order = await this.orderModel
       .findOne({
         _id: new Types.ObjectId(orderId),
-        'items.productId': { $in: sellerProductIds },
+        ...this.sellerOrderFilter(sellerId),
       })
       .populate('items.productId', 'name price imageUrls description')
       .populate('userId', 'firstName lastName email phoneNumber')
@@ -135,14 +147,14 @@ export class SellerOrdersService {
       );
     }
 
-    return order;
+    return this.toSellerOrder(order, sellerId);
   }
 
   /**
-   * Update order status with validation and business rules
+   * Update the status of the seller's fulfilment group
    *
-   * Handles order status transitions with proper validation to ensure
-   * only valid state changes are allowed. Supports adding tracking numbers
+   * Only the seller's own group changes; the customer-facing order status
+   * is derived again from all groups. Supports adding tracking numbers
    * and seller notes during status updates.
    *
    * Valid transitions:
@@ -152,6 +164,11 @@ export class SellerOrdersService {
    * - delivered → (no further transitions)
    * - cancelled → (no further transitions)
    *
+   * Cancelling a group refunds and restocks the seller's items; the
+   * campaigns of the order are released once every group is cancelled.
+   * The new status is claimed before any money moves and reverted if the
+   * refund fails.
+   *
    * @param orderId - Order ID to update
    * @param sellerId - Seller user ID for access control
    * @param updateDto - Status update data including new status, tracking number, and notes
@@ -164,15 +181,9 @@ export class SellerOrdersService {
     sellerId: string,
     updateDto: UpdateOrderStatusDto,
   ) {
-    // Get seller's product IDs
-    const sellerProducts = await this.productModel
-      .find({ sellerId: new Types.ObjectId(sellerId) })
-      .select('_id');
-    const sellerProductIds = sellerProducts.map((product) => product._id);
-
     const order = await this.orderModel.findOne({
       _id: new Types.ObjectId(orderId),
-      'items.productId': { $in: sellerProductIds },
+      ...this.sellerOrderFilter(sellerId),
     });
 
     if (!order) {
@@ -181,13 +192,16 @@ export class SellerOrdersService {
       );
     }
 
-    // Check if order is already completed or cancelled
+    const fulfillment = this.findSellerFulfillment(order, sellerId)!;
+    const currentStatus = fulfillment.status;
+
+    // Check if the seller's group is already completed or cancelled
     if (
-      order.status === OrderStatus.DELIVERED ||
-      order.status === OrderStatus.CANCELLED
+      currentStatus === FulfillmentStatus.DELIVERED ||
+      currentStatus === FulfillmentStatus.CANCELLED
     ) {
       throw new BadRequestException(
-        order.status === OrderStatus.DELIVERED
+        currentStatus === FulfillmentStatus.DELIVERED
           ? OrderErrorMessages[OrderError.ORDER_ALREADY_COMPLETED]
           : OrderErrorMessages[OrderError.ORDER_ALREADY_CANCELLED],
       );
@@ -202,8 +216,7 @@ export class SellerOrdersService {
       cancelled: [],
     };
 
-    const currentStatus = order.status;
-    const newStatus = updateDto.status;
+    const newStatus = updateDto.status as FulfillmentStatus;
 
     if (!validTransitions[currentStatus]?.includes(newStatus)) {
       throw new BadRequestException(
@@ -211,91 +224,186 @@ export class SellerOrdersService {
       );
     }
 
-    // Update order status
-    const updateData: any = {
-      status: newStatus,
-      updatedAt: new Date(),
-    };
+    const sellerItems = order.items.filter(
+      (item) => item.sellerId.toString() === sellerId,
+    );
+
+    // Claim the transition first: update only the seller's group, the
+    // current status guards against concurrent updates of the same group.
+    // Money moves only once the claim succeeded.
+    const changedAt = new Date();
+    const updateData: any = { 'fulfillments.$.status': newStatus };
+
+    const timestampField = FULFILLMENT_STATUS_TIMESTAMPS[newStatus];
+    if (timestampField) {
+      updateData[`fulfillments.$.${timestampField}`] = changedAt;
+    }
 
     if (updateDto.trackingNumber) {
-      updateData.trackingNumber = updateDto.trackingNumber;
+      updateData['fulfillments.$.trackingNumber'] = updateDto.trackingNumber;
     }
 
     if (updateDto.notes) {
-      updateData.sellerNotes = updateDto.notes;
+      updateData['fulfillments.$.sellerNotes'] = updateDto.notes;
     }
 
-    const updatedOrder = await this.orderModel
-      .findByIdAndUpdate(orderId, updateData, { new: true })
-      .populate('items.productId', 'name price imageUrls')
-      .populate('userId', 'firstName lastName email');
+    const updated = await this.orderModel.findOneAndUpdate(
+      {
+        _id: order._id,
+        fulfillments: {
+          $elemMatch: {
+            sellerId: new Types.ObjectId(sellerId),
+            status: currentStatus,
+          },
+        },
+      },
+      {
+        $set: updateData,
+        $push: {
+          statusHistory: {
+            actor: OrderStatusActor.SELLER,
+            actorId: new Types.ObjectId(sellerId),
+            sellerId: new Types.ObjectId(sellerId),
+            previousStatus: currentStatus,
+            status: newStatus,
+            changedAt,
+          },
+        },
+      },
+      { new: true },
+    );
+
+    if (!updated) {
+      throw new BadRequestException(
+        OrderErrorMessages[OrderError.INVALID_STATUS_TRANSITION],
+      );
+    }
+
+    // Decide from the claimed order, so of two sellers cancelling at once
+    // the later one sees the other group cancelled and reverses the rest
+    const isLastOpenGroup = updated.fulfillments.every(
+      (group) => group.status === FulfillmentStatus.CANCELLED,
+    );
+
+    // Return the customer's money for the cancelled group
+    if (newStatus === FulfillmentStatus.CANCELLED) {
+      try {
+        if (isLastOpenGroup) {
+          await this.paymentsService.reverseForOrder(orderId);
+        } else {
+          await this.paymentsService.refundForOrder(
+            orderId,
+            this.calculateItemsTotal(sellerItems),
+          );
+        }
+      } catch (error) {
+        await this.revertFulfillmentStatus(
+          order._id as Types.ObjectId,
+          sellerId,
+          currentStatus,
+          newStatus,
+          changedAt,
+        );
+        throw error;
+      }
+    }
+
+    await this.syncOrderStatus(order._id as Types.ObjectId, sellerId);
+
+    if (newStatus === FulfillmentStatus.CANCELLED) {
+      await this.ordersService.restoreProductStock(sellerItems);
+
+      if (isLastOpenGroup) {
+        await this.campaignRedemptionService.releaseForOrder(orderId);
+      }
+    }
 
-    return updatedOrder;
+    return this.findOneOrder(orderId, sellerId);
+  }
+
+  /**
+   * Undo a claimed status change whose payment step failed
+   *
+   * @private
+   */
+  private async revertFulfillmentStatus(
+    orderId: Types.ObjectId,
+    sellerId: string,
+    previousStatus: FulfillmentStatus,
+    status: FulfillmentStatus,
+    changedAt: Date,
+  ): Promise<void> {
+    const timestampField = FULFILLMENT_STATUS_TIMESTAMPS[status];
+
+    await this.orderModel.updateOne(
+      {
+        _id: orderId,
+        fulfillments: {
+          $elemMatch: { sellerId: new Types.ObjectId(sellerId), status },
+        },
+      },
+      {
+        $set: { 'fulfillments.$.status': previousStatus },
+        ...(timestampField && {
+          $unset: { [`fulfillments.$.${timestampField}`]: '' },
+        }),
+        $pull: {
+          statusHistory: {
+            sellerId: new Types.ObjectId(sellerId),
+            status,
+            changedAt,
+          },
+        },
+      },
+    );
   }
 
   /**
    * Get comprehensive order statistics for seller
    *
-   * Provides detailed analytics including order counts by status,
-   * total revenue from completed orders, and performance metrics.
-   * Only includes orders containing the seller's products.
+   * Provides detailed analytics including counts by the status of the
+   * seller's fulfilment groups, total revenue from shipped groups, and
+   * performance metrics.
    *
    * @param sellerId - Seller user ID
    * @returns Order statistics including counts by status and total revenue
    */
   async getOrderStats(sellerId: string) {
-    // Get seller's product IDs
-    const sellerProducts = await this.productModel
-      .find({ sellerId: new Types.ObjectId(sellerId) })
-      .select('_id');
-    const sellerProductIds = sellerProducts.map((product) => product._id);
-
-    const query = {
-      'items.productId': { $in: sellerProductIds },
-    };
+    const sellerObjectId = new Types.ObjectId(sellerId);
 
-    const [
-      totalOrders,
-      pendingOrders,
-      processingOrders,
-      shippedOrders,
-      deliveredOrders,
-      cancelledOrders,
-      totalRevenue,
-    ] = await Promise.all([
-      this.orderModel.countDocuments(query),
-      this.orderModel.countDocuments({ ...query, status: OrderStatus.PENDING }),
-      this.orderModel.countDocuments({
-        ...query,
-        status: OrderStatus.PROCESSING,
-      }),
-      this.orderModel.countDocuments({ ...query, status: OrderStatus.SHIPPED }),
-      this.orderModel.countDocuments({
-        ...query,
-        status: OrderStatus.DELIVERED,
-      }),
-      this.orderModel.countDocuments({
-        ...query,
-        status: OrderStatus.CANCELLED,
-      }),
+    const [totalOrders, statusCounts, totalRevenue] = await Promise.all([
+      this.orderModel.countDocuments(this.sellerOrderFilter(sellerId)),
+      this.orderModel.aggregate([
+        { $match: this.sellerOrderFilter(sellerId) },
+        { $unwind: '$fulfillments' },
+        { $match: { 'fulfillments.sellerId': sellerObjectId } },
+        { $group: { _id: '$fulfillments.status', count: { $sum: 1 } } },
+      ]),
       this.orderModel.aggregate([
         {
-          $match: {
-            ...query,
-            status: { $in: [OrderStatus.DELIVERED, OrderStatus.SHIPPED] },
-          },
+          $match: this.sellerOrderFilter(sellerId, [
+            FulfillmentStatus.DELIVERED,
+            FulfillmentStatus.SHIPPED,
+          ]),
         },
-        { $group: { _id: null, total: { $sum: '$totalAmount' } } },
+        { $unwind: '$items' },
+        { $match: { 'items.sellerId': sellerObjectId } },
+        { $group: { _id: null, total: { $sum: ORDER_ITEM_NET_TOTAL } } },
       ]),
     ]);
 
+    const statusCountMap = statusCounts.reduce((acc, item) => {
+      acc[item._id] = item.count;
+      return acc;
+    }, {});
+
     return {
       totalOrders,
-      pendingOrders,
-      processingOrders,
-      shippedOrders,
-      deliveredOrders,
-      cancelledOrders,
+      pendingOrders: statusCountMap[FulfillmentStatus.PENDING] || 0,
+      processingOrders: statusCountMap[FulfillmentStatus.PROCESSING] || 0,
+      shippedOrders: statusCountMap[FulfillmentStatus.SHIPPED] || 0,
+      deliveredOrders: statusCountMap[FulfillmentStatus.DELIVERED] || 0,
+      cancelledOrders: statusCountMap[FulfillmentStatus.CANCELLED] || 0,
       totalRevenue: totalRevenue[0]?.total || 0,
     };
   }
@@ -303,8 +411,8 @@ export class SellerOrdersService {
   /**
    * Add seller notes to an order
    *
-   * Allows sellers to add internal notes to orders for tracking purposes,
-   * customer communication, or fulfillment instructions.
+   * Allows sellers to add internal notes to their fulfilment group for
+   * tracking purposes, customer communication, or fulfillment instructions.
    *
    * @param orderId - Order ID
    * @param sellerId - Seller user ID for access control
@@ -313,45 +421,28 @@ export class SellerOrdersService {
    * @throws NotFoundException when order not found or doesn't contain seller's products
    */
   async addOrderNotes(orderId: string, sellerId: string, notes: string) {
-    // Get seller's product IDs
-    const sellerProducts = await this.productModel
-      .find({ sellerId: new Types.ObjectId(sellerId) })
-      .select('_id');
-    const sellerProductIds = sellerProducts.map((product) => product._id);
-
-    const order = await this.orderModel.findOne({
-      _id: new Types.ObjectId(orderId),
-      'items.productId': { $in: sellerProductIds },
-    });
+    const updatedOrder = await this.orderModel.findOneAndUpdate(
+      {
+        _id: new Types.ObjectId(orderId),
+        ...this.sellerOrderFilter(sellerId),
+      },
+      { $set: { 'fulfillments.$.sellerNotes': notes } },
+      { new: true },
+    );
 
-    if (!order) {
+    if (!updatedOrder) {
       throw new NotFoundException(
         OrderErrorMessages[OrderError.ORDER_NOT_FOUND],
       );
     }
 
-    // Update seller notes
-    const updatedOrder = await this.orderModel
-      .findByIdAndUpdate(
-        orderId,
-        {
-          $set: {
-            sellerNotes: notes,
-            updatedAt: new Date(),
-          },
-        },
-        { new: true },
-      )
-      .populate('items.productId', 'name price imageUrls')
-      .populate('items.sellerId', 'firstName lastName');
-
-    return updatedOrder;
+    return this.findOneOrder(orderId, sellerId);
   }
 
   /**
    * Get orders requiring attention (pending or processing)
    *
-   * Retrieves orders that need seller action, such as processing
+   * Retrieves orders whose seller group needs action, such as processing
    * pending orders or preparing orders for shipment.
    *
    * @param sellerId - Seller user ID
@@ -359,38 +450,38 @@ export class SellerOrdersService {
    * @returns List of orders requiring seller attention
    */
   async getOrdersRequiringAttention(sellerId: string, limit: number = 10) {
-    // Get seller's product IDs
-    const sellerProducts = await this.productModel
-      .find({ sellerId: new Types.ObjectId(sellerId) })
-      .select('_id');
-    const sellerProductIds = sellerProducts.map((product) => product._id);
-
     const orders = await this.orderModel
-      .find({
-        'items.productId': { $in: sellerProductIds },
-        status: { $in: [OrderStatus.PENDING, OrderStatus.PROCESSING] },
-      })
+      .find(
+        this.sellerOrderFilter(sellerId, [
+          FulfillmentStatus.PENDING,
+          FulfillmentStatus.PROCESSING,
+        ]),
+      )
       .populate('items.productId', 'name price imageUrls')
       .populate('userId', 'firstName lastName email')
       .sort({ createdAt: 1 }) // Oldest first
       .limit(limit)
       .lean();
 
-    return orders.map((order) => ({
-      _id: (order._id as any).toString(),
-      status: order.status,
-      totalPrice: order.totalPrice,
-      customerName:
-        `${(order.userId as any)?.firstName || ''} ${(order.userId as any)?.lastName || ''}`.trim() ||
-        'Unknown Customer',
-      customerEmail: (order.userId as any)?.email || '',
-      itemCount: order.items.length,
-      orderDate: (order as any).createdAt,
-      urgency: this.calculateOrderUrgency(
-        order.status,
-        (order as any).createdAt,
-      ),
-    }));
+    return orders.map((order) => {
+      const sellerOrder = this.toSellerOrder(order, sellerId);
+
+      return {
+        _id: (order._id as any).toString(),
+        status: sellerOrder.status,
+        totalPrice: order.totalPrice,
+        customerName:
+          `${(order.userId as any)?.firstName || ''} ${(order.userId as any)?.lastName || ''}`.trim() ||
+          'Unknown Customer',
+        customerEmail: (order.userId as any)?.email || '',
+        itemCount: sellerOrder.items.length,
+        orderDate: (order as any).createdAt,
+        urgency: this.calculateOrderUrgency(
+          sellerOrder.status,
+          (order as any).createdAt,
+        ),
+      };
+    });
   }
 
   /**
@@ -405,20 +496,28 @@ export class SellerOrdersService {
    * @returns Revenue analytics and trends
    */
   async getRevenueAnalytics(sellerId: string, startDate: Date, endDate: Date) {
-    // Get seller's product IDs
-    const sellerProducts = await this.productModel
-      .find({ sellerId: new Types.ObjectId(sellerId) })
-      .select('_id');
-    const sellerProductIds = sellerProducts.map((product) => product._id);
+    const sellerObjectId = new Types.ObjectId(sellerId);
 
     const analyticsData = await this.orderModel.aggregate([
       {
         $match: {
-          'items.productId': { $in: sellerProductIds },
-          status: { $in: [OrderStatus.DELIVERED, OrderStatus.SHIPPED] },
+          ...this.sellerOrderFilter(sellerId, [
+            FulfillmentStatus.DELIVERED,
+            FulfillmentStatus.SHIPPED,
+          ]),
           createdAt: { $gte: startDate, $lte: endDate },
         },
       },
+      { $unwind: '$items' },
+      { $match: { 'items.sellerId': sellerObjectId } },
+      // Collapse back to one row per order with the seller's paid share
+      {
+        $group: {
+          _id: '$_id',
+          createdAt: { $first: '$createdAt' },
+          sellerTotal: { $sum: ORDER_ITEM_NET_TOTAL },
+        },
+      },
       {
         $group: {
           _id: {
@@ -426,9 +525,9 @@ export class SellerOrdersService {
             month: { $month: '$createdAt' },
             day: { $dayOfMonth: '$createdAt' },
           },
-          dailyRevenue: { $sum: '$totalPrice' },
+          dailyRevenue: { $sum: '$sellerTotal' },
           orderCount: { $sum: 1 },
-          avgOrderValue: { $avg: '$totalPrice' },
+          avgOrderValue: { $avg: '$sellerTotal' },
         },
       },
       {
@@ -473,20 +572,23 @@ export class SellerOrdersService {
    * Calculate order urgency based on status and age
    *
    * @private
-   * @param status - Order status
+   * @param status - Status of the seller's fulfilment group
    * @param orderDate - Order creation date
    * @returns Urgency level (high, medium, low)
    */
-  private calculateOrderUrgency(status: OrderStatus, orderDate: Date): string {
+  private calculateOrderUrgency(
+    status: FulfillmentStatus,
+    orderDate: Date,
+  ): string {
     const ageInHours = (Date.now() - orderDate.getTime()) / (1000 * 60 * 60);
 
-    if (status === OrderStatus.PENDING) {
+    if (status === FulfillmentStatus.PENDING) {
       if (ageInHours > 24) return 'high';
       if (ageInHours > 12) return 'medium';
       return 'low';
     }
 
-    if (status === OrderStatus.PROCESSING) {
+    if (status === FulfillmentStatus.PROCESSING) {
       if (ageInHours > 48) return 'high';
       if (ageInHours > 24) return 'medium';
       return 'low';
@@ -494,4 +596,136 @@ export class SellerOrdersService {
 
     return 'low';
   }
+  /**
+   * Query matching orders with a fulfilment group of the seller
+   *
+   * @private
+   * @param sellerId - Seller user ID
+   * @param status - Optional group status or statuses to match
+   */
+  private sellerOrderFilter(
+    sellerId: string,
+    status?: string | FulfillmentStatus[],
+  ) {
+    const match: any = { sellerId: new Types.ObjectId(sellerId) };
+    if (status) {
+      match.status = Array.isArray(status) ? { $in: status } : status;
+    }
+
+    return { fulfillments: { $elemMatch: match } };
+  }
+
+  /**
+   * Find the seller's fulfilment group of an order
+   *
+   * @private
+   */
+  private findSellerFulfillment(
+    order: { fulfillments: OrderFulfillment[] },
+    sellerId: string,
+  ): OrderFulfillment | undefined {
+    return order.fulfillments.find(
+      (fulfillment) => fulfillment.sellerId.toString() === sellerId,
+    );
+  }
+
+  /**
+   * Reduce an order to the seller's share
+   *
+   * Other sellers' items, fulfilment groups and group status changes are
+   * removed; status, tracking number and notes come from the seller's group
+   * while `orderStatus` keeps the customer-facing status.
+   *
+   * @private
+   * @param order - Lean order
+   * @param sellerId - Seller user ID
+   */
+  private toSellerOrder(order: any, sellerId: string) {
+    const fulfillment = this.findSellerFulfillment(order, sellerId)!;
+    const items = order.items.filter(
+      (item: any) => item.sellerId.toString() === sellerId,
+    );
+
+    return {
+      ...order,
+      items,
+      fulfillments: undefined,
+      statusHistory: (order.statusHistory || []).filter(
+        (change: any) =>
+          !change.sellerId || change.sellerId.toString() === sellerId,
+      ),
+      orderStatus: order.status as OrderStatus,
+      status: fulfillment.status,
+      trackingNumber: fulfillment.trackingNumber,
+      sellerNotes: fulfillment.sellerNotes,
+      fulfillment,
+      sellerTotal: this.calculateItemsTotal(items),
+    };
+  }
+
+  /**
+   * Store and record the order status derived from the fulfilment groups
+   *
+   * The order is read again, as the payment step of a cancellation writes
+   * to it. The write only applies while the order status and every group
+   * status are unchanged since that read, so a concurrent group update
+   * (which syncs again) cannot be overwritten by a stale status.
+   *
+   * @private
+   * @param orderId - Order whose group was updated
+   * @param sellerId - Seller whose group update caused the change
+   */
+  private async syncOrderStatus(
+    orderId: Types.ObjectId,
+    sellerId: string,
+  ): Promise<void> {
+    const order = await this.orderModel
+      .findById(orderId)
+      .select('status fulfillments.sellerId fulfillments.status')
+      .lean();
+    if (!order) return;
+
+    const status = deriveOrderStatus(order.fulfillments);
+    if (status === order.status) return;
+
+    await this.orderModel.updateOne(
+      {
+        _id: orderId,
+        status: order.status,
+        $and: order.fulfillments.map((group) => ({
+          fulfillments: {
+            $elemMatch: { sellerId: group.sellerId, status: group.status },
+          },
+        })),
+      },
+      {
+        $set: { status },
+        $push: {
+          statusHistory: {
+            actor: OrderStatusActor.SELLER,
+            actorId: new Types.ObjectId(sellerId),
+            previousStatus: order.status,
+            status,
+            changedAt: new Date(),
+          },
+        },
+      },
+      { timestamps: false },
+    );
+  }
+
+  /**
+   * Sum the amount paid for order lines
+   *
+   * @private
+   */
+  private calculateItemsTotal(
+    items: Array<{ price: number; quantity: number; discount?: number }>,
+  ): number {
+    const total = items.reduce(
+      (sum, item) => sum + item.price * item.quantity - (item.discount || 0),
+      0,
+    );
+    return Math.max(0, Math.round(total * 100) / 100);
+  }
 }
@@ -16,7 +16,9 @@ export const createProductSchema = z.object({
     .min(0, 'Stock quantity must be 0 or greater')
     .optional(),
   category: z.string().min(1, 'Category selection is required'),
-  specifications: z.record(z.string(), z.string()).optional(),
+  specifications: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional(),
   tags: z.array(z.string()).optional(),
   isFeatured: z.boolean().optional(),
   variants: z
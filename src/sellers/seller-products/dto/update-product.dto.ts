@@ -18,12 +18,16 @@ export const updateProductSchema = z.object({
     .min(0, 'Stock quantity must be 0 or greater')
     .optional(),
   category: z.string().min(1, 'Category selection is required').optional(),
-  specifications: z.record(z.string(), z.string()).optional(),
+  specifications: z
+    .record(z.string(), z.union([z.string(), z.number(), z.boolean()]))
+    .optional(),
   tags: z.array(z.string()).optional(),
   isFeatured: z.boolean().optional(),
   variants: z
     .array(
       z.object({
+        // Keeps the variant's ID so carts holding it stay valid
+        _id: z.string().optional(),
         color: z.string().optional(),
         size: z.string().optional(),
         stock: z.number().int().min(0, 'Stock quantity must be 0 or greater'),
@@ -2,6 +2,7 @@ export enum ProductError {
   PRODUCT_NOT_FOUND = 'PRODUCT_NOT_FOUND',
   PRODUCT_ALREADY_EXISTS = 'PRODUCT_ALREADY_EXISTS',
   INVALID_CATEGORY = 'INVALID_CATEGORY',
+  INVALID_SPECIFICATIONS = 'INVALID_SPECIFICATIONS',
   INVALID_PRICE = 'INVALID_PRICE',
   INVALID_STOCK = 'INVALID_STOCK',
   UNAUTHORIZED_ACCESS = 'UNAUTHORIZED_ACCESS',
@@ -14,6 +15,8 @@ export const ProductErrorMessages = {
   [ProductError.PRODUCT_NOT_FOUND]: 'Product not found',
   [ProductError.PRODUCT_ALREADY_EXISTS]: 'Product already exists',
   [ProductError.INVALID_CATEGORY]: 'Invalid category',
+  [ProductError.INVALID_SPECIFICATIONS]:
+    "Specifications do not match the category's attributes",
   [ProductError.INVALID_PRICE]: 'Invalid price',
   [ProductError.INVALID_STOCK]: 'Invalid stock quantity',
   [ProductError.UNAUTHORIZED_ACCESS]: 'Unauthorized access to this product',
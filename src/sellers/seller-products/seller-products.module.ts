@@ -5,6 +5,7 @@ import { Category, CategorySchema } from '../../schemas/category.schema';
 import { SellerProductsController } from './seller-products.controller';
 import { SellerProductsService } from './seller-products.service';
 import { MinioService } from '../../minio/minio.service';
+import { CategoriesModule } from '../../categories/categories.module';
 
 @Module({
   imports: [
@@ -12,6 +13,7 @@ import { MinioService } from '../../minio/minio.service';
       { name: Product.name, schema: ProductSchema },
       { name: Category.name, schema: CategorySchema },
     ]),
+    CategoriesModule,
   ],
   controllers: [SellerProductsController],
   providers: [SellerProductsService, MinioService],
@@ -11,6 +11,10 @@ import { Category, CategoryDocument } from '../../schemas/category.schema';
 import { CreateProductDto, UpdateProductDto, FindAllProductsDto } from './dto';
 import { ProductError, ProductErrorMessages } from './enums';
 import { MinioService } from '../../minio/minio.service';
+import {
+  CategoriesService,
+  SpecificationValue,
+} from '../../categories/categories.service';
 
 @Injectable()
 export class SellerProductsService {
@@ -19,6 +23,7 @@ export class SellerProductsService {
     @InjectModel(Category.name) private categoryModel: Model<CategoryDocument>,
     private readonly minioService: MinioService,
     private readonly configService: ConfigService,
+    private readonly categoriesService: CategoriesService,
   ) {}
 
   /**
@@ -135,8 +140,14 @@ export class SellerProductsService {
       );
     }
 
+    const specifications = await this.checkSpecifications(
+      createProductDto.category,
+      createProductDto.specifications,
+    );
+
     const product = new this.productModel({
       ...createProductDto,
+      specifications,
       sellerId: new Types.ObjectId(sellerId),
       category: new Types.ObjectId(createProductDto.category),
     });
@@ -182,6 +193,14 @@ export class SellerProductsService {
       updateProductDto.category = updateProductDto.category as any;
     }
 
+    // Re-check specifications when they or the category change
+    if (updateProductDto.specifications || updateProductDto.category) {
+      updateProductDto.specifications = await this.checkSpecifications(
+        updateProductDto.category || existingProduct.category,
+        updateProductDto.specifications || existingProduct.specifications,
+      );
+    }
+
     const updatedProduct = await this.productModel
       .findByIdAndUpdate(
         productId,
@@ -400,4 +419,28 @@ export class SellerProductsService {
       }
     );
   }
+
+  /**
+   * Validate specifications against the category's attribute set
+   *
+   * @private
+   * @returns Specifications normalized to the attribute keys and types
+   */
+  private async checkSpecifications(
+    categoryId: Types.ObjectId | string,
+    specifications?: Record<string, SpecificationValue>,
+  ): Promise<Record<string, SpecificationValue>> {
+    const result = await this.categoriesService.validateSpecifications(
+      categoryId,
+      specifications,
+    );
+
+    if (result.errors.length > 0) {
+      throw new BadRequestException(
+        `${ProductErrorMessages[ProductError.INVALID_SPECIFICATIONS]}: ${result.errors.join('; ')}`,
+      );
+    }
+
+    return result.specifications;
+  }
 }
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+
+export const findSellerReviewsSchema = z.object({
+  page: z.coerce
+    .number()
+    .int()
+    .min(1, 'Page number must be 1 or greater')
+    .default(1),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be 1 or greater')
+    .max(100, 'Limit cannot exceed 100')
+    .default(10),
+  productId: z.string().optional(),
+  rating: z.coerce
+    .number()
+    .int()
+    .min(1, 'Rating must be at least 1')
+    .max(5, 'Rating cannot exceed 5')
+    .optional(),
+  replied: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+  sortBy: z.enum(['createdAt', 'rating', 'helpfulCount']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export type FindSellerReviewsDto = z.infer<typeof findSellerReviewsSchema>;
@@ -0,0 +1,2 @@
+export * from './find-seller-reviews.dto';
+export * from './reply-review.dto';
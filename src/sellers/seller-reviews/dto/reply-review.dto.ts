@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export const replyReviewSchema = z.object({
+  comment: z
+    .string()
+    .trim()
+    .min(2, 'Reply must be at least 2 characters')
+    .max(1000, 'Reply cannot exceed 1000 characters'),
+});
+
+export type ReplyReviewDto = z.infer<typeof replyReviewSchema>;
@@ -0,0 +1 @@
+export * from './seller-review-error.enum';
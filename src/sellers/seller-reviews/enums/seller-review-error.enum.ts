@@ -0,0 +1,15 @@
+export enum SellerReviewError {
+  REVIEW_NOT_FOUND = 'REVIEW_NOT_FOUND',
+  REVIEW_NOT_APPROVED = 'REVIEW_NOT_APPROVED',
+  REPLY_ALREADY_EXISTS = 'REPLY_ALREADY_EXISTS',
+  REPLY_NOT_FOUND = 'REPLY_NOT_FOUND',
+}
+
+export const SellerReviewErrorMessages = {
+  [SellerReviewError.REVIEW_NOT_FOUND]: 'Review not found',
+  [SellerReviewError.REVIEW_NOT_APPROVED]:
+    'Only approved reviews can be replied to',
+  [SellerReviewError.REPLY_ALREADY_EXISTS]:
+    'You have already replied to this review',
+  [SellerReviewError.REPLY_NOT_FOUND]: 'Reply not found',
+};
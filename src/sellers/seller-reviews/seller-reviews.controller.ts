@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Param,
+  Query,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { SellerReviewsService } from './seller-reviews.service';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../../common/guards/roles.guard';
+import { Roles } from '../../common/decorators/roles.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { UserRole } from '../../schemas/user.schema';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  findSellerReviewsSchema,
+  FindSellerReviewsDto,
+  replyReviewSchema,
+  ReplyReviewDto,
+} from './dto';
+
+const REPLY_BODY = {
+  schema: {
+    type: 'object',
+    required: ['comment'],
+    properties: {
+      comment: {
+        type: 'string',
+        minLength: 2,
+        maxLength: 1000,
+        example: 'Thank you for your feedback!',
+      },
+    },
+  },
+};
+
+@ApiTags('Seller Reviews')
+@Controller('seller/reviews')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.SELLER)
+@ApiBearerAuth()
+export class SellerReviewsController {
+  constructor(private readonly sellerReviewsService: SellerReviewsService) {}
+
+  /**
+   * Get approved reviews of the seller's products
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'Get reviews of seller products',
+    description:
+      "Retrieve approved reviews of the seller's products with filtering and pagination",
+  })
+  @ApiQuery({ name: 'page', required: false, description: 'Page number' })
+  @ApiQuery({ name: 'limit', required: false, description: 'Items per page' })
+  @ApiQuery({ name: 'productId', required: false, description: 'Product ID' })
+  @ApiQuery({ name: 'rating', required: false, description: 'Rating filter' })
+  @ApiQuery({
+    name: 'replied',
+    required: false,
+    enum: ['true', 'false'],
+    description: 'Only reviews with (or without) a reply',
+  })
+  @ApiQuery({
+    name: 'sortBy',
+    required: false,
+    enum: ['createdAt', 'rating', 'helpfulCount'],
+  })
+  @ApiQuery({ name: 'sortOrder', required: false, enum: ['asc', 'desc'] })
+  @ApiResponse({ status: 200, description: 'Reviews retrieved successfully' })
+  async getReviews(
+    @CurrentUser('id') sellerId: string,
+    @Query(new ZodValidationPipe(findSellerReviewsSchema))
+    query: FindSellerReviewsDto,
+  ) {
+    return this.sellerReviewsService.getReviews(sellerId, query);
+  }
+
+  /**
+   * Reply to a review
+   */
+  @Post(':id/reply')
+  @ApiOperation({
+    summary: 'Reply to review',
+    description:
+      'Post the public reply to an approved review of a seller product; one reply per review',
+  })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiBody(REPLY_BODY)
+  @ApiResponse({ status: 201, description: 'Reply posted successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid data, review not approved or already replied',
+  })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async replyToReview(
+    @CurrentUser('id') sellerId: string,
+    @Param('id') reviewId: string,
+    @Body(new ZodValidationPipe(replyReviewSchema))
+    replyReviewDto: ReplyReviewDto,
+  ) {
+    return this.sellerReviewsService.replyToReview(
+      sellerId,
+      reviewId,
+      replyReviewDto,
+    );
+  }
+
+  /**
+   * Edit the reply to a review
+   */
+  @Put(':id/reply')
+  @ApiOperation({
+    summary: 'Update review reply',
+    description: "Edit the seller's reply to a review",
+  })
+  @ApiParam({ name: 'id', description: 'Review ID' })
+  @ApiBody(REPLY_BODY)
+  @ApiResponse({ status: 200, description: 'Reply updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid data' })
+  @ApiResponse({ status: 404, description: 'Review or reply not found' })
+  async updateReply(
+    @CurrentUser('id') sellerId: string,
+    @Param('id') reviewId: string,
+    @Body(new ZodValidationPipe(replyReviewSchema))
+    replyReviewDto: ReplyReviewDto,
+  ) {
+    return this.sellerReviewsService.updateReply(
+      sellerId,
+      reviewId,
+      replyReviewDto,
+    );
+  }
+}
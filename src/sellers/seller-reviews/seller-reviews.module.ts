@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { Review, ReviewSchema } from '../../schemas/review.schema';
+import { Product, ProductSchema } from '../../schemas/product.schema';
+import { SellerReviewsController } from './seller-reviews.controller';
+import { SellerReviewsService } from './seller-reviews.service';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: Review.name, schema: ReviewSchema },
+      { name: Product.name, schema: ProductSchema },
+    ]),
+  ],
+  controllers: [SellerReviewsController],
+  providers: [SellerReviewsService],
+  exports: [SellerReviewsService],
+})
+export class SellerReviewsModule {}
@@ -0,0 +1,187 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Review, ReviewDocument } from '../../schemas/review.schema';
+import { Product, ProductDocument } from '../../schemas/product.schema';
+import { FindSellerReviewsDto, ReplyReviewDto } from './dto';
+import { SellerReviewError, SellerReviewErrorMessages } from './enums';
+
+/**
+ * Seller Reviews Service
+ *
+ * Lets sellers follow the approved reviews of their products and post one
+ * public reply per review, shown with the review wherever it is listed.
+ */
+@Injectable()
+export class SellerReviewsService {
+  constructor(
+    @InjectModel(Review.name) private reviewModel: Model<ReviewDocument>,
+    @InjectModel(Product.name) private productModel: Model<ProductDocument>,
+  ) {}
+
+  /**
+   * Get approved reviews of the seller's products
+   */
+  async getReviews(sellerId: string, options: FindSellerReviewsDto) {
+    const {
+      page = 1,
+      limit = 10,
+      productId,
+      rating,
+      replied,
+      sortBy = 'createdAt',
+      sortOrder = 'desc',
+    } = options;
+
+    const productIds = await this.productModel
+      .find({
+        sellerId: new Types.ObjectId(sellerId),
+        ...(productId &&
+          Types.ObjectId.isValid(productId) && {
+            _id: new Types.ObjectId(productId),
+          }),
+      })
+      .distinct('_id');
+
+    const query: Record<string, any> = {
+      productId: { $in: productIds },
+      isApproved: true,
+    };
+    if (rating) {
+      query.rating = rating;
+    }
+    if (replied !== undefined) {
+      query.sellerReply = { $exists: replied };
+    }
+
+    const skip = (page - 1) * limit;
+    const [reviews, total] = await Promise.all([
+      this.reviewModel
+        .find(query)
+        .populate('productId', 'name imageUrls')
+        .populate('userId', 'firstName lastName')
+        .sort({ [sortBy]: sortOrder === 'desc' ? -1 : 1, _id: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      this.reviewModel.countDocuments(query),
+    ]);
+
+    return {
+      data: reviews,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Post the seller's public reply to a review of one of their products
+   */
+  async replyToReview(
+    sellerId: string,
+    reviewId: string,
+    replyReviewDto: ReplyReviewDto,
+  ) {
+    const review = await this.findSellerReview(sellerId, reviewId);
+    if (!review.isApproved) {
+      throw new BadRequestException(
+        SellerReviewErrorMessages[SellerReviewError.REVIEW_NOT_APPROVED],
+      );
+    }
+
+    // Only one reply per review, also under concurrent requests
+    const updatedReview = await this.reviewModel
+      .findOneAndUpdate(
+        { _id: review._id, sellerReply: { $exists: false } },
+        {
+          $set: {
+            sellerReply: {
+              sellerId: new Types.ObjectId(sellerId),
+              comment: replyReviewDto.comment,
+              repliedAt: new Date(),
+            },
+          },
+        },
+        { new: true, timestamps: false },
+      )
+      .populate('productId', 'name imageUrls')
+      .populate('userId', 'firstName lastName')
+      .exec();
+
+    if (!updatedReview) {
+      throw new BadRequestException(
+        SellerReviewErrorMessages[SellerReviewError.REPLY_ALREADY_EXISTS],
+      );
+    }
+
+    return updatedReview;
+  }
+
+  /**
+   * Edit the seller's reply to a review
+   */
+  async updateReply(
+    sellerId: string,
+    reviewId: string,
+    replyReviewDto: ReplyReviewDto,
+  ) {
+    const review = await this.findSellerReview(sellerId, reviewId);
+
+    const updatedReview = await this.reviewModel
+      .findOneAndUpdate(
+        { _id: review._id, sellerReply: { $exists: true } },
+        {
+          $set: {
+            'sellerReply.comment': replyReviewDto.comment,
+            'sellerReply.editedAt': new Date(),
+          },
+        },
+        { new: true, timestamps: false },
+      )
+      .populate('productId', 'name imageUrls')
+      .populate('userId', 'firstName lastName')
+      .exec();
+
+    if (!updatedReview) {
+      throw new NotFoundException(
+        SellerReviewErrorMessages[SellerReviewError.REPLY_NOT_FOUND],
+      );
+    }
+
+    return updatedReview;
+  }
+
+  /**
+   * Find a review of one of the seller's products
+   *
+   * @private
+   */
+  private async findSellerReview(
+    sellerId: string,
+    reviewId: string,
+  ): Promise<ReviewDocument> {
+    const review = Types.ObjectId.isValid(reviewId)
+      ? await this.reviewModel.findById(reviewId)
+      : null;
+    const ownsProduct =
+      review &&
+      (await this.productModel.exists({
+        _id: review.productId,
+        sellerId: new Types.ObjectId(sellerId),
+      }));
+
+    if (!review || !ownsProduct) {
+      throw new NotFoundException(
+        SellerReviewErrorMessages[SellerReviewError.REVIEW_NOT_FOUND],
+      );
+    }
+
+    return review;
+  }
+}